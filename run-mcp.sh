@@ -11,5 +11,6 @@ echo "Example usage in Cursor:"
 echo "analyze-webgl(path: '/path/to/webgl/build')"
 echo ""
 
-# Run the server
+# Build the TypeScript server and run it
+npm run build --silent >&2 || exit 1
 node webgl-mcp.mjs
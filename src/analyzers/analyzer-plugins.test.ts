@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalyzerPlugin, AnalyzerPluginLoader } from './analyzer-plugins';
+import { WebGLBuildAnalyzer } from './build-analyzer';
+
+describe('analyzer plugins', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-plugins-'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('AnalyzerPluginLoader', () => {
+    it('loads the valid plugins a module exports and reports the rest', async () => {
+      const configPath = path.join(workDir, 'webgl-mcp.config.json');
+      await fs.writeFile(configPath, JSON.stringify({ analyzerPlugins: ['./plugins.js', './missing.js'] }));
+      await fs.writeFile(path.join(workDir, 'plugins.js'), [
+        'exports.plugins = [',
+        '  { name: "forge", fileTypes: { ".fpk": "forge-pak" } },',
+        '  { name: "empty" }',
+        '];'
+      ].join('\n'));
+
+      const { plugins, errors } = await new AnalyzerPluginLoader().load(configPath);
+
+      expect(plugins.map(plugin => plugin.name)).toEqual(['forge']);
+      expect(errors).toEqual([
+        { source: './plugins.js', message: 'plugin: A plugin needs analyzeFile, analyzeBuild or fileTypes' },
+        { source: './missing.js', message: expect.stringContaining("'./missing.js'") }
+      ]);
+    });
+
+    it('loads nothing without a config file', async () => {
+      expect(await new AnalyzerPluginLoader().load(path.join(workDir, 'webgl-mcp.config.json'))).toEqual({ plugins: [], errors: [] });
+    });
+  });
+
+  describe('WebGLBuildAnalyzer hooks', () => {
+    const forge: AnalyzerPlugin = {
+      name: 'forge',
+      fileTypes: { '.fpk': 'forge-pak' },
+      appliesTo: ['forge-pak'],
+      analyzeFile: file => ({
+        findings: [
+          { ruleId: 'forge/uncompressed-pak', severity: 'warning', category: 'size', message: `${file.path} is not compressed`, autoFixable: false },
+          { ruleId: 'forge/broken', message: 'No severity' } as never
+        ],
+        data: { entries: file.content.readUInt32LE(0) }
+      }),
+      analyzeBuild: build => ({ data: { paks: build.analysis.files.filter(file => file.type === 'forge-pak').length } })
+    };
+    const failing: AnalyzerPlugin = {
+      name: 'failing',
+      analyzeBuild: () => {
+        throw new Error('out of memory');
+      }
+    };
+
+    it('runs file hooks on their own types and build hooks once, keeping valid findings and data', async () => {
+      const entries = Buffer.alloc(8);
+      entries.writeUInt32LE(3, 0);
+      await fs.writeFile(path.join(workDir, 'level.fpk'), entries);
+      await fs.writeFile(path.join(workDir, 'game.js'), 'console.log("game");');
+
+      const analyzer = new WebGLBuildAnalyzer();
+      analyzer.registerPlugins([forge, failing]);
+      const analysis = await analyzer.analyzeBuild(workDir);
+      const pak = analysis.files.find(file => file.path === 'level.fpk')!;
+
+      expect(pak.type).toBe('forge-pak');
+      expect(pak.suggestions.map(finding => [finding.ruleId, finding.file])).toEqual([['forge/uncompressed-pak', 'level.fpk']]);
+      expect(pak.pluginData).toEqual({ forge: { entries: 3 } });
+      expect(analysis.files.find(file => file.path === 'game.js')?.pluginData).toBeUndefined();
+      expect(analysis.pluginData).toEqual({ forge: { paks: 1 } });
+      expect(analysis.suggestions.find(finding => finding.ruleId === 'plugin/failed')?.message)
+        .toBe('Analyzer plugin "failing" failed: out of memory');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import type { BuildAnalysis, BuildFileAnalysis } from './build-analyzer';
+import { Finding } from './findings';
+import { errorMessage, readConfigFile, requirePlugin, resolveConfigPath } from './config-file';
+
+export interface AnalyzerPluginFile {
+  // Path relative to the build folder
+  path: string;
+  type: string;
+  // Decoded content, so "level.json.br" arrives as JSON
+  content: Buffer;
+  analysis: BuildFileAnalysis;
+}
+
+export interface AnalyzerPluginBuild {
+  buildPath: string;
+  analysis: BuildAnalysis;
+}
+
+export interface AnalyzerPluginResult {
+  findings?: Finding[];
+  // Stored under the plugin's name in pluginData of the file or the build
+  data?: unknown;
+}
+
+type HookResult = AnalyzerPluginResult | void | Promise<AnalyzerPluginResult | void>;
+
+export interface AnalyzerPlugin {
+  name: string;
+  // Extra file types by extension, e.g. { ".fpk": "forge-pak" }; checked before the built-in types
+  fileTypes?: Record<string, string>;
+  // File types analyzeFile runs on; every file when omitted
+  appliesTo?: string[];
+  analyzeFile?: (file: AnalyzerPluginFile) => HookResult;
+  // Runs once after the built-in build checks
+  analyzeBuild?: (build: AnalyzerPluginBuild) => HookResult;
+}
+
+export interface AnalyzerPluginError {
+  source: string;
+  message: string;
+}
+
+const analyzerPluginSchema = z.object({
+  name: z.string().min(1),
+  fileTypes: z.record(z.string().regex(/^\.[^./]+(\.[^./]+)*$/, 'File type keys are extensions such as ".fpk"'), z.string().min(1)).optional(),
+  appliesTo: z.array(z.string().min(1)).optional(),
+  analyzeFile: z.function().optional(),
+  analyzeBuild: z.function().optional()
+}).refine(plugin => plugin.analyzeFile || plugin.analyzeBuild || plugin.fileTypes, {
+  message: 'A plugin needs analyzeFile, analyzeBuild or fileTypes'
+});
+
+const analyzerPluginConfigSchema = z.object({
+  // Module paths relative to the config file, or npm package names
+  analyzerPlugins: z.array(z.string()).default([])
+}).passthrough();
+
+export class AnalyzerPluginLoader {
+  // Load the plugins named by the config file; ones that fail to load or validate are reported in errors and skipped
+  async load(configPath = resolveConfigPath()): Promise<{ plugins: AnalyzerPlugin[]; errors: AnalyzerPluginError[] }> {
+    const plugins: AnalyzerPlugin[] = [];
+    const errors: AnalyzerPluginError[] = [];
+
+    let specifiers: string[];
+    try {
+      const content = await readConfigFile(configPath);
+      if (content === undefined) return { plugins, errors };
+      specifiers = analyzerPluginConfigSchema.parse(content).analyzerPlugins;
+    } catch (error) {
+      errors.push({ source: configPath, message: this.describeError(error) });
+      return { plugins, errors };
+    }
+
+    for (const specifier of specifiers) {
+      try {
+        const exported = requirePlugin(specifier, configPath).exports as { default?: unknown; plugins?: unknown };
+        const candidates = Array.isArray(exported) ? exported
+          : Array.isArray(exported?.plugins) ? exported.plugins
+          : [exported?.default ?? exported];
+
+        for (const candidate of candidates) {
+          const result = analyzerPluginSchema.safeParse(candidate);
+          if (result.success) {
+            // Keep the original object so hooks run with their own "this"
+            plugins.push(candidate as AnalyzerPlugin);
+          } else {
+            errors.push({ source: specifier, message: this.describeError(result.error) });
+          }
+        }
+      } catch (error) {
+        errors.push({ source: specifier, message: this.describeError(error) });
+      }
+    }
+
+    return { plugins, errors };
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof z.ZodError) {
+      return error.issues.map(issue => `${issue.path.join('.') || 'plugin'}: ${issue.message}`).join('; ');
+    }
+    return errorMessage(error);
+  }
+}
@@ -0,0 +1,138 @@
+import { BuildAnalysis, BuildFileAnalysis } from './build-analyzer';
+import { budgetThresholds, evaluateBudget, parseSize, webglBudgetSchema } from './budget';
+import { createFinding } from './findings';
+
+const file = (filePath: string, type: string, size: number, details: Partial<BuildFileAnalysis> = {}): BuildFileAnalysis => ({
+  path: filePath,
+  size,
+  compressedSize: Math.round(size / 4),
+  brotliSize: Math.round(size / 5),
+  type,
+  suggestions: [],
+  ...details
+});
+
+const analysis = (files: BuildFileAnalysis[], details: Partial<BuildAnalysis> = {}): BuildAnalysis => {
+  const served = files.filter(entry => !entry.alternateOf);
+  return {
+    totalSize: served.reduce((sum, entry) => sum + entry.size, 0),
+    compressedSize: served.reduce((sum, entry) => sum + entry.compressedSize, 0),
+    brotliSize: served.reduce((sum, entry) => sum + entry.brotliSize, 0),
+    files,
+    codecRecommendations: [],
+    fileStats: { total: files.length, js: 0, wasm: 0, textures: 0, other: 0 },
+    largeFiles: [],
+    textureMemory: { vramBytes: 0, vramBytesWithMipmaps: 0 },
+    suggestions: [],
+    ...details
+  };
+};
+
+describe('parseSize', () => {
+  it('reads bytes and case-insensitive units', () => {
+    expect(parseSize('1024')).toBe(1024);
+    expect(parseSize('512KB')).toBe(512 * 1024);
+    expect(parseSize(' 1.5 mb ')).toBe(1.5 * 1024 * 1024);
+    expect(parseSize('20 megabytes')).toBeUndefined();
+  });
+});
+
+describe('webglBudgetSchema', () => {
+  it('turns size strings into bytes and rejects unknown keys', () => {
+    expect(webglBudgetSchema.parse({ totalSize: '20MB', fileTypes: { javascript: { compressedSize: '1KB', count: 3 } } }))
+      .toEqual({ totalSize: 20 * 1024 * 1024, fileTypes: { javascript: { compressedSize: 1024, count: 3 } } });
+    expect(webglBudgetSchema.safeParse({ totalSize: 'huge' }).success).toBe(false);
+    expect(webglBudgetSchema.safeParse({ maxSize: 10 }).success).toBe(false);
+  });
+});
+
+describe('evaluateBudget', () => {
+  const build = analysis([
+    file('index.html', 'html', 2_000),
+    file('Build/game.js', 'javascript', 300_000),
+    file('Build/game.wasm', 'webassembly', 5_000_000),
+    // A precompressed sibling is an alternative to game.wasm and is not counted again
+    file('Build/game.wasm.br', 'webassembly', 1_200_000, { alternateOf: 'Build/game.wasm', encoding: 'brotli', decodedSize: 5_000_000 }),
+    file('Textures/atlas.png', 'texture', 700_000)
+  ], { textureMemory: { vramBytes: 4_194_304, vramBytesWithMipmaps: 5_592_405 } });
+
+  it('passes when every limit holds and only checks the limits given', () => {
+    const evaluation = evaluateBudget(build, { totalSize: 6_002_000, fileCount: 4 });
+
+    expect(evaluation).toEqual({
+      passed: true,
+      checks: [
+        { metric: 'totalSize', limit: 6_002_000, actual: 6_002_000, unit: 'bytes', passed: true },
+        { metric: 'fileCount', limit: 4, actual: 4, unit: 'count', passed: true }
+      ],
+      violations: []
+    });
+  });
+
+  it('totals file types and WebAssembly over the served files', () => {
+    const evaluation = evaluateBudget(build, {
+      fileTypes: { webassembly: { size: 4_000_000, count: 1 }, javascript: { compressedSize: 50_000 } },
+      wasmSize: 4_000_000
+    });
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.checks.map(check => [check.metric, check.actual, check.passed])).toEqual([
+      ['fileTypes.webassembly.size', 5_000_000, false],
+      ['fileTypes.webassembly.count', 1, true],
+      ['fileTypes.javascript.compressedSize', 75_000, false],
+      ['wasmSize', 5_000_000, false]
+    ]);
+    expect(evaluation.violations.map(check => check.metric))
+      .toEqual(['fileTypes.webassembly.size', 'fileTypes.javascript.compressedSize', 'wasmSize']);
+  });
+
+  it('lists each file over maxFileSize, or the largest file when none is', () => {
+    expect(evaluateBudget(build, { maxFileSize: 500_000 }).violations.map(check => [check.file, check.actual]))
+      .toEqual([['Build/game.wasm', 5_000_000], ['Textures/atlas.png', 700_000]]);
+    expect(evaluateBudget(build, { maxFileSize: 6_000_000 }).checks)
+      .toEqual([{ metric: 'maxFileSize', limit: 6_000_000, actual: 5_000_000, unit: 'bytes', passed: true }]);
+  });
+
+  it('checks texture memory and the texture share of the build', () => {
+    const evaluation = evaluateBudget(build, { textureVram: 4_194_304, textureShare: 0.2 });
+
+    expect(evaluation.checks).toEqual([
+      { metric: 'textureVram', limit: 4_194_304, actual: 5_592_405, unit: 'bytes', passed: false },
+      { metric: 'textureShare', limit: 0.2, actual: 700_000 / 6_002_000, unit: 'ratio', passed: true }
+    ]);
+  });
+
+  it('counts findings per severity, from the build and its files by default', () => {
+    const withFindings = analysis([
+      file('Build/game.js', 'javascript', 10, {
+        suggestions: [createFinding('js/unminified', 'warning', 'size', 'Unminified JavaScript')]
+      })
+    ], {
+      suggestions: [
+        createFinding('build/no-compression', 'error', 'size', 'No compressed files'),
+        createFinding('build/no-compression', 'error', 'size', 'No compressed files')
+      ]
+    });
+
+    expect(evaluateBudget(withFindings, { findings: { error: 0, warning: 1 } }).checks.map(check => [check.metric, check.actual, check.passed]))
+      .toEqual([['findings.warning', 1, true], ['findings.error', 1, false]]);
+    expect(evaluateBudget(withFindings, { findings: { error: 0 } }, []).passed).toBe(true);
+  });
+});
+
+describe('budgetThresholds', () => {
+  it('replaces the analyzer thresholds the budget sets', () => {
+    expect(budgetThresholds(webglBudgetSchema.parse({
+      totalSize: '50MB',
+      fileTypes: { javascript: { size: '5MB' } },
+      maxFileSize: '8MB',
+      textureVram: '512MB'
+    }))).toEqual({
+      totalSize: 50 * 1024 * 1024,
+      javascriptSize: 5 * 1024 * 1024,
+      textureShare: undefined,
+      largeFileSize: 8 * 1024 * 1024,
+      textureVram: 512 * 1024 * 1024
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { BuildAnalysis, BuildThresholds, servedFiles } from './build-analyzer';
+import { Finding, FindingSeverity, FINDING_SEVERITIES, dedupeFindings } from './findings';
+import { pathExists } from './build-locator';
+
+// Read from the build root; the analyzer leaves it out of the build's own files
+export const BUDGET_FILE_NAME = 'webgl-budget.json';
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024, gb: 1024 * 1024 * 1024 };
+
+const SIZE_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i;
+
+// Bytes from strings such as "512KB", "20 MB" or "1024"; undefined when the string is not a size
+export function parseSize(value: string): number | undefined {
+  const match = SIZE_PATTERN.exec(value);
+  if (!match) return undefined;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+// Sizes are bytes or strings such as "512KB" and "20 MB"
+const sizeSchema = z.union([
+  z.number().nonnegative(),
+  z.string().regex(SIZE_PATTERN, 'Sizes are bytes or strings such as "20MB"')
+]).transform(value => typeof value === 'number' ? value : parseSize(value)!);
+
+const sizeLimitSchema = z.object({
+  size: sizeSchema.optional(),
+  // Gzipped size, as reported in compressedSize
+  compressedSize: sizeSchema.optional(),
+  count: z.number().int().nonnegative().optional()
+}).strict();
+
+export const webglBudgetSchema = z.object({
+  totalSize: sizeSchema.optional(),
+  totalCompressedSize: sizeSchema.optional(),
+  // Totals per file type from the analysis, e.g. "javascript", "texture", "webassembly"
+  fileTypes: z.record(sizeLimitSchema).optional(),
+  // Any single file
+  maxFileSize: sizeSchema.optional(),
+  // Decoded size of all WebAssembly modules together
+  wasmSize: sizeSchema.optional(),
+  // Estimated GPU memory for textures, with mipmaps
+  textureVram: sizeSchema.optional(),
+  fileCount: z.number().int().nonnegative().optional(),
+  // Largest share of the build textures may take, from 0 to 1
+  textureShare: z.number().min(0).max(1).optional(),
+  // Most findings allowed at each severity
+  findings: z.object({
+    error: z.number().int().nonnegative().optional(),
+    warning: z.number().int().nonnegative().optional(),
+    info: z.number().int().nonnegative().optional()
+  }).strict().optional()
+}).strict();
+
+export type WebGLBudget = z.infer<typeof webglBudgetSchema>;
+
+export interface BudgetCheck {
+  // e.g. "totalSize" or "fileTypes.javascript.compressedSize"
+  metric: string;
+  limit: number;
+  actual: number;
+  unit: 'bytes' | 'count' | 'ratio';
+  passed: boolean;
+  file?: string;
+}
+
+export interface BudgetEvaluation {
+  budgetPath?: string;
+  passed: boolean;
+  checks: BudgetCheck[];
+  violations: BudgetCheck[];
+}
+
+export class BudgetError extends Error {
+  constructor(message: string, public budgetPath: string) {
+    super(message);
+    this.name = 'BudgetError';
+  }
+}
+
+// The budget at the build root, or undefined when the build has none
+export async function loadBudget(buildPath: string, budgetPath = path.join(buildPath, BUDGET_FILE_NAME)): Promise<WebGLBudget | undefined> {
+  if (!await pathExists(budgetPath)) return undefined;
+
+  let content: unknown;
+  try {
+    content = JSON.parse(await fs.readFile(budgetPath, 'utf8'));
+  } catch (error) {
+    throw new BudgetError(`Could not read ${budgetPath}: ${error instanceof Error ? error.message : String(error)}`, budgetPath);
+  }
+
+  const result = webglBudgetSchema.safeParse(content);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'budget'}: ${issue.message}`);
+    throw new BudgetError(`Invalid budget ${budgetPath}: ${issues.join('; ')}`, budgetPath);
+  }
+
+  return result.data;
+}
+
+// Budget limits that replace the analyzer's built-in warning thresholds
+export function budgetThresholds(budget: WebGLBudget): Partial<BuildThresholds> {
+  return {
+    totalSize: budget.totalSize,
+    javascriptSize: budget.fileTypes?.javascript?.size,
+    textureShare: budget.textureShare,
+    largeFileSize: budget.maxFileSize,
+    textureVram: budget.textureVram
+  };
+}
+
+export function evaluateBudget(
+  analysis: BuildAnalysis,
+  budget: WebGLBudget,
+  findings: Finding[] = dedupeFindings([...analysis.suggestions, ...analysis.files.flatMap(file => file.suggestions)])
+): BudgetEvaluation {
+  const checks: BudgetCheck[] = [];
+  // Precompressed siblings are alternatives to files already counted
+  const files = servedFiles(analysis);
+  const check = (metric: string, limit: number | undefined, actual: number, unit: BudgetCheck['unit'] = 'bytes', file?: string) => {
+    if (limit === undefined) return;
+    checks.push({ metric, limit, actual, unit, passed: actual <= limit, ...(file ? { file } : {}) });
+  };
+
+  check('totalSize', budget.totalSize, analysis.totalSize);
+  check('totalCompressedSize', budget.totalCompressedSize, analysis.compressedSize);
+  check('fileCount', budget.fileCount, files.length, 'count');
+
+  for (const [type, limits] of Object.entries(budget.fileTypes ?? {})) {
+    const ofType = files.filter(file => file.type === type);
+    check(`fileTypes.${type}.size`, limits.size, ofType.reduce((sum, file) => sum + file.size, 0));
+    check(`fileTypes.${type}.compressedSize`, limits.compressedSize, ofType.reduce((sum, file) => sum + file.compressedSize, 0));
+    check(`fileTypes.${type}.count`, limits.count, ofType.length, 'count');
+  }
+
+  // Only the offending files are listed, so a passing budget stays short
+  if (budget.maxFileSize !== undefined) {
+    const oversized = files.filter(file => file.size > budget.maxFileSize!);
+    for (const file of oversized) check('maxFileSize', budget.maxFileSize, file.size, 'bytes', file.path);
+    if (oversized.length === 0) check('maxFileSize', budget.maxFileSize, Math.max(0, ...files.map(file => file.size)));
+  }
+
+  check('wasmSize', budget.wasmSize, files
+    .filter(file => file.type === 'webassembly')
+    .reduce((sum, file) => sum + (file.decodedSize ?? file.size), 0));
+  check('textureVram', budget.textureVram, analysis.textureMemory.vramBytesWithMipmaps);
+
+  if (budget.textureShare !== undefined) {
+    const textureSize = files.filter(file => file.type === 'texture').reduce((sum, file) => sum + file.size, 0);
+    check('textureShare', budget.textureShare, analysis.totalSize ? textureSize / analysis.totalSize : 0, 'ratio');
+  }
+
+  for (const severity of FINDING_SEVERITIES) {
+    check(`findings.${severity}`, budget.findings?.[severity as FindingSeverity], findings.filter(finding => finding.severity === severity).length, 'count');
+  }
+
+  const violations = checks.filter(item => !item.passed);
+  return { passed: violations.length === 0, checks, violations };
+}
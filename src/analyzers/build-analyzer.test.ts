@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { brotliCompressSync, gzipSync } from 'zlib';
+import { WebGLBuildAnalyzer } from './build-analyzer';
+import { isZstdAvailable, measureCompressedSizes } from './compression';
+
+const FIXTURES = path.join(__dirname, '__fixtures__');
+
+describe('WebGLBuildAnalyzer', () => {
+  const analyzer = new WebGLBuildAnalyzer();
+  let buildDir: string;
+
+  const writeBuildFile = async (file: string, content: string | Buffer) => {
+    await fs.mkdir(path.dirname(path.join(buildDir, file)), { recursive: true });
+    await fs.writeFile(path.join(buildDir, file), content);
+  };
+
+  beforeEach(async () => {
+    buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-analyzer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  describe('compression', () => {
+    const script = Buffer.from('function update(entity) { entity.x += entity.vx; entity.y += entity.vy; }\n'.repeat(500));
+
+    it('measures zstd only where the runtime has it', async () => {
+      const sizes = await measureCompressedSizes(script);
+
+      expect(sizes.brotli).toBeLessThan(sizes.gzip);
+      expect('zstd' in sizes).toBe(isZstdAvailable());
+    });
+
+    it('leaves precompressed siblings out of the totals and the codec recommendations', async () => {
+      await writeBuildFile('game.js', script);
+      await writeBuildFile('game.js.gz', gzipSync(script));
+      await writeBuildFile('game.js.br', brotliCompressSync(script));
+
+      const analysis = await analyzer.analyzeBuild(buildDir);
+      const sibling = analysis.files.find(file => file.path === 'game.js.gz');
+
+      expect(sibling).toMatchObject({ alternateOf: 'game.js', encoding: 'gzip', type: 'javascript' });
+      expect(analysis.totalSize).toBe(script.length);
+      expect(analysis.fileStats.total).toBe(1);
+      expect(analysis.codecRecommendations).toEqual([expect.objectContaining({
+        type: 'javascript',
+        files: 1,
+        uncompressedSize: script.length,
+        best: isZstdAvailable() ? expect.stringMatching(/^(brotli|zstd)$/) : 'brotli'
+      })]);
+    });
+
+    it('recommends no codec for file types that do not compress', async () => {
+      await writeBuildFile('level.bin', randomBytes(8192));
+
+      const analysis = await analyzer.analyzeBuild(buildDir);
+
+      expect(analysis.codecRecommendations.map(recommendation => [recommendation.type, recommendation.best, recommendation.fallback]))
+        .toEqual([[analysis.files[0].type, 'none', undefined]]);
+    });
+  });
+
+  describe('texture memory', () => {
+    // 8192x8192 RGBA8 is 256 MB, about 341 MB with mipmaps
+    const writeLargeTexture = async () => {
+      const png = Buffer.from(await fs.readFile(path.join(FIXTURES, 'rgba.png')));
+      png.writeUInt32BE(8192, 16);
+      png.writeUInt32BE(8192, 20);
+      await writeBuildFile('atlas.png', png);
+    };
+    const vramFindings = (analysis: { suggestions: { ruleId: string }[] }) =>
+      analysis.suggestions.filter(finding => finding.ruleId === 'build/texture-vram');
+
+    it('reports textures over 256 MB of GPU memory', async () => {
+      await writeLargeTexture();
+
+      expect(vramFindings(await analyzer.analyzeBuild(buildDir))).toHaveLength(1);
+    });
+
+    it('uses the textureVram threshold instead when one is given', async () => {
+      await writeLargeTexture();
+
+      expect(vramFindings(await analyzer.analyzeBuild(buildDir, { textureVram: 512 * 1024 * 1024 }))).toEqual([]);
+    });
+  });
+
+  describe('Unity builds', () => {
+    it('summarizes the served files, not their precompressed siblings', async () => {
+      const wasm = await fs.readFile(path.join(FIXTURES, 'names.wasm'));
+      // Incompressible, so its Brotli sibling is the larger file
+      const data = randomBytes(4096);
+      await writeBuildFile('Build/game.loader.js', 'function createUnityInstance() {}\n');
+      await writeBuildFile('Build/game.wasm', wasm);
+      await writeBuildFile('Build/game.wasm.br', brotliCompressSync(wasm));
+      await writeBuildFile('Build/game.data', data);
+      await writeBuildFile('Build/game.data.br', brotliCompressSync(data));
+
+      const analysis = await analyzer.analyzeBuild(buildDir);
+      const loaderSize = 'function createUnityInstance() {}\n'.length;
+
+      expect(analysis.unityBuild?.parts.wasm?.path).toBe(path.join('Build', 'game.wasm'));
+      expect(analysis.unityBuild?.parts.data?.path).toBe(path.join('Build', 'game.data'));
+      expect(analysis.unityBuild?.downloadSize).toBe(loaderSize + wasm.length + data.length);
+      expect(analysis.unityBuild?.dominantPart).toBe('data');
+      expect(analysis.unityBuild?.parts.data?.share).toBe(data.length / (loaderSize + wasm.length + data.length));
+    });
+  });
+});
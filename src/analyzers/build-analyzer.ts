@@ -1,66 +1,160 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import * as zlib from 'zlib';
-import { promisify } from 'util';
+import { CompressionCodec, decodeContent, measureCompressedSizes, stripCompressionSuffix, ContentEncoding } from './compression';
+import { UnityBuildAnalyzer, UnityBuildSummary, UnityDataAnalysis } from './unity-build';
+import { WasmInspector, WasmAnalysis } from './wasm-inspector';
+import { TextureInspector, TextureInfo } from './texture-inspector';
+import { Finding, createFinding, findingSchema } from './findings';
+import { GLSLAnalyzer, GLSLShaderAnalysis, ShaderStage, extractEmbeddedShaders } from './glsl-analyzer';
+import { AnalyzerPlugin, AnalyzerPluginResult } from './analyzer-plugins';
+import { BUDGET_FILE_NAME } from './budget';
 
-const gzip = promisify(zlib.gzip);
+// Below this saving over the uncompressed bytes, a file type is best served as is
+const MIN_CODEC_SAVING = 0.05;
+// Files already gzip-encoded are only worth re-encoding when Brotli saves at least this much
+const MIN_BROTLI_GAIN = 0.1;
+const MIN_BROTLI_GAIN_BYTES = 10 * 1024;
 
+// Warning thresholds for the build structure checks; a webgl-budget.json replaces them per project
+export interface BuildThresholds {
+  totalSize: number;
+  javascriptSize: number;
+  // Share of the build size taken by textures, from 0 to 1
+  textureShare: number;
+  largeFileSize: number;
+  // Estimated GPU memory of all textures, with mipmaps
+  textureVram: number;
+}
+
+export const DEFAULT_BUILD_THRESHOLDS: BuildThresholds = {
+  totalSize: 100 * 1024 * 1024,
+  javascriptSize: 20 * 1024 * 1024,
+  textureShare: 0.5,
+  largeFileSize: 2 * 1024 * 1024,
+  textureVram: 256 * 1024 * 1024
+};
+
+// Totals leave out alternate encodings (see alternateOf), which are never downloaded alongside the original
 export interface BuildAnalysis {
   totalSize: number;
   compressedSize: number;
+  brotliSize: number;
+  zstdSize?: number;
   files: BuildFileAnalysis[];
-  suggestions: string[];
-  templateUsed?: string;
-  templateConfig?: {
-    scaleToFit?: boolean;
-    optimizeForPixelArt?: boolean;
-    hasLoadingBar?: boolean;
-    mobileOptimized?: boolean;
-  };
+  codecRecommendations: CodecRecommendation[];
+  fileStats: BuildFileStats;
+  largeFiles: { path: string; size: number }[];
+  textureMemory: { vramBytes: number; vramBytesWithMipmaps: number };
+  suggestions: Finding[];
+  unityBuild?: UnityBuildSummary;
+  // Data attached by analyzer plugins, by plugin name
+  pluginData?: Record<string, unknown>;
+}
+
+export interface BuildFileStats {
+  total: number;
+  js: number;
+  wasm: number;
+  textures: number;
+  other: number;
+}
+
+// Sizes per codec for one file type, measured on the uncompressed content
+export interface CodecRecommendation {
+  type: string;
+  files: number;
+  uncompressedSize: number;
+  gzipSize: number;
+  brotliSize: number;
+  zstdSize?: number;
+  // 'none' when no codec saves enough to be worth the decode, e.g. for PNG or KTX2
+  best: CompressionCodec | 'none';
+  // Widest-supported codec to serve next to zstd, which Safari does not decode
+  fallback?: CompressionCodec;
 }
 
+// For encoded files (.br, .gz, .unityweb) the codec sizes are measured on the decoded content, so they
+// show what each codec would download instead of compressing already-compressed bytes
 export interface BuildFileAnalysis {
   path: string;
   size: number;
   compressedSize: number;
+  brotliSize: number;
+  zstdSize?: number;
   type: string;
-  suggestions: string[];
+  encoding?: ContentEncoding;
+  decodedSize?: number;
+  // Set on a precompressed sibling such as "game.wasm.br" next to "game.wasm"; it is not analyzed again
+  alternateOf?: string;
+  unityData?: UnityDataAnalysis;
+  wasm?: WasmAnalysis;
+  texture?: TextureInfo;
+  shader?: GLSLShaderAnalysis;
+  embeddedShaders?: (GLSLShaderAnalysis & { line: number })[];
+  pluginData?: Record<string, unknown>;
+  suggestions: Finding[];
 }
 
 export class WebGLBuildAnalyzer {
-  async analyzeBuild(buildPath: string): Promise<BuildAnalysis> {
+  private unityAnalyzer = new UnityBuildAnalyzer();
+  private wasmInspector = new WasmInspector();
+  private textureInspector = new TextureInspector();
+  private glslAnalyzer = new GLSLAnalyzer();
+  private plugins: AnalyzerPlugin[] = [];
+
+  // Plugins run in registration order after the built-in checks
+  registerPlugins(plugins: AnalyzerPlugin[]): void {
+    this.plugins.push(...plugins);
+  }
+
+  async analyzeBuild(buildPath: string, thresholds: Partial<BuildThresholds> = {}): Promise<BuildAnalysis> {
     const analysis: BuildAnalysis = {
       totalSize: 0,
       compressedSize: 0,
+      brotliSize: 0,
       files: [],
+      codecRecommendations: [],
+      fileStats: { total: 0, js: 0, wasm: 0, textures: 0, other: 0 },
+      largeFiles: [],
+      textureMemory: { vramBytes: 0, vramBytesWithMipmaps: 0 },
       suggestions: []
     };
 
     try {
-      const files = await this.getAllFiles(buildPath);
+      // The budget describes the build rather than being part of it
+      const files = (await this.getAllFiles(buildPath)).filter(file => file !== path.join(buildPath, BUDGET_FILE_NAME));
+      const fileSet = new Set(files);
       
       for (const file of files) {
-        const fileAnalysis = await this.analyzeFile(file, buildPath);
+        const original = stripCompressionSuffix(file);
+        const fileAnalysis = original !== file && fileSet.has(original)
+          ? await this.analyzeAlternate(file, original, buildPath)
+          : await this.analyzeFile(file, buildPath);
         analysis.files.push(fileAnalysis);
+        if (fileAnalysis.alternateOf) continue;
+
         analysis.totalSize += fileAnalysis.size;
         analysis.compressedSize += fileAnalysis.compressedSize;
-      }
-
-      // Check for HTML template usage
-      const indexFile = files.find(f => path.basename(f).toLowerCase() === 'index.html');
-      if (indexFile) {
-        const htmlAnalysis = await this.analyzeHTMLTemplate(indexFile);
-        analysis.templateUsed = htmlAnalysis.templateName;
-        analysis.templateConfig = htmlAnalysis.config;
-        
-        // Add template-specific suggestions
-        if (htmlAnalysis.suggestions.length > 0) {
-          analysis.suggestions.push(...htmlAnalysis.suggestions);
+        analysis.brotliSize += fileAnalysis.brotliSize;
+        if (fileAnalysis.zstdSize !== undefined) {
+          analysis.zstdSize = (analysis.zstdSize ?? 0) + fileAnalysis.zstdSize;
         }
       }
+      analysis.codecRecommendations = this.recommendCodecs(servedFiles(analysis));
+
+      // Identify Unity loader/framework/data/wasm outputs
+      analysis.unityBuild = this.unityAnalyzer.summarizeBuild(servedFiles(analysis)) ?? undefined;
 
       // Analyze overall build
-      this.analyzeBuildStructure(analysis);
+      this.analyzeBuildStructure(analysis, {
+        ...DEFAULT_BUILD_THRESHOLDS,
+        ...Object.fromEntries(Object.entries(thresholds).filter(([, value]) => value !== undefined))
+      });
+
+      // Studio-specific whole-build checks
+      for (const plugin of this.plugins.filter(plugin => plugin.analyzeBuild)) {
+        await this.runPlugin(plugin, () => plugin.analyzeBuild!({ buildPath, analysis }), analysis);
+      }
 
     } catch (error) {
       console.error('Error analyzing build:', error);
@@ -86,100 +180,191 @@ export class WebGLBuildAnalyzer {
     return files;
   }
 
-  private async analyzeHTMLTemplate(filePath: string): Promise<{
-    templateName: string;
-    config: {
-      scaleToFit?: boolean;
-      optimizeForPixelArt?: boolean;
-      hasLoadingBar?: boolean;
-      mobileOptimized?: boolean;
-    };
-    suggestions: string[];
-  }> {
-    const content = await fs.readFile(filePath, 'utf8');
-    const suggestions: string[] = [];
-    let templateName = 'Unknown';
-    const config: {
-      scaleToFit?: boolean;
-      optimizeForPixelArt?: boolean;
-      hasLoadingBar?: boolean;
-      mobileOptimized?: boolean;
-    } = {};
-
-    // Check for Better Minimal WebGL Template
-    if (content.includes('BetterMinimal') || 
-        (content.includes('scaleToFit') && content.includes('data-pixel-art'))) {
-      templateName = 'Better Minimal WebGL Template';
-      
-      // Check for scaling configuration
-      config.scaleToFit = !content.includes('scaleToFit = false');
-      
-      // Check for pixel art optimization
-      if (content.includes('data-pixel-art="true"')) {
-        config.optimizeForPixelArt = true;
-      }
-      
-      // Check for loading bar
-      if (content.includes('progressHandler') && content.includes('linear-gradient')) {
-        config.hasLoadingBar = true;
-      }
-      
-      // Check for mobile optimization
-      if (content.includes('iPhone|iPad|iPod|Android')) {
-        config.mobileOptimized = true;
-      }
-      
-      // Generate template-specific suggestions
-      if (!config.scaleToFit) {
-        suggestions.push('Consider enabling scale-to-fit for better user experience on different screen sizes.');
-      }
-      
-      if (!config.hasLoadingBar) {
-        suggestions.push('Enable the loading bar to provide visual feedback during asset loading.');
-      }
-      
-      if (!config.mobileOptimized) {
-        suggestions.push('Enable mobile optimizations for better performance on mobile devices.');
-      }
-    } else if (content.includes('UnityLoader') || content.includes('unityInstance')) {
-      templateName = 'Unity Default Template';
-      suggestions.push('Consider using the Better Minimal WebGL Template for improved scaling and mobile support.');
-      suggestions.push('The Better Minimal WebGL Template provides better canvas scaling and improved mobile device support.');
-    }
-
-    return { templateName, config, suggestions };
-  }
-
   private async analyzeFile(filePath: string, buildPath: string): Promise<BuildFileAnalysis> {
     const content = await fs.readFile(filePath);
-    const compressedContent = await gzip(content);
     const relativePath = path.relative(buildPath, filePath);
-    const extension = path.extname(filePath).toLowerCase();
+    const decoded = await this.decodeFile(content, filePath);
+    const sizes = await measureCompressedSizes(decoded.content);
 
     const analysis: BuildFileAnalysis = {
       path: relativePath,
       size: content.length,
-      compressedSize: compressedContent.length,
-      type: this.getFileType(extension),
+      compressedSize: sizes.gzip,
+      brotliSize: sizes.brotli,
+      ...(sizes.zstd !== undefined ? { zstdSize: sizes.zstd } : {}),
+      type: this.getFileTypeForPath(filePath),
       suggestions: []
     };
 
+    if (decoded.encoding) {
+      analysis.encoding = decoded.encoding;
+      analysis.decodedSize = decoded.content.length;
+      // The encoded file is what players download, so it stands in for its own codec
+      if (decoded.encoding === 'gzip') analysis.compressedSize = content.length;
+      if (decoded.encoding === 'brotli') analysis.brotliSize = content.length;
+      this.checkEncoding(analysis);
+    }
+
     // Analyze specific file types
     switch (analysis.type) {
       case 'texture':
-        this.analyzeTexture(analysis, content);
+        this.analyzeTexture(analysis, decoded.content);
         break;
       case 'shader':
-        this.analyzeShader(analysis, content);
+        this.analyzeShader(analysis, decoded.content);
         break;
       case 'javascript':
-        this.analyzeJavaScript(analysis, content);
+        this.analyzeJavaScript(analysis, decoded.content);
+        break;
+      case 'data-package':
+        this.analyzeDataPackage(analysis, decoded.content);
         break;
+      case 'webassembly':
+        this.analyzeWebAssembly(analysis, decoded.content);
+        break;
+    }
+
+    for (const plugin of this.plugins) {
+      if (!plugin.analyzeFile || (plugin.appliesTo && !plugin.appliesTo.includes(analysis.type))) continue;
+      await this.runPlugin(plugin, () => plugin.analyzeFile!({
+        path: relativePath,
+        type: analysis.type,
+        content: decoded.content,
+        analysis
+      }), analysis);
+    }
+
+    for (const finding of analysis.suggestions) {
+      finding.file ??= relativePath;
     }
 
     return analysis;
   }
 
+  // A precompressed sibling is served instead of the original, never with it, so only its own size is recorded
+  private async analyzeAlternate(filePath: string, originalPath: string, buildPath: string): Promise<BuildFileAnalysis> {
+    const { size } = await fs.stat(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+    const encoding: ContentEncoding | undefined = extension === '.gz' ? 'gzip' : extension === '.br' ? 'brotli' : undefined;
+
+    return {
+      path: path.relative(buildPath, filePath),
+      size,
+      compressedSize: size,
+      brotliSize: size,
+      type: this.getFileTypeForPath(filePath),
+      ...(encoding ? { encoding } : {}),
+      alternateOf: path.relative(buildPath, originalPath),
+      suggestions: []
+    };
+  }
+
+  private checkEncoding(analysis: BuildFileAnalysis): void {
+    const gain = analysis.size - analysis.brotliSize;
+    if (analysis.encoding !== 'gzip' || gain < MIN_BROTLI_GAIN_BYTES || gain < analysis.size * MIN_BROTLI_GAIN) return;
+
+    analysis.suggestions.push(createFinding('compression/prefer-brotli', 'info', 'size',
+      `File is gzip-compressed; Brotli would download ${this.formatSize(gain)} (${((gain / analysis.size) * 100).toFixed(0)}%) less.`,
+      { fixHint: 'Build with Brotli compression (Unity: Publishing Settings > Compression Format) and serve it with Content-Encoding: br.' }));
+  }
+
+  // Best codec per file type by total download size
+  private recommendCodecs(files: BuildFileAnalysis[]): CodecRecommendation[] {
+    const byType = new Map<string, BuildFileAnalysis[]>();
+    for (const file of files) {
+      byType.set(file.type, [...(byType.get(file.type) ?? []), file]);
+    }
+
+    return [...byType].map(([type, members]) => {
+      const sum = (size: (file: BuildFileAnalysis) => number) => members.reduce((total, file) => total + size(file), 0);
+      const measuredZstd = members.every(file => file.zstdSize !== undefined);
+      const recommendation: CodecRecommendation = {
+        type,
+        files: members.length,
+        uncompressedSize: sum(file => file.decodedSize ?? file.size),
+        gzipSize: sum(file => file.compressedSize),
+        brotliSize: sum(file => file.brotliSize),
+        ...(measuredZstd ? { zstdSize: sum(file => file.zstdSize!) } : {}),
+        best: 'none'
+      };
+
+      const candidates: [CompressionCodec, number][] = [
+        ['brotli', recommendation.brotliSize],
+        ['gzip', recommendation.gzipSize],
+        ...(recommendation.zstdSize !== undefined ? [['zstd', recommendation.zstdSize] as [CompressionCodec, number]] : [])
+      ];
+      const [best, bestSize] = candidates.reduce((smallest, candidate) => candidate[1] < smallest[1] ? candidate : smallest);
+
+      if (bestSize <= recommendation.uncompressedSize * (1 - MIN_CODEC_SAVING)) {
+        recommendation.best = best;
+        if (best === 'zstd') {
+          recommendation.fallback = recommendation.brotliSize <= recommendation.gzipSize ? 'brotli' : 'gzip';
+        }
+      }
+      return recommendation;
+    }).sort((a, b) => b.uncompressedSize - a.uncompressedSize);
+  }
+
+  private async decodeFile(content: Buffer, filePath: string): Promise<{ content: Buffer; encoding?: ContentEncoding }> {
+    try {
+      return await decodeContent(content, filePath);
+    } catch (error) {
+      console.error(`Error decompressing ${filePath}:`, error);
+      return { content };
+    }
+  }
+
+  // Add a plugin's findings and data to a file or the build; a failing plugin becomes a finding instead of failing the analysis
+  private async runPlugin(
+    plugin: AnalyzerPlugin,
+    hook: () => AnalyzerPluginResult | void | Promise<AnalyzerPluginResult | void>,
+    target: { suggestions: Finding[]; pluginData?: Record<string, unknown> }
+  ): Promise<void> {
+    try {
+      const result = await hook();
+      if (!result) return;
+
+      for (const finding of result.findings ?? []) {
+        const parsed = findingSchema.safeParse(finding);
+        if (parsed.success) {
+          target.suggestions.push(parsed.data);
+        } else {
+          console.error(`Analyzer plugin ${plugin.name} returned an invalid finding:`, parsed.error.issues);
+        }
+      }
+
+      if (result.data !== undefined) {
+        target.pluginData = { ...target.pluginData, [plugin.name]: result.data };
+      }
+    } catch (error) {
+      console.error(`Analyzer plugin ${plugin.name} failed:`, error);
+      target.suggestions.push(createFinding('plugin/failed', 'warning', 'compat',
+        `Analyzer plugin "${plugin.name}" failed: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  // Resolve the type from the name without compression suffixes, so "game.wasm.br" is still WebAssembly
+  private getFileTypeForPath(filePath: string): string {
+    // Plugin types take precedence, so a studio can claim extensions such as ".bytes"
+    const name = path.basename(stripCompressionSuffix(filePath)).toLowerCase();
+    for (const plugin of this.plugins) {
+      const extension = Object.keys(plugin.fileTypes ?? {}).find(extension => name.endsWith(extension.toLowerCase()));
+      if (extension) return plugin.fileTypes![extension];
+    }
+
+    switch (this.unityAnalyzer.classifyFile(filePath)) {
+      case 'loader':
+      case 'framework':
+        return 'javascript';
+      case 'wasm':
+        return 'webassembly';
+      case 'data':
+        return 'data-package';
+    }
+
+    return this.getFileType(path.extname(stripCompressionSuffix(filePath)).toLowerCase());
+  }
+
   private getFileType(extension: string): string {
     switch (extension) {
       case '.jpg':
@@ -187,6 +372,11 @@ export class WebGLBuildAnalyzer {
       case '.png':
       case '.webp':
       case '.gif':
+      case '.svg':
+      case '.bmp':
+      case '.ktx':
+      case '.ktx2':
+      case '.basis':
         return 'texture';
       case '.glsl':
       case '.vert':
@@ -202,36 +392,52 @@ export class WebGLBuildAnalyzer {
         return 'stylesheet';
       case '.json':
         return 'data';
+      case '.data':
+        return 'data-package';
       default:
         return 'other';
     }
   }
 
   private analyzeTexture(analysis: BuildFileAnalysis, content: Buffer): void {
+    // Decode the header for dimensions and estimated GPU memory
+    const texture = this.textureInspector.inspect(content);
+    if (texture) {
+      analysis.texture = texture;
+      analysis.suggestions.push(...this.textureInspector.suggest(texture));
+    }
+
     // Check texture size - large textures may need optimization
     if (content.length > 1024 * 1024) {
-      analysis.suggestions.push(`Large texture (${(content.length / (1024 * 1024)).toFixed(2)} MB). Consider using compression or smaller textures.`);
+      analysis.suggestions.push(createFinding('texture/large-file', 'warning', 'size',
+        `Large texture (${(content.length / (1024 * 1024)).toFixed(2)} MB).`,
+        { fixHint: 'Use compressed textures or lower the resolution.' }));
     }
     
     // Check compression savings
     const compressionRatio = analysis.size / analysis.compressedSize;
     if (compressionRatio < 1.2) {
-      analysis.suggestions.push('Texture has low compression ratio. Consider using WebP format for better compression.');
+      analysis.suggestions.push(createFinding('texture/low-compression-ratio', 'info', 'size',
+        'Texture has a low compression ratio.',
+        { fixHint: 'Use WebP for better compression.' }));
     }
   }
 
   private analyzeShader(analysis: BuildFileAnalysis, content: Buffer): void {
     const shaderText = content.toString('utf8');
-    
-    // Check for potential shader optimizations
-    if (shaderText.includes('pow(') || shaderText.includes('exp(') || shaderText.includes('log(')) {
-      analysis.suggestions.push('Shader uses expensive operations (pow, exp, log). Consider optimizing for better performance.');
-    }
-    
-    // Check for precision qualifiers
-    if (!shaderText.includes('precision ')) {
-      analysis.suggestions.push('Shader missing precision qualifiers. Define precision for better performance and consistency.');
-    }
+
+    analysis.shader = this.glslAnalyzer.analyze(shaderText, this.getShaderStage(analysis.path));
+    analysis.suggestions.push(...this.glslAnalyzer.suggest(analysis.shader));
+  }
+
+  // Stage from names such as "lit.vert", "lit.frag.glsl" or "lit.vs.glsl"
+  private getShaderStage(filePath: string): ShaderStage {
+    const name = path.basename(stripCompressionSuffix(filePath)).toLowerCase();
+
+    if (/\.(vert|vs|vsh)(\.|$)/.test(name)) return 'vertex';
+    if (/\.(frag|fs|fsh)(\.|$)/.test(name)) return 'fragment';
+
+    return 'unknown';
   }
 
   private analyzeJavaScript(analysis: BuildFileAnalysis, content: Buffer): void {
@@ -239,54 +445,174 @@ export class WebGLBuildAnalyzer {
     
     // Check for large JS files
     if (content.length > 5 * 1024 * 1024) {
-      analysis.suggestions.push(`Large JavaScript file (${(content.length / (1024 * 1024)).toFixed(2)} MB). Consider code splitting or minification.`);
+      analysis.suggestions.push(createFinding('js/large-file', 'warning', 'size',
+        `Large JavaScript file (${(content.length / (1024 * 1024)).toFixed(2)} MB).`,
+        { fixHint: 'Split or minify the code.' }));
     }
     
     // Check for WebGL context creation
     if (jsText.includes('getContext("webgl")') && !jsText.includes('getContext("webgl2")')) {
-      analysis.suggestions.push('Using WebGL 1.0. Consider upgrading to WebGL 2.0 for better performance and features.');
+      analysis.suggestions.push(createFinding('js/webgl1-only', 'info', 'perf',
+        'Only a WebGL 1.0 context is requested.',
+        { fixHint: 'Request WebGL 2.0 first and fall back to WebGL 1.0.' }));
     }
     
     // Check for memory management issues
     if (jsText.includes('new Uint8Array(') || jsText.includes('new Float32Array(')) {
       if (!jsText.includes('delete') && !jsText.includes('dispose')) {
-        analysis.suggestions.push('Creating typed arrays without apparent cleanup. Watch for memory leaks.');
+        analysis.suggestions.push(createFinding('js/typed-array-cleanup', 'info', 'perf',
+          'Creating typed arrays without apparent cleanup.',
+          { fixHint: 'Reuse buffers and release references to avoid memory leaks.' }));
+      }
+    }
+
+    // Check shaders embedded as string literals
+    const embedded = extractEmbeddedShaders(jsText);
+    if (embedded.length > 0) {
+      analysis.embeddedShaders = [];
+      for (const shader of embedded) {
+        const shaderAnalysis = this.glslAnalyzer.analyze(shader.source);
+        analysis.embeddedShaders.push({ ...shaderAnalysis, line: shader.line });
+        // Shader lines are relative to the literal; report them against the JavaScript file
+        for (const finding of this.glslAnalyzer.suggest(shaderAnalysis, { embedded: true })) {
+          analysis.suggestions.push({
+            ...finding,
+            message: `Embedded ${shaderAnalysis.stage} shader: ${finding.message}`,
+            location: { line: shader.line + (finding.location?.line ?? 1) - 1 }
+          });
+        }
       }
     }
   }
 
-  private analyzeBuildStructure(analysis: BuildAnalysis): void {
+  private analyzeDataPackage(analysis: BuildFileAnalysis, content: Buffer): void {
+    if (!this.unityAnalyzer.isUnityWebData(content)) {
+      return;
+    }
+
+    try {
+      analysis.unityData = this.unityAnalyzer.parseUnityWebData(content);
+      analysis.suggestions.push(...this.unityAnalyzer.suggestForData(analysis.unityData));
+    } catch (error) {
+      analysis.suggestions.push(createFinding('unity/invalid-data', 'error', 'compat',
+        `Could not parse Unity data container: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  private analyzeWebAssembly(analysis: BuildFileAnalysis, content: Buffer): void {
+    if (!this.wasmInspector.isWasm(content)) {
+      analysis.suggestions.push(createFinding('wasm/missing-header', 'error', 'compat',
+        'File has a WebAssembly name but no WebAssembly header.',
+        { fixHint: 'Check that it is not double-compressed or served with the wrong content.' }));
+      return;
+    }
+
+    try {
+      analysis.wasm = this.wasmInspector.inspect(content);
+      analysis.suggestions.push(...this.wasmInspector.suggest(analysis.wasm));
+    } catch (error) {
+      analysis.suggestions.push(createFinding('wasm/invalid-module', 'error', 'compat',
+        `Could not parse WebAssembly module: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  private analyzeBuildStructure(analysis: BuildAnalysis, thresholds: BuildThresholds): void {
     // Group files by type
-    const fileTypes = analysis.files.reduce((types, file) => {
+    const fileTypes = servedFiles(analysis).reduce((types, file) => {
       types[file.type] = (types[file.type] || 0) + file.size;
       return types;
     }, {} as Record<string, number>);
+
+    // Count files per category and collect large files
+    for (const file of servedFiles(analysis)) {
+      analysis.fileStats.total++;
+      if (file.type === 'javascript') {
+        analysis.fileStats.js++;
+      } else if (file.type === 'webassembly') {
+        analysis.fileStats.wasm++;
+      } else if (file.type === 'texture') {
+        analysis.fileStats.textures++;
+      } else {
+        analysis.fileStats.other++;
+      }
+
+      if (file.texture) {
+        analysis.textureMemory.vramBytes += file.texture.vramBytes;
+        analysis.textureMemory.vramBytesWithMipmaps += file.texture.vramBytesWithMipmaps;
+      }
+
+      if (file.size > thresholds.largeFileSize) {
+        analysis.largeFiles.push({ path: file.path, size: file.size });
+      }
+    }
+    analysis.largeFiles.sort((a, b) => b.size - a.size);
+
+    if (analysis.textureMemory.vramBytesWithMipmaps > thresholds.textureVram) {
+      analysis.suggestions.push(createFinding('build/texture-vram', 'error', 'perf',
+        `Textures need an estimated ${(analysis.textureMemory.vramBytesWithMipmaps / (1024 * 1024)).toFixed(0)} MB of GPU memory with mipmaps. Mobile browsers often crash well below that.`,
+        { fixHint: 'Compress or downscale textures.' }));
+    }
+
+    if (analysis.fileStats.js > 10) {
+      analysis.suggestions.push(createFinding('build/many-js-files', 'info', 'perf',
+        `Large number of JavaScript files detected (${analysis.fileStats.js}).`,
+        { fixHint: 'Bundle them to cut request overhead.' }));
+    }
+
+    if (analysis.largeFiles.length > 0) {
+      analysis.suggestions.push(createFinding('build/large-files', 'warning', 'size',
+        `${analysis.largeFiles.length} file(s) larger than ${this.formatSize(thresholds.largeFileSize)}.`,
+        { fixHint: 'Optimize large files to improve load times.' }));
+    }
     
     // Check total size
-    if (analysis.totalSize > 100 * 1024 * 1024) {
-      analysis.suggestions.push(`Large build size (${(analysis.totalSize / (1024 * 1024)).toFixed(2)} MB). Consider optimizing assets and code splitting.`);
+    if (analysis.totalSize > thresholds.totalSize) {
+      analysis.suggestions.push(createFinding('build/large-total-size', 'warning', 'size',
+        `Large build size (${(analysis.totalSize / (1024 * 1024)).toFixed(2)} MB).`,
+        { fixHint: 'Optimize assets and split code.' }));
     }
     
     // Check texture usage
-    if (fileTypes['texture'] && fileTypes['texture'] > analysis.totalSize * 0.5) {
-      analysis.suggestions.push(`Textures account for over 50% of build size. Consider using texture compression or lower resolution textures.`);
+    if (fileTypes['texture'] && fileTypes['texture'] > analysis.totalSize * thresholds.textureShare) {
+      analysis.suggestions.push(createFinding('build/texture-heavy', 'warning', 'size',
+        `Textures account for over ${(thresholds.textureShare * 100).toFixed(0)}% of build size.`,
+        { fixHint: 'Use texture compression or lower resolution textures.' }));
     }
     
     // Check JavaScript size
-    if (fileTypes['javascript'] && fileTypes['javascript'] > 20 * 1024 * 1024) {
-      analysis.suggestions.push(`Large JavaScript size (${(fileTypes['javascript'] / (1024 * 1024)).toFixed(2)} MB). Consider code splitting and tree shaking.`);
+    if (fileTypes['javascript'] && fileTypes['javascript'] > thresholds.javascriptSize) {
+      analysis.suggestions.push(createFinding('build/large-js-total', 'warning', 'size',
+        `Large JavaScript size (${(fileTypes['javascript'] / (1024 * 1024)).toFixed(2)} MB).`,
+        { fixHint: 'Use code splitting and tree shaking.' }));
     }
     
+    // Check which Unity output dominates the download
+    const unityBuild = analysis.unityBuild;
+    if (unityBuild?.dominantPart) {
+      const dominant = unityBuild.parts[unityBuild.dominantPart]!;
+      if (dominant.share > 0.5) {
+        analysis.suggestions.push(createFinding('unity/dominant-part', 'info', 'size',
+          `Unity ${unityBuild.dominantPart} file is ${(dominant.share * 100).toFixed(0)}% of the Unity download (${(unityBuild.downloadSize / (1024 * 1024)).toFixed(2)} MB).`,
+          { file: dominant.path }));
+      }
+    }
+
     // Check WebAssembly usage
     if (!fileTypes['webassembly']) {
-      analysis.suggestions.push('No WebAssembly detected. Consider using WebAssembly for performance-critical code.');
-    }
-    
-    // Template-specific optimization suggestions
-    if (analysis.templateUsed === 'Better Minimal WebGL Template') {
-      analysis.suggestions.push('Using Better Minimal WebGL Template. Good choice for optimal WebGL performance and compatibility.');
-    } else if (analysis.templateUsed === 'Unknown') {
-      analysis.suggestions.push('Using an unknown HTML template. Consider using Better Minimal WebGL Template for optimal WebGL performance.');
+      analysis.suggestions.push(createFinding('build/no-webassembly', 'info', 'perf',
+        'No WebAssembly detected.',
+        { fixHint: 'Consider WebAssembly for performance-critical code.' }));
     }
   }
-} 
\ No newline at end of file
+
+  private formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${parseFloat((bytes / (1024 * 1024)).toFixed(2))} MB`;
+    if (bytes >= 1024) return `${parseFloat((bytes / 1024).toFixed(2))} KB`;
+    return `${bytes} B`;
+  }
+}
+
+// Files a player can download, without the precompressed siblings of other files
+export function servedFiles(analysis: { files: BuildFileAnalysis[] }): BuildFileAnalysis[] {
+  return analysis.files.filter(file => !file.alternateOf);
+}
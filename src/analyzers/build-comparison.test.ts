@@ -0,0 +1,205 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildComparer, compareReports } from './build-comparison';
+import { BuildFileAnalysis } from './build-analyzer';
+import { createFinding } from './findings';
+import { WasmAnalysis } from './wasm-inspector';
+import { WebGLAnalysisReport } from './webgl-analysis';
+
+const file = (filePath: string, type: string, size: number, details: Partial<BuildFileAnalysis> = {}): BuildFileAnalysis => ({
+  path: filePath,
+  size,
+  compressedSize: Math.round(size / 4),
+  brotliSize: Math.round(size / 5),
+  type,
+  suggestions: [],
+  ...details
+});
+
+const wasm = (sections: [string, number][]) => ({ sections: sections.map(([name, size]) => ({ name, size })) } as WasmAnalysis);
+
+const report = (buildPath: string, files: BuildFileAnalysis[], details: Partial<WebGLAnalysisReport> = {}): WebGLAnalysisReport => ({
+  buildPath,
+  totalSize: files.filter(entry => !entry.alternateOf).reduce((sum, entry) => sum + entry.size, 0),
+  compressedSize: files.filter(entry => !entry.alternateOf).reduce((sum, entry) => sum + entry.compressedSize, 0),
+  brotliSize: 0,
+  files,
+  codecRecommendations: [],
+  fileStats: { total: files.length, js: 0, wasm: 0, textures: 0, other: 0 },
+  largeFiles: [],
+  textureMemory: { vramBytes: 0, vramBytesWithMipmaps: 0 },
+  suggestions: [],
+  template: { templateName: 'Default', features: [], config: {}, recommendations: [] },
+  engine: null,
+  ...details
+});
+
+describe('compareReports', () => {
+  const base = report('builds/1.0', [
+    file('index.html', 'html', 1_000),
+    file('Build/game.js', 'javascript', 200_000),
+    file('Build/game.wasm', 'webassembly', 4_000_000, {
+      wasm: wasm([['type', 100], ['code', 3_000_000], ['custom:name', 500_000], ['custom:producers', 40], ['custom:producers', 60]])
+    }),
+    file('Build/old.js', 'javascript', 5_000)
+  ], {
+    suggestions: [
+      createFinding('build/large-file', 'warning', 'size', 'Large file (3.8 MB)', { file: 'Build/game.wasm' }),
+      createFinding('wasm/name-section', 'info', 'size', 'Name section shipped', { file: 'Build/game.wasm' })
+    ]
+  });
+
+  const head = report('builds/1.1', [
+    file('index.html', 'html', 1_000),
+    file('Build/game.js', 'javascript', 200_040),
+    file('Build/game.wasm', 'webassembly', 4_600_000, {
+      wasm: wasm([['type', 100], ['code', 3_600_000], ['custom:name', 500_000], ['custom:producers', 40], ['custom:producers', 80]])
+    }),
+    file('Build/game.wasm.br', 'webassembly', 1_100_000, { alternateOf: 'Build/game.wasm' }),
+    file('Textures/atlas.png', 'texture', 300_000)
+  ], {
+    suggestions: [
+      createFinding('build/large-file', 'warning', 'size', 'Large file (4.4 MB)', { file: 'Build/game.wasm' }),
+      createFinding('texture/non-power-of-two', 'info', 'compat', 'Not a power of two', { file: 'Textures/atlas.png' })
+    ],
+    engine: {
+      engineName: 'Unity', version: '2022.3.10f1', confidence: 0.9, known: true,
+      evidence: [], candidates: [], features: [], recommendations: [], warnings: []
+    }
+  });
+
+  it('reports total, file and file type deltas, largest change first', () => {
+    const comparison = compareReports(base, head);
+
+    expect(comparison.base).toBe('builds/1.0');
+    expect(comparison.head).toBe('builds/1.1');
+    expect(comparison.totalSize).toEqual({ base: 4_206_000, head: 5_101_040, delta: 895_040 });
+    expect(comparison.files.map(entry => [entry.path, entry.status, entry.size.delta])).toEqual([
+      ['Build/game.wasm.br', 'added', 1_100_000],
+      ['Build/game.wasm', 'changed', 600_000],
+      ['Textures/atlas.png', 'added', 300_000],
+      ['Build/old.js', 'removed', -5_000],
+      ['Build/game.js', 'changed', 40]
+    ]);
+    expect(comparison.addedFiles).toEqual(['Build/game.wasm.br', 'Textures/atlas.png']);
+    expect(comparison.removedFiles).toEqual(['Build/old.js']);
+    // Precompressed siblings are not counted in the file type totals
+    expect(comparison.fileTypes.map(entry => [entry.type, entry.size.delta, entry.count.delta])).toEqual([
+      ['webassembly', 600_000, 0],
+      ['texture', 300_000, 1],
+      ['javascript', -4_960, -1],
+      ['html', 0, 0]
+    ]);
+  });
+
+  it('leaves out files that changed by less than minFileDelta', () => {
+    const comparison = compareReports(base, head, { minFileDelta: 100 });
+
+    expect(comparison.files.map(entry => entry.path)).not.toContain('Build/game.js');
+    expect(comparison.files.map(entry => entry.path)).toContain('Build/old.js');
+  });
+
+  it('compares WebAssembly sections, telling repeated custom sections apart', () => {
+    expect(compareReports(base, head).wasmSections).toEqual([
+      { file: 'Build/game.wasm', section: 'code', size: { base: 3_000_000, head: 3_600_000, delta: 600_000 } },
+      { file: 'Build/game.wasm', section: 'custom:producers#2', size: { base: 60, head: 80, delta: 20 } }
+    ]);
+  });
+
+  it('matches findings whose messages only differ in numbers', () => {
+    const comparison = compareReports(base, head);
+
+    expect(comparison.newFindings.map(finding => finding.ruleId)).toEqual(['texture/non-power-of-two']);
+    expect(comparison.resolvedFindings.map(finding => finding.ruleId)).toEqual(['wasm/name-section']);
+  });
+
+  it('reports engine and template changes', () => {
+    const comparison = compareReports(base, head);
+
+    expect(comparison.engine).toEqual({ base: undefined, head: 'Unity 2022.3.10f1', changed: true });
+    expect(comparison.template).toEqual({ base: 'Default', head: 'Default', changed: false });
+  });
+});
+
+describe('BuildComparer', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-comparison-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('compares a build folder against a saved report', async () => {
+    const buildDir = path.join(workDir, 'build');
+    await fs.mkdir(buildDir);
+    await fs.writeFile(path.join(buildDir, 'index.html'), '<!DOCTYPE html><html><body><canvas></canvas><script src="game.js"></script></body></html>');
+    await fs.writeFile(path.join(buildDir, 'game.js'), 'console.log("game");\n'.repeat(100));
+
+    // A report saved before templates and engines were analyzed
+    const savedPath = path.join(workDir, 'base.json');
+    await fs.writeFile(savedPath, JSON.stringify({
+      buildPath: 'base',
+      totalSize: 100,
+      compressedSize: 50,
+      files: [{ path: 'game.js', size: 100, compressedSize: 50, type: 'javascript', suggestions: [] }],
+      suggestions: []
+    }));
+
+    const comparison = await new BuildComparer().compare(savedPath, buildDir);
+
+    expect(comparison.base).toBe(savedPath);
+    expect(comparison.headBuildPath).toBe(buildDir);
+    expect(comparison.files.find(entry => entry.path === 'game.js')).toMatchObject({ status: 'changed', size: { base: 100, head: 2_100 } });
+    expect(comparison.files.find(entry => entry.path === 'index.html')?.status).toBe('added');
+    expect(comparison.template.base).toBe('Unknown');
+  });
+
+  it('keeps the build folder of a saved head report for finding locations', async () => {
+    const savedPath = path.join(workDir, 'head.json');
+    await fs.writeFile(savedPath, JSON.stringify({ buildPath: '/ci/build', totalSize: 0, compressedSize: 0, files: [], suggestions: [] }));
+
+    const comparison = compareReports(report('/ci/base', []), await new BuildComparer().loadReport(savedPath), {}, 'base.json', savedPath);
+
+    expect(comparison.head).toBe(savedPath);
+    expect(comparison.headBuildPath).toBe('/ci/build');
+  });
+
+  it('rejects JSON files that are not saved reports', async () => {
+    const invalidPath = path.join(workDir, 'package.json');
+    await fs.writeFile(invalidPath, JSON.stringify({ name: 'game' }));
+
+    await expect(new BuildComparer().loadReport(invalidPath)).rejects.toThrow(`${invalidPath} is not a saved analysis report: buildPath: Required`);
+  });
+
+  it('rejects saved reports with malformed findings', async () => {
+    const savedPath = path.join(workDir, 'report.json');
+    await fs.writeFile(savedPath, JSON.stringify({
+      buildPath: 'base',
+      totalSize: 100,
+      compressedSize: 50,
+      files: [{ path: 'game.js', size: 100, compressedSize: 50, type: 'javascript', suggestions: ['Minify game.js'] }],
+      suggestions: [{ ruleId: 'build/large-files', severity: 'warning', category: 'size' }]
+    }));
+
+    await expect(new BuildComparer().loadReport(savedPath)).rejects.toThrow(
+      `${savedPath} is not a saved analysis report: files.0.suggestions.0: Expected object, received string; suggestions.0.message: Required`
+    );
+  });
+
+  it('fills in what older saved reports lack', async () => {
+    const savedPath = path.join(workDir, 'report.json');
+    await fs.writeFile(savedPath, JSON.stringify({ buildPath: 'base', totalSize: 0, compressedSize: 0, files: [], suggestions: [] }));
+    const report = await new BuildComparer().loadReport(savedPath);
+
+    expect(report).toMatchObject({
+      brotliSize: 0,
+      codecRecommendations: [],
+      template: { templateName: 'Unknown', features: [], config: {}, recommendations: [] },
+      engine: null
+    });
+  });
+});
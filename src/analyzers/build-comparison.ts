@@ -0,0 +1,281 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { WebGLAnalysisRunner, WebGLAnalysisReport, collectFindings } from './webgl-analysis';
+import { BuildFileAnalysis, servedFiles } from './build-analyzer';
+import { Finding, findingSchema } from './findings';
+
+export interface SizeDelta {
+  base: number;
+  head: number;
+  delta: number;
+}
+
+export interface FileTypeDelta {
+  type: string;
+  size: SizeDelta;
+  compressedSize: SizeDelta;
+  count: SizeDelta;
+}
+
+export type FileChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface FileDelta {
+  path: string;
+  status: FileChangeStatus;
+  type: string;
+  size: SizeDelta;
+  compressedSize: SizeDelta;
+}
+
+export interface WasmSectionDelta {
+  file: string;
+  // Repeated custom sections are told apart by a "#2" suffix
+  section: string;
+  size: SizeDelta;
+}
+
+export interface ComparisonChange {
+  base?: string;
+  head?: string;
+  changed: boolean;
+}
+
+export interface BuildComparison {
+  base: string;
+  head: string;
+  // Build folder of the head report, which the paths of its findings are relative to
+  headBuildPath: string;
+  totalSize: SizeDelta;
+  compressedSize: SizeDelta;
+  fileTypes: FileTypeDelta[];
+  // Largest change first; unchanged files are left out
+  files: FileDelta[];
+  addedFiles: string[];
+  removedFiles: string[];
+  wasmSections: WasmSectionDelta[];
+  newFindings: Finding[];
+  resolvedFindings: Finding[];
+  engine: ComparisonChange;
+  template: ComparisonChange;
+}
+
+export interface ComparisonOptions {
+  // Changed files that grew or shrank by less than this many bytes are left out of files
+  minFileDelta?: number;
+}
+
+const evidenceSchema = z.object({
+  signature: z.enum(['canvas', 'webgl', 'dom', 'script', 'html', 'file']),
+  matched: z.string(),
+  location: z.string(),
+  weight: z.number()
+});
+
+// Enough of a saved analyze-webgl report to compare; what older reports lack gets an empty default
+const savedReportSchema = z.object({
+  buildPath: z.string(),
+  indexPath: z.string().optional(),
+  totalSize: z.number(),
+  compressedSize: z.number(),
+  brotliSize: z.number().default(0),
+  files: z.array(z.object({
+    path: z.string(),
+    size: z.number(),
+    compressedSize: z.number(),
+    brotliSize: z.number().default(0),
+    type: z.string(),
+    alternateOf: z.string().optional(),
+    suggestions: z.array(findingSchema)
+  }).passthrough()),
+  codecRecommendations: z.array(z.object({
+    type: z.string(),
+    files: z.number(),
+    uncompressedSize: z.number(),
+    gzipSize: z.number(),
+    brotliSize: z.number(),
+    zstdSize: z.number().optional(),
+    best: z.enum(['gzip', 'brotli', 'zstd', 'none']),
+    fallback: z.enum(['gzip', 'brotli', 'zstd']).optional()
+  })).default([]),
+  fileStats: z.object({ total: z.number(), js: z.number(), wasm: z.number(), textures: z.number(), other: z.number() })
+    .default({ total: 0, js: 0, wasm: 0, textures: 0, other: 0 }),
+  largeFiles: z.array(z.object({ path: z.string(), size: z.number() })).default([]),
+  textureMemory: z.object({ vramBytes: z.number(), vramBytesWithMipmaps: z.number() })
+    .default({ vramBytes: 0, vramBytesWithMipmaps: 0 }),
+  suggestions: z.array(findingSchema),
+  // Reports saved before templates or engines were analyzed still compare by size
+  template: z.object({
+    templateName: z.string(),
+    features: z.array(z.string()).default([]),
+    config: z.record(z.unknown()).default({}),
+    recommendations: z.array(findingSchema).default([])
+  }).passthrough().default({ templateName: 'Unknown' }),
+  engine: z.object({
+    engineName: z.string(),
+    version: z.string().optional(),
+    confidence: z.number().default(0),
+    known: z.boolean().default(true),
+    evidence: z.array(evidenceSchema).default([]),
+    candidates: z.array(z.object({ engineName: z.string(), confidence: z.number(), evidence: z.array(evidenceSchema) })).default([]),
+    features: z.array(z.string()).default([]),
+    recommendations: z.array(z.string()).default([]),
+    warnings: z.array(findingSchema).default([])
+  }).passthrough().nullable().default(null)
+}).passthrough();
+
+export class BuildComparer {
+  constructor(private runner = new WebGLAnalysisRunner()) {}
+
+  // Each side is a build folder, an index.html or a JSON report saved from analyze-webgl
+  async compare(basePath: string, headPath: string, options: ComparisonOptions = {}): Promise<BuildComparison> {
+    const [base, head] = [await this.loadReport(basePath), await this.loadReport(headPath)];
+    return compareReports(base, head, options, basePath, headPath);
+  }
+
+  async loadReport(inputPath: string): Promise<WebGLAnalysisReport> {
+    const stats = await fs.stat(inputPath);
+    if (stats.isDirectory() || path.extname(inputPath).toLowerCase() !== '.json') {
+      return this.runner.analyze(inputPath);
+    }
+
+    const result = savedReportSchema.safeParse(JSON.parse(await fs.readFile(inputPath, 'utf8')));
+    if (!result.success) {
+      const issues = result.error.issues.slice(0, 5).map(issue => `${issue.path.join('.') || 'report'}: ${issue.message}`);
+      throw new Error(`${inputPath} is not a saved analysis report: ${issues.join('; ')}`);
+    }
+
+    const report: WebGLAnalysisReport = result.data;
+    return report;
+  }
+}
+
+export function compareReports(
+  base: WebGLAnalysisReport,
+  head: WebGLAnalysisReport,
+  options: ComparisonOptions = {},
+  baseLabel = base.buildPath,
+  headLabel = head.buildPath
+): BuildComparison {
+  const minFileDelta = options.minFileDelta ?? 0;
+  const baseFiles = new Map(base.files.map(file => [file.path, file]));
+  const headFiles = new Map(head.files.map(file => [file.path, file]));
+
+  const files: FileDelta[] = [];
+  for (const filePath of new Set([...baseFiles.keys(), ...headFiles.keys()])) {
+    const before = baseFiles.get(filePath);
+    const after = headFiles.get(filePath);
+    const status: FileChangeStatus = !before ? 'added' : !after ? 'removed' : 'changed';
+    const size = sizeDelta(before?.size ?? 0, after?.size ?? 0);
+
+    if (status === 'changed' && (size.delta === 0 || Math.abs(size.delta) < minFileDelta)) continue;
+    files.push({
+      path: filePath,
+      status,
+      type: (after ?? before)!.type,
+      size,
+      compressedSize: sizeDelta(before?.compressedSize ?? 0, after?.compressedSize ?? 0)
+    });
+  }
+  files.sort((a, b) => Math.abs(b.size.delta) - Math.abs(a.size.delta) || a.path.localeCompare(b.path));
+
+  return {
+    base: baseLabel,
+    head: headLabel,
+    headBuildPath: head.buildPath,
+    totalSize: sizeDelta(base.totalSize, head.totalSize),
+    compressedSize: sizeDelta(base.compressedSize, head.compressedSize),
+    fileTypes: compareFileTypes(servedFiles(base), servedFiles(head)),
+    files,
+    addedFiles: files.filter(file => file.status === 'added').map(file => file.path),
+    removedFiles: files.filter(file => file.status === 'removed').map(file => file.path),
+    wasmSections: compareWasmSections(baseFiles, headFiles),
+    ...compareFindings(collectFindings(base), collectFindings(head)),
+    engine: compareValues(describeEngine(base), describeEngine(head)),
+    template: compareValues(base.template?.templateName, head.template?.templateName)
+  };
+}
+
+function sizeDelta(base: number, head: number): SizeDelta {
+  return { base, head, delta: head - base };
+}
+
+function compareFileTypes(baseFiles: BuildFileAnalysis[], headFiles: BuildFileAnalysis[]): FileTypeDelta[] {
+  const totals = (files: BuildFileAnalysis[], type: string) => {
+    const ofType = files.filter(file => file.type === type);
+    return {
+      size: ofType.reduce((sum, file) => sum + file.size, 0),
+      compressedSize: ofType.reduce((sum, file) => sum + file.compressedSize, 0),
+      count: ofType.length
+    };
+  };
+
+  const types = [...new Set([...baseFiles, ...headFiles].map(file => file.type))];
+  return types
+    .map(type => {
+      const before = totals(baseFiles, type);
+      const after = totals(headFiles, type);
+      return {
+        type,
+        size: sizeDelta(before.size, after.size),
+        compressedSize: sizeDelta(before.compressedSize, after.compressedSize),
+        count: sizeDelta(before.count, after.count)
+      };
+    })
+    .sort((a, b) => Math.abs(b.size.delta) - Math.abs(a.size.delta) || a.type.localeCompare(b.type));
+}
+
+// Section sizes of modules present in both builds
+function compareWasmSections(baseFiles: Map<string, BuildFileAnalysis>, headFiles: Map<string, BuildFileAnalysis>): WasmSectionDelta[] {
+  const deltas: WasmSectionDelta[] = [];
+
+  for (const [filePath, after] of headFiles) {
+    const before = baseFiles.get(filePath);
+    if (!before?.wasm || !after.wasm) continue;
+
+    const baseSections = sectionSizes(before);
+    const headSections = sectionSizes(after);
+    for (const section of new Set([...baseSections.keys(), ...headSections.keys()])) {
+      const size = sizeDelta(baseSections.get(section) ?? 0, headSections.get(section) ?? 0);
+      if (size.delta !== 0) deltas.push({ file: filePath, section, size });
+    }
+  }
+
+  return deltas.sort((a, b) => Math.abs(b.size.delta) - Math.abs(a.size.delta));
+}
+
+function sectionSizes(file: BuildFileAnalysis): Map<string, number> {
+  const sizes = new Map<string, number>();
+  const seen: Record<string, number> = {};
+
+  for (const section of file.wasm!.sections) {
+    seen[section.name] = (seen[section.name] ?? 0) + 1;
+    sizes.set(seen[section.name] > 1 ? `${section.name}#${seen[section.name]}` : section.name, section.size);
+  }
+
+  return sizes;
+}
+
+// Messages often embed sizes, so "Large texture (1.2 MB)" and "(1.3 MB)" count as the same finding
+function findingKey(finding: Finding): string {
+  return [finding.ruleId, finding.file ?? '', finding.message.replace(/\d+(\.\d+)?/g, '#')].join('\0');
+}
+
+function compareFindings(baseFindings: Finding[], headFindings: Finding[]): Pick<BuildComparison, 'newFindings' | 'resolvedFindings'> {
+  const baseKeys = new Set(baseFindings.map(findingKey));
+  const headKeys = new Set(headFindings.map(findingKey));
+
+  return {
+    newFindings: headFindings.filter(finding => !baseKeys.has(findingKey(finding))),
+    resolvedFindings: baseFindings.filter(finding => !headKeys.has(findingKey(finding)))
+  };
+}
+
+function describeEngine(report: WebGLAnalysisReport): string | undefined {
+  if (!report.engine) return undefined;
+  return report.engine.version ? `${report.engine.engineName} ${report.engine.version}` : report.engine.engineName;
+}
+
+function compareValues(base?: string, head?: string): ComparisonChange {
+  return { base, head, changed: base !== head };
+}
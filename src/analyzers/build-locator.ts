@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface BuildLocation {
+  buildPath: string;
+  isDirectory: boolean;
+  indexPath?: string;
+}
+
+export async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Find index.html at the root of a build folder or in one of its immediate subdirectories
+export async function findIndexHtml(dirPath: string): Promise<string | undefined> {
+  const rootIndex = path.join(dirPath, 'index.html');
+  if (await pathExists(rootIndex)) {
+    return rootIndex;
+  }
+
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      const subIndex = path.join(dirPath, entry.name, 'index.html');
+      if (await pathExists(subIndex)) {
+        return subIndex;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Resolve a user-supplied path (build folder or index.html) to the build folder and its index.html
+export async function locateBuild(targetPath: string): Promise<BuildLocation> {
+  const stats = await fs.stat(targetPath);
+
+  if (stats.isDirectory()) {
+    return {
+      buildPath: targetPath,
+      isDirectory: true,
+      indexPath: await findIndexHtml(targetPath)
+    };
+  }
+
+  return {
+    buildPath: path.dirname(targetPath),
+    isDirectory: false,
+    indexPath: path.basename(targetPath).toLowerCase() === 'index.html' ? targetPath : undefined
+  };
+}
@@ -0,0 +1,83 @@
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+
+const gunzip = promisify(zlib.gunzip);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+type Compress = (content: Buffer) => Promise<Buffer>;
+
+// zlib only has zstd from Node 22.15; older runtimes measure gzip and Brotli alone
+const zlibZstdCompress = (zlib as unknown as { zstdCompress?: (content: Buffer, callback: (error: Error | null, result: Buffer) => void) => void }).zstdCompress;
+const zstdCompress: Compress | undefined = zlibZstdCompress ? promisify(zlibZstdCompress) : undefined;
+
+export type ContentEncoding = 'gzip' | 'brotli';
+
+export type CompressionCodec = 'gzip' | 'brotli' | 'zstd';
+
+// Bytes a player downloads with each Content-Encoding
+export interface CompressedSizes {
+  gzip: number;
+  brotli: number;
+  // Missing when the Node runtime has no zstd
+  zstd?: number;
+}
+
+export interface DecodedContent {
+  content: Buffer;
+  encoding?: ContentEncoding;
+}
+
+// Suffixes build tools append to already-compressed output
+const COMPRESSED_SUFFIXES = ['.gz', '.br', '.unityweb'];
+
+export function isZstdAvailable(): boolean {
+  return zstdCompress !== undefined;
+}
+
+// gzip at the default level most servers use on the fly; Brotli at quality 11 as build tools precompress it
+export async function measureCompressedSizes(content: Buffer): Promise<CompressedSizes> {
+  const [gzipped, brotli, zstd] = await Promise.all([
+    gzip(content),
+    brotliCompress(content, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: content.length
+      }
+    }),
+    zstdCompress?.(content)
+  ]);
+
+  return { gzip: gzipped.length, brotli: brotli.length, ...(zstd ? { zstd: zstd.length } : {}) };
+}
+
+export function isGzip(content: Buffer): boolean {
+  return content.length > 2 && content[0] === 0x1f && content[1] === 0x8b;
+}
+
+// File name with any compression suffix removed, e.g. "game.wasm.br" -> "game.wasm"
+export function stripCompressionSuffix(fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase();
+  return COMPRESSED_SUFFIXES.includes(extension) ? fileName.slice(0, -extension.length) : fileName;
+}
+
+export async function decodeContent(content: Buffer, fileName: string): Promise<DecodedContent> {
+  const extension = path.extname(fileName).toLowerCase();
+
+  if (isGzip(content)) {
+    return { content: await gunzip(content), encoding: 'gzip' };
+  }
+
+  // Brotli has no magic number, so only try it where the name says the file is compressed
+  if (extension === '.br' || extension === '.unityweb') {
+    try {
+      return { content: await brotliDecompress(content), encoding: 'brotli' };
+    } catch {
+      return { content };
+    }
+  }
+
+  return { content };
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathExists } from './build-locator';
+
+// Looked up in the working directory unless WEBGL_MCP_CONFIG points elsewhere
+export const CONFIG_FILE_NAME = 'webgl-mcp.config.json';
+
+export function resolveConfigPath(): string {
+  return path.resolve(process.env.WEBGL_MCP_CONFIG ?? CONFIG_FILE_NAME);
+}
+
+// Parsed JSON of the config file, or undefined when there is none
+export async function readConfigFile(configPath: string): Promise<unknown> {
+  if (!await pathExists(configPath)) return undefined;
+  return JSON.parse(await fs.readFile(configPath, 'utf8'));
+}
+
+// Load a plugin module named in the config: a path relative to the config file or an npm package resolved from there
+export function requirePlugin(specifier: string, configPath: string): { path: string; exports: unknown } {
+  const resolved = require.resolve(specifier, { paths: [path.dirname(configPath)] });
+  return { path: resolved, exports: require(resolved) };
+}
+
+// First line of an error; module resolution errors append the whole require stack
+export function errorMessage(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).split('\n')[0];
+}
@@ -1,10 +1,11 @@
 import { WebGLContextMetadata } from '../webgl-context';
+import { Finding, createFinding } from './findings';
 
 export interface DisplayAnalysis {
   resolution: Resolution;
   devicePixelRatio: number;
   displayCapabilities: DisplayCapabilities;
-  recommendations: string[];
+  recommendations: Finding[];
 }
 
 interface Resolution {
@@ -140,59 +141,59 @@ export class WebGLDisplayAnalyzer {
     // Resolution recommendations
     if (resolution.width * devicePixelRatio > displayCapabilities.maxTextureSize ||
         resolution.height * devicePixelRatio > displayCapabilities.maxTextureSize) {
-      analysis.recommendations.push(
-        'Canvas size exceeds maximum texture size. Consider reducing resolution or implementing split-screen rendering.'
-      );
+      analysis.recommendations.push(createFinding('display/canvas-exceeds-max-texture', 'error', 'compat',
+        'Canvas size exceeds maximum texture size.',
+        { fixHint: 'Reduce the resolution or implement split-screen rendering.' }));
     }
 
     // Device pixel ratio recommendations
     if (devicePixelRatio > 1) {
-      analysis.recommendations.push(
-        `High DPI display detected (${devicePixelRatio}x). Consider implementing resolution scaling for performance.`
-      );
+      analysis.recommendations.push(createFinding('display/high-dpi', 'info', 'perf',
+        `High DPI display detected (${devicePixelRatio}x).`,
+        { fixHint: 'Implement resolution scaling for performance.' }));
     }
 
     // Color format recommendations
     if (displayCapabilities.hasHDR) {
-      analysis.recommendations.push(
-        'HDR capable display detected. Consider implementing HDR rendering pipeline.'
-      );
+      analysis.recommendations.push(createFinding('display/hdr-available', 'info', 'ux',
+        'HDR capable display detected.',
+        { fixHint: 'Consider an HDR rendering pipeline.' }));
     }
 
     // Antialiasing recommendations
     if (displayCapabilities.antialiasingModes.some(mode => mode.includes('MSAA'))) {
-      analysis.recommendations.push(
-        'MSAA supported. Consider using MSAA for static scenes and FXAA for dynamic content.'
-      );
+      analysis.recommendations.push(createFinding('display/msaa-available', 'info', 'ux',
+        'MSAA supported.',
+        { fixHint: 'Use MSAA for static scenes and FXAA for dynamic content.' }));
     }
 
     // Texture format recommendations
     if (displayCapabilities.hasFloatTextures) {
-      analysis.recommendations.push(
-        'Float textures supported. Consider using for HDR effects and advanced post-processing.'
-      );
+      analysis.recommendations.push(createFinding('display/float-textures-available', 'info', 'ux',
+        'Float textures supported.',
+        { fixHint: 'Use them for HDR effects and advanced post-processing.' }));
     }
 
     // Depth texture recommendations
     if (displayCapabilities.hasDepthTexture) {
-      analysis.recommendations.push(
-        'Depth textures supported. Consider using for shadow mapping and depth-based effects.'
-      );
+      analysis.recommendations.push(createFinding('display/depth-textures-available', 'info', 'ux',
+        'Depth textures supported.',
+        { fixHint: 'Use them for shadow mapping and depth-based effects.' }));
     }
 
     // Viewport recommendations
     const [maxWidth, maxHeight] = displayCapabilities.maxViewportDims;
     if (resolution.width > maxWidth || resolution.height > maxHeight) {
-      analysis.recommendations.push(
-        'Viewport dimensions exceed maximum. Implement viewport splitting or reduce resolution.'
-      );
+      analysis.recommendations.push(createFinding('display/viewport-exceeds-max', 'error', 'compat',
+        'Viewport dimensions exceed maximum.',
+        { fixHint: 'Implement viewport splitting or reduce the resolution.' }));
     }
 
     // Aspect ratio recommendations
     if (resolution.aspectRatio < 1 || resolution.aspectRatio > 2.5) {
-      analysis.recommendations.push(
-        'Unusual aspect ratio detected. Ensure content scales appropriately across different screen sizes.'
-      );
+      analysis.recommendations.push(createFinding('display/unusual-aspect-ratio', 'warning', 'ux',
+        'Unusual aspect ratio detected.',
+        { fixHint: 'Ensure content scales appropriately across different screen sizes.' }));
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { JSDOM } from 'jsdom';
+import { EngineDetector } from './engine-detector';
+
+const ruleIds = (findings: { ruleId: string }[]) => findings.map(finding => finding.ruleId);
+
+describe('EngineDetector', () => {
+  const detector = new EngineDetector();
+
+  describe('detectEngineStatic', () => {
+    it('runs the markup checks of the detected engine', async () => {
+      const { document } = new JSDOM('<html><body><canvas></canvas><script src="js/three.js"></script></body></html>').window;
+      const result = await detector.detectEngineStatic(document, [
+        { path: 'js/three.js', content: 'const REVISION = "160"; window.__THREE__ = REVISION;' }
+      ]);
+
+      expect(result.engineName).toBe('Three.js');
+      expect(ruleIds(result.warnings)).toEqual(['three/unminified']);
+    });
+
+    it('does not report checks that need a WebGL context', async () => {
+      const { document } = new JSDOM(
+        '<html><head><meta name="viewport" content="width=device-width"></head>' +
+        '<body><canvas></canvas><script src="pixi.min.js"></script></body></html>'
+      ).window;
+      const result = await detector.detectEngineStatic(document, [
+        { path: 'pixi.min.js', content: 'PIXI.Application; new PIXI.Renderer();' }
+      ]);
+
+      expect(result.engineName).toBe('PixiJS');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('reports a Defold asm.js fallback', async () => {
+      const { document } = new JSDOM(
+        '<html><body><canvas id="canvas"></canvas><script src="dmloader.js"></script><script src="game_asmjs.js"></script></body></html>'
+      ).window;
+      const result = await detector.detectEngineStatic(document, [], ['dmloader.js', 'game_asmjs.js', 'game_wasm.js', 'game.wasm']);
+
+      expect(result.engineName).toBe('Defold');
+      expect(ruleIds(result.warnings)).toContain('defold/asmjs-fallback');
+    });
+
+    describe('ranking', () => {
+      it('combines the weights of independent signatures and ranks every matching engine', async () => {
+        const { document } = new JSDOM('<html><body><canvas id="game-canvas"></canvas><script src="game.js"></script></body></html>').window;
+        const result = await detector.detectEngineStatic(document, [
+          { path: 'game.js', content: 'var runtimeScene = new Scene(); PIXI.utils.skipHello();' }
+        ]);
+
+        // 1 - (1 - 0.2) * (1 - 0.4)
+        expect(result).toMatchObject({ engineName: 'GDevelop', known: true });
+        expect(result.confidence).toBeCloseTo(0.52);
+        expect(result.evidence.map(evidence => [evidence.signature, evidence.matched, evidence.weight]))
+          .toEqual([['script', 'runtimeScene', 0.4], ['canvas', 'game-canvas', 0.2]]);
+        expect(result.candidates.map(candidate => [candidate.engineName, candidate.confidence]))
+          .toEqual([['GDevelop', result.confidence], ['PixiJS', 0.5]]);
+      });
+
+      it('falls back to an unknown engine below the threshold and still lists the candidates', async () => {
+        const { document } = new JSDOM('<html><body><canvas id="gameCanvas"></canvas></body></html>').window;
+        const result = await detector.detectEngineStatic(document);
+
+        expect(result).toMatchObject({ engineName: 'Unknown/Custom', known: false, confidence: 0, evidence: [], warnings: [] });
+        expect(result.candidates.map(candidate => candidate.engineName)).toEqual(['PuzzleScript']);
+        expect(result.candidates[0].confidence).toBeCloseTo(0.3);
+      });
+    });
+
+    describe('Phaser physics', () => {
+      const page = () => new JSDOM('<html><body><script src="phaser.min.js"></script><script src="game.js"></script></body></html>').window.document;
+      // The default bundle ships both physics systems
+      const bundle = { path: 'phaser.min.js', content: 'var Phaser={};Phaser.Physics={Arcade:{},Matter:{}};var arcade=1,matter=2;' };
+
+      it('does not report physics systems the game config does not use', async () => {
+        const result = await detector.detectEngineStatic(page(), [bundle, { path: 'game.js', content: 'new Phaser.Game({ type: Phaser.AUTO });' }]);
+
+        expect(result.engineName).toBe('Phaser');
+        expect(result.features).not.toContain('Arcade physics');
+        expect(result.features).not.toContain('Matter.js physics');
+      });
+
+      it('reports the default physics system of the game config', async () => {
+        const result = await detector.detectEngineStatic(page(), [bundle, {
+          path: 'game.js',
+          content: 'new Phaser.Game({ type: Phaser.AUTO, physics: { matter: { gravity: { y: 1 } }, default: "matter" } });'
+        }]);
+
+        expect(result.features).toContain('Matter.js physics');
+        expect(result.features).not.toContain('Arcade physics');
+      });
+    });
+  });
+});
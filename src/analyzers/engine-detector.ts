@@ -1,3 +1,5 @@
+import { Finding, createFinding } from './findings';
+
 export interface WebGLCapabilities {
   webgl2: boolean;
   floatTextures: boolean;
@@ -9,18 +11,68 @@ export interface WebGLCapabilities {
 }
 
 export interface EngineSignature {
-  type: 'canvas' | 'webgl' | 'dom' | 'script' | 'html';
+  type: 'canvas' | 'webgl' | 'dom' | 'script' | 'html' | 'file';
+  // For 'file' signatures: build-relative paths or path suffixes such as "archive/game.arcd"
   patterns?: string[];
   size?: { width: number; height: number };
   shaders?: string[];
+  // How strongly a match alone points to the engine, from 0 to 1 (default 0.5)
+  weight?: number;
+}
+
+export interface EngineEvidence {
+  signature: EngineSignature['type'];
+  // The pattern, shader name or canvas size that matched
+  matched: string;
+  // Where it matched, e.g. 'script src="Build/game.loader.js"' or 'canvas#unity-canvas'
+  location: string;
+  weight: number;
+}
+
+export interface EngineCandidate {
+  engineName: string;
+  confidence: number;
+  evidence: EngineEvidence[];
+}
+
+// Contents of a script the page loads, for static detection
+export interface ScriptSource {
+  path: string;
+  content: string;
+}
+
+export interface EngineVersionProbe {
+  // Which files to look in, matched against the file name
+  file: RegExp;
+  // Binary files are only searched in a window after this marker instead of being decoded whole
+  marker?: string;
+  // The first capture group is the version; "version" is used when the pattern has no group
+  pattern: RegExp;
+  version?: string;
+}
+
+// Declarative feature check, for engines defined outside this file
+export interface EngineFeatureProbe {
+  feature: string;
+  type: 'script' | 'file' | 'dom' | 'html';
+  // Substrings for 'script' and 'html', path suffixes for 'file', CSS selectors for 'dom'; any one match is enough
+  patterns: string[];
 }
 
 export interface EngineDetectionResult {
   engineName: string;
+  version?: string;
+  // File the version was read from, relative to the build
+  versionSource?: string;
   confidence: number;
+  // False when no engine reached the detection threshold
+  known: boolean;
+  evidence: EngineEvidence[];
+  // Every engine with at least one matching signature, most likely first
+  candidates: EngineCandidate[];
   features: string[];
   recommendations: string[];
-  warnings: string[];
+  warnings: Finding[];
   performance?: {
     webglCapabilities?: WebGLCapabilities;
     canvasOptimizations?: string[];
@@ -33,9 +85,24 @@ export interface GameEngine {
   name: string;
   signatures: EngineSignature[];
   recommendations: string[];
-  analyze: (document: Document) => Promise<string[]>;
+  versionProbes?: EngineVersionProbe[];
+  featureProbes?: EngineFeatureProbe[];
+  // Checks that need the page running with a WebGL context
+  analyze: (document: Document) => Promise<Finding[]>;
+  // Checks that only read the markup, so static detection runs them as well
+  analyzeMarkup?: (document: Document) => Finding[];
 }
 
+// Engines below this combined confidence are reported as unknown
+const DETECTION_THRESHOLD = 0.5;
+const DEFAULT_SIGNATURE_WEIGHT = 0.5;
+export const UNKNOWN_ENGINE = 'Unknown/Custom';
+
+// physics: { default: 'arcade' } in a Phaser game config, minified or not; other physics settings may come before the default
+const phaserPhysicsConfig = (system: string) =>
+  new RegExp(`["']?physics["']?\\s*:\\s*\\{[\\s\\S]{0,300}?["']?default["']?\\s*:\\s*["']${system}["']`);
+const PHASER_PHYSICS_CONFIG = { arcade: phaserPhysicsConfig('arcade'), matter: phaserPhysicsConfig('matter') };
+
 export class EngineDetector {
   public async checkWebGLCapabilities(gl: WebGLRenderingContext | WebGL2RenderingContext): Promise<WebGLCapabilities> {
     const isWebGL2 = gl instanceof WebGL2RenderingContext;
@@ -57,9 +124,16 @@ export class EngineDetector {
     {
       name: 'Unity',
       signatures: [
-        { type: 'script', patterns: ['UnityLoader', 'UnityProgress', 'buildUrl'] },
-        { type: 'webgl', patterns: ['unity-canvas', 'unityContainer'] },
-        { type: 'html', patterns: ['unity-fullscreen-button', 'unity-mobile-warning'] }
+        { type: 'script', patterns: ['UnityLoader', 'createUnityInstance', 'unityFramework', 'UnityProgress'], weight: 0.9 },
+        { type: 'script', patterns: ['buildUrl'], weight: 0.2 },
+        { type: 'webgl', patterns: ['unity-canvas', 'unityContainer'], weight: 0.6 },
+        { type: 'html', patterns: ['unity-fullscreen-button', 'unity-mobile-warning'], weight: 0.7 }
+      ],
+      versionProbes: [
+        // Unity 2017-2019 build manifests and loaders
+        { file: /\.(json|js)$/i, pattern: /["']?unityVersion["']?\s*[:=]\s*["']([^"']+)["']/ },
+        // The asset bundle header inside the .data container: "UnityFS\0", format, "5.x.x\0", engine version
+        { file: /\.(data|unity3d|unityweb)$/i, marker: 'UnityFS', pattern: /^UnityFS\0[\s\S]{4}[^\0]*\0(\d+\.\d+\.\d+[abfpx]\d+)\0/ }
       ],
       recommendations: [
         'Enable WebGL 2.0 for better performance and features',
@@ -73,20 +147,20 @@ export class EngineDetector {
         'Implement LOD system for detailed models'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('#unity-canvas') as HTMLCanvasElement | null;
         if (canvas) {
           const context = canvas.getContext('webgl2') || canvas.getContext('webgl');
           if (context) {
             const capabilities = await this.checkWebGLCapabilities(context);
             if (!capabilities.webgl2) {
-              warnings.push('WebGL 2.0 not available, falling back to WebGL 1.0');
+              warnings.push(createFinding('unity/no-webgl2', 'warning', 'compat', 'WebGL 2.0 not available, falling back to WebGL 1.0'));
             }
             if (!capabilities.instancedArrays) {
-              warnings.push('GPU instancing not supported, performance may be impacted');
+              warnings.push(createFinding('unity/no-instancing', 'warning', 'perf', 'GPU instancing not supported, performance may be impacted'));
             }
             if (capabilities.maxTextureSize < 4096) {
-              warnings.push('Limited texture size support, consider texture atlasing');
+              warnings.push(createFinding('unity/limited-texture-size', 'warning', 'compat', 'Limited texture size support, consider texture atlasing'));
             }
           }
           
@@ -94,7 +168,7 @@ export class EngineDetector {
           const unityInstance = (window as any).unityInstance;
           if (unityInstance) {
             if (!unityInstance.Module?.asmLibraryArg?.memory) {
-              warnings.push('WebAssembly memory management not detected');
+              warnings.push(createFinding('unity/no-wasm-memory', 'info', 'perf', 'WebAssembly memory management not detected'));
             }
           }
         }
@@ -104,8 +178,14 @@ export class EngineDetector {
     {
       name: 'Godot',
       signatures: [
-        { type: 'script', patterns: ['GDJS', 'godot.js', 'godot.wasm'] },
-        { type: 'canvas', patterns: ['godot-canvas'] }
+        { type: 'script', patterns: ['GODOT_CONFIG', 'godot.js', 'godot.wasm', 'Godot Engine'], weight: 0.9 },
+        { type: 'canvas', patterns: ['godot-canvas'], weight: 0.6 }
+      ],
+      versionProbes: [
+        { file: /\.(js|wasm)$/i, marker: 'Godot Engine v', pattern: /^Godot Engine v(\d+\.\d+(?:\.\d+)?(?:\.(?:stable|dev|alpha|beta|rc)\d*)?)/ },
+        // The export shell only reveals the major version
+        { file: /\.html$/i, pattern: /gdextensionLibs/, version: '4.x' },
+        { file: /\.html$/i, pattern: /gdnativeLibs/, version: '3.x' }
       ],
       recommendations: [
         'Enable GLES3 mode for better WebGL 2.0 support',
@@ -119,31 +199,31 @@ export class EngineDetector {
         'Implement proper batching for 2D sprites'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('#godot-canvas') as HTMLCanvasElement | null;
         if (canvas) {
           const context = canvas.getContext('webgl2') || canvas.getContext('webgl');
           if (context) {
             const capabilities = await this.checkWebGLCapabilities(context);
             if (!capabilities.webgl2) {
-              warnings.push('WebGL 2.0 not available, GLES3 features will be limited');
+              warnings.push(createFinding('godot/no-webgl2', 'warning', 'compat', 'WebGL 2.0 not available, GLES3 features will be limited'));
             }
             if (!capabilities.floatTextures) {
-              warnings.push('Float textures not supported, HDR effects will be limited');
+              warnings.push(createFinding('godot/no-float-textures', 'info', 'compat', 'Float textures not supported, HDR effects will be limited'));
             }
             if (capabilities.maxTextureSize < 8192) {
-              warnings.push('Limited texture size, consider enabling texture streaming');
+              warnings.push(createFinding('godot/limited-texture-size', 'warning', 'compat', 'Limited texture size, consider enabling texture streaming'));
             }
           }
 
           // Check for Godot-specific optimizations
           if (!document.querySelector('meta[name="viewport"]')) {
-            warnings.push('Viewport meta tag not found, mobile scaling may be incorrect');
+            warnings.push(createFinding('godot/no-viewport-meta', 'warning', 'ux', 'Viewport meta tag not found, mobile scaling may be incorrect'));
           }
           
           // Check for WebAssembly threading
           if (!crossOriginIsolated) {
-            warnings.push('Cross-Origin Isolation not enabled, threading unavailable');
+            warnings.push(createFinding('godot/not-cross-origin-isolated', 'warning', 'security', 'Cross-Origin Isolation not enabled, threading unavailable'));
           }
         }
         return warnings;
@@ -152,8 +232,8 @@ export class EngineDetector {
     {
       name: 'Construct',
       signatures: [
-        { type: 'script', patterns: ['c2runtime', 'c3runtime', 'construct'] },
-        { type: 'canvas', patterns: ['construct-canvas'] }
+        { type: 'script', patterns: ['c2runtime', 'c3runtime', 'cr_getC2Runtime', 'cr_getC3Runtime'], weight: 0.9 },
+        { type: 'canvas', patterns: ['construct-canvas'], weight: 0.6 }
       ],
       recommendations: [
         'Enable WebGL renderer for better performance',
@@ -167,30 +247,30 @@ export class EngineDetector {
         'Enable background loading for assets'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('canvas') as HTMLCanvasElement | null;
         if (canvas) {
           const context = canvas.getContext('webgl2') || canvas.getContext('webgl');
           if (context) {
             const capabilities = await this.checkWebGLCapabilities(context);
             if (!capabilities.instancedArrays) {
-              warnings.push('Instancing not supported, sprite batching will be limited');
+              warnings.push(createFinding('construct/no-instancing', 'warning', 'perf', 'Instancing not supported, sprite batching will be limited'));
             }
             if (!capabilities.anisotropicFiltering) {
-              warnings.push('Anisotropic filtering not available, texture quality may be reduced');
+              warnings.push(createFinding('construct/no-anisotropic-filtering', 'info', 'ux', 'Anisotropic filtering not available, texture quality may be reduced'));
             }
           } else {
-            warnings.push('WebGL not available, falling back to Canvas2D');
+            warnings.push(createFinding('construct/no-webgl', 'warning', 'compat', 'WebGL not available, falling back to Canvas2D'));
           }
 
           // Check for Construct-specific optimizations
           const runtime = (window as any).cr_getC2Runtime?.() || (window as any).cr_getC3Runtime?.();
           if (runtime) {
             if (!runtime.uses_loader_layout) {
-              warnings.push('Loading screen not implemented');
+              warnings.push(createFinding('construct/no-loading-screen', 'info', 'ux', 'Loading screen not implemented'));
             }
             if (runtime.isInWorker && !window.Worker) {
-              warnings.push('Web Workers not supported, physics performance may be impacted');
+              warnings.push(createFinding('construct/no-web-workers', 'warning', 'perf', 'Web Workers not supported, physics performance may be impacted'));
             }
           }
         }
@@ -200,8 +280,9 @@ export class EngineDetector {
     {
       name: 'GDevelop',
       signatures: [
-        { type: 'script', patterns: ['gdjs', 'runtimeGame', 'runtimeScene'] },
-        { type: 'canvas', patterns: ['game-canvas'] }
+        { type: 'script', patterns: ['gdjs.', 'gdjs/'], weight: 0.9 },
+        { type: 'script', patterns: ['runtimeGame', 'runtimeScene'], weight: 0.4 },
+        { type: 'canvas', patterns: ['game-canvas'], weight: 0.2 }
       ],
       recommendations: [
         'Enable WebGL renderer in project settings',
@@ -212,15 +293,15 @@ export class EngineDetector {
         'Implement proper mobile touch handling'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('#game-canvas');
         if (canvas) {
           const context = (canvas as HTMLCanvasElement).getContext('webgl');
           if (!context) {
-            warnings.push('WebGL not available, performance may be impacted');
+            warnings.push(createFinding('gdevelop/no-webgl', 'warning', 'compat', 'WebGL not available, performance may be impacted'));
           }
           if (!document.querySelector('meta[name="viewport"][content*="user-scalable=no"]')) {
-            warnings.push('Mobile viewport not properly configured');
+            warnings.push(createFinding('gdevelop/mobile-viewport', 'warning', 'ux', 'Mobile viewport not properly configured'));
           }
         }
         return warnings;
@@ -229,9 +310,9 @@ export class EngineDetector {
     {
       name: 'Bitsy',
       signatures: [
-        { type: 'canvas', size: { width: 512, height: 512 } },
-        { type: 'script', patterns: ['bitsy_title_text', 'bitsyOnLoad', 'exportedGameData'] },
-        { type: 'html', patterns: ['bitsy-gamedata', 'gameDataOnLoad'] }
+        { type: 'canvas', size: { width: 512, height: 512 }, weight: 0.2 },
+        { type: 'script', patterns: ['bitsy_title_text', 'bitsyOnLoad', 'exportedGameData'], weight: 0.9 },
+        { type: 'html', patterns: ['bitsy-gamedata', 'gameDataOnLoad'], weight: 0.8 }
       ],
       recommendations: [
         'Enable pixel-perfect scaling for best visual quality',
@@ -240,14 +321,14 @@ export class EngineDetector {
         'Consider adding a loading indicator for game data'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('canvas');
         if (canvas) {
           if (canvas.width !== 512 || canvas.height !== 512) {
-            warnings.push('Non-standard Bitsy canvas size detected');
+            warnings.push(createFinding('bitsy/non-standard-canvas-size', 'info', 'ux', 'Non-standard Bitsy canvas size detected'));
           }
           if (!canvas.style.imageRendering) {
-            warnings.push('Pixel-perfect scaling not enabled');
+            warnings.push(createFinding('bitsy/no-pixel-perfect-scaling', 'info', 'ux', 'Pixel-perfect scaling not enabled'));
           }
         }
         return warnings;
@@ -256,8 +337,10 @@ export class EngineDetector {
     {
       name: 'Twine',
       signatures: [
-        { type: 'dom', patterns: ['passage', 'tw-story', 'tw-sidebar', 'tw-passage'] },
-        { type: 'script', patterns: ['SugarCube', 'Harlowe', 'Snowman', 'Story.lookup'] }
+        { type: 'dom', patterns: ['tw-storydata', 'tw-story', 'tw-sidebar', 'tw-passage'], weight: 0.9 },
+        { type: 'dom', patterns: ['passage'], weight: 0.2 },
+        { type: 'script', patterns: ['SugarCube', 'Harlowe', 'Snowman'], weight: 0.8 },
+        { type: 'script', patterns: ['Story.lookup'], weight: 0.5 }
       ],
       recommendations: [
         'Ensure proper text rendering and scaling',
@@ -266,13 +349,13 @@ export class EngineDetector {
         'Consider mobile-friendly UI adjustments'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const passages = document.querySelectorAll('.passage, .tw-passage');
         if (passages.length > 100) {
-          warnings.push('Large number of passages may impact performance');
+          warnings.push(createFinding('twine/many-passages', 'info', 'perf', 'Large number of passages may impact performance'));
         }
         if (!document.querySelector('[role="main"]')) {
-          warnings.push('Missing ARIA roles for accessibility');
+          warnings.push(createFinding('twine/missing-aria-roles', 'warning', 'ux', 'Missing ARIA roles for accessibility'));
         }
         return warnings;
       }
@@ -280,9 +363,9 @@ export class EngineDetector {
     {
       name: 'PICO-8',
       signatures: [
-        { type: 'canvas', size: { width: 128, height: 128 } },
-        { type: 'script', patterns: ['_pico8_', 'pico8_gpio', 'pico8_buttons'] },
-        { type: 'webgl', shaders: ['pico8_vert', 'pico8_frag'] }
+        { type: 'canvas', size: { width: 128, height: 128 }, weight: 0.2 },
+        { type: 'script', patterns: ['_pico8_', 'pico8_gpio', 'pico8_buttons'], weight: 0.9 },
+        { type: 'webgl', shaders: ['pico8_vert', 'pico8_frag'], weight: 0.6 }
       ],
       recommendations: [
         'Implement WebGL with Canvas 2D fallback',
@@ -291,15 +374,15 @@ export class EngineDetector {
         'Add touch controls for mobile support'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('canvas');
         if (canvas) {
           const context = canvas.getContext('webgl') || canvas.getContext('webgl2');
           if (!context) {
-            warnings.push('WebGL not available, using Canvas 2D fallback');
+            warnings.push(createFinding('pico8/no-webgl', 'info', 'compat', 'WebGL not available, using Canvas 2D fallback'));
           }
           if (canvas.width !== 128 || canvas.height !== 128) {
-            warnings.push('Non-standard PICO-8 resolution detected');
+            warnings.push(createFinding('pico8/non-standard-resolution', 'info', 'ux', 'Non-standard PICO-8 resolution detected'));
           }
         }
         return warnings;
@@ -308,9 +391,10 @@ export class EngineDetector {
     {
       name: 'PuzzleScript',
       signatures: [
-        { type: 'canvas', patterns: ['gameCanvas'] },
-        { type: 'script', patterns: ['levelString', 'processInput', 'titleScreen'] },
-        { type: 'html', patterns: ['gameWrapper', 'gameContainer'] }
+        { type: 'script', patterns: ['PuzzleScript', 'puzzlescript'], weight: 0.9 },
+        { type: 'canvas', patterns: ['gameCanvas'], weight: 0.3 },
+        { type: 'script', patterns: ['levelString', 'processInput', 'titleScreen'], weight: 0.4 },
+        { type: 'html', patterns: ['gameWrapper', 'gameContainer'], weight: 0.1 }
       ],
       recommendations: [
         'Optimize rule processing for complex puzzles',
@@ -319,15 +403,15 @@ export class EngineDetector {
         'Consider mobile touch controls'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('#gameCanvas') as HTMLCanvasElement;
         if (canvas) {
           const context = canvas.getContext('2d');
           if (!context) {
-            warnings.push('Canvas 2D context not available');
+            warnings.push(createFinding('puzzlescript/no-canvas2d', 'error', 'compat', 'Canvas 2D context not available'));
           }
           if (!canvas.style.imageRendering) {
-            warnings.push('Pixel-perfect rendering not enabled');
+            warnings.push(createFinding('puzzlescript/no-pixel-perfect-rendering', 'info', 'ux', 'Pixel-perfect rendering not enabled'));
           }
         }
         return warnings;
@@ -336,9 +420,9 @@ export class EngineDetector {
     {
       name: 'TIC-80',
       signatures: [
-        { type: 'canvas', size: { width: 240, height: 136 } },
-        { type: 'script', patterns: ['TIC', 'tic80', 'tic'] },
-        { type: 'webgl', shaders: ['tic_vert', 'tic_frag'] }
+        { type: 'canvas', size: { width: 240, height: 136 }, weight: 0.4 },
+        { type: 'script', patterns: ['tic80.js', 'tic80.wasm', 'TIC-80'], weight: 0.9 },
+        { type: 'webgl', shaders: ['tic_vert', 'tic_frag'], weight: 0.6 }
       ],
       recommendations: [
         'Verify 240x136 resolution compliance',
@@ -347,15 +431,15 @@ export class EngineDetector {
         'Monitor CPU usage for complex games'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('canvas');
         if (canvas) {
           if (canvas.width !== 240 || canvas.height !== 136) {
-            warnings.push('Non-standard TIC-80 resolution detected');
+            warnings.push(createFinding('tic80/non-standard-resolution', 'info', 'ux', 'Non-standard TIC-80 resolution detected'));
           }
           const context = canvas.getContext('webgl') || canvas.getContext('webgl2');
           if (!context) {
-            warnings.push('WebGL not available, using Canvas 2D fallback');
+            warnings.push(createFinding('tic80/no-webgl', 'info', 'compat', 'WebGL not available, using Canvas 2D fallback'));
           }
         }
         return warnings;
@@ -364,8 +448,9 @@ export class EngineDetector {
     {
       name: 'p5.js',
       signatures: [
-        { type: 'script', patterns: ['p5.', 'setup()', 'draw()'] },
-        { type: 'canvas', patterns: ['defaultCanvas'] }
+        { type: 'script', patterns: ['p5.min.js', 'p5.js', 'new p5(', 'p5.prototype'], weight: 0.9 },
+        { type: 'script', patterns: ['createCanvas('], weight: 0.3 },
+        { type: 'canvas', patterns: ['defaultCanvas'], weight: 0.6 }
       ],
       recommendations: [
         'Use WebGL mode for 3D or complex 2D graphics',
@@ -375,136 +460,544 @@ export class EngineDetector {
         'Consider using instance mode for better control'
       ],
       analyze: async (document: Document) => {
-        const warnings = [];
+        const warnings: Finding[] = [];
         const canvas = document.querySelector('canvas');
         if (canvas) {
           const webglContext = (canvas as HTMLCanvasElement).getContext('webgl');
           if (!webglContext && document.querySelector('script[src*="p5"]')?.textContent?.includes('WEBGL')) {
-            warnings.push('WebGL mode requested but not available');
+            warnings.push(createFinding('p5/webgl-unavailable', 'error', 'compat', 'WebGL mode requested but not available'));
           }
           if (!document.querySelector('script[src*="p5"]')?.textContent?.includes('preload')) {
-            warnings.push('preload() function not detected for asset loading');
+            warnings.push(createFinding('p5/no-preload', 'info', 'ux', 'preload() function not detected for asset loading'));
           }
         }
         return warnings;
       }
+    },
+    {
+      name: 'Three.js',
+      signatures: [
+        { type: 'script', patterns: ['__THREE__', 'three.module.js', 'three.module.min.js', 'three.min.js', 'THREE.WebGLRenderer'], weight: 0.9 },
+        { type: 'script', patterns: ['three/addons/', 'examples/jsm/'], weight: 0.7 }
+      ],
+      versionProbes: [
+        { file: /\.js$/i, pattern: /\bREVISION\s*=\s*["'](\d+(?:dev)?)["']/ },
+        { file: /\.html$/i, pattern: /three@([\d.]+)/ }
+      ],
+      recommendations: [
+        'Dispose geometries, materials and textures you no longer render; Three.js does not free GPU memory on its own',
+        'Use InstancedMesh or BatchedMesh for repeated objects to cut draw calls',
+        'Compress glTF meshes with Draco or meshopt and textures with KTX2/Basis',
+        'Cap renderer.setPixelRatio at 2 on high-DPI mobile screens',
+        'Import only the addons you use so bundlers can tree-shake the rest',
+        'Check renderer.info.render.calls and renderer.info.memory while profiling'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('canvas');
+        if (canvas) {
+          const context = canvas.getContext('webgl2') || canvas.getContext('webgl');
+          if (!context) {
+            warnings.push(createFinding('three/no-webgl', 'error', 'compat', 'WebGL not available, Three.js cannot render'));
+          } else if (!(await this.checkWebGLCapabilities(context)).webgl2) {
+            warnings.push(createFinding('three/no-webgl2', 'error', 'compat', 'WebGL 2.0 not available; Three.js r163 and later require it'));
+          }
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (document.querySelector('script[src$="three.js"]')) {
+          warnings.push(createFinding('three/unminified', 'warning', 'size', 'Unminified three.js is loaded',
+            { fixHint: 'Load three.module.min.js or bundle only the modules you import.' }));
+        }
+        return warnings;
+      }
+    },
+    {
+      name: 'Babylon.js',
+      signatures: [
+        { type: 'script', patterns: ['babylon.js', 'babylon.max.js', 'BABYLON.Engine', '@babylonjs/core', 'babylonjs'], weight: 0.9 },
+        { type: 'canvas', patterns: ['renderCanvas'], weight: 0.4 }
+      ],
+      versionProbes: [
+        { file: /\.js$/i, pattern: /get Version\(\)\s*\{\s*return\s*["']([\d.]+(?:-[\w.]+)?)["']/ },
+        { file: /\.html$/i, pattern: /babylonjs(?:\/core)?@([\d.]+)/ }
+      ],
+      recommendations: [
+        'Call scene.freezeActiveMeshes() and freeze materials for static scenes',
+        'Use thin instances for large numbers of identical meshes',
+        'Enable scene.skipPointerMovePicking when pointer-move picking is not needed',
+        'Load only the @babylonjs/* ES modules you use instead of the full UMD bundle',
+        'Use KTX2 textures and Draco-compressed glTF assets',
+        'Remove the Inspector and debug layer from production builds'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('canvas');
+        if (canvas && !(canvas.getContext('webgl2') || canvas.getContext('webgl'))) {
+          warnings.push(createFinding('babylon/no-webgl', 'error', 'compat', 'WebGL not available, Babylon.js cannot render'));
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (document.querySelector('script[src*="babylon.inspector"]')) {
+          warnings.push(createFinding('babylon/inspector-shipped', 'warning', 'size', 'The Babylon.js Inspector is loaded',
+            { fixHint: 'Remove babylon.inspector from production pages.' }));
+        }
+        if (document.querySelector('script[src*="babylon.max.js"]')) {
+          warnings.push(createFinding('babylon/unminified', 'warning', 'size', 'Unminified babylon.max.js is loaded',
+            { fixHint: 'Load babylon.js or bundle the ES modules you use.' }));
+        }
+        return warnings;
+      }
+    },
+    {
+      name: 'PlayCanvas',
+      signatures: [
+        { type: 'script', patterns: ['playcanvas-stable', 'playcanvas.min.js', 'PlayCanvas Engine', 'pc.Application', 'pc.AppBase'], weight: 0.9 },
+        { type: 'canvas', patterns: ['application-canvas'], weight: 0.7 },
+        { type: 'file', patterns: ['__settings__.js', '__start__.js', '__loading__.js'], weight: 0.8 }
+      ],
+      versionProbes: [
+        { file: /\.js$/i, pattern: /PlayCanvas Engine v(\d+\.\d+\.\d+)/ },
+        { file: /\.html$/i, pattern: /playcanvas@([\d.]+)/ }
+      ],
+      recommendations: [
+        'Enable texture compression (Basis/ASTC/ETC) in the PlayCanvas project settings',
+        'Mark large assets as non-preload and load them on demand',
+        'Use batch groups for static geometry and UI elements',
+        'Enable "Optimize Scene Format" and concatenate scripts when publishing',
+        'Limit device pixel ratio on mobile with app.graphicsDevice.maxPixelRatio',
+        'Use the WebAssembly build of Ammo.js only when physics is required'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('#application-canvas') as HTMLCanvasElement | null;
+        if (canvas && !(canvas.getContext('webgl2') || canvas.getContext('webgl'))) {
+          warnings.push(createFinding('playcanvas/no-webgl', 'error', 'compat', 'WebGL not available, PlayCanvas cannot render'));
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (!document.querySelector('meta[name="viewport"]')) {
+          warnings.push(createFinding('playcanvas/no-viewport-meta', 'warning', 'ux', 'Viewport meta tag not found, mobile scaling may be incorrect'));
+        }
+        return warnings;
+      }
+    },
+    {
+      name: 'Phaser',
+      signatures: [
+        { type: 'script', patterns: ['phaser.min.js', 'phaser.js', 'new Phaser.Game', 'Phaser.AUTO', 'Phaser.Scene'], weight: 0.9 }
+      ],
+      versionProbes: [
+        { file: /\.js$/i, pattern: /\bVERSION\s*:\s*["'](3\.\d+\.\d+(?:-[\w.]+)?)["']/ },
+        { file: /\.html$/i, pattern: /phaser@([\d.]+)/ }
+      ],
+      recommendations: [
+        'Pack sprites into texture atlases to keep the WebGL batch unbroken',
+        'Use the Scale Manager (Phaser.Scale.FIT) instead of custom resize code',
+        'Set pixelArt: true for pixel art games to disable smoothing',
+        'Use a custom Phaser build that leaves out unused plugins and physics',
+        'Pool game objects with Groups instead of creating and destroying them',
+        'Prefer Arcade physics over Matter.js when you do not need complex shapes'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('canvas');
+        if (canvas && !canvas.getContext('webgl')) {
+          warnings.push(createFinding('phaser/no-webgl', 'warning', 'compat', 'WebGL not available, Phaser falls back to Canvas'));
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (document.querySelector('script[src$="phaser.js"]')) {
+          warnings.push(createFinding('phaser/unminified', 'warning', 'size', 'Unminified phaser.js is loaded',
+            { fixHint: 'Load phaser.min.js or a custom build.' }));
+        }
+        return warnings;
+      }
+    },
+    {
+      name: 'PixiJS',
+      signatures: [
+        { type: 'script', patterns: ['pixi.min.js', 'pixi.js - v', 'new PIXI.Application', 'PIXI.Application', 'pixi.mjs'], weight: 0.9 },
+        { type: 'script', patterns: ['PIXI.'], weight: 0.5 }
+      ],
+      versionProbes: [
+        { file: /\.m?js$/i, pattern: /pixi\.js - v(\d+\.\d+\.\d+(?:-[\w.]+)?)/ },
+        { file: /\.html$/i, pattern: /pixi(?:\.js)?@([\d.]+)/ }
+      ],
+      recommendations: [
+        'Pack textures into spritesheets so sprites share a base texture and batch together',
+        'Use ParticleContainer for large numbers of simple sprites',
+        'Call destroy({ children: true, texture: true }) on scenes you leave',
+        'Cache static containers with cacheAsBitmap (v7) or cacheAsTexture (v8)',
+        'Load assets through PIXI.Assets with bundles instead of ad-hoc loaders',
+        'Set resolution and autoDensity deliberately on high-DPI screens'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('canvas');
+        if (canvas && !(canvas.getContext('webgl2') || canvas.getContext('webgl'))) {
+          warnings.push(createFinding('pixi/no-webgl', 'warning', 'compat', 'WebGL not available, PixiJS falls back to Canvas or fails'));
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (document.querySelector('script[src$="pixi.js"]')) {
+          warnings.push(createFinding('pixi/unminified', 'warning', 'size', 'Unminified pixi.js is loaded',
+            { fixHint: 'Load pixi.min.js or bundle the modules you use.' }));
+        }
+        return warnings;
+      }
+    },
+    {
+      name: 'Cocos Creator',
+      signatures: [
+        { type: 'script', patterns: ['cocos2d-js', 'cocos-js/', 'CocosEngine', 'cc.ENGINE_VERSION'], weight: 0.9 },
+        { type: 'canvas', patterns: ['GameCanvas'], weight: 0.6 },
+        // 2.x ships src/settings.js, 3.x ships src/settings.json; both pack assets into bundles with a config.json
+        { type: 'file', patterns: ['assets/main/config.json', 'assets/internal/config.json', 'cocos-js/cc.js'], weight: 0.9 },
+        { type: 'file', patterns: ['src/settings.js', 'src/settings.json'], weight: 0.4 }
+      ],
+      versionProbes: [
+        { file: /\.js$/i, pattern: /CocosEngine\s*=\s*["']([\d.]+)["']/ },
+        { file: /\.js$/i, pattern: /ENGINE_VERSION\s*=\s*["']([\d.]+)["']/ }
+      ],
+      recommendations: [
+        'Split content into Asset Bundles and load non-essential bundles on demand',
+        'Enable texture compression presets for web (ETC/ASTC with PNG fallback)',
+        'Turn on "Merge Assets JSON" and MD5 cache busting when building',
+        'Use auto-atlas for UI sprites to keep draw calls low',
+        'Strip unused engine modules in Project Settings > Feature Cropping',
+        'Enable the WebGL 2 backend where supported'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('#GameCanvas') as HTMLCanvasElement | null;
+        if (canvas && !(canvas.getContext('webgl2') || canvas.getContext('webgl'))) {
+          warnings.push(createFinding('cocos/no-webgl', 'error', 'compat', 'WebGL not available, Cocos Creator cannot render'));
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (!document.querySelector('meta[name="viewport"]')) {
+          warnings.push(createFinding('cocos/no-viewport-meta', 'warning', 'ux', 'Viewport meta tag not found, mobile scaling may be incorrect'));
+        }
+        return warnings;
+      }
+    },
+    {
+      name: 'Defold',
+      signatures: [
+        { type: 'script', patterns: ['dmloader.js', 'EngineLoader', 'CUSTOM_PARAMETERS'], weight: 0.9 },
+        // Bundled game data lives in archive/ as game.arcd/game.arci plus a manifest, optionally split into chunks
+        { type: 'file', patterns: ['archive/game.arcd', 'archive/game.arci', 'archive/game.dmanifest', 'archive/archive_files.json'], weight: 0.9 }
+      ],
+      versionProbes: [
+        { file: /\.(js|wasm)$/i, marker: 'Defold', pattern: /^Defold[^\d\0]{0,16}(\d+\.\d+\.\d+)/ }
+      ],
+      recommendations: [
+        'Enable "Use texture compression" in the texture profiles for HTML5',
+        'Split large games with Live Update and load excluded collections on demand',
+        'Keep the archive under the browser cache limits by excluding unused assets',
+        'Bundle the release variant; debug builds include the profiler and extra logging',
+        'Set the heap size in game.project (html5.heap_size) to what the game actually needs',
+        'Use the WebAssembly build and drop the asm.js fallback unless you target very old browsers'
+      ],
+      analyze: async (document: Document) => {
+        const warnings: Finding[] = [];
+        const canvas = document.querySelector('#canvas') as HTMLCanvasElement | null;
+        if (canvas && !canvas.getContext('webgl')) {
+          warnings.push(createFinding('defold/no-webgl', 'error', 'compat', 'WebGL not available, Defold cannot render'));
+        }
+        return warnings;
+      },
+      analyzeMarkup: (document: Document) => {
+        const warnings: Finding[] = [];
+        if (document.querySelector('script[src*="_asmjs.js"]')) {
+          warnings.push(createFinding('defold/asmjs-fallback', 'info', 'size', 'The asm.js fallback is shipped',
+            { fixHint: 'Drop the asm.js architecture from the HTML5 bundle unless you target very old browsers.' }));
+        }
+        return warnings;
+      }
     }
   ];
 
-  async detectEngine(document: Document): Promise<EngineDetectionResult | null> {
-    let bestMatch: EngineDetectionResult | null = null;
-    let highestConfidence = 0;
+  async detectEngine(document: Document): Promise<EngineDetectionResult> {
+    const candidates = await this.rankEngines(document, false, []);
+    const best = candidates[0];
+
+    if (!best || best.confidence < DETECTION_THRESHOLD) {
+      return this.unknownEngine(candidates);
+    }
+
+    const engine = this.getEngine(best.engineName)!;
+    return {
+      engineName: engine.name,
+      confidence: best.confidence,
+      known: true,
+      evidence: best.evidence,
+      candidates,
+      features: this.detectFeatures(engine, document),
+      recommendations: engine.recommendations,
+      warnings: [...await engine.analyze(document), ...engine.analyzeMarkup?.(document) ?? []]
+    };
+  }
+
+  // Signature-only detection for documents without a live WebGL context (e.g. parsed from disk).
+  // scriptSources holds the contents of scripts the page loads, which script signatures are also matched against;
+  // files lists the build's paths relative to index.html for 'file' signatures.
+  async detectEngineStatic(document: Document, scriptSources: ScriptSource[] = [], files: string[] = []): Promise<EngineDetectionResult> {
+    const candidates = await this.rankEngines(document, true, scriptSources, files);
+    const best = candidates[0];
+
+    if (!best || best.confidence < DETECTION_THRESHOLD) {
+      return this.unknownEngine(candidates);
+    }
+
+    const engine = this.getEngine(best.engineName)!;
+    return {
+      engineName: engine.name,
+      confidence: best.confidence,
+      known: true,
+      evidence: best.evidence,
+      candidates,
+      features: this.detectFeatures(engine, document, true, scriptSources, files),
+      recommendations: engine.recommendations,
+      warnings: engine.analyzeMarkup?.(document) ?? []
+    };
+  }
+
+  getEngine(name: string): GameEngine | undefined {
+    return this.engines.find(engine => engine.name === name);
+  }
+
+  getEngines(): GameEngine[] {
+    return [...this.engines];
+  }
+
+  // Add engines from the registry; one with the name of an existing engine replaces it
+  registerEngines(engines: GameEngine[]): void {
+    for (const engine of engines) {
+      const index = this.engines.findIndex(existing => existing.name === engine.name);
+      if (index >= 0) {
+        this.engines[index] = engine;
+      } else {
+        this.engines.push(engine);
+      }
+    }
+  }
+
+  private async rankEngines(
+    document: Document,
+    staticMode: boolean,
+    scriptSources: ScriptSource[],
+    files: string[] = []
+  ): Promise<EngineCandidate[]> {
+    const candidates: EngineCandidate[] = [];
 
     for (const engine of this.engines) {
-      const confidence = await this.calculateConfidence(engine, document);
-      if (confidence > highestConfidence) {
-        const warnings = await engine.analyze(document);
-        bestMatch = {
-          engineName: engine.name,
-          confidence,
-          features: this.detectFeatures(engine, document),
-          recommendations: engine.recommendations,
-          warnings
-        };
-        highestConfidence = confidence;
+      const evidence = await this.collectEvidence(engine, document, staticMode, scriptSources, files);
+      if (evidence.length > 0) {
+        candidates.push({ engineName: engine.name, confidence: this.combineWeights(evidence), evidence });
       }
     }
 
-    return bestMatch;
+    return candidates.sort((a, b) => b.confidence - a.confidence);
   }
 
-  private async calculateConfidence(engine: GameEngine, document: Document): Promise<number> {
-    let matches = 0;
-    let total = 0;
+  private unknownEngine(candidates: EngineCandidate[]): EngineDetectionResult {
+    return {
+      engineName: UNKNOWN_ENGINE,
+      confidence: 0,
+      known: false,
+      evidence: [],
+      candidates,
+      features: [],
+      recommendations: [],
+      warnings: []
+    };
+  }
+
+  // Independent signatures combine like probabilities: two 0.5 matches give 0.75, never more than 1
+  private combineWeights(evidence: EngineEvidence[]): number {
+    return 1 - evidence.reduce((remaining, item) => remaining * (1 - item.weight), 1);
+  }
+
+  private async collectEvidence(
+    engine: GameEngine,
+    document: Document,
+    staticMode: boolean,
+    scriptSources: ScriptSource[],
+    files: string[]
+  ): Promise<EngineEvidence[]> {
+    const evidence: EngineEvidence[] = [];
 
     for (const signature of engine.signatures) {
-      total++;
+      let match: Omit<EngineEvidence, 'signature' | 'weight'> | null = null;
+
       switch (signature.type) {
         case 'canvas':
-          if (this.matchCanvas(signature, document)) matches++;
+          match = this.matchCanvas(signature, document);
           break;
         case 'webgl':
-          if (await this.matchWebGL(signature, document)) matches++;
+          match = await this.matchWebGL(signature, document, staticMode, scriptSources);
           break;
         case 'dom':
-          if (this.matchDOM(signature, document)) matches++;
+          match = this.matchDOM(signature, document);
           break;
         case 'script':
-          if (this.matchScript(signature, document)) matches++;
+          match = this.matchScript(signature, document, scriptSources);
           break;
         case 'html':
-          if (this.matchHTML(signature, document)) matches++;
+          match = this.matchHTML(signature, document);
+          break;
+        case 'file':
+          match = this.matchFile(signature, files);
           break;
       }
+
+      if (match) {
+        evidence.push({ signature: signature.type, ...match, weight: signature.weight ?? DEFAULT_SIGNATURE_WEIGHT });
+      }
     }
 
-    return matches / total;
+    return evidence;
   }
 
-  private matchCanvas(signature: EngineSignature, document: Document): boolean {
-    const canvas = document.querySelector('canvas');
-    if (!canvas) return false;
+  private matchCanvas(signature: EngineSignature, document: Document): Omit<EngineEvidence, 'signature' | 'weight'> | null {
+    for (const canvas of Array.from(document.querySelectorAll('canvas'))) {
+      const location = `canvas${canvas.id ? `#${canvas.id}` : ''}`;
 
-    if (signature.size) {
-      return canvas.width === signature.size.width && 
-             canvas.height === signature.size.height;
-    }
+      if (signature.size) {
+        if (canvas.width === signature.size.width && canvas.height === signature.size.height) {
+          return { matched: `${signature.size.width}x${signature.size.height}`, location };
+        }
+        continue;
+      }
 
-    if (signature.patterns) {
-      return signature.patterns.some(pattern => 
-        canvas.id.includes(pattern) || canvas.className.includes(pattern)
-      );
+      const pattern = signature.patterns?.find(pattern =>
+        canvas.id.includes(pattern) || canvas.className.includes(pattern));
+      if (pattern) return { matched: pattern, location };
     }
 
-    return true;
+    return null;
   }
 
-  private async matchWebGL(signature: EngineSignature, document: Document): Promise<boolean> {
-    const canvas = document.querySelector('canvas');
-    if (!canvas) return false;
+  // A WebGL signature needs an engine-specific canvas or shader name, not just any canvas.
+  // Live detection additionally requires a WebGL context; static detection never creates one.
+  private async matchWebGL(
+    signature: EngineSignature,
+    document: Document,
+    staticMode: boolean,
+    scriptSources: ScriptSource[]
+  ): Promise<Omit<EngineEvidence, 'signature' | 'weight'> | null> {
+    let match: Omit<EngineEvidence, 'signature' | 'weight'> | null = null;
 
-    const context = canvas.getContext('webgl') || canvas.getContext('webgl2');
-    if (!context) return false;
+    if (signature.patterns) {
+      for (const element of Array.from(document.querySelectorAll('canvas, div'))) {
+        const pattern = signature.patterns.find(pattern => element.id === pattern || element.classList.contains(pattern));
+        if (pattern) {
+          match = { matched: pattern, location: `${element.tagName.toLowerCase()}#${element.id || pattern}` };
+          break;
+        }
+      }
+    }
 
-    if (signature.shaders) {
-      // In a real implementation, we would need to check shader sources
-      // This is a simplified check
-      return true;
+    if (!match && signature.shaders) {
+      match = this.matchScript({ ...signature, patterns: signature.shaders }, document, scriptSources);
     }
 
-    return true;
+    if (!match || staticMode) return match;
+
+    const canvas = document.querySelector('canvas');
+    const context = canvas?.getContext('webgl') || canvas?.getContext('webgl2');
+    return context ? match : null;
   }
 
-  private matchDOM(signature: EngineSignature, document: Document): boolean {
-    if (!signature.patterns) return false;
+  private matchDOM(signature: EngineSignature, document: Document): Omit<EngineEvidence, 'signature' | 'weight'> | null {
+    if (!signature.patterns) return null;
 
-    return signature.patterns.some(pattern => {
-      const elements = document.querySelectorAll(`.${pattern}, #${pattern}, [data-${pattern}]`);
-      return elements.length > 0;
-    });
+    for (const pattern of signature.patterns) {
+      let element: Element | null = null;
+      try {
+        element = document.querySelector(`${pattern}, .${pattern}, #${pattern}, [data-${pattern}]`);
+      } catch {
+        // Patterns that are not valid selectors simply do not match
+      }
+      if (element) {
+        return { matched: pattern, location: `<${element.tagName.toLowerCase()}${element.id ? ` id="${element.id}"` : ''}>` };
+      }
+    }
+
+    return null;
   }
 
-  private matchScript(signature: EngineSignature, document: Document): boolean {
-    if (!signature.patterns) return false;
+  private matchScript(
+    signature: EngineSignature,
+    document: Document,
+    scriptSources: ScriptSource[] = []
+  ): Omit<EngineEvidence, 'signature' | 'weight'> | null {
+    if (!signature.patterns) return null;
 
     const scripts = Array.from(document.scripts);
-    return signature.patterns.some(pattern =>
-      scripts.some(script => 
-        script.textContent?.includes(pattern) || 
-        script.src.includes(pattern)
-      )
-    );
+    for (const pattern of signature.patterns) {
+      for (const script of scripts) {
+        const src = script.getAttribute('src');
+        if (src?.includes(pattern)) return { matched: pattern, location: `script src="${src}"` };
+        if (script.textContent?.includes(pattern)) return { matched: pattern, location: 'inline script' };
+      }
+
+      const source = scriptSources.find(source => source.content.includes(pattern));
+      if (source) return { matched: pattern, location: source.path };
+    }
+
+    return null;
   }
 
-  private matchHTML(signature: EngineSignature, document: Document): boolean {
-    if (!signature.patterns) return false;
+  private matchHTML(signature: EngineSignature, document: Document): Omit<EngineEvidence, 'signature' | 'weight'> | null {
+    if (!signature.patterns) return null;
 
     const html = document.documentElement.innerHTML;
-    return signature.patterns.some(pattern => html.includes(pattern));
+    const pattern = signature.patterns.find(pattern => html.includes(pattern));
+    return pattern ? { matched: pattern, location: 'index.html markup' } : null;
   }
 
-  private detectFeatures(engine: GameEngine, document: Document): string[] {
+  // Build layouts: a pattern matches a whole path or a trailing run of path segments
+  private matchFile(signature: EngineSignature, files: string[]): Omit<EngineEvidence, 'signature' | 'weight'> | null {
+    if (!signature.patterns) return null;
+
+    for (const pattern of signature.patterns) {
+      const file = files.find(file => `/${file}`.includes(`/${pattern}`));
+      if (file) return { matched: pattern, location: file };
+    }
+
+    return null;
+  }
+
+  private detectFeatures(
+    engine: GameEngine,
+    document: Document,
+    staticMode = false,
+    scriptSources: ScriptSource[] = [],
+    files: string[] = []
+  ): string[] {
     const features: string[] = [];
+    const scriptText = [
+      ...Array.from(document.scripts).map(script => `${script.getAttribute('src') ?? ''}\n${script.textContent ?? ''}`),
+      ...scriptSources.map(source => source.content)
+    ];
+    const usesScript = (needle: string) => scriptText.some(text => text.includes(needle));
+    const matchesScript = (pattern: RegExp) => scriptText.some(text => pattern.test(text));
+    const hasFile = (pattern: RegExp) => files.some(file => pattern.test(file));
 
     switch (engine.name) {
       case 'Bitsy':
@@ -527,10 +1020,12 @@ export class EngineDetector {
 
       case 'PICO-8':
         const canvas = document.querySelector('canvas');
-        if (canvas?.getContext('webgl') || canvas?.getContext('webgl2')) {
-          features.push('WebGL rendering');
-        } else {
-          features.push('Canvas 2D fallback');
+        if (!staticMode) {
+          if (canvas?.getContext('webgl') || canvas?.getContext('webgl2')) {
+            features.push('WebGL rendering');
+          } else {
+            features.push('Canvas 2D fallback');
+          }
         }
         if (document.querySelector('[ontouchstart]')) {
           features.push('Mobile controls');
@@ -554,8 +1049,104 @@ export class EngineDetector {
           features.push('Gamepad support');
         }
         break;
+
+      case 'Three.js':
+        if (document.querySelector('script[type="importmap"]')) features.push('Import map');
+        if (usesScript('WebGPURenderer')) features.push('WebGPU renderer');
+        if (usesScript('GLTFLoader')) features.push('glTF loading');
+        if (usesScript('DRACOLoader')) features.push('Draco mesh compression');
+        if (usesScript('KTX2Loader')) features.push('KTX2/Basis textures');
+        if (usesScript('EffectComposer')) features.push('Post-processing');
+        break;
+
+      case 'Babylon.js':
+        if (usesScript('WebGPUEngine')) features.push('WebGPU engine');
+        if (usesScript('HavokPlugin') || usesScript('havok')) features.push('Havok physics');
+        if (usesScript('babylonjs.loaders') || usesScript('SceneLoader')) features.push('Scene loaders');
+        if (usesScript('babylon.inspector')) features.push('Inspector');
+        if (usesScript('babylon.gui') || usesScript('AdvancedDynamicTexture')) features.push('Babylon GUI');
+        break;
+
+      case 'PlayCanvas':
+        if (hasFile(/(^|\/)__settings__\.js$/)) features.push('Published build layout');
+        if (hasFile(/(^|\/)__modules__\.js$/) || usesScript('PRELOAD_MODULES')) features.push('WebAssembly modules');
+        if (usesScript('ammo') || hasFile(/ammo/i)) features.push('Ammo.js physics');
+        if (hasFile(/\.basis$/) || usesScript('basisInitialize')) features.push('Basis textures');
+        break;
+
+      case 'Phaser':
+        if (usesScript('Phaser.WEBGL')) features.push('WebGL renderer (forced)');
+        else if (usesScript('Phaser.CANVAS')) features.push('Canvas renderer');
+        else if (usesScript('Phaser.AUTO')) features.push('Automatic renderer selection');
+        // Both physics systems ship in the default bundle, so only the game config or a custom build shows which one is used
+        if (matchesScript(PHASER_PHYSICS_CONFIG.arcade) || hasFile(/phaser-arcade-physics(\.min)?\.js$/i)) features.push('Arcade physics');
+        if (matchesScript(PHASER_PHYSICS_CONFIG.matter)) features.push('Matter.js physics');
+        if (usesScript('Phaser.Scale.FIT') || usesScript('Phaser.Scale.RESIZE')) features.push('Scale Manager');
+        if (usesScript('pixelArt: true') || usesScript('pixelArt:!0')) features.push('Pixel art mode');
+        break;
+
+      case 'PixiJS':
+        if (usesScript('Assets.load') || usesScript('Assets.init')) features.push('Assets loader');
+        if (usesScript('ParticleContainer')) features.push('Particle containers');
+        if (usesScript('@pixi/sound') || usesScript('PIXI.sound')) features.push('PixiJS Sound');
+        if (usesScript('pixi-spine') || usesScript('@pixi/spine')) features.push('Spine animations');
+        if (usesScript('preference: \'webgpu\'') || usesScript('WebGPURenderer')) features.push('WebGPU renderer');
+        break;
+
+      case 'Cocos Creator': {
+        if (hasFile(/(^|\/)src\/settings\.json$/) || hasFile(/(^|\/)cocos-js\//)) features.push('Cocos Creator 3.x build layout');
+        else if (hasFile(/(^|\/)src\/settings\.js$/) || hasFile(/cocos2d-js/)) features.push('Cocos Creator 2.x build layout');
+
+        // Each asset bundle is a folder under assets/ with its own config.json
+        const bundles = files
+          .map(file => /(?:^|\/)assets\/([^/]+)\/config(?:\.[0-9a-f]+)?\.json$/.exec(file)?.[1])
+          .filter((bundle): bundle is string => !!bundle);
+        if (bundles.length > 0) features.push(`Asset bundles: ${[...new Set(bundles)].join(', ')}`);
+        if (hasFile(/\.cconb$/)) features.push('Binary (CCONB) assets');
+        break;
+      }
+
+      case 'Defold':
+        if (hasFile(/(^|\/)archive\/game\.(arcd|arci)$/)) features.push('Archive layout (game.arcd/game.arci)');
+        if (hasFile(/(^|\/)archive\/archive_files\.json$/)) features.push('Split archive (archive_files.json)');
+        if (hasFile(/\.wasm$/)) features.push('WebAssembly build');
+        if (hasFile(/_asmjs\.js$/)) features.push('asm.js fallback');
+        if (usesScript('liveupdate') || hasFile(/liveupdate/i)) features.push('Live Update');
+        break;
+    }
+
+    for (const probe of engine.featureProbes ?? []) {
+      if (!features.includes(probe.feature) && this.matchFeatureProbe(probe, document, usesScript, files)) {
+        features.push(probe.feature);
+      }
     }
 
     return features;
   }
+
+  private matchFeatureProbe(
+    probe: EngineFeatureProbe,
+    document: Document,
+    usesScript: (needle: string) => boolean,
+    files: string[]
+  ): boolean {
+    switch (probe.type) {
+      case 'script':
+        return probe.patterns.some(usesScript);
+      case 'html': {
+        const html = document.documentElement?.outerHTML ?? '';
+        return probe.patterns.some(pattern => html.includes(pattern));
+      }
+      case 'file':
+        return probe.patterns.some(pattern => files.some(file => `/${file}`.includes(`/${pattern}`)));
+      case 'dom':
+        return probe.patterns.some(selector => {
+          try {
+            return !!document.querySelector(selector);
+          } catch {
+            return false;
+          }
+        });
+    }
+  }
 } 
\ No newline at end of file
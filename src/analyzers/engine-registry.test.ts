@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import { EngineRegistry, EngineRegistryError, EngineRegistryLoader } from './engine-registry';
+import { EngineDetector } from './engine-detector';
+import { StaticEngineDetector } from './static-engine-detector';
+import { WebGLBuildAnalyzer } from './build-analyzer';
+import { WebGLAnalysisRunner } from './webgl-analysis';
+
+describe('EngineRegistryLoader', () => {
+  const loader = new EngineRegistryLoader();
+  const { document } = new JSDOM('<html><body><canvas></canvas></body></html>').window;
+  const definition = {
+    name: 'Forge',
+    signatures: [{ type: 'script', patterns: ['forge.min.js'] }]
+  };
+  let reported: EngineRegistryError[];
+  const emptyRegistry = (): EngineRegistry => {
+    reported = [];
+    return { engines: [], sources: {}, errors: [], onError: error => reported.push(error) };
+  };
+
+  it('reports invalid definitions and keeps the valid ones', () => {
+    const registry = emptyRegistry();
+    loader.parseDefinitions([definition, { name: 'Broken', signatures: [] }], 'engines.js', registry);
+
+    expect(registry.engines.map(engine => engine.name)).toEqual(['Forge']);
+    expect(registry.sources).toEqual({ Forge: 'engines.js' });
+    expect(registry.errors).toEqual([
+      { source: 'engines.js', message: 'Engine definition 2: signatures: Array must contain at least 1 element(s)' }
+    ]);
+  });
+
+  it('validates the findings returned by analyze and passes invalid ones to onError only', async () => {
+    const registry = emptyRegistry();
+    loader.parseDefinitions({
+      ...definition,
+      analyze: () => [
+        { ruleId: 'forge/debug-build', severity: 'warning', category: 'size', message: 'Debug build shipped' },
+        { ruleId: 'forge/typo', severity: 'fatal', category: 'size', message: 'Not a severity' }
+      ]
+    }, 'engines.js', registry);
+
+    const findings = await registry.engines[0].analyze(document);
+    await registry.engines[0].analyze(document);
+
+    expect(findings).toEqual([
+      { ruleId: 'forge/debug-build', severity: 'warning', category: 'size', message: 'Debug build shipped', autoFixable: false }
+    ]);
+    expect(reported).toHaveLength(2);
+    expect(reported[0].source).toBe('engines.js');
+    expect(reported[0].message).toMatch(/^Engine Forge, analyze finding 2: severity: /);
+    // Errors found while analyzing are not kept, so a long-running server does not collect them
+    expect(registry.errors).toEqual([]);
+  });
+
+  it('reports hook output that is not a list of findings', async () => {
+    const registry = emptyRegistry();
+    loader.parseDefinitions({ ...definition, analyze: () => 'no findings', analyzeMarkup: () => ({}) }, 'engines.js', registry);
+
+    expect(await registry.engines[0].analyze(document)).toEqual([]);
+    expect(registry.engines[0].analyzeMarkup!(document)).toEqual([]);
+    expect(reported).toEqual([
+      { source: 'engines.js', message: 'Engine Forge: analyze must return an array of findings' },
+      { source: 'engines.js', message: 'Engine Forge: analyzeMarkup must return an array of findings' }
+    ]);
+  });
+
+  it('only adds analyzeMarkup when the plugin exports it', () => {
+    const registry = emptyRegistry();
+    loader.parseDefinitions(definition, 'engines.js', registry);
+
+    expect(registry.engines[0].analyzeMarkup).toBeUndefined();
+  });
+
+  describe('with WebGLAnalysisRunner', () => {
+    let buildDir: string;
+
+    beforeEach(async () => {
+      buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'engine-registry-'));
+      await fs.writeFile(path.join(buildDir, 'index.html'),
+        '<!DOCTYPE html><html><body><canvas></canvas><script src="forge.min.js"></script><script src="forge-debug.js"></script></body></html>');
+      await fs.writeFile(path.join(buildDir, 'forge.min.js'), 'window.Forge = {};');
+    });
+
+    afterEach(async () => {
+      await fs.rm(buildDir, { recursive: true, force: true });
+    });
+
+    it('reports the markup findings of a registry engine in the analysis', async () => {
+      const registry = emptyRegistry();
+      loader.parseDefinitions({
+        ...definition,
+        analyzeMarkup: (page: Document) => page.querySelector('script[src="forge-debug.js"]')
+          ? [{ ruleId: 'forge/debug-script', severity: 'warning', category: 'size', message: 'The Forge debug script is loaded' }]
+          : []
+      }, 'engines.js', registry);
+
+      const engineDetector = new EngineDetector();
+      engineDetector.registerEngines(registry.engines);
+      const runner = new WebGLAnalysisRunner(new WebGLBuildAnalyzer(), new StaticEngineDetector(engineDetector));
+      const report = await runner.analyze(buildDir);
+
+      expect(report.engine?.engineName).toBe('Forge');
+      expect(report.engine?.warnings).toEqual([
+        { ruleId: 'forge/debug-script', severity: 'warning', category: 'size', message: 'The Forge debug script is loaded', autoFixable: false }
+      ]);
+    });
+  });
+});
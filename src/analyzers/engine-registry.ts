@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { GameEngine } from './engine-detector';
+import { Finding, findingSchema } from './findings';
+import { errorMessage, readConfigFile, requirePlugin, resolveConfigPath } from './config-file';
+
+const PLUGIN_EXTENSIONS = ['.json', '.js', '.cjs', '.ts'];
+
+// Regular expressions are written as strings in JSON and may be RegExp objects in script plugins
+const regExpSchema = z.union([z.string(), z.instanceof(RegExp)]).transform((value, ctx) => {
+  if (value instanceof RegExp) return value;
+  try {
+    return new RegExp(value, 'i');
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid regular expression: ${value}` });
+    return z.NEVER;
+  }
+});
+
+const signatureSchema = z.object({
+  type: z.enum(['canvas', 'webgl', 'dom', 'script', 'html', 'file']),
+  patterns: z.array(z.string().min(1)).optional(),
+  size: z.object({ width: z.number().int().positive(), height: z.number().int().positive() }).optional(),
+  shaders: z.array(z.string().min(1)).optional(),
+  weight: z.number().min(0).max(1).optional()
+}).refine(signature => signature.patterns?.length || signature.size || signature.shaders?.length, {
+  message: 'A signature needs patterns, a size or shaders'
+});
+
+const versionProbeSchema = z.object({
+  file: regExpSchema,
+  marker: z.string().min(1).optional(),
+  pattern: regExpSchema,
+  version: z.string().optional()
+});
+
+const featureProbeSchema = z.object({
+  feature: z.string().min(1),
+  type: z.enum(['script', 'file', 'dom', 'html']),
+  patterns: z.array(z.string().min(1)).min(1)
+});
+
+export const engineDefinitionSchema = z.object({
+  name: z.string().min(1),
+  signatures: z.array(signatureSchema).min(1),
+  recommendations: z.array(z.string()).default([]),
+  versionProbes: z.array(versionProbeSchema).optional(),
+  featureProbes: z.array(featureProbeSchema).optional(),
+  // Only script plugins can provide analysis: analyze runs on a live page, analyzeMarkup on the markup alone
+  analyze: z.function().optional(),
+  analyzeMarkup: z.function().optional()
+});
+
+export const engineRegistryConfigSchema = z.object({
+  // Directories of engine definition files, relative to the config file
+  engineRegistry: z.array(z.string()).default([]),
+  // npm packages exporting engine definitions, resolved from the config file's directory
+  enginePlugins: z.array(z.string()).default([])
+}).passthrough();
+
+export type EngineDefinition = z.input<typeof engineDefinitionSchema>;
+export type EngineRegistryConfig = z.infer<typeof engineRegistryConfigSchema>;
+
+export interface EngineRegistryError {
+  // File or package the definition came from
+  source: string;
+  message: string;
+}
+
+export interface EngineRegistry {
+  configPath?: string;
+  engines: GameEngine[];
+  // Sources of each loaded engine, by name
+  sources: Record<string, string>;
+  // Problems found while loading
+  errors: EngineRegistryError[];
+  // Called for problems found after loading, such as invalid findings from an engine's hooks; they are not kept in errors
+  onError?: (error: EngineRegistryError) => void;
+}
+
+export class EngineRegistryLoader {
+  // Load every engine named by the config file; invalid definitions are reported in errors and skipped
+  async load(configPath = resolveConfigPath()): Promise<EngineRegistry> {
+    const registry: EngineRegistry = { engines: [], sources: {}, errors: [] };
+
+    let config: EngineRegistryConfig;
+    try {
+      const content = await readConfigFile(configPath);
+      if (content === undefined) return registry;
+      registry.configPath = configPath;
+      config = engineRegistryConfigSchema.parse(content);
+    } catch (error) {
+      registry.errors.push({ source: configPath, message: this.errorMessage(error) });
+      return registry;
+    }
+
+    const configDir = path.dirname(configPath);
+    for (const directory of config.engineRegistry) {
+      const registryDir = path.resolve(configDir, directory);
+      try {
+        const entries = (await fs.readdir(registryDir)).sort();
+        for (const entry of entries) {
+          if (!PLUGIN_EXTENSIONS.includes(path.extname(entry)) || entry.endsWith('.d.ts')) continue;
+          await this.loadSource(path.join(registryDir, entry), registry);
+        }
+      } catch (error) {
+        registry.errors.push({ source: registryDir, message: this.errorMessage(error) });
+      }
+    }
+
+    for (const plugin of config.enginePlugins) {
+      try {
+        this.parseDefinitions(requirePlugin(plugin, configPath).exports, plugin, registry);
+      } catch (error) {
+        registry.errors.push({ source: plugin, message: this.errorMessage(error) });
+      }
+    }
+
+    return registry;
+  }
+
+  // Validate definitions from any source, e.g. a plugin's exports or a parsed JSON file
+  parseDefinitions(exported: unknown, source: string, registry: EngineRegistry): void {
+    for (const [index, definition] of this.definitionList(exported).entries()) {
+      const result = engineDefinitionSchema.safeParse(definition);
+      if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'definition'}: ${issue.message}`);
+        registry.errors.push({ source, message: `Engine definition ${index + 1}: ${issues.join('; ')}` });
+        continue;
+      }
+
+      const { analyze, analyzeMarkup, ...engine } = result.data;
+      const previous = registry.engines.findIndex(existing => existing.name === engine.name);
+      const gameEngine: GameEngine = {
+        ...engine,
+        analyze: async (document: Document) => analyze
+          ? this.parseFindings(await analyze(document), 'analyze', engine.name, source, registry)
+          : [],
+        ...(analyzeMarkup ? {
+          analyzeMarkup: (document: Document) => this.parseFindings(analyzeMarkup(document), 'analyzeMarkup', engine.name, source, registry)
+        } : {})
+      };
+
+      if (previous >= 0) registry.engines.splice(previous, 1);
+      registry.engines.push(gameEngine);
+      registry.sources[engine.name] = source;
+    }
+  }
+
+  // Findings from a plugin's hooks are checked like analyzer plugin findings; invalid ones are passed to onError and dropped
+  private parseFindings(output: unknown, hook: string, engineName: string, source: string, registry: EngineRegistry): Finding[] {
+    if (output === undefined || output === null) return [];
+    if (!Array.isArray(output)) {
+      registry.onError?.({ source, message: `Engine ${engineName}: ${hook} must return an array of findings` });
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    for (const [index, finding] of output.entries()) {
+      const result = findingSchema.safeParse(finding);
+      if (result.success) {
+        findings.push(result.data);
+      } else {
+        const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'finding'}: ${issue.message}`);
+        registry.onError?.({ source, message: `Engine ${engineName}, ${hook} finding ${index + 1}: ${issues.join('; ')}` });
+      }
+    }
+    return findings;
+  }
+
+  private async loadSource(filePath: string, registry: EngineRegistry, source = filePath): Promise<void> {
+    try {
+      const exported = path.extname(filePath) === '.json'
+        ? JSON.parse(await fs.readFile(filePath, 'utf8'))
+        : require(filePath);
+      this.parseDefinitions(exported, source, registry);
+    } catch (error) {
+      const message = path.extname(filePath) === '.ts'
+        ? `${this.errorMessage(error)} (TypeScript plugins need a TS loader such as ts-node, or compile them to .js)`
+        : this.errorMessage(error);
+      registry.errors.push({ source, message });
+    }
+  }
+
+  // Accepts a definition, an array of them, or a module exporting either as default or "engines"
+  private definitionList(exported: unknown): unknown[] {
+    const value = exported as { default?: unknown; engines?: unknown } | null;
+    if (Array.isArray(value)) return value;
+    if (value && typeof value === 'object') {
+      if (Array.isArray(value.engines)) return value.engines;
+      if (value.default !== undefined) return this.definitionList(value.default);
+    }
+    return [value];
+  }
+
+  private errorMessage(error: unknown): string {
+    if (error instanceof z.ZodError) {
+      return error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`).join('; ');
+    }
+    return errorMessage(error);
+  }
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+export type FindingSeverity = 'info' | 'warning' | 'error';
+
+export type FindingCategory = 'size' | 'perf' | 'compat' | 'security' | 'ux';
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['info', 'warning', 'error'];
+
+export const FINDING_CATEGORIES: FindingCategory[] = ['size', 'perf', 'compat', 'security', 'ux'];
+
+export interface FindingLocation {
+  line: number;
+  column?: number;
+}
+
+export interface Finding {
+  // Stable identifier such as "texture/non-power-of-two"; safe to track across runs
+  ruleId: string;
+  severity: FindingSeverity;
+  category: FindingCategory;
+  message: string;
+  file?: string;
+  location?: FindingLocation;
+  fixHint?: string;
+  // True when optimize-webgl can apply the fix without manual work
+  autoFixable: boolean;
+}
+
+// Checks findings that come from outside the analyzers, such as plugins
+export const findingSchema = z.object({
+  ruleId: z.string().min(1),
+  severity: z.enum(FINDING_SEVERITIES as [FindingSeverity, ...FindingSeverity[]]),
+  category: z.enum(FINDING_CATEGORIES as [FindingCategory, ...FindingCategory[]]),
+  message: z.string().min(1),
+  file: z.string().optional(),
+  location: z.object({ line: z.number().int().positive(), column: z.number().int().positive().optional() }).optional(),
+  fixHint: z.string().optional(),
+  autoFixable: z.boolean().default(false)
+});
+
+export interface FindingFilter {
+  minSeverity?: FindingSeverity;
+  categories?: FindingCategory[];
+}
+
+export function createFinding(
+  ruleId: string,
+  severity: FindingSeverity,
+  category: FindingCategory,
+  message: string,
+  details: Partial<Pick<Finding, 'file' | 'location' | 'fixHint' | 'autoFixable'>> = {}
+): Finding {
+  return { ruleId, severity, category, message, ...details, autoFixable: details.autoFixable ?? false };
+}
+
+export function matchesFilter(finding: Finding, filter: FindingFilter): boolean {
+  if (filter.minSeverity && FINDING_SEVERITIES.indexOf(finding.severity) < FINDING_SEVERITIES.indexOf(filter.minSeverity)) {
+    return false;
+  }
+  if (filter.categories && filter.categories.length > 0 && !filter.categories.includes(finding.category)) {
+    return false;
+  }
+  return true;
+}
+
+export function filterFindings(findings: Finding[], filter: FindingFilter): Finding[] {
+  return findings.filter(finding => matchesFilter(finding, filter));
+}
+
+// Drop repeats of the same rule at the same place, keeping the first occurrence
+export function dedupeFindings(findings: Finding[]): Finding[] {
+  const seen = new Set<string>();
+  return findings.filter(finding => {
+    const key = [finding.ruleId, finding.file ?? '', finding.location?.line ?? '', finding.message].join('\0');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Most severe first, then by file and line
+export function sortFindings(findings: Finding[]): Finding[] {
+  return [...findings].sort((a, b) =>
+    FINDING_SEVERITIES.indexOf(b.severity) - FINDING_SEVERITIES.indexOf(a.severity) ||
+    (a.file ?? '').localeCompare(b.file ?? '') ||
+    (a.location?.line ?? 0) - (b.location?.line ?? 0));
+}
+
+export function formatFinding(finding: Finding): string {
+  const where = finding.file
+    ? `${finding.file}${finding.location ? `:${finding.location.line}` : ''}: `
+    : '';
+  const fix = finding.fixHint ? ` Fix: ${finding.fixHint}` : '';
+  return `[${finding.severity}] ${where}${finding.message}${fix} (${finding.ruleId})`;
+}
@@ -0,0 +1,109 @@
+import { GLSLAnalyzer, extractEmbeddedShaders } from './glsl-analyzer';
+
+const ruleIds = (findings: { ruleId: string }[]) => findings.map(finding => finding.ruleId);
+
+describe('GLSLAnalyzer', () => {
+  const analyzer = new GLSLAnalyzer();
+
+  describe('version syntax', () => {
+    it('accepts in, out, const in and inout parameters in GLSL ES 1.00', () => {
+      const analysis = analyzer.analyze(`
+        precision mediump float;
+        varying vec3 vNormal;
+        void light(const in vec3 normal, in float scale, out float result, inout vec4 color) {
+          result = dot(normal, vec3(0.0, 1.0, 0.0)) * scale;
+          color.rgb *= result;
+        }
+        void main() {
+          float result;
+          vec4 color = vec4(1.0);
+          light(vNormal, 1.0, result, color);
+          gl_FragColor = color;
+        }
+      `);
+
+      expect(analysis.version).toBe(100);
+      expect(analysis.webgl2OnlySyntax).toEqual([]);
+      expect(ruleIds(analyzer.suggest(analysis))).not.toContain('glsl/webgl2-syntax-in-es100');
+    });
+
+    it('reports global in/out variables in a GLSL ES 1.00 shader', () => {
+      const analysis = analyzer.analyze('in vec3 position;\nvoid main() { gl_Position = vec4(position, 1.0); }');
+
+      expect(analysis.webgl2OnlySyntax).toContain('global in variables');
+      expect(ruleIds(analyzer.suggest(analysis))).toContain('glsl/webgl2-syntax-in-es100');
+    });
+
+    it('reports syntax removed in GLSL ES 3.00', () => {
+      const analysis = analyzer.analyze('#version 300 es\nprecision mediump float;\nvoid main() { gl_FragColor = vec4(1.0); }');
+
+      expect(analysis.removedInES3Syntax).toEqual(['gl_FragColor']);
+      expect(ruleIds(analyzer.suggest(analysis))).toContain('glsl/removed-in-es300');
+    });
+  });
+
+  describe('missing float precision', () => {
+    const source = 'varying vec2 vUv;\nvoid main() { gl_FragColor = vec4(vUv, 0.0, 1.0); }';
+
+    it('is a warning in a shader file', () => {
+      const finding = analyzer.suggest(analyzer.analyze(source, 'fragment'))
+        .find(candidate => candidate.ruleId === 'glsl/missing-float-precision');
+
+      expect(finding?.severity).toBe('warning');
+    });
+
+    it('is informational in a shader embedded in JavaScript, where engines prepend it', () => {
+      const finding = analyzer.suggest(analyzer.analyze(source, 'fragment'), { embedded: true })
+        .find(candidate => candidate.ruleId === 'glsl/missing-float-precision');
+
+      expect(finding?.severity).toBe('info');
+    });
+  });
+
+  it('counts vector slots of attributes, uniforms and varyings', () => {
+    const analysis = analyzer.analyze(`
+      const int BONES = 4;
+      attribute vec3 position;
+      attribute vec4 weights;
+      uniform mat4 bones[BONES];
+      uniform sampler2D map;
+      varying vec2 vUv;
+      void main() { vUv = position.xy; gl_Position = bones[0] * vec4(position, 1.0); }
+    `);
+
+    expect(analysis.stage).toBe('vertex');
+    expect(analysis).toMatchObject({ attributeVectors: 2, uniformVectors: 16, varyingVectors: 1 });
+    expect(analysis.samplers.map(sampler => sampler.name)).toEqual(['map']);
+    expect(analysis.limitViolations).toHaveLength(1);
+  });
+
+  it('tells constant-bounded loops from dynamic ones', () => {
+    const analysis = analyzer.analyze(`
+      precision mediump float;
+      uniform int count;
+      const int MAX = 8;
+      void main() {
+        for (int i = 0; i < MAX; i++) {}
+        for (int j = 0; j < count; j++) {}
+        gl_FragColor = vec4(0.0);
+      }
+    `);
+
+    expect(analysis.loops.map(loop => loop.dynamic)).toEqual([false, true]);
+  });
+});
+
+describe('extractEmbeddedShaders', () => {
+  it('finds shader sources in string and template literals with their line', () => {
+    const shaders = extractEmbeddedShaders([
+      'const re = /"/g;',
+      'const vs = `',
+      'void main() { gl_Position = vec4(0.0); }`;',
+      'const label = "void main is not a shader";',
+      'const fs = "precision mediump float;\\nvoid main() { gl_FragColor = vec4(1.0); }";'
+    ].join('\n'));
+
+    expect(shaders.map(shader => shader.line)).toEqual([2, 5]);
+    expect(shaders[1].source).toContain('\nvoid main()');
+  });
+});
@@ -0,0 +1,702 @@
+import { Finding, createFinding } from './findings';
+import { GLSLToken, tokenizeGLSL } from './glsl-tokenizer';
+
+export type ShaderStage = 'vertex' | 'fragment' | 'unknown';
+
+export interface GLSLLimits {
+  maxVertexAttribs: number;
+  maxVertexUniformVectors: number;
+  maxFragmentUniformVectors: number;
+  maxVaryingVectors: number;
+  maxTextureImageUnits: number;
+  maxVertexTextureImageUnits: number;
+}
+
+// Minimum values every implementation must support (WebGL 1.0 / OpenGL ES 2.0 and WebGL 2.0 / OpenGL ES 3.0)
+export const WEBGL1_MINIMUM_LIMITS: GLSLLimits = {
+  maxVertexAttribs: 8,
+  maxVertexUniformVectors: 128,
+  maxFragmentUniformVectors: 16,
+  maxVaryingVectors: 8,
+  maxTextureImageUnits: 8,
+  maxVertexTextureImageUnits: 0
+};
+
+export const WEBGL2_MINIMUM_LIMITS: GLSLLimits = {
+  maxVertexAttribs: 16,
+  maxVertexUniformVectors: 256,
+  maxFragmentUniformVectors: 224,
+  maxVaryingVectors: 15,
+  maxTextureImageUnits: 16,
+  maxVertexTextureImageUnits: 16
+};
+
+export interface GLSLVariable {
+  name: string;
+  type: string;
+  qualifiers: string[];
+  arraySize: number;
+  // Vector slots the variable occupies (mat4 = 4, vec3 = 1, arrays multiply)
+  vectors: number;
+  line: number;
+}
+
+export interface GLSLLoop {
+  kind: 'for' | 'while' | 'do';
+  dynamic: boolean;
+  line: number;
+}
+
+export interface GLSLShaderAnalysis {
+  // 100 for GLSL ES 1.00 (WebGL 1), 300 for GLSL ES 3.00 (WebGL 2)
+  version: 100 | 300;
+  stage: ShaderStage;
+  extensions: string[];
+  defaultFloatPrecision?: string;
+  attributes: GLSLVariable[];
+  uniforms: GLSLVariable[];
+  varyings: GLSLVariable[];
+  samplers: GLSLVariable[];
+  uniformBlocks: string[];
+  attributeVectors: number;
+  uniformVectors: number;
+  varyingVectors: number;
+  textureSamples: number;
+  loops: GLSLLoop[];
+  expensiveCalls: Record<string, number>;
+  usesHighp: boolean;
+  webgl2OnlySyntax: string[];
+  removedInES3Syntax: string[];
+  limitViolations: string[];
+}
+
+const STORAGE_QUALIFIERS = new Set(['attribute', 'varying', 'uniform', 'in', 'out', 'inout', 'const', 'buffer', 'shared']);
+const OTHER_QUALIFIERS = new Set(['invariant', 'centroid', 'flat', 'smooth', 'lowp', 'mediump', 'highp', 'precise']);
+
+const TEXTURE_FUNCTIONS = new Set([
+  'texture2D', 'texture2DProj', 'texture2DLod', 'texture2DProjLod', 'textureCube', 'textureCubeLod',
+  'texture2DLodEXT', 'texture2DProjLodEXT', 'textureCubeLodEXT', 'texture2DGradEXT', 'textureCubeGradEXT',
+  'texture', 'textureProj', 'textureLod', 'textureOffset', 'texelFetch', 'texelFetchOffset',
+  'textureProjOffset', 'textureLodOffset', 'textureProjLod', 'textureProjLodOffset',
+  'textureGrad', 'textureGradOffset', 'textureProjGrad', 'textureProjGradOffset'
+]);
+
+const EXPENSIVE_FUNCTIONS = new Set(['pow', 'exp', 'exp2', 'log', 'log2', 'sqrt', 'inversesqrt', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan']);
+
+// Syntax that GLSL ES 1.00 rejects but GLSL ES 3.00 accepts
+const WEBGL2_ONLY_IDENTIFIERS = new Set([
+  'layout', 'flat', 'smooth', 'centroid', 'switch', 'case', 'default',
+  'uint', 'uvec2', 'uvec3', 'uvec4',
+  'mat2x2', 'mat2x3', 'mat2x4', 'mat3x2', 'mat3x3', 'mat3x4', 'mat4x2', 'mat4x3', 'mat4x4',
+  'sampler3D', 'sampler2DArray', 'sampler2DShadow', 'samplerCubeShadow', 'sampler2DArrayShadow',
+  'isampler2D', 'isampler3D', 'isamplerCube', 'isampler2DArray',
+  'usampler2D', 'usampler3D', 'usamplerCube', 'usampler2DArray',
+  'texture', 'textureLod', 'textureOffset', 'texelFetch', 'textureSize', 'textureGrad', 'textureProj',
+  'gl_VertexID', 'gl_InstanceID', 'floatBitsToInt', 'intBitsToFloat', 'packHalf2x16', 'unpackHalf2x16'
+]);
+const WEBGL2_ONLY_OPERATORS = new Set(['<<', '>>', '&', '|', '^', '~', '%', '<<=', '>>=', '&=', '|=', '^=', '%=']);
+
+// Syntax that was removed from GLSL ES 3.00
+const REMOVED_IN_ES3_IDENTIFIERS = new Set([
+  'attribute', 'varying', 'texture2D', 'texture2DProj', 'texture2DLod', 'textureCube', 'textureCubeLod',
+  'gl_FragColor', 'gl_FragData'
+]);
+
+const TYPE_VECTORS: Record<string, number> = {
+  mat2: 2, mat3: 3, mat4: 4,
+  mat2x2: 2, mat2x3: 2, mat2x4: 2, mat3x2: 3, mat3x3: 3, mat3x4: 3, mat4x2: 4, mat4x3: 4, mat4x4: 4
+};
+
+interface ParsedDeclaration {
+  qualifiers: string[];
+  type: string;
+  declarators: { name: string; arraySize: number; line: number }[];
+}
+
+interface ParseState {
+  tokens: GLSLToken[];
+  position: number;
+  constants: Map<string, number>;
+  structs: Map<string, number>;
+}
+
+export class GLSLAnalyzer {
+  analyze(source: string, stageHint: ShaderStage = 'unknown'): GLSLShaderAnalysis {
+    const tokens = tokenizeGLSL(source);
+    const analysis: GLSLShaderAnalysis = {
+      version: 100,
+      stage: stageHint,
+      extensions: [],
+      attributes: [],
+      uniforms: [],
+      varyings: [],
+      samplers: [],
+      uniformBlocks: [],
+      attributeVectors: 0,
+      uniformVectors: 0,
+      varyingVectors: 0,
+      textureSamples: 0,
+      loops: [],
+      expensiveCalls: {},
+      usesHighp: false,
+      webgl2OnlySyntax: [],
+      removedInES3Syntax: [],
+      limitViolations: []
+    };
+
+    const state: ParseState = { tokens, position: 0, constants: new Map(), structs: new Map() };
+    const inputs: GLSLVariable[] = [];
+    const outputs: GLSLVariable[] = [];
+
+    for (const token of tokens) {
+      if (token.type !== 'preprocessor') continue;
+      const [directive, ...args] = token.value.slice(1).trim().split(' ');
+      if (directive === 'version' && args[0] === '300') {
+        analysis.version = 300;
+      } else if (directive === 'extension' && args[0]) {
+        analysis.extensions.push(args[0].replace(/:$/, ''));
+      } else if (directive === 'define' && args.length >= 2 && /^\d+$/.test(args[1])) {
+        state.constants.set(args[0], parseInt(args[1], 10));
+      }
+    }
+
+    // Walk the top-level external declarations
+    while (state.position < tokens.length) {
+      const token = tokens[state.position];
+
+      if (token.type === 'preprocessor') {
+        state.position++;
+        continue;
+      }
+
+      if (token.value === 'precision') {
+        const precision = tokens[state.position + 1]?.value;
+        const type = tokens[state.position + 2]?.value;
+        if (type === 'float') analysis.defaultFloatPrecision = precision;
+        if (precision === 'highp') analysis.usesHighp = true;
+        this.skipPast(state, ';');
+        continue;
+      }
+
+      const declaration = this.parseDeclaration(state, analysis);
+      if (!declaration) continue;
+
+      if (declaration.qualifiers.includes('highp')) analysis.usesHighp = true;
+
+      for (const declarator of declaration.declarators) {
+        const variable: GLSLVariable = {
+          name: declarator.name,
+          type: declaration.type,
+          qualifiers: declaration.qualifiers,
+          arraySize: declarator.arraySize,
+          vectors: this.vectorsFor(declaration.type, state) * declarator.arraySize,
+          line: declarator.line
+        };
+
+        if (declaration.qualifiers.includes('uniform')) {
+          if (declaration.type.includes('sampler')) {
+            analysis.samplers.push(variable);
+          } else {
+            analysis.uniforms.push(variable);
+          }
+        } else if (declaration.qualifiers.includes('attribute')) {
+          analysis.attributes.push(variable);
+        } else if (declaration.qualifiers.includes('varying')) {
+          analysis.varyings.push(variable);
+        } else if (declaration.qualifiers.includes('in')) {
+          inputs.push(variable);
+        } else if (declaration.qualifiers.includes('out')) {
+          outputs.push(variable);
+        }
+      }
+    }
+
+    this.scanTokens(tokens, analysis, state);
+
+    if (analysis.stage === 'unknown') {
+      analysis.stage = this.inferStage(tokens, analysis, outputs);
+    }
+
+    // GLSL ES 3.00 spells attributes and varyings as in/out depending on the stage
+    if (analysis.stage === 'vertex') {
+      analysis.attributes.push(...inputs);
+      analysis.varyings.push(...outputs);
+    } else if (analysis.stage === 'fragment') {
+      analysis.varyings.push(...inputs);
+    }
+
+    analysis.attributeVectors = analysis.attributes.reduce((total, v) => total + v.vectors, 0);
+    analysis.uniformVectors = analysis.uniforms.reduce((total, v) => total + v.vectors, 0);
+    analysis.varyingVectors = analysis.varyings.reduce((total, v) => total + v.vectors, 0);
+
+    this.checkLimits(analysis);
+
+    return analysis;
+  }
+
+  // embedded marks a shader pulled out of a JavaScript string rather than read from a shader file
+  suggest(analysis: GLSLShaderAnalysis, options: { embedded?: boolean } = {}): Finding[] {
+    const findings: Finding[] = [];
+
+    for (const violation of analysis.limitViolations) {
+      findings.push(createFinding('glsl/exceeds-minimum-limit', 'error', 'compat', violation,
+        { fixHint: 'Pack data into fewer vectors or textures, or require a higher limit at startup.' }));
+    }
+
+    if (analysis.version === 100 && analysis.webgl2OnlySyntax.length > 0) {
+      findings.push(createFinding('glsl/webgl2-syntax-in-es100', 'error', 'compat',
+        `GLSL ES 1.00 shader uses WebGL 2-only syntax (${analysis.webgl2OnlySyntax.join(', ')}).`,
+        { fixHint: 'Add "#version 300 es" or rewrite it for WebGL 1.' }));
+    }
+
+    if (analysis.version === 300 && analysis.removedInES3Syntax.length > 0) {
+      findings.push(createFinding('glsl/removed-in-es300', 'error', 'compat',
+        `GLSL ES 3.00 shader uses syntax removed in 3.00 (${analysis.removedInES3Syntax.join(', ')}). It will fail to compile.`,
+        { fixHint: 'Use in/out, texture() and a declared fragment output instead.' }));
+    }
+
+    // Engines such as three.js, Babylon.js and PixiJS prepend the precision line to their shader chunks at runtime
+    if (analysis.stage === 'fragment' && !analysis.defaultFloatPrecision) {
+      findings.push(options.embedded
+        ? createFinding('glsl/missing-float-precision', 'info', 'compat',
+          'Fragment shader has no default float precision. Fine if the engine prepends one before compiling.',
+          { fixHint: 'Add "precision mediump float;" unless the engine adds it.' })
+        : createFinding('glsl/missing-float-precision', 'warning', 'compat',
+          'Fragment shader has no default float precision (it is required in GLSL ES).',
+          { fixHint: 'Add "precision mediump float;".' }));
+    }
+
+    if (analysis.stage === 'fragment' && analysis.usesHighp) {
+      findings.push(createFinding('glsl/highp-in-fragment', 'warning', 'perf',
+        'Fragment shader uses highp. Many mobile GPUs run highp fragment math at half speed or not at all.',
+        { fixHint: 'Use mediump where precision allows.' }));
+    }
+
+    for (const loop of analysis.loops.filter(loop => loop.dynamic)) {
+      findings.push(analysis.version === 100
+        ? createFinding('glsl/dynamic-loop', 'warning', 'compat',
+          'Loop without constant bounds. WebGL 1 only guarantees constant-bounded for loops; some drivers reject these shaders.',
+          { location: { line: loop.line }, fixHint: 'Loop to a constant maximum and break early.' })
+        : createFinding('glsl/dynamic-loop', 'info', 'perf',
+          'Loop with dynamic bounds. It prevents unrolling and can be slow on mobile GPUs.',
+          { location: { line: loop.line } }));
+    }
+
+    const expensive = Object.entries(analysis.expensiveCalls)
+      .filter(([name]) => ['pow', 'exp', 'log', 'exp2', 'log2'].includes(name));
+    if (expensive.length > 0) {
+      findings.push(createFinding('glsl/expensive-functions', 'info', 'perf',
+        `Shader uses expensive operations (${expensive.map(([name, count]) => `${name} x${count}`).join(', ')}).`,
+        { fixHint: 'Replace them with multiplications or lookup textures where possible.' }));
+    }
+
+    if (analysis.stage === 'fragment' && analysis.textureSamples > 8) {
+      findings.push(createFinding('glsl/many-texture-samples', 'warning', 'perf',
+        `Fragment shader samples textures ${analysis.textureSamples} times. Heavy sampling is bandwidth-bound on mobile.`,
+        { fixHint: 'Reduce taps or bake results.' }));
+    }
+
+    return findings;
+  }
+
+  private parseDeclaration(state: ParseState, analysis: GLSLShaderAnalysis): ParsedDeclaration | null {
+    const { tokens } = state;
+    const qualifiers: string[] = [];
+
+    while (state.position < tokens.length) {
+      const value = tokens[state.position].value;
+      if (value === 'layout') {
+        state.position++;
+        this.skipBalanced(state, '(', ')');
+        qualifiers.push('layout');
+      } else if (STORAGE_QUALIFIERS.has(value) || OTHER_QUALIFIERS.has(value)) {
+        qualifiers.push(value);
+        state.position++;
+      } else {
+        break;
+      }
+    }
+
+    const typeToken = tokens[state.position];
+    if (!typeToken) return null;
+
+    // Stray semicolons or qualifier-only statements such as "invariant gl_Position;"
+    if (typeToken.value === ';') {
+      state.position++;
+      return null;
+    }
+
+    let type = typeToken.value;
+    state.position++;
+
+    if (type === 'struct') {
+      type = this.parseStruct(state);
+    } else if (tokens[state.position]?.value === '{' && (qualifiers.includes('uniform') || qualifiers.includes('in') || qualifiers.includes('out'))) {
+      // Interface block: uniform Name { members } instance;
+      analysis.uniformBlocks.push(type);
+      this.skipBalanced(state, '{', '}');
+      this.skipPast(state, ';');
+      return null;
+    }
+
+    if (tokens[state.position]?.value === '[') {
+      // Array type syntax: float[4] name;
+      this.skipBalanced(state, '[', ']');
+    }
+
+    const declarators: ParsedDeclaration['declarators'] = [];
+    while (state.position < tokens.length) {
+      const nameToken = tokens[state.position];
+      if (!nameToken || nameToken.type !== 'identifier') {
+        this.skipPast(state, ';');
+        break;
+      }
+      state.position++;
+
+      // Function prototype or definition
+      if (tokens[state.position]?.value === '(') {
+        this.skipBalanced(state, '(', ')');
+        if (tokens[state.position]?.value === '{') {
+          this.skipBalanced(state, '{', '}');
+        } else {
+          this.skipPast(state, ';');
+        }
+        return null;
+      }
+
+      let arraySize = 1;
+      if (tokens[state.position]?.value === '[') {
+        arraySize = this.evaluateArraySize(state);
+      }
+
+      // Track integer constants used as array sizes or loop bounds
+      if (tokens[state.position]?.value === '=') {
+        state.position++;
+        const initializer = tokens[state.position];
+        if (qualifiers.includes('const') && initializer?.type === 'number' && tokens[state.position + 1]?.value !== '.') {
+          state.constants.set(nameToken.value, parseFloat(initializer.value));
+        }
+        this.skipInitializer(state);
+      }
+
+      declarators.push({ name: nameToken.value, arraySize, line: nameToken.line });
+
+      const separator = tokens[state.position];
+      state.position++;
+      if (!separator || separator.value === ';') break;
+      if (separator.value !== ',') {
+        this.skipPast(state, ';');
+        break;
+      }
+    }
+
+    return { qualifiers, type, declarators };
+  }
+
+  private parseStruct(state: ParseState): string {
+    const { tokens } = state;
+    let name = 'struct';
+    if (tokens[state.position]?.type === 'identifier') {
+      name = tokens[state.position].value;
+      state.position++;
+    }
+
+    if (tokens[state.position]?.value !== '{') return name;
+    state.position++;
+
+    // Sum the vector slots of each member
+    let vectors = 0;
+    while (state.position < tokens.length && tokens[state.position].value !== '}') {
+      while (OTHER_QUALIFIERS.has(tokens[state.position]?.value)) state.position++;
+      const memberType = tokens[state.position].value;
+      state.position++;
+      while (state.position < tokens.length && tokens[state.position].value !== ';') {
+        if (tokens[state.position].type === 'identifier') {
+          state.position++;
+          const arraySize = tokens[state.position]?.value === '[' ? this.evaluateArraySize(state) : 1;
+          vectors += this.vectorsFor(memberType, state) * arraySize;
+        } else {
+          state.position++;
+        }
+      }
+      state.position++;
+    }
+    state.position++;
+
+    state.structs.set(name, vectors);
+    return name;
+  }
+
+  private evaluateArraySize(state: ParseState): number {
+    const { tokens } = state;
+    const start = state.position + 1;
+    this.skipBalanced(state, '[', ']');
+    const inner = tokens.slice(start, state.position - 1);
+
+    if (inner.length === 1) {
+      const token = inner[0];
+      if (token.type === 'number') return parseInt(token.value, 10) || 1;
+      return state.constants.get(token.value) ?? 1;
+    }
+    return 1;
+  }
+
+  private skipInitializer(state: ParseState): void {
+    const { tokens } = state;
+    let depth = 0;
+    while (state.position < tokens.length) {
+      const value = tokens[state.position].value;
+      if (value === '(' || value === '[' || value === '{') depth++;
+      if (value === ')' || value === ']' || value === '}') depth--;
+      if (depth === 0 && (value === ',' || value === ';')) return;
+      state.position++;
+    }
+  }
+
+  private skipBalanced(state: ParseState, open: string, close: string): void {
+    const { tokens } = state;
+    if (tokens[state.position]?.value !== open) return;
+
+    let depth = 0;
+    while (state.position < tokens.length) {
+      const value = tokens[state.position].value;
+      state.position++;
+      if (value === open) depth++;
+      if (value === close && --depth === 0) return;
+    }
+  }
+
+  private skipPast(state: ParseState, terminator: string): void {
+    while (state.position < state.tokens.length && state.tokens[state.position].value !== terminator) {
+      state.position++;
+    }
+    state.position++;
+  }
+
+  private vectorsFor(type: string, state: ParseState): number {
+    return TYPE_VECTORS[type] ?? state.structs.get(type) ?? 1;
+  }
+
+  // Statement-level scan: calls, loops and version-specific syntax
+  private scanTokens(tokens: GLSLToken[], analysis: GLSLShaderAnalysis, state: ParseState): void {
+    const webgl2Only = new Set<string>();
+    const removedInES3 = new Set<string>();
+    let depth = 0;
+    // Open parentheses, so in/out inside a parameter list are not mistaken for global variables
+    let parens = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'preprocessor') continue;
+
+      if (token.value === '{') depth++;
+      if (token.value === '}') depth--;
+      if (token.value === '(') parens++;
+      if (token.value === ')') parens = Math.max(0, parens - 1);
+
+      if (token.type === 'operator' && WEBGL2_ONLY_OPERATORS.has(token.value)) {
+        webgl2Only.add(`operator ${token.value}`);
+      }
+
+      if (token.type !== 'identifier') continue;
+      const isCall = tokens[i + 1]?.value === '(';
+
+      if (isCall && TEXTURE_FUNCTIONS.has(token.value)) analysis.textureSamples++;
+      if (isCall && EXPENSIVE_FUNCTIONS.has(token.value)) {
+        analysis.expensiveCalls[token.value] = (analysis.expensiveCalls[token.value] ?? 0) + 1;
+      }
+      if (token.value === 'highp') analysis.usesHighp = true;
+
+      if (WEBGL2_ONLY_IDENTIFIERS.has(token.value) && (isCall || !['texture', 'textureLod', 'textureGrad', 'textureProj', 'textureOffset'].includes(token.value))) {
+        webgl2Only.add(token.value);
+      }
+      if (REMOVED_IN_ES3_IDENTIFIERS.has(token.value)) removedInES3.add(token.value);
+
+      // in/out are parameter qualifiers in GLSL ES 1.00 and only storage qualifiers at global scope in 3.00
+      if ((token.value === 'in' || token.value === 'out') && depth === 0 && parens === 0) {
+        webgl2Only.add(`global ${token.value} variables`);
+      }
+      if (depth === 0 && (token.value === 'uniform' || token.value === 'in' || token.value === 'out') && tokens[i + 2]?.value === '{') {
+        webgl2Only.add('interface blocks');
+      }
+
+      if (token.value === 'for' && isCall) {
+        analysis.loops.push({ kind: 'for', dynamic: this.isDynamicForLoop(tokens, i + 1, state), line: token.line });
+      } else if (token.value === 'while' && tokens[i - 1]?.value !== '}') {
+        analysis.loops.push({ kind: 'while', dynamic: true, line: token.line });
+      } else if (token.value === 'do') {
+        analysis.loops.push({ kind: 'do', dynamic: true, line: token.line });
+      }
+    }
+
+    analysis.webgl2OnlySyntax = [...webgl2Only];
+    analysis.removedInES3Syntax = [...removedInES3];
+  }
+
+  // A for loop is constant-bounded when its condition only compares the loop index with literals or constants
+  private isDynamicForLoop(tokens: GLSLToken[], openParen: number, state: ParseState): boolean {
+    let depth = 0;
+    let section = 0;
+    let loopIndex: string | undefined;
+    const condition: GLSLToken[] = [];
+
+    for (let i = openParen; i < tokens.length; i++) {
+      const value = tokens[i].value;
+      if (value === '(') depth++;
+      if (value === ')' && --depth === 0) break;
+      if (depth === 1 && value === ';') {
+        section++;
+        continue;
+      }
+      if (i === openParen) continue;
+
+      if (section === 0 && tokens[i].type === 'identifier' && tokens[i + 1]?.value === '=' && !loopIndex) {
+        loopIndex = value;
+      } else if (section === 1) {
+        condition.push(tokens[i]);
+      }
+    }
+
+    return condition.some(token =>
+      token.type === 'identifier' &&
+      token.value !== loopIndex &&
+      !state.constants.has(token.value) &&
+      !['true', 'false'].includes(token.value));
+  }
+
+  private inferStage(tokens: GLSLToken[], analysis: GLSLShaderAnalysis, outputs: GLSLVariable[]): ShaderStage {
+    const identifiers = new Set(tokens.filter(token => token.type === 'identifier').map(token => token.value));
+
+    if (identifiers.has('gl_Position') || analysis.attributes.length > 0) return 'vertex';
+    if (identifiers.has('gl_FragColor') || identifiers.has('gl_FragData') || identifiers.has('gl_FragCoord') ||
+        identifiers.has('discard') || (analysis.version === 300 && outputs.some(v => v.type === 'vec4'))) {
+      return 'fragment';
+    }
+    return 'unknown';
+  }
+
+  private checkLimits(analysis: GLSLShaderAnalysis): void {
+    const limits = analysis.version === 300 ? WEBGL2_MINIMUM_LIMITS : WEBGL1_MINIMUM_LIMITS;
+    const api = analysis.version === 300 ? 'WebGL 2' : 'WebGL 1';
+    const samplerSlots = analysis.samplers.reduce((total, v) => total + v.arraySize, 0);
+    const check = (used: number, limit: number, name: string) => {
+      if (used > limit) {
+        analysis.limitViolations.push(`Shader uses ${used} ${name}, above the ${api} minimum guarantee of ${limit}. It may fail to link on low-end devices.`);
+      }
+    };
+
+    if (analysis.stage === 'vertex') {
+      check(analysis.attributeVectors, limits.maxVertexAttribs, 'attribute vectors (MAX_VERTEX_ATTRIBS)');
+      check(analysis.uniformVectors, limits.maxVertexUniformVectors, 'uniform vectors (MAX_VERTEX_UNIFORM_VECTORS)');
+      check(analysis.varyingVectors, limits.maxVaryingVectors, 'varying vectors (MAX_VARYING_VECTORS)');
+      check(samplerSlots, limits.maxVertexTextureImageUnits, 'vertex texture units (MAX_VERTEX_TEXTURE_IMAGE_UNITS)');
+    } else if (analysis.stage === 'fragment') {
+      check(analysis.uniformVectors, limits.maxFragmentUniformVectors, 'uniform vectors (MAX_FRAGMENT_UNIFORM_VECTORS)');
+      check(analysis.varyingVectors, limits.maxVaryingVectors, 'varying vectors (MAX_VARYING_VECTORS)');
+      check(samplerSlots, limits.maxTextureImageUnits, 'texture units (MAX_TEXTURE_IMAGE_UNITS)');
+    }
+  }
+}
+
+export interface EmbeddedShader {
+  source: string;
+  // 1-based line in the JavaScript file where the literal starts
+  line: number;
+}
+
+// Find GLSL sources held in JavaScript string or template literals
+export function extractEmbeddedShaders(js: string): EmbeddedShader[] {
+  const shaders: EmbeddedShader[] = [];
+  let line = 1;
+  let i = 0;
+  let lastSignificant = '';
+
+  while (i < js.length) {
+    const char = js[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+      continue;
+    }
+
+    if (char === '/' && js[i + 1] === '/') {
+      while (i < js.length && js[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '/' && js[i + 1] === '*') {
+      const end = js.indexOf('*/', i + 2);
+      const stop = end === -1 ? js.length : end + 2;
+      for (let j = i; j < stop; j++) {
+        if (js[j] === '\n') line++;
+      }
+      i = stop;
+      continue;
+    }
+
+    // Regex literals can hold quotes; treat "/" as a regex start after an operator or keyword boundary
+    if (char === '/' && (lastSignificant === '' || /[(,=:[!&|?{};+\-*%<>~^]/.test(lastSignificant))) {
+      i++;
+      let inClass = false;
+      while (i < js.length && js[i] !== '\n') {
+        if (js[i] === '\\') {
+          i += 2;
+          continue;
+        }
+        if (js[i] === '[') inClass = true;
+        else if (js[i] === ']') inClass = false;
+        else if (js[i] === '/' && !inClass) break;
+        i++;
+      }
+      i++;
+      lastSignificant = ')';
+      continue;
+    }
+
+    if (char === '"' || char === '\'' || char === '`') {
+      const startLine = line;
+      let value = '';
+      i++;
+      while (i < js.length && js[i] !== char) {
+        if (js[i] === '\\') {
+          const next = js[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next === '\n' ? '' : next;
+          if (next === '\n') line++;
+          i += 2;
+          continue;
+        }
+        if (char === '`' && js[i] === '$' && js[i + 1] === '{') {
+          // Interpolations are replaced by a space; nested braces are tracked roughly
+          let depth = 0;
+          while (i < js.length) {
+            if (js[i] === '{') depth++;
+            if (js[i] === '}' && --depth === 0) break;
+            if (js[i] === '\n') line++;
+            i++;
+          }
+          value += ' ';
+          i++;
+          continue;
+        }
+        if (js[i] === '\n') {
+          if (char !== '`') break;
+          line++;
+        }
+        value += js[i];
+        i++;
+      }
+      i++;
+      lastSignificant = ')';
+
+      if (value.includes('void main') && (value.includes('gl_') || value.includes('precision'))) {
+        shaders.push({ source: value, line: startLine });
+      }
+      continue;
+    }
+
+    if (!/\s/.test(char)) lastSignificant = /[A-Za-z0-9_$]/.test(char) ? 'a' : char;
+    i++;
+  }
+
+  return shaders;
+}
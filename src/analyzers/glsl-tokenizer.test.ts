@@ -0,0 +1,34 @@
+import { tokenizeGLSL } from './glsl-tokenizer';
+
+describe('tokenizeGLSL', () => {
+  it('splits identifiers, numbers and longest-match operators', () => {
+    const tokens = tokenizeGLSL('x <<= 2u; y = .5e-3 + 0x1F; z += 1.0f;');
+
+    expect(tokens.map(token => [token.type, token.value])).toEqual([
+      ['identifier', 'x'], ['operator', '<<='], ['number', '2u'], ['operator', ';'],
+      ['identifier', 'y'], ['operator', '='], ['number', '.5e-3'], ['operator', '+'], ['number', '0x1F'], ['operator', ';'],
+      ['identifier', 'z'], ['operator', '+='], ['number', '1.0f'], ['operator', ';']
+    ]);
+  });
+
+  it('drops comments and keeps line numbers across them', () => {
+    const tokens = tokenizeGLSL('a; // one\n/* two\nthree */ b;\n\nc;');
+
+    expect(tokens.filter(token => token.type === 'identifier').map(token => [token.value, token.line]))
+      .toEqual([['a', 1], ['b', 3], ['c', 5]]);
+  });
+
+  it('reads a preprocessor directive to the end of its line, joining continuations', () => {
+    const tokens = tokenizeGLSL('#version 300 es\n#define SCALE(x) \\\n  ((x) * 2.0) // doubled\nfloat f;');
+
+    expect(tokens[0]).toEqual({ type: 'preprocessor', value: '#version 300 es', line: 1 });
+    expect(tokens[1]).toEqual({ type: 'preprocessor', value: '#define SCALE(x) ((x) * 2.0)', line: 2 });
+    expect(tokens[2]).toEqual({ type: 'identifier', value: 'float', line: 4 });
+  });
+
+  it('only treats # at the start of a line as a directive', () => {
+    const tokens = tokenizeGLSL('a # b');
+
+    expect(tokens.map(token => token.type)).toEqual(['identifier', 'operator', 'identifier']);
+  });
+});
@@ -0,0 +1,96 @@
+export type GLSLTokenType = 'identifier' | 'number' | 'operator' | 'preprocessor';
+
+export interface GLSLToken {
+  type: GLSLTokenType;
+  value: string;
+  line: number;
+}
+
+// Longest operators first so "<<=" wins over "<<" and "<"
+const OPERATORS = [
+  '<<=', '>>=',
+  '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '^^',
+  '+=', '-=', '*=', '/=', '%=', '&=', '^=', '|=',
+  '(', ')', '[', ']', '{', '}', '.', ',', ';', ':', '?',
+  '+', '-', '*', '/', '%', '<', '>', '=', '!', '~', '&', '|', '^'
+];
+
+export function tokenizeGLSL(source: string): GLSLToken[] {
+  const tokens: GLSLToken[] = [];
+  let line = 1;
+  let atLineStart = true;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      atLineStart = true;
+      i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (char === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      for (let j = i; j < stop; j++) {
+        if (source[j] === '\n') line++;
+      }
+      i = stop;
+      continue;
+    }
+
+    // Preprocessor directives run to the end of the line, honouring backslash continuations
+    if (char === '#' && atLineStart) {
+      const startLine = line;
+      let directive = '';
+      while (i < source.length && source[i] !== '\n') {
+        if (source[i] === '\\' && source[i + 1] === '\n') {
+          directive += ' ';
+          line++;
+          i += 2;
+          continue;
+        }
+        directive += source[i];
+        i++;
+      }
+      tokens.push({ type: 'preprocessor', value: directive.replace(/\/\/.*$/, '').replace(/\s+/g, ' ').trim(), line: startLine });
+      continue;
+    }
+
+    atLineStart = false;
+
+    if (/[A-Za-z_]/.test(char)) {
+      let end = i + 1;
+      while (end < source.length && /[A-Za-z0-9_]/.test(source[end])) end++;
+      tokens.push({ type: 'identifier', value: source.slice(i, end), line });
+      i = end;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)[uUfF]?/.exec(source.slice(i, i + 64));
+      const value = match ? match[0] : char;
+      tokens.push({ type: 'number', value, line });
+      i += value.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    tokens.push({ type: 'operator', value: operator ?? char, line });
+    i += operator ? operator.length : 1;
+  }
+
+  return tokens;
+}
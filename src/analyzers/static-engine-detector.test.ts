@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { brotliCompressSync } from 'zlib';
+import { StaticEngineDetector } from './static-engine-detector';
+
+describe('StaticEngineDetector', () => {
+  const detector = new StaticEngineDetector();
+  let buildDir: string;
+
+  const writeBuildFile = async (file: string, content: string | Buffer) => {
+    await fs.mkdir(path.dirname(path.join(buildDir, file)), { recursive: true });
+    await fs.writeFile(path.join(buildDir, file), content);
+  };
+
+  beforeEach(async () => {
+    buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'static-engine-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('follows a Unity loader named in inline code and reads the version from the compressed data file', async () => {
+    await writeBuildFile('index.html', [
+      '<!DOCTYPE html><html><body><canvas id="unity-canvas"></canvas><script>',
+      'var buildUrl = "Build";',
+      'var loaderUrl = buildUrl + "/game.loader.js";',
+      'var config = { dataUrl: buildUrl + "/game.data.br", frameworkUrl: buildUrl + "/game.framework.js.br" };',
+      '</script></body></html>'
+    ].join('\n'));
+    await writeBuildFile('Build/game.loader.js', 'function createUnityInstance(canvas, config) {}');
+    // An asset bundle header: signature, format, bundle version and engine version
+    await writeBuildFile('Build/game.data.br', brotliCompressSync(Buffer.concat([
+      Buffer.from('UnityFS\0'), Buffer.from([0, 0, 0, 8]), Buffer.from('5.x.x\0'), Buffer.from('2022.3.10f1\0'), Buffer.alloc(64)
+    ])));
+
+    const result = await detector.detect(path.join(buildDir, 'index.html'));
+
+    expect(result).toMatchObject({ engineName: 'Unity', known: true, version: '2022.3.10f1', versionSource: path.join('Build', 'game.data.br') });
+    expect(result.evidence.map(evidence => evidence.location)).toContain(path.join('Build', 'game.loader.js'));
+  });
+
+  it('reads the Godot version from a script the page loads', async () => {
+    await writeBuildFile('index.html',
+      '<!DOCTYPE html><html><body><canvas id="canvas"></canvas><script src="game.js"></script>' +
+      '<script>const GODOT_CONFIG = {"executable":"game"}; const engine = new Engine(GODOT_CONFIG);</script></body></html>');
+    await writeBuildFile('game.js', 'var Engine = (function () { /* Godot Engine v4.2.1.stable.official */ })();');
+
+    const result = await detector.detect(path.join(buildDir, 'index.html'));
+
+    expect(result).toMatchObject({ engineName: 'Godot', version: '4.2.1.stable', versionSource: 'game.js' });
+  });
+
+  it('matches remote scripts by their URL without fetching them for a version', async () => {
+    await writeBuildFile('index.html',
+      '<!DOCTYPE html><html><body><canvas></canvas><script src="https://cdn.example.com/three.min.js"></script></body></html>');
+
+    const result = await detector.detect(path.join(buildDir, 'index.html'));
+
+    expect(result).toMatchObject({ engineName: 'Three.js', known: true });
+    expect(result.version).toBeUndefined();
+  });
+});
@@ -0,0 +1,212 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { EngineDetector, EngineDetectionResult, EngineVersionProbe, ScriptSource } from './engine-detector';
+import { decodeContent, stripCompressionSuffix } from './compression';
+
+// Referenced build outputs, optionally pre-compressed, e.g. "Build/game.framework.js.br"
+const FILE_REFERENCE = /["'`]([^"'`\s<>]+\.(?:js|data|wasm|json|unityweb)(?:\.gz|\.br|\.unityweb)?)["'`]/g;
+// Bytes after a probe marker that are searched for the version
+const MARKER_WINDOW = 256;
+// Directory walk limits for the build listing used by layout signatures and concatenated references
+const MAX_SEARCH_DEPTH = 3;
+const MAX_SEARCH_FILES = 5000;
+// Unreferenced build files read while looking for a version, e.g. runtimes pulled in by a loader
+const MAX_VERSION_SCAN_FILES = 20;
+
+interface LocalReference {
+  path: string;
+  // Path relative to the index.html directory
+  relativePath: string;
+}
+
+export class StaticEngineDetector {
+  constructor(private engineDetector = new EngineDetector()) {}
+
+  // Detect the engine of a build on disk without a browser: parse index.html with jsdom and read the local scripts it loads
+  async detect(indexPath: string): Promise<EngineDetectionResult> {
+    const html = await fs.readFile(indexPath, 'utf8');
+    // Scripts are not executed and jsdom's console output is discarded so stdout stays clean for MCP
+    const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+    const document = dom.window.document;
+
+    const baseDir = path.dirname(indexPath);
+    const buildFiles = await this.listFiles(baseDir);
+    const references = await this.collectReferences(document, baseDir, buildFiles);
+
+    const scriptSources: ScriptSource[] = [];
+    for (const reference of references) {
+      if (path.extname(stripCompressionSuffix(reference.path)).toLowerCase() !== '.js') continue;
+      const content = await this.readDecoded(reference.path);
+      if (content) scriptSources.push({ path: reference.relativePath, content: content.toString('utf8') });
+    }
+
+    // Layout signatures (e.g. Defold's archive/ folder) match on posix paths relative to index.html
+    const relativeFiles = buildFiles.map(file => path.relative(baseDir, file).split(path.sep).join('/'));
+    const result = await this.engineDetector.detectEngineStatic(document, scriptSources, relativeFiles);
+    if (!result.known) return result;
+
+    const probes = this.engineDetector.getEngine(result.engineName)?.versionProbes ?? [];
+    const version = await this.findVersion(probes, indexPath, html, [
+      ...references,
+      ...this.unreferencedFiles(result, probes, baseDir, buildFiles, references)
+    ]);
+    if (version) {
+      result.version = version.version;
+      result.versionSource = version.source;
+    }
+
+    return result;
+  }
+
+  private async collectReferences(document: Document, baseDir: string, buildFiles: string[]): Promise<LocalReference[]> {
+    const candidates = new Set<string>();
+
+    for (const script of Array.from(document.querySelectorAll('script[src]'))) {
+      candidates.add(script.getAttribute('src')!);
+    }
+
+    // Loaders are often injected from inline code, e.g. loaderUrl = buildUrl + "/game.loader.js"
+    for (const script of Array.from(document.querySelectorAll('script:not([src])'))) {
+      for (const match of (script.textContent ?? '').matchAll(FILE_REFERENCE)) {
+        candidates.add(match[1]);
+      }
+    }
+
+    const references: LocalReference[] = [];
+    const seen = new Set<string>();
+
+    for (const candidate of candidates) {
+      // Remote scripts are not fetched
+      if (/^([a-z]+:)?\/\//i.test(candidate) || candidate.startsWith('data:')) continue;
+
+      const cleaned = candidate.split(/[?#]/)[0];
+      let resolved: string | undefined = path.resolve(baseDir, cleaned.replace(/^\//, ''));
+
+      if (!await this.isFile(resolved)) {
+        const suffix = path.normalize(cleaned.replace(/^\.?\//, ''));
+        resolved = buildFiles.find(file => file.endsWith(path.sep + suffix));
+      }
+
+      if (resolved && !seen.has(resolved)) {
+        seen.add(resolved);
+        references.push({ path: resolved, relativePath: path.relative(baseDir, resolved) });
+      }
+    }
+
+    // Emscripten output loads "<name>.wasm" next to "<name>.js" without naming it in the page
+    for (const reference of [...references]) {
+      const stem = stripCompressionSuffix(reference.path);
+      if (!stem.endsWith('.js')) continue;
+      const wasmPath = stem.replace(/\.js$/, '.wasm');
+      if (!seen.has(wasmPath) && await this.isFile(wasmPath)) {
+        seen.add(wasmPath);
+        references.push({ path: wasmPath, relativePath: path.relative(baseDir, wasmPath) });
+      }
+    }
+
+    return references;
+  }
+
+  // Files that could carry a version but are never named in the page: layout evidence first, then the shallowest matches
+  private unreferencedFiles(
+    result: EngineDetectionResult,
+    probes: EngineVersionProbe[],
+    baseDir: string,
+    buildFiles: string[],
+    references: LocalReference[]
+  ): LocalReference[] {
+    const referenced = new Set(references.map(reference => reference.path));
+    const evidence = new Set(result.evidence
+      .filter(item => item.signature === 'file')
+      .map(item => path.resolve(baseDir, item.location)));
+    const depth = (file: string) => path.relative(baseDir, file).split(path.sep).length;
+
+    return buildFiles
+      .filter(file => !referenced.has(file))
+      .filter(file => probes.some(probe => probe.file.test(stripCompressionSuffix(path.basename(file)))))
+      .sort((a, b) => Number(evidence.has(b)) - Number(evidence.has(a)) || depth(a) - depth(b))
+      .slice(0, MAX_VERSION_SCAN_FILES)
+      .map(file => ({ path: file, relativePath: path.relative(baseDir, file) }));
+  }
+
+  private async findVersion(
+    probes: EngineVersionProbe[],
+    indexPath: string,
+    html: string,
+    references: LocalReference[]
+  ): Promise<{ version: string; source: string } | null> {
+    // Exact versions from build files win over the shell's major-version hints
+    for (const reference of references) {
+      const fileName = stripCompressionSuffix(path.basename(reference.path));
+      const matching = probes.filter(probe => probe.file.test(fileName));
+      if (matching.length === 0) continue;
+
+      const content = await this.readDecoded(reference.path);
+      if (!content) continue;
+
+      for (const probe of matching) {
+        const version = this.applyProbe(probe, content);
+        if (version) return { version, source: reference.relativePath };
+      }
+    }
+
+    for (const probe of probes.filter(probe => probe.file.test(path.basename(indexPath)))) {
+      const version = this.applyProbe(probe, Buffer.from(html, 'utf8'));
+      if (version) return { version, source: path.basename(indexPath) };
+    }
+
+    return null;
+  }
+
+  private applyProbe(probe: EngineVersionProbe, content: Buffer): string | undefined {
+    let text: string;
+    if (probe.marker) {
+      const offset = content.indexOf(probe.marker, 0, 'latin1');
+      if (offset < 0) return undefined;
+      text = content.toString('latin1', offset, offset + MARKER_WINDOW);
+    } else {
+      text = content.toString('utf8');
+    }
+
+    const match = probe.pattern.exec(text);
+    if (!match) return undefined;
+    return match[1] ?? probe.version;
+  }
+
+  private async readDecoded(filePath: string): Promise<Buffer | null> {
+    try {
+      const content = await fs.readFile(filePath);
+      return (await decodeContent(content, filePath)).content;
+    } catch (error) {
+      console.error(`Error reading ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private async listFiles(dirPath: string, depth = 0, files: string[] = []): Promise<string[]> {
+    if (depth > MAX_SEARCH_DEPTH || files.length >= MAX_SEARCH_FILES) return files;
+
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+          await this.listFiles(fullPath, depth + 1, files);
+        }
+      } else if (files.length < MAX_SEARCH_FILES) {
+        files.push(fullPath);
+      }
+    }
+
+    return files;
+  }
+}
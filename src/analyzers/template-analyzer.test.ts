@@ -0,0 +1,16 @@
+import { WebGLTemplateAnalyzer } from './template-analyzer';
+
+describe('WebGLTemplateAnalyzer', () => {
+  const analyzer = new WebGLTemplateAnalyzer();
+
+  it('points the Unity default template at the Grokade template optimize-webgl applies', () => {
+    const analysis = analyzer.analyzeTemplateContent('<html><body><script>createUnityInstance(canvas, config).then(unityInstance => {});</script></body></html>');
+
+    expect(analysis.templateName).toBe('Unity Default Template');
+    expect(analysis.recommendations).toEqual([expect.objectContaining({
+      ruleId: 'template/unity-default',
+      fixHint: expect.stringContaining('Grokade template'),
+      autoFixable: true
+    })]);
+  });
+});
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import { pathExists } from './build-locator';
+import { Finding, createFinding } from './findings';
+
+// Options read back from a Better Minimal or Grokade page
+export interface TemplateConfig {
+  scaleToFit?: boolean;
+  optimizeForPixelArt?: boolean;
+  hasLoadingBar?: boolean;
+  mobileOptimized?: boolean;
+}
+
+export interface TemplateAnalysis {
+  templateName: string;
+  features: string[];
+  config: TemplateConfig;
+  recommendations: Finding[];
+}
+
+export class WebGLTemplateAnalyzer {
+  async analyzeTemplate(filePath?: string): Promise<TemplateAnalysis> {
+    if (!filePath) {
+      return {
+        templateName: 'Unknown',
+        features: [],
+        config: {},
+        recommendations: [createFinding('template/no-index-html', 'warning', 'ux', 'No index.html file found to analyze.')]
+      };
+    }
+
+    if (!await pathExists(filePath)) {
+      return {
+        templateName: 'Unknown',
+        features: [],
+        config: {},
+        recommendations: [createFinding('template/missing-html', 'warning', 'ux', 'Could not find HTML file to analyze template.', { file: filePath })]
+      };
+    }
+
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return this.analyzeTemplateContent(content);
+    } catch (error) {
+      console.error('Error analyzing template:', error);
+      return {
+        templateName: 'Error',
+        features: [],
+        config: {},
+        recommendations: [createFinding('template/read-error', 'error', 'ux',
+          `Error analyzing template: ${error instanceof Error ? error.message : String(error)}`, { file: filePath })]
+      };
+    }
+  }
+
+  analyzeTemplateContent(content: string): TemplateAnalysis {
+    const features: string[] = [];
+    const config: TemplateConfig = {};
+    const recommendations: Finding[] = [];
+    let templateName = 'Unknown Template';
+
+    // Check for Better Minimal WebGL Template
+    if (content.includes('BetterMinimal') ||
+        (content.includes('scaleToFit') && content.includes('data-pixel-art'))) {
+      templateName = 'Better Minimal WebGL Template';
+
+      // Detect features
+      if (content.includes('scaleToFit')) features.push('Canvas Scaling');
+      if (content.includes('data-pixel-art="true"')) features.push('Pixel Art Optimization');
+      if (content.includes('progressHandler')) features.push('Loading Progress Bar');
+      if (content.includes('iPhone|iPad|iPod|Android')) features.push('Mobile Detection');
+
+      config.scaleToFit = !content.includes('scaleToFit = false');
+      config.optimizeForPixelArt = content.includes('data-pixel-art="true"');
+      config.hasLoadingBar = content.includes('progressHandler') && content.includes('linear-gradient');
+      config.mobileOptimized = content.includes('iPhone|iPad|iPod|Android');
+
+      recommendations.push(createFinding('template/better-minimal', 'info', 'ux',
+        'Using Better Minimal WebGL Template. Good choice for optimal WebGL performance and compatibility.'));
+
+      if (!config.scaleToFit) {
+        recommendations.push(createFinding('template/scale-to-fit-disabled', 'info', 'ux',
+          'Scale-to-fit is disabled, so the canvas will not adapt to different screen sizes.',
+          { fixHint: 'Enable scale-to-fit in the template.', autoFixable: true }));
+      }
+
+      if (!config.mobileOptimized) {
+        recommendations.push(createFinding('template/not-mobile-optimized', 'warning', 'ux',
+          'The template has no mobile optimizations.',
+          { fixHint: 'Enable mobile optimizations for better performance on mobile devices.', autoFixable: true }));
+      }
+
+      // Check for potential improvements
+      if (!content.includes('progressHandler')) {
+        recommendations.push(createFinding('template/no-progress-indicator', 'info', 'ux',
+          'The template has no loading progress indicator.',
+          { fixHint: 'Add a loading progress indicator for better user experience.', autoFixable: true }));
+      }
+
+      if (!content.includes('data-pixel-art')) {
+        recommendations.push(createFinding('template/no-pixel-art-option', 'info', 'ux',
+          'The template has no pixel art option.',
+          { fixHint: 'Add data-pixel-art for pixel art games.', autoFixable: true }));
+      }
+
+      if (!content.includes('window.focus()')) {
+        recommendations.push(createFinding('template/no-focus-after-resize', 'warning', 'ux',
+          'The template does not refocus the window after resizing, so keyboard input can stop working.',
+          { fixHint: 'Call window.focus() after resize.' }));
+      }
+    } else if (content.includes('UnityLoader') || content.includes('unityInstance')) {
+      templateName = 'Unity Default Template';
+
+      recommendations.push(createFinding('template/unity-default', 'info', 'ux',
+        'Using the Unity default template, which lacks automatic canvas scaling, mobile optimizations and loading progress visualization.',
+        { fixHint: 'Apply the Grokade template with optimize-webgl or apply-template.', autoFixable: true }));
+    } else {
+      recommendations.push(createFinding('template/unknown', 'info', 'ux',
+        'Using an unknown template.',
+        { fixHint: 'Consider adopting the Better Minimal WebGL Template for optimal WebGL performance.' }));
+    }
+
+    return { templateName, features, config, recommendations };
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TextureInspector } from './texture-inspector';
+
+const FIXTURES = path.join(__dirname, '__fixtures__');
+
+describe('TextureInspector', () => {
+  const inspector = new TextureInspector();
+  const inspect = async (fileName: string) => inspector.inspect(await fs.readFile(path.join(FIXTURES, fileName)));
+
+  describe('PNG', () => {
+    it('reads the IHDR size and estimates decoded RGBA8 memory', async () => {
+      const texture = await inspect('rgba.png');
+
+      expect(texture).toMatchObject({
+        container: 'png',
+        width: 300,
+        height: 200,
+        channels: 4,
+        bitDepth: 8,
+        gpuFormat: 'RGBA8',
+        powerOfTwo: false,
+        exceedsMaxTextureSize: [],
+        vramBytes: 300 * 200 * 4
+      });
+      expect(inspector.suggest(texture!).map(finding => finding.ruleId)).toEqual(['texture/non-power-of-two']);
+    });
+
+    it('counts a palette with a tRNS chunk as having alpha', async () => {
+      expect(await inspect('palette.png')).toMatchObject({ width: 64, height: 64, channels: 4, powerOfTwo: true });
+      expect(await inspect('gray.png')).toMatchObject({ width: 32, height: 32, channels: 1 });
+    });
+
+    it('flags textures above common MAX_TEXTURE_SIZE values', async () => {
+      const content = Buffer.from(await fs.readFile(path.join(FIXTURES, 'rgba.png')));
+      content.writeUInt32BE(8192, 16);
+      content.writeUInt32BE(8192, 20);
+      const texture = inspector.inspect(content)!;
+
+      expect(texture.exceedsMaxTextureSize).toEqual([4096]);
+      expect(inspector.suggest(texture).map(finding => finding.ruleId))
+        .toEqual(['texture/exceeds-max-size', 'texture/large-vram']);
+    });
+  });
+
+  describe('KTX2', () => {
+    it('reads the VkFormat, size and level count', async () => {
+      const texture = await inspect('rgba8.ktx2');
+
+      expect(texture).toMatchObject({
+        container: 'ktx2',
+        width: 16,
+        height: 8,
+        gpuFormat: 'RGBA8 sRGB',
+        mipLevels: 5,
+        vramBytes: 16 * 8 * 4,
+        // 16x8, 8x4, 4x2, 2x1 and 1x1
+        vramBytesWithMipmaps: 512 + 128 + 32 + 8 + 4
+      });
+    });
+
+    it('treats BasisLZ over VK_FORMAT_UNDEFINED as transcoded ETC1S', async () => {
+      const texture = await inspect('etc1s.ktx2');
+
+      expect(texture).toMatchObject({ width: 2048, height: 1000, channels: 3, mipLevels: 1, vramBytes: 2048 * 1000 / 2 });
+      expect(texture?.gpuFormat).toMatch(/^ETC1S/);
+      // GPU-compressed textures are not told to move to KTX2
+      expect(inspector.suggest(texture!).map(finding => finding.ruleId)).toEqual(['texture/non-power-of-two']);
+    });
+  });
+
+  it('returns null for files that are not textures', () => {
+    expect(inspector.inspect(Buffer.from('{"not":"a texture"}'))).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+import { Finding, createFinding } from './findings';
+
+// MAX_TEXTURE_SIZE values seen on common devices: low-end mobile, mainstream mobile, desktop
+export const COMMON_MAX_TEXTURE_SIZES = [4096, 8192, 16384];
+
+// Above this decoded size a texture is worth moving to a GPU-compressed format
+const LARGE_VRAM_THRESHOLD = 16 * 1024 * 1024;
+
+const KTX1_IDENTIFIER = Buffer.from([0xab, 0x4b, 0x54, 0x58, 0x20, 0x31, 0x31, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]);
+const KTX2_IDENTIFIER = Buffer.from([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export type TextureContainer = 'png' | 'jpeg' | 'webp' | 'gif' | 'ktx' | 'ktx2' | 'basis';
+
+export interface TextureInfo {
+  container: TextureContainer;
+  width: number;
+  height: number;
+  channels: number;
+  bitDepth: number;
+  // Mip levels stored in the file (KTX/KTX2/Basis only)
+  mipLevels?: number;
+  // Format the texture occupies on the GPU, e.g. "RGBA8" or "ETC1S (transcoded)"
+  gpuFormat: string;
+  powerOfTwo: boolean;
+  exceedsMaxTextureSize: number[];
+  vramBytes: number;
+  vramBytesWithMipmaps: number;
+}
+
+interface GpuFormat {
+  name: string;
+  bitsPerPixel: number;
+  channels: number;
+}
+
+// Compressed and common uncompressed glInternalFormat values found in KTX 1 files
+const GL_INTERNAL_FORMATS: Record<number, GpuFormat> = {
+  0x83f0: { name: 'BC1 (DXT1) RGB', bitsPerPixel: 4, channels: 3 },
+  0x83f1: { name: 'BC1 (DXT1) RGBA', bitsPerPixel: 4, channels: 4 },
+  0x83f2: { name: 'BC2 (DXT3)', bitsPerPixel: 8, channels: 4 },
+  0x83f3: { name: 'BC3 (DXT5)', bitsPerPixel: 8, channels: 4 },
+  0x8d64: { name: 'ETC1', bitsPerPixel: 4, channels: 3 },
+  0x9274: { name: 'ETC2 RGB8', bitsPerPixel: 4, channels: 3 },
+  0x9278: { name: 'ETC2 RGBA8', bitsPerPixel: 8, channels: 4 },
+  0x93b0: { name: 'ASTC 4x4', bitsPerPixel: 8, channels: 4 },
+  0x93b7: { name: 'ASTC 8x8', bitsPerPixel: 2, channels: 4 },
+  0x8c00: { name: 'PVRTC RGB 4bpp', bitsPerPixel: 4, channels: 3 },
+  0x8c02: { name: 'PVRTC RGBA 4bpp', bitsPerPixel: 4, channels: 4 },
+  0x8058: { name: 'RGBA8', bitsPerPixel: 32, channels: 4 },
+  0x8051: { name: 'RGB8', bitsPerPixel: 24, channels: 3 },
+  0x881a: { name: 'RGBA16F', bitsPerPixel: 64, channels: 4 },
+  0x8814: { name: 'RGBA32F', bitsPerPixel: 128, channels: 4 }
+};
+
+// A small subset of VkFormat values used by KTX 2 exporters
+const VK_FORMATS: Record<number, GpuFormat> = {
+  37: { name: 'RGBA8', bitsPerPixel: 32, channels: 4 },
+  43: { name: 'RGBA8 sRGB', bitsPerPixel: 32, channels: 4 },
+  97: { name: 'RGBA16F', bitsPerPixel: 64, channels: 4 },
+  131: { name: 'BC1 RGB', bitsPerPixel: 4, channels: 3 },
+  133: { name: 'BC1 RGBA', bitsPerPixel: 4, channels: 4 },
+  137: { name: 'BC3', bitsPerPixel: 8, channels: 4 },
+  145: { name: 'BC7', bitsPerPixel: 8, channels: 4 },
+  147: { name: 'ETC2 RGB8', bitsPerPixel: 4, channels: 3 },
+  151: { name: 'ETC2 RGBA8', bitsPerPixel: 8, channels: 4 },
+  157: { name: 'ASTC 4x4', bitsPerPixel: 8, channels: 4 }
+};
+
+// Basis Universal textures are transcoded at load time; estimates assume the common targets
+const ETC1S_TRANSCODED: GpuFormat = { name: 'ETC1S (transcoded, ~BC1/ETC1)', bitsPerPixel: 4, channels: 3 };
+const UASTC_TRANSCODED: GpuFormat = { name: 'UASTC (transcoded, ~BC7/ASTC 4x4)', bitsPerPixel: 8, channels: 4 };
+
+export class TextureInspector {
+  inspect(content: Buffer): TextureInfo | null {
+    if (this.startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return this.readPNG(content);
+    if (this.startsWith(content, [0xff, 0xd8])) return this.readJPEG(content);
+    if (content.length >= 12 && content.toString('latin1', 0, 4) === 'RIFF' && content.toString('latin1', 8, 12) === 'WEBP') {
+      return this.readWebP(content);
+    }
+    if (content.length >= 10 && content.toString('latin1', 0, 4) === 'GIF8') return this.readGIF(content);
+    if (content.length >= 64 && content.subarray(0, 12).equals(KTX1_IDENTIFIER)) return this.readKTX(content);
+    if (content.length >= 80 && content.subarray(0, 12).equals(KTX2_IDENTIFIER)) return this.readKTX2(content);
+    if (content.length >= 77 && content.readUInt16LE(0) === 0x4273) return this.readBasis(content);
+
+    return null;
+  }
+
+  suggest(texture: TextureInfo): Finding[] {
+    const findings: Finding[] = [];
+    const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+    const size = `${texture.width}x${texture.height}`;
+
+    if (!texture.powerOfTwo) {
+      findings.push(createFinding('texture/non-power-of-two', 'warning', 'compat',
+        `Texture is ${size} (not a power of two). WebGL 1 cannot mipmap or repeat-wrap it.`,
+        { fixHint: 'Resize to a power of two or pack it into an atlas.' }));
+    }
+
+    if (texture.exceedsMaxTextureSize.length > 0) {
+      findings.push(createFinding('texture/exceeds-max-size', 'error', 'compat',
+        `Texture is ${size}, larger than MAX_TEXTURE_SIZE ${texture.exceedsMaxTextureSize[0]} found on many devices. It will fail to upload there.`,
+        { fixHint: 'Downscale or split it.' }));
+    }
+
+    if (texture.vramBytesWithMipmaps > LARGE_VRAM_THRESHOLD && ['png', 'jpeg', 'webp', 'gif'].includes(texture.container)) {
+      findings.push(createFinding('texture/large-vram', 'warning', 'perf',
+        `Texture decodes to ~${toMB(texture.vramBytes)} MB of GPU memory (${toMB(texture.vramBytesWithMipmaps)} MB with mipmaps).`,
+        { fixHint: 'Use KTX2/Basis compressed textures to cut VRAM use.' }));
+    }
+
+    return findings;
+  }
+
+  private readPNG(content: Buffer): TextureInfo | null {
+    if (content.length < 26 || content.toString('latin1', 12, 16) !== 'IHDR') return null;
+
+    const width = content.readUInt32BE(16);
+    const height = content.readUInt32BE(20);
+    const bitDepth = content[24];
+    const colorType = content[25];
+    const channels = ({ 0: 1, 2: 3, 3: 3, 4: 2, 6: 4 } as Record<number, number>)[colorType] ?? 4;
+
+    // Palette images may carry transparency in a tRNS chunk ahead of the image data
+    const transparencyChunk = content.indexOf('tRNS', 0, 'latin1');
+    const dataChunk = content.indexOf('IDAT', 0, 'latin1');
+    const hasAlpha = colorType === 4 || colorType === 6 ||
+      (transparencyChunk >= 0 && (dataChunk < 0 || transparencyChunk < dataChunk));
+
+    return this.build('png', width, height, hasAlpha && channels === 3 ? 4 : channels, bitDepth, this.decodedFormat());
+  }
+
+  private readJPEG(content: Buffer): TextureInfo | null {
+    let offset = 2;
+    while (offset + 9 < content.length) {
+      if (content[offset] !== 0xff) return null;
+      const marker = content[offset + 1];
+
+      // Skip fill bytes and markers without a length
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        offset += 2;
+        continue;
+      }
+
+      const length = content.readUInt16BE(offset + 2);
+      // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        const bitDepth = content[offset + 4];
+        const height = content.readUInt16BE(offset + 5);
+        const width = content.readUInt16BE(offset + 7);
+        const channels = content[offset + 9];
+        return this.build('jpeg', width, height, channels, bitDepth, this.decodedFormat());
+      }
+
+      offset += 2 + length;
+    }
+
+    return null;
+  }
+
+  private readWebP(content: Buffer): TextureInfo | null {
+    if (content.length < 30) return null;
+    const chunk = content.toString('latin1', 12, 16);
+
+    if (chunk === 'VP8 ') {
+      const width = content.readUInt16LE(26) & 0x3fff;
+      const height = content.readUInt16LE(28) & 0x3fff;
+      return this.build('webp', width, height, 3, 8, this.decodedFormat());
+    }
+
+    if (chunk === 'VP8L') {
+      const bits = content.readUInt32LE(21);
+      const width = (bits & 0x3fff) + 1;
+      const height = ((bits >> 14) & 0x3fff) + 1;
+      const hasAlpha = ((bits >> 28) & 1) === 1;
+      return this.build('webp', width, height, hasAlpha ? 4 : 3, 8, this.decodedFormat());
+    }
+
+    if (chunk === 'VP8X') {
+      const hasAlpha = (content[20] & 0x10) !== 0;
+      const width = content.readUIntLE(24, 3) + 1;
+      const height = content.readUIntLE(27, 3) + 1;
+      return this.build('webp', width, height, hasAlpha ? 4 : 3, 8, this.decodedFormat());
+    }
+
+    return null;
+  }
+
+  private readGIF(content: Buffer): TextureInfo {
+    const width = content.readUInt16LE(6);
+    const height = content.readUInt16LE(8);
+    // GIFs are palettized; browsers decode them to RGBA
+    return this.build('gif', width, height, 4, 8, this.decodedFormat());
+  }
+
+  private readKTX(content: Buffer): TextureInfo | null {
+    const littleEndian = content.readUInt32LE(12) === 0x04030201;
+    const read = (offset: number) => littleEndian ? content.readUInt32LE(offset) : content.readUInt32BE(offset);
+
+    const glType = read(16);
+    const glInternalFormat = read(28);
+    const width = read(36);
+    const height = Math.max(read(40), 1);
+    const mipLevels = Math.max(read(56), 1);
+
+    const format = GL_INTERNAL_FORMATS[glInternalFormat] ?? {
+      name: `glInternalFormat 0x${glInternalFormat.toString(16)}`,
+      bitsPerPixel: glType === 0 ? 8 : 32,
+      channels: 4
+    };
+
+    return this.build('ktx', width, height, format.channels, 8, format, mipLevels);
+  }
+
+  private readKTX2(content: Buffer): TextureInfo {
+    const vkFormat = content.readUInt32LE(12);
+    const width = content.readUInt32LE(20);
+    const height = Math.max(content.readUInt32LE(24), 1);
+    const mipLevels = Math.max(content.readUInt32LE(40), 1);
+    const supercompressionScheme = content.readUInt32LE(44);
+
+    let format: GpuFormat;
+    if (vkFormat === 0) {
+      // VK_FORMAT_UNDEFINED means Basis Universal: BasisLZ supercompression is ETC1S, otherwise UASTC
+      format = supercompressionScheme === 1 ? ETC1S_TRANSCODED : UASTC_TRANSCODED;
+    } else {
+      format = VK_FORMATS[vkFormat] ?? { name: `VkFormat ${vkFormat}`, bitsPerPixel: 32, channels: 4 };
+    }
+
+    return this.build('ktx2', width, height, format.channels, 8, format, mipLevels);
+  }
+
+  private readBasis(content: Buffer): TextureInfo | null {
+    const totalSlices = content.readUIntLE(14, 3);
+    const texFormat = content[20];
+    const sliceDescOffset = content.readUInt32LE(65);
+    if (totalSlices === 0 || sliceDescOffset + 23 > content.length) return null;
+
+    const width = content.readUInt16LE(sliceDescOffset + 5);
+    const height = content.readUInt16LE(sliceDescOffset + 7);
+    let hasAlpha = false;
+    let mipLevels = 0;
+
+    for (let i = 0; i < totalSlices; i++) {
+      const slice = sliceDescOffset + i * 23;
+      if (slice + 23 > content.length) break;
+      const imageIndex = content.readUIntLE(slice, 3);
+      const flags = content[slice + 4];
+      if (flags & 1) hasAlpha = true;
+      // Alpha data is stored in separate slices flagged with bit 0
+      if (imageIndex === 0 && !(flags & 1)) mipLevels++;
+    }
+
+    // tex format 0 is ETC1S, 1 is UASTC 4x4
+    const format = texFormat === 0 ? ETC1S_TRANSCODED : UASTC_TRANSCODED;
+    return this.build('basis', width, height, hasAlpha ? 4 : format.channels, 8, format, Math.max(mipLevels, 1));
+  }
+
+  // Browsers decode PNG/JPEG/WebP/GIF to 8-bit RGBA before upload, whatever the file stores
+  private decodedFormat(): GpuFormat {
+    return { name: 'RGBA8', bitsPerPixel: 32, channels: 4 };
+  }
+
+  private build(
+    container: TextureContainer,
+    width: number,
+    height: number,
+    channels: number,
+    bitDepth: number,
+    format: GpuFormat,
+    mipLevels?: number
+  ): TextureInfo {
+    const vramBytes = Math.ceil((width * height * format.bitsPerPixel) / 8);
+    let vramBytesWithMipmaps = 0;
+    for (let w = width, h = height; ; w = Math.max(1, w >> 1), h = Math.max(1, h >> 1)) {
+      vramBytesWithMipmaps += Math.ceil((w * h * format.bitsPerPixel) / 8);
+      if (w === 1 && h === 1) break;
+    }
+
+    return {
+      container,
+      width,
+      height,
+      channels,
+      bitDepth,
+      mipLevels,
+      gpuFormat: format.name,
+      powerOfTwo: this.isPowerOfTwo(width) && this.isPowerOfTwo(height),
+      exceedsMaxTextureSize: COMMON_MAX_TEXTURE_SIZES.filter(limit => width > limit || height > limit),
+      vramBytes,
+      vramBytesWithMipmaps
+    };
+  }
+
+  private isPowerOfTwo(value: number): boolean {
+    return value > 0 && (value & (value - 1)) === 0;
+  }
+
+  private startsWith(content: Buffer, bytes: number[]): boolean {
+    return content.length >= bytes.length && bytes.every((byte, i) => content[i] === byte);
+  }
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { UnityBuildAnalyzer } from './unity-build';
+import { decodeContent } from './compression';
+
+const FIXTURES = path.join(__dirname, '__fixtures__');
+
+describe('UnityBuildAnalyzer', () => {
+  const analyzer = new UnityBuildAnalyzer();
+
+  describe('parseUnityWebData', () => {
+    it('reads the UnityWebData1.0 header and entry table', async () => {
+      const content = await fs.readFile(path.join(FIXTURES, 'game.data'));
+      const data = analyzer.parseUnityWebData(content);
+
+      expect(analyzer.isUnityWebData(content)).toBe(true);
+      expect(data.headerSize).toBe(216);
+      expect(data.entries.map(entry => [entry.name, entry.offset, entry.size, entry.category])).toEqual([
+        ['data.unity3d', 216, 6000, 'scene-data'],
+        ['Il2CppData/Metadata/global-metadata.dat', 6216, 2500, 'il2cpp-metadata'],
+        ['Resources/unity_builtin_extra', 8716, 1000, 'resources'],
+        ['StreamingAssets/config.json', 9716, 12, 'streaming-assets'],
+        ['RuntimeInitializeOnLoads.json', 9728, 12, 'other']
+      ]);
+      expect(data.unpackedSize).toBe(content.length - data.headerSize);
+    });
+
+    it('ranks entries above a tenth of the unpacked size as dominant', async () => {
+      const data = analyzer.parseUnityWebData(await fs.readFile(path.join(FIXTURES, 'game.data')));
+
+      expect(data.dominantEntries.map(entry => entry.name))
+        .toEqual(['data.unity3d', 'Il2CppData/Metadata/global-metadata.dat', 'Resources/unity_builtin_extra']);
+      expect(data.categorySizes['scene-data']).toBe(6000);
+    });
+
+    it.each(['game.data.br', 'game.data.gz'])('parses the container once %s is decoded', async fileName => {
+      const decoded = await decodeContent(await fs.readFile(path.join(FIXTURES, fileName)), fileName);
+
+      expect(decoded.encoding).toBe(fileName.endsWith('.br') ? 'brotli' : 'gzip');
+      expect(analyzer.parseUnityWebData(decoded.content).entries).toHaveLength(5);
+    });
+
+    it('rejects other files and truncated containers', async () => {
+      const content = await fs.readFile(path.join(FIXTURES, 'game.data'));
+
+      expect(() => analyzer.parseUnityWebData(Buffer.from('not unity data'))).toThrow('Not a UnityWebData1.0 container');
+      expect(() => analyzer.parseUnityWebData(content.subarray(0, 100))).toThrow('exceeds file size');
+      expect(() => analyzer.parseUnityWebData(content.subarray(0, 6000))).toThrow('extends past the end of the file');
+    });
+  });
+
+  describe('suggestForData', () => {
+    it('flags scene data, embedded StreamingAssets and Resources', async () => {
+      const data = analyzer.parseUnityWebData(await fs.readFile(path.join(FIXTURES, 'game.data')));
+
+      expect(analyzer.suggestForData(data).map(finding => finding.ruleId)).toEqual([
+        'unity/dominant-data-entry',
+        'unity/dominant-data-entry',
+        'unity/dominant-data-entry',
+        'unity/scene-data-dominates',
+        'unity/embedded-streaming-assets'
+      ]);
+    });
+  });
+
+  describe('summarizeBuild', () => {
+    it('classifies compressed Unity outputs and finds the dominant part', () => {
+      const summary = analyzer.summarizeBuild([
+        { path: 'Build/game.loader.js', size: 20 },
+        { path: 'Build/game.framework.js.br', size: 80 },
+        { path: 'Build/game.wasm.br', size: 600 },
+        { path: 'Build/game.data.br', size: 300 },
+        { path: 'Build/game.symbols.json.br', size: 5000 },
+        { path: 'index.html', size: 10 }
+      ]);
+
+      expect(summary?.downloadSize).toBe(1000);
+      expect(summary?.dominantPart).toBe('wasm');
+      expect(summary?.parts.wasm).toEqual({ path: 'Build/game.wasm.br', size: 600, share: 0.6 });
+      expect(summary?.parts.symbols?.share).toBe(0);
+    });
+
+    it('needs a loader and a data or wasm file', () => {
+      expect(analyzer.summarizeBuild([{ path: 'Build/game.wasm', size: 10 }])).toBeNull();
+    });
+  });
+});
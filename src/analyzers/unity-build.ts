@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { stripCompressionSuffix } from './compression';
+import { Finding, createFinding } from './findings';
+
+const UNITY_WEB_DATA_MAGIC = 'UnityWebData1.0\0';
+// An entry is reported as dominant once it makes up this share of the unpacked container
+const DOMINANT_ENTRY_SHARE = 0.1;
+
+export type UnityDataEntryCategory =
+  | 'scene-data'
+  | 'resources'
+  | 'il2cpp-metadata'
+  | 'streaming-assets'
+  | 'other';
+
+export interface UnityDataEntry {
+  name: string;
+  offset: number;
+  size: number;
+  category: UnityDataEntryCategory;
+  share: number;
+}
+
+export interface UnityDataAnalysis {
+  headerSize: number;
+  unpackedSize: number;
+  entries: UnityDataEntry[];
+  dominantEntries: UnityDataEntry[];
+  categorySizes: Record<UnityDataEntryCategory, number>;
+}
+
+export type UnityBuildPart = 'loader' | 'framework' | 'data' | 'wasm' | 'symbols';
+
+export interface UnityBuildSummary {
+  parts: Partial<Record<UnityBuildPart, { path: string; size: number; share: number }>>;
+  downloadSize: number;
+  dominantPart?: UnityBuildPart;
+}
+
+export class UnityBuildAnalyzer {
+  // Classify a Unity build output by name, e.g. "Build/game.framework.js.br" -> "framework"
+  classifyFile(filePath: string): UnityBuildPart | null {
+    const name = stripCompressionSuffix(path.basename(filePath)).toLowerCase();
+
+    if (name.endsWith('.loader.js') || name === 'unityloader.js') return 'loader';
+    if (name.endsWith('.framework.js') || name.endsWith('.wasm.framework')) return 'framework';
+    if (name.endsWith('.symbols.json')) return 'symbols';
+    if (name.endsWith('.wasm') || name.endsWith('.wasm.code')) return 'wasm';
+    if (name.endsWith('.data')) return 'data';
+
+    return null;
+  }
+
+  isUnityWebData(content: Buffer): boolean {
+    return content.length >= UNITY_WEB_DATA_MAGIC.length &&
+      content.toString('latin1', 0, UNITY_WEB_DATA_MAGIC.length) === UNITY_WEB_DATA_MAGIC;
+  }
+
+  // Parse the UnityWebData1.0 container: magic, uint32 header size, then (offset, size, name length, name) records
+  parseUnityWebData(content: Buffer): UnityDataAnalysis {
+    if (!this.isUnityWebData(content)) {
+      throw new Error('Not a UnityWebData1.0 container');
+    }
+
+    let cursor = UNITY_WEB_DATA_MAGIC.length;
+    const headerSize = content.readUInt32LE(cursor);
+    cursor += 4;
+
+    if (headerSize > content.length) {
+      throw new Error(`UnityWebData header size ${headerSize} exceeds file size ${content.length}`);
+    }
+
+    const entries: UnityDataEntry[] = [];
+    while (cursor < headerSize) {
+      if (cursor + 12 > headerSize) {
+        throw new Error('Truncated UnityWebData entry table');
+      }
+
+      const offset = content.readUInt32LE(cursor);
+      const size = content.readUInt32LE(cursor + 4);
+      const nameLength = content.readUInt32LE(cursor + 8);
+      cursor += 12;
+
+      if (cursor + nameLength > headerSize) {
+        throw new Error('Truncated UnityWebData entry name');
+      }
+      const name = content.toString('utf8', cursor, cursor + nameLength);
+      cursor += nameLength;
+
+      if (offset + size > content.length) {
+        throw new Error(`UnityWebData entry "${name}" extends past the end of the file`);
+      }
+
+      entries.push({ name, offset, size, category: this.categorizeEntry(name), share: 0 });
+    }
+
+    const unpackedSize = entries.reduce((total, entry) => total + entry.size, 0);
+    const categorySizes: Record<UnityDataEntryCategory, number> = {
+      'scene-data': 0,
+      'resources': 0,
+      'il2cpp-metadata': 0,
+      'streaming-assets': 0,
+      'other': 0
+    };
+
+    for (const entry of entries) {
+      entry.share = unpackedSize > 0 ? entry.size / unpackedSize : 0;
+      categorySizes[entry.category] += entry.size;
+    }
+
+    const dominantEntries = [...entries]
+      .sort((a, b) => b.size - a.size)
+      .filter(entry => entry.share >= DOMINANT_ENTRY_SHARE);
+
+    return { headerSize, unpackedSize, entries, dominantEntries, categorySizes };
+  }
+
+  summarizeBuild(files: { path: string; size: number }[]): UnityBuildSummary | null {
+    const parts: UnityBuildSummary['parts'] = {};
+
+    for (const file of files) {
+      const part = this.classifyFile(file.path);
+      // Keep the largest candidate when several variants (e.g. .gz and .br) exist side by side
+      if (part && (!parts[part] || parts[part]!.size < file.size)) {
+        parts[part] = { path: file.path, size: file.size, share: 0 };
+      }
+    }
+
+    // A Unity build needs at least a loader and a data or wasm file
+    if (!parts.loader || (!parts.data && !parts.wasm)) {
+      return null;
+    }
+
+    const downloadSize = Object.entries(parts)
+      .filter(([part]) => part !== 'symbols')
+      .reduce((total, [, info]) => total + info.size, 0);
+
+    let dominantPart: UnityBuildPart | undefined;
+    for (const [part, info] of Object.entries(parts) as [UnityBuildPart, { path: string; size: number; share: number }][]) {
+      if (part === 'symbols') continue;
+      info.share = downloadSize > 0 ? info.size / downloadSize : 0;
+      if (!dominantPart || info.size > parts[dominantPart]!.size) {
+        dominantPart = part;
+      }
+    }
+
+    return { parts, downloadSize, dominantPart };
+  }
+
+  suggestForData(data: UnityDataAnalysis): Finding[] {
+    const findings: Finding[] = [];
+    const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+
+    for (const entry of data.dominantEntries) {
+      findings.push(createFinding('unity/dominant-data-entry', 'info', 'size',
+        `${entry.name} is ${toMB(entry.size)} MB (${(entry.share * 100).toFixed(0)}% of the unpacked .data).`));
+    }
+
+    if (data.categorySizes['scene-data'] > data.unpackedSize * 0.5) {
+      findings.push(createFinding('unity/scene-data-dominates', 'warning', 'size',
+        'Scene and asset data dominate the .data file.',
+        { fixHint: 'Move rarely used content to Addressables or AssetBundles loaded on demand.' }));
+    }
+    if (data.categorySizes['streaming-assets'] > 0) {
+      findings.push(createFinding('unity/embedded-streaming-assets', 'warning', 'size',
+        'StreamingAssets are embedded in the initial download.',
+        { fixHint: 'Fetch them at runtime instead of packing them into the .data file.' }));
+    }
+    if (data.categorySizes['il2cpp-metadata'] > 5 * 1024 * 1024) {
+      findings.push(createFinding('unity/large-il2cpp-metadata', 'warning', 'size',
+        'Large IL2CPP metadata.',
+        { fixHint: 'Raise Managed Stripping Level and remove unused assemblies to shrink it.' }));
+    }
+    if (data.categorySizes['resources'] > data.unpackedSize * 0.25) {
+      findings.push(createFinding('unity/large-resources', 'warning', 'size',
+        'Resources folder content is large. Everything under Resources/ ships in the initial download.',
+        { fixHint: 'Move it to Addressables.' }));
+    }
+
+    return findings;
+  }
+
+  private categorizeEntry(name: string): UnityDataEntryCategory {
+    const lower = name.toLowerCase();
+
+    if (lower.includes('il2cppdata/metadata')) return 'il2cpp-metadata';
+    if (lower.startsWith('streamingassets/')) return 'streaming-assets';
+    if (lower.startsWith('resources/') || lower.includes('unity_default_resources') || lower.includes('unity_builtin_extra')) {
+      return 'resources';
+    }
+    if (lower === 'data.unity3d' || lower.startsWith('level') || lower.startsWith('sharedassets')) return 'scene-data';
+
+    return 'other';
+  }
+}
@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { WasmInspector } from './wasm-inspector';
+
+const FIXTURES = path.join(__dirname, '__fixtures__');
+
+describe('WasmInspector', () => {
+  const inspector = new WasmInspector();
+  const load = (fileName: string) => fs.readFile(path.join(FIXTURES, fileName));
+
+  it('lists the sections of a module', async () => {
+    const analysis = inspector.inspect(await load('names.wasm'));
+
+    expect(analysis.version).toBe(1);
+    expect(analysis.sections.map(section => section.name)).toEqual([
+      'type', 'import', 'function', 'memory', 'export', 'code', 'custom:name', 'custom:.debug_info'
+    ]);
+    expect(analysis).toMatchObject({
+      importCount: 1,
+      importedFunctionCount: 1,
+      exportCount: 2,
+      functionCount: 2,
+      memory: { initialPages: 17, maximumPages: 256, shared: false, imported: false },
+      features: { threads: false, simd: false, bulkMemory: true, exceptionHandling: false },
+      undecodedFunctions: 0
+    });
+  });
+
+  it('names the largest functions from the name section, counting imported functions first', async () => {
+    const analysis = inspector.inspect(await load('names.wasm'));
+    const nameSection = analysis.sections.find(section => section.name === 'custom:name')!;
+
+    expect(analysis.largestFunctions.map(fn => [fn.index, fn.name])).toEqual([[2, 'render'], [1, 'update']]);
+    expect(analysis.nameSectionSize).toBe(nameSection.size);
+    expect(analysis.debugSectionSize).toBe(76);
+    expect(inspector.suggest(analysis).map(finding => finding.ruleId))
+      .toEqual(['wasm/name-section', 'wasm/debug-sections']);
+  });
+
+  it('keeps decoding after typed function reference instructions', async () => {
+    // ref.as_non_null has no immediate and br_on_null takes a label; misreading either hides the SIMD that follows
+    const analysis = inspector.inspect(await load('features.wasm'));
+
+    expect(analysis.features).toEqual({ threads: true, simd: true, bulkMemory: false, exceptionHandling: false });
+    expect(analysis.undecodedFunctions).toBe(0);
+    expect(analysis.memory).toEqual({ initialPages: 1, maximumPages: 1, shared: true, imported: false });
+  });
+
+  it('only counts features the target_features section enables', async () => {
+    const analysis = inspector.inspect(await load('features.wasm'));
+
+    expect(analysis.declaredFeatures).toEqual(['atomics']);
+    expect(inspector.suggest(analysis).map(finding => finding.ruleId))
+      .toEqual(['wasm/threads-need-isolation', 'wasm/simd']);
+  });
+
+  it('rejects files without the wasm magic number', () => {
+    expect(inspector.isWasm(Buffer.from('not wasm'))).toBe(false);
+    expect(() => inspector.inspect(Buffer.from('not wasm'))).toThrow('Not a WebAssembly binary');
+  });
+});
@@ -0,0 +1,568 @@
+import { Finding, createFinding } from './findings';
+
+const WASM_MAGIC = 0x6d736100; // "\0asm" little-endian
+const WASM_PAGE_SIZE = 64 * 1024;
+const LARGEST_FUNCTION_COUNT = 10;
+
+const SECTION_NAMES: Record<number, string> = {
+  0: 'custom',
+  1: 'type',
+  2: 'import',
+  3: 'function',
+  4: 'table',
+  5: 'memory',
+  6: 'global',
+  7: 'export',
+  8: 'start',
+  9: 'element',
+  10: 'code',
+  11: 'data',
+  12: 'datacount',
+  13: 'tag'
+};
+
+export interface WasmSectionInfo {
+  id: number;
+  name: string;
+  size: number;
+}
+
+export interface WasmFunctionInfo {
+  index: number;
+  name?: string;
+  size: number;
+}
+
+export interface WasmMemoryInfo {
+  initialPages: number;
+  maximumPages?: number;
+  shared: boolean;
+  imported: boolean;
+}
+
+export interface WasmFeatures {
+  threads: boolean;
+  simd: boolean;
+  bulkMemory: boolean;
+  exceptionHandling: boolean;
+}
+
+export interface WasmAnalysis {
+  version: number;
+  sections: WasmSectionInfo[];
+  importCount: number;
+  importedFunctionCount: number;
+  exportCount: number;
+  functionCount: number;
+  largestFunctions: WasmFunctionInfo[];
+  memory?: WasmMemoryInfo;
+  features: WasmFeatures;
+  // Features declared by the toolchain in the target_features custom section
+  declaredFeatures: string[];
+  nameSectionSize: number;
+  debugSectionSize: number;
+  // Function bodies the instruction scanner could not fully decode (e.g. GC proposal opcodes)
+  undecodedFunctions: number;
+}
+
+class WasmReader {
+  constructor(public buffer: Buffer, public offset = 0, public end = buffer.length) {}
+
+  get done(): boolean {
+    return this.offset >= this.end;
+  }
+
+  byte(): number {
+    if (this.offset >= this.end) {
+      throw new Error('Unexpected end of WebAssembly data');
+    }
+    return this.buffer[this.offset++];
+  }
+
+  u32(): number {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = this.byte();
+      result += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  // Signed LEB128 values are only skipped; their value is never needed
+  skipLEB(): void {
+    while (this.byte() & 0x80) {
+      // continue until the terminating byte
+    }
+  }
+
+  skip(count: number): void {
+    if (this.offset + count > this.end) {
+      throw new Error('Unexpected end of WebAssembly data');
+    }
+    this.offset += count;
+  }
+
+  name(): string {
+    const length = this.u32();
+    const start = this.offset;
+    this.skip(length);
+    return this.buffer.toString('utf8', start, start + length);
+  }
+
+  limits(): { initial: number; maximum?: number; shared: boolean } {
+    const flags = this.byte();
+    const initial = this.u32();
+    const maximum = flags & 0x01 ? this.u32() : undefined;
+    return { initial, maximum, shared: (flags & 0x02) !== 0 };
+  }
+}
+
+export class WasmInspector {
+  isWasm(content: Buffer): boolean {
+    return content.length >= 8 && content.readUInt32LE(0) === WASM_MAGIC;
+  }
+
+  inspect(content: Buffer): WasmAnalysis {
+    if (!this.isWasm(content)) {
+      throw new Error('Not a WebAssembly binary');
+    }
+
+    const analysis: WasmAnalysis = {
+      version: content.readUInt32LE(4),
+      sections: [],
+      importCount: 0,
+      importedFunctionCount: 0,
+      exportCount: 0,
+      functionCount: 0,
+      largestFunctions: [],
+      features: { threads: false, simd: false, bulkMemory: false, exceptionHandling: false },
+      declaredFeatures: [],
+      nameSectionSize: 0,
+      debugSectionSize: 0,
+      undecodedFunctions: 0
+    };
+
+    const functionNames = new Map<number, string>();
+    let functionBodies: { index: number; size: number }[] = [];
+
+    const reader = new WasmReader(content, 8);
+    while (!reader.done) {
+      const id = reader.byte();
+      const size = reader.u32();
+      const start = reader.offset;
+      const section = new WasmReader(content, start, start + size);
+      reader.skip(size);
+
+      if (id === 0) {
+        const name = section.name();
+        analysis.sections.push({ id, name: `custom:${name}`, size });
+        this.readCustomSection(name, section, size, analysis, functionNames);
+        continue;
+      }
+
+      analysis.sections.push({ id, name: SECTION_NAMES[id] ?? `unknown:${id}`, size });
+
+      switch (id) {
+        case 2:
+          this.readImportSection(section, analysis);
+          break;
+        case 3:
+          analysis.functionCount = section.u32();
+          break;
+        case 5:
+          if (section.u32() > 0) {
+            const limits = section.limits();
+            analysis.memory = {
+              initialPages: limits.initial,
+              maximumPages: limits.maximum,
+              shared: limits.shared,
+              imported: false
+            };
+          }
+          break;
+        case 7:
+          analysis.exportCount = section.u32();
+          break;
+        case 10:
+          functionBodies = this.readCodeSection(section, analysis);
+          break;
+        case 12:
+          // The data count section only exists for memory.init/data.drop
+          analysis.features.bulkMemory = true;
+          break;
+        case 13:
+          analysis.features.exceptionHandling = true;
+          break;
+      }
+    }
+
+    if (analysis.memory?.shared) {
+      analysis.features.threads = true;
+    }
+
+    analysis.largestFunctions = functionBodies
+      .sort((a, b) => b.size - a.size)
+      .slice(0, LARGEST_FUNCTION_COUNT)
+      .map(body => ({ ...body, name: functionNames.get(body.index) }));
+
+    return analysis;
+  }
+
+  suggest(analysis: WasmAnalysis): Finding[] {
+    const findings: Finding[] = [];
+    const toKB = (bytes: number) => (bytes / 1024).toFixed(1);
+
+    if (analysis.nameSectionSize > 0) {
+      findings.push(createFinding('wasm/name-section', 'warning', 'size',
+        `WebAssembly ships an unstripped name section (${toKB(analysis.nameSectionSize)} KB).`,
+        { fixHint: 'Strip it for release builds (wasm-opt --strip-debug, emcc -g0, or disable Unity debug symbols).' }));
+    }
+
+    if (analysis.debugSectionSize > 0) {
+      findings.push(createFinding('wasm/debug-sections', 'warning', 'size',
+        `WebAssembly contains ${toKB(analysis.debugSectionSize)} KB of DWARF debug sections.`,
+        { fixHint: 'Build without -g or move debug info to a separate file.' }));
+    }
+
+    if (analysis.memory) {
+      const initialMB = (analysis.memory.initialPages * WASM_PAGE_SIZE) / (1024 * 1024);
+      if (initialMB > 256) {
+        findings.push(createFinding('wasm/large-initial-memory', 'error', 'compat',
+          `Initial WebAssembly memory is ${initialMB.toFixed(0)} MB. Large initial heaps fail to allocate on many mobile browsers.`,
+          { fixHint: 'Lower the initial heap and allow memory growth.' }));
+      }
+      if (analysis.memory.maximumPages === undefined && !analysis.memory.shared) {
+        findings.push(createFinding('wasm/no-memory-maximum', 'info', 'perf',
+          'WebAssembly memory has no maximum.',
+          { fixHint: 'Set a maximum so runaway growth fails predictably instead of crashing the tab.' }));
+      }
+    }
+
+    if (analysis.features.threads) {
+      findings.push(createFinding('wasm/threads-need-isolation', 'warning', 'security',
+        'WebAssembly uses threads (shared memory). SharedArrayBuffer is unavailable unless the page is cross-origin isolated.',
+        { fixHint: 'Serve the page with COOP/COEP headers.' }));
+    }
+
+    if (analysis.features.simd) {
+      findings.push(createFinding('wasm/simd', 'warning', 'compat',
+        'WebAssembly uses SIMD. Safari before 16.4 cannot load it.',
+        { fixHint: 'Ship a non-SIMD fallback if you target older iOS devices.' }));
+    }
+
+    if (analysis.features.exceptionHandling) {
+      findings.push(createFinding('wasm/exception-handling', 'warning', 'compat',
+        'WebAssembly uses native exception handling, which older browsers cannot load.',
+        { fixHint: 'Check your minimum browser versions, or build with JavaScript-based exceptions for wider support.' }));
+    }
+
+    const largest = analysis.largestFunctions[0];
+    if (largest && largest.size > 256 * 1024) {
+      findings.push(createFinding('wasm/large-function', 'info', 'perf',
+        `Function ${largest.name ?? `#${largest.index}`} is ${toKB(largest.size)} KB. Very large functions slow down compilation.`,
+        { fixHint: 'Check for over-inlining.' }));
+    }
+
+    return findings;
+  }
+
+  private readCustomSection(
+    name: string,
+    section: WasmReader,
+    size: number,
+    analysis: WasmAnalysis,
+    functionNames: Map<number, string>
+  ): void {
+    if (name === 'name') {
+      analysis.nameSectionSize += size;
+      try {
+        while (!section.done) {
+          const subsectionId = section.byte();
+          const subsectionSize = section.u32();
+          const subsectionEnd = section.offset + subsectionSize;
+          if (subsectionId === 1) {
+            const count = section.u32();
+            for (let i = 0; i < count; i++) {
+              const index = section.u32();
+              functionNames.set(index, section.name());
+            }
+          }
+          section.offset = subsectionEnd;
+        }
+      } catch {
+        // A malformed name section only costs us function names
+      }
+    } else if (name.startsWith('.debug_') || name === 'external_debug_info') {
+      analysis.debugSectionSize += size;
+    } else if (name === 'target_features') {
+      const count = section.u32();
+      for (let i = 0; i < count; i++) {
+        const prefix = String.fromCharCode(section.byte());
+        const feature = section.name();
+        if (prefix === '+' || prefix === '=') {
+          analysis.declaredFeatures.push(feature);
+        }
+      }
+
+      const declared = analysis.declaredFeatures;
+      if (declared.includes('atomics') || declared.includes('shared-mem')) analysis.features.threads = true;
+      if (declared.includes('simd128') || declared.includes('relaxed-simd')) analysis.features.simd = true;
+      if (declared.includes('bulk-memory')) analysis.features.bulkMemory = true;
+      if (declared.includes('exception-handling')) analysis.features.exceptionHandling = true;
+    }
+  }
+
+  private readImportSection(section: WasmReader, analysis: WasmAnalysis): void {
+    const count = section.u32();
+    analysis.importCount = count;
+
+    for (let i = 0; i < count; i++) {
+      section.name();
+      section.name();
+      const kind = section.byte();
+      switch (kind) {
+        case 0: // function
+          section.u32();
+          analysis.importedFunctionCount++;
+          break;
+        case 1: // table
+          this.skipValueType(section);
+          section.limits();
+          break;
+        case 2: { // memory
+          const limits = section.limits();
+          analysis.memory = {
+            initialPages: limits.initial,
+            maximumPages: limits.maximum,
+            shared: limits.shared,
+            imported: true
+          };
+          break;
+        }
+        case 3: // global
+          this.skipValueType(section);
+          section.byte();
+          break;
+        case 4: // tag
+          section.byte();
+          section.u32();
+          analysis.features.exceptionHandling = true;
+          break;
+        default:
+          throw new Error(`Unknown import kind ${kind}`);
+      }
+    }
+  }
+
+  private readCodeSection(section: WasmReader, analysis: WasmAnalysis): { index: number; size: number }[] {
+    const count = section.u32();
+    const bodies: { index: number; size: number }[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const size = section.u32();
+      const body = new WasmReader(section.buffer, section.offset, section.offset + size);
+      section.skip(size);
+      bodies.push({ index: analysis.importedFunctionCount + i, size });
+
+      if (!this.allFeaturesFound(analysis.features)) {
+        try {
+          this.scanFunctionBody(body, analysis.features);
+        } catch {
+          analysis.undecodedFunctions++;
+        }
+      }
+    }
+
+    return bodies;
+  }
+
+  // Decode instructions just far enough to spot opcodes that require post-MVP features
+  private scanFunctionBody(body: WasmReader, features: WasmFeatures): void {
+    const localGroups = body.u32();
+    for (let i = 0; i < localGroups; i++) {
+      body.u32();
+      this.skipValueType(body);
+    }
+
+    while (!body.done) {
+      const opcode = body.byte();
+
+      switch (opcode) {
+        case 0x02: case 0x03: case 0x04: // block, loop, if
+          this.skipBlockType(body);
+          break;
+        case 0x06: // try
+          this.skipBlockType(body);
+          features.exceptionHandling = true;
+          break;
+        case 0x07: case 0x08: case 0x09: case 0x18: // catch, throw, rethrow, delegate
+          body.u32();
+          features.exceptionHandling = true;
+          break;
+        case 0x0a: case 0x19: // throw_ref, catch_all
+          features.exceptionHandling = true;
+          break;
+        case 0x1f: { // try_table
+          this.skipBlockType(body);
+          const catches = body.u32();
+          for (let i = 0; i < catches; i++) {
+            const kind = body.byte();
+            if (kind === 0 || kind === 1) body.u32();
+            body.u32();
+          }
+          features.exceptionHandling = true;
+          break;
+        }
+        case 0x0c: case 0x0d: case 0x10: case 0x12: case 0x14: case 0x15:
+        case 0x20: case 0x21: case 0x22: case 0x23: case 0x24: case 0x25: case 0x26:
+        case 0xd2: case 0xd5: case 0xd6: // ref.func, br_on_null, br_on_non_null
+          body.u32();
+          break;
+        case 0x0e: { // br_table
+          const targets = body.u32();
+          for (let i = 0; i <= targets; i++) body.u32();
+          break;
+        }
+        case 0x11: case 0x13: // call_indirect, return_call_indirect
+          body.u32();
+          body.u32();
+          break;
+        case 0x1c: { // select with types
+          const types = body.u32();
+          for (let i = 0; i < types; i++) this.skipValueType(body);
+          break;
+        }
+        case 0x3f: case 0x40: // memory.size, memory.grow
+          body.u32();
+          break;
+        case 0x41: case 0x42:
+          body.skipLEB();
+          break;
+        case 0x43:
+          body.skip(4);
+          break;
+        case 0x44:
+          body.skip(8);
+          break;
+        case 0xd0: // ref.null
+          this.skipHeapType(body);
+          break;
+        case 0xfc:
+          this.scanMiscOpcode(body, features);
+          break;
+        case 0xfd:
+          this.scanSimdOpcode(body);
+          features.simd = true;
+          break;
+        case 0xfe: {
+          const atomicOpcode = body.u32();
+          if (atomicOpcode === 0x03) {
+            body.byte();
+          } else {
+            this.skipMemArg(body);
+          }
+          features.threads = true;
+          break;
+        }
+        default:
+          if (opcode >= 0x28 && opcode <= 0x3e) {
+            this.skipMemArg(body);
+          } else if (opcode > 0xd6) {
+            // GC and other prefixes we do not decode
+            throw new Error(`Unsupported opcode 0x${opcode.toString(16)}`);
+          }
+          // Everything else has no immediates
+      }
+
+      if (this.allFeaturesFound(features)) return;
+    }
+  }
+
+  private scanMiscOpcode(body: WasmReader, features: WasmFeatures): void {
+    const miscOpcode = body.u32();
+    switch (miscOpcode) {
+      case 8: // memory.init
+        body.u32();
+        body.byte();
+        features.bulkMemory = true;
+        break;
+      case 9: // data.drop
+        body.u32();
+        features.bulkMemory = true;
+        break;
+      case 10: // memory.copy
+        body.byte();
+        body.byte();
+        features.bulkMemory = true;
+        break;
+      case 11: // memory.fill
+        body.byte();
+        features.bulkMemory = true;
+        break;
+      case 12: case 14: // table.init, table.copy
+        body.u32();
+        body.u32();
+        features.bulkMemory = true;
+        break;
+      case 13: case 15: case 16: case 17: // elem.drop, table.grow/size/fill
+        body.u32();
+        break;
+      default:
+        // 0-7 are the saturating truncations without immediates
+        if (miscOpcode > 17) {
+          throw new Error(`Unsupported 0xfc opcode ${miscOpcode}`);
+        }
+    }
+  }
+
+  private scanSimdOpcode(body: WasmReader): void {
+    const simdOpcode = body.u32();
+    if (simdOpcode <= 11 || simdOpcode === 92 || simdOpcode === 93) {
+      this.skipMemArg(body);
+    } else if (simdOpcode === 12 || simdOpcode === 13) {
+      body.skip(16);
+    } else if (simdOpcode >= 21 && simdOpcode <= 34) {
+      body.byte();
+    } else if (simdOpcode >= 84 && simdOpcode <= 91) {
+      this.skipMemArg(body);
+      body.byte();
+    }
+  }
+
+  private skipMemArg(body: WasmReader): void {
+    const align = body.u32();
+    // Bit 6 of the alignment signals an explicit memory index (multi-memory)
+    if (align & 0x40) body.u32();
+    body.u32();
+  }
+
+  private skipBlockType(body: WasmReader): void {
+    const next = body.buffer[body.offset];
+    if (next === 0x40 || (next >= 0x7b && next <= 0x7f) || next === 0x70 || next === 0x6f) {
+      body.byte();
+    } else if (next === 0x63 || next === 0x64) {
+      body.byte();
+      this.skipHeapType(body);
+    } else {
+      body.skipLEB();
+    }
+  }
+
+  private skipValueType(reader: WasmReader): void {
+    const type = reader.byte();
+    if (type === 0x63 || type === 0x64) {
+      this.skipHeapType(reader);
+    }
+  }
+
+  private skipHeapType(reader: WasmReader): void {
+    reader.skipLEB();
+  }
+
+  private allFeaturesFound(features: WasmFeatures): boolean {
+    return features.threads && features.simd && features.bulkMemory && features.exceptionHandling;
+  }
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFinding } from './findings';
+import { WebGLAnalysisReport, WebGLAnalysisRunner, collectFindings, filterReportFindings } from './webgl-analysis';
+
+describe('WebGLAnalysisRunner', () => {
+  const runner = new WebGLAnalysisRunner();
+  let buildDir: string;
+
+  beforeEach(async () => {
+    buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webgl-analysis-'));
+    await fs.writeFile(path.join(buildDir, 'index.html'),
+      '<!DOCTYPE html><html><head><title>Game</title></head><body><canvas></canvas><script src="game.js"></script></body></html>');
+    await fs.writeFile(path.join(buildDir, 'game.js'), 'console.log("game");');
+  });
+
+  afterEach(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('reports on the build the index.html ships with and points template findings at it', async () => {
+    const report = await runner.analyze(path.join(buildDir, 'index.html'));
+
+    expect(report).toMatchObject({ buildPath: buildDir, indexPath: path.join(buildDir, 'index.html') });
+    expect(report.files.map(file => file.path).sort()).toEqual(['game.js', 'index.html']);
+    expect(report.budget).toBeUndefined();
+    expect(report.template.recommendations.length).toBeGreaterThan(0);
+    const templateFindings = collectFindings(report).filter(finding => finding.ruleId.startsWith('template/'));
+    expect(templateFindings.map(finding => finding.file)).toEqual(templateFindings.map(() => 'index.html'));
+  });
+
+  it('evaluates the webgl-budget.json at the build root', async () => {
+    await fs.writeFile(path.join(buildDir, 'webgl-budget.json'), JSON.stringify({ fileCount: 1 }));
+
+    const report = await runner.analyze(buildDir);
+
+    expect(report.budget).toMatchObject({ budgetPath: path.join(buildDir, 'webgl-budget.json'), passed: false });
+    expect(report.budget?.violations.map(check => check.metric)).toEqual(['fileCount']);
+  });
+
+  it('refuses a budget file that does not exist', async () => {
+    const budgetPath = path.join(buildDir, 'missing-budget.json');
+
+    await expect(runner.analyze(buildDir, { budgetPath })).rejects.toThrow(`Budget file not found: ${budgetPath}`);
+  });
+});
+
+describe('filterReportFindings', () => {
+  const report = {
+    buildPath: '/srv/game',
+    indexPath: '/srv/game/index.html',
+    totalSize: 0,
+    compressedSize: 0,
+    brotliSize: 0,
+    files: [{
+      path: 'game.js',
+      size: 0,
+      compressedSize: 0,
+      brotliSize: 0,
+      type: 'javascript',
+      suggestions: [createFinding('js/unminified', 'info', 'size', 'game.js is not minified', { file: 'game.js' })]
+    }],
+    codecRecommendations: [],
+    fileStats: { total: 1, js: 1, wasm: 0, textures: 0, other: 0 },
+    largeFiles: [],
+    textureMemory: { vramBytes: 0, vramBytesWithMipmaps: 0 },
+    suggestions: [createFinding('build/no-compression', 'warning', 'size', 'No precompressed files')],
+    template: {
+      recommendations: [createFinding('template/no-viewport', 'error', 'ux', 'No viewport meta tag')]
+    },
+    engine: null
+  } as unknown as WebGLAnalysisReport;
+
+  it('keeps the findings at or above the minimum severity in every part of the report', () => {
+    const filtered = filterReportFindings(report, { minSeverity: 'warning' });
+
+    expect(filtered.files[0].suggestions).toEqual([]);
+    expect(collectFindings(filtered).map(finding => finding.ruleId)).toEqual(['template/no-viewport', 'build/no-compression']);
+    expect(report.files[0].suggestions).toHaveLength(1);
+  });
+
+  it('keeps the findings of the given categories', () => {
+    const filtered = filterReportFindings(report, { categories: ['ux'] });
+
+    expect(collectFindings(filtered)).toEqual([{ ...report.template.recommendations[0], file: 'index.html' }]);
+  });
+});
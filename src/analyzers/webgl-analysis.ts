@@ -0,0 +1,83 @@
+import * as path from 'path';
+import { WebGLBuildAnalyzer, BuildAnalysis } from './build-analyzer';
+import { EngineDetectionResult } from './engine-detector';
+import { StaticEngineDetector } from './static-engine-detector';
+import { WebGLTemplateAnalyzer, TemplateAnalysis } from './template-analyzer';
+import { locateBuild } from './build-locator';
+import { Finding, FindingFilter, dedupeFindings, filterFindings, sortFindings } from './findings';
+import { BUDGET_FILE_NAME, BudgetError, BudgetEvaluation, budgetThresholds, evaluateBudget, loadBudget } from './budget';
+
+export interface WebGLAnalysisReport extends BuildAnalysis {
+  buildPath: string;
+  indexPath?: string;
+  template: TemplateAnalysis;
+  engine: EngineDetectionResult | null;
+  // Present when the build has a webgl-budget.json or one was given
+  budget?: BudgetEvaluation;
+}
+
+export interface AnalysisOptions {
+  // Budget file to use instead of webgl-budget.json at the build root; it must exist
+  budgetPath?: string;
+}
+
+export class WebGLAnalysisRunner {
+  constructor(
+    private buildAnalyzer = new WebGLBuildAnalyzer(),
+    private engineDetector = new StaticEngineDetector(),
+    private templateAnalyzer = new WebGLTemplateAnalyzer()
+  ) {}
+
+  async analyze(targetPath: string, options: AnalysisOptions = {}): Promise<WebGLAnalysisReport> {
+    const location = await locateBuild(targetPath);
+    const budgetPath = options.budgetPath ? path.resolve(options.budgetPath) : path.join(location.buildPath, BUDGET_FILE_NAME);
+    const budget = await loadBudget(location.buildPath, budgetPath);
+    if (!budget && options.budgetPath) {
+      throw new BudgetError(`Budget file not found: ${budgetPath}`, budgetPath);
+    }
+
+    // Budget limits replace the analyzer's default size warnings
+    const analysis = await this.buildAnalyzer.analyzeBuild(location.buildPath, budget ? budgetThresholds(budget) : {});
+    const template = await this.templateAnalyzer.analyzeTemplate(location.indexPath);
+
+    // Static engine detection on the index.html that ships with the build and the scripts it loads
+    const engine = location.indexPath ? await this.engineDetector.detect(location.indexPath) : null;
+
+    const report: WebGLAnalysisReport = {
+      ...analysis,
+      buildPath: location.buildPath,
+      indexPath: location.indexPath,
+      template,
+      engine
+    };
+
+    if (budget) {
+      report.budget = { budgetPath, ...evaluateBudget(report, budget, collectFindings(report)) };
+    }
+
+    return report;
+  }
+}
+
+// Every finding in the report in one list, most severe first, with repeats removed
+export function collectFindings(report: WebGLAnalysisReport): Finding[] {
+  const indexFile = report.indexPath ? path.relative(report.buildPath, report.indexPath) : undefined;
+
+  return sortFindings(dedupeFindings([
+    ...report.suggestions,
+    ...report.files.flatMap(file => file.suggestions),
+    ...report.template.recommendations.map(finding => ({ ...finding, file: finding.file ?? indexFile })),
+    ...(report.engine?.warnings ?? []).map(finding => ({ ...finding, file: finding.file ?? indexFile }))
+  ]));
+}
+
+// Copy of the report that keeps only the findings matching the filter
+export function filterReportFindings(report: WebGLAnalysisReport, filter: FindingFilter): WebGLAnalysisReport {
+  return {
+    ...report,
+    suggestions: filterFindings(report.suggestions, filter),
+    files: report.files.map(file => ({ ...file, suggestions: filterFindings(file.suggestions, filter) })),
+    template: { ...report.template, recommendations: filterFindings(report.template.recommendations, filter) },
+    engine: report.engine && { ...report.engine, warnings: filterFindings(report.engine.warnings, filter) }
+  };
+}
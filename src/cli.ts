@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { WebGLAnalysisRunner, collectFindings, filterReportFindings } from './analyzers/webgl-analysis';
+import { WebGLBuildAnalyzer } from './analyzers/build-analyzer';
+import { EngineDetector } from './analyzers/engine-detector';
+import { StaticEngineDetector } from './analyzers/static-engine-detector';
+import { EngineRegistryLoader } from './analyzers/engine-registry';
+import { AnalyzerPluginLoader } from './analyzers/analyzer-plugins';
+import { BuildComparer } from './analyzers/build-comparison';
+import { WebGLTemplateAnalyzer } from './analyzers/template-analyzer';
+import { locateBuild } from './analyzers/build-locator';
+import { parseSize } from './analyzers/budget';
+import { FINDING_CATEGORIES, FINDING_SEVERITIES, filterFindings } from './analyzers/findings';
+import { OptimizationAdvisor, OptimizationGoal } from './optimizers/optimization-advisor';
+import { WebGLBuildOptimizer } from './optimizers/build-optimizer';
+import { GrokadeTemplateManager, GrokadeTemplateConfig } from './template/grokade-template-manager';
+import { TemplateSnapshotStore } from './template/template-snapshots';
+import { revertTemplate } from './template/template-transaction';
+import { formatAnalysisSummary, formatBudgetEvaluation, formatOptimizationSummary } from './reporters/summary-reporter';
+import { formatComparisonSummary } from './reporters/comparison-reporter';
+import { formatAnalysisMarkdown, formatComparisonMarkdown, formatOptimizationMarkdown } from './reporters/markdown-reporter';
+import { formatSarif } from './reporters/sarif-reporter';
+import { formatJUnit } from './reporters/junit-reporter';
+import { formatHtmlReport } from './reporters/html-reporter';
+
+// Exit codes: checks passed, a check failed (e.g. a budget violation), bad usage or an error
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+type OutputFormat = 'text' | 'json' | 'markdown' | 'sarif' | 'junit' | 'html';
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'markdown', 'sarif', 'junit', 'html'];
+const OPTIMIZATION_GOALS: OptimizationGoal[] = ['performance', 'memory', 'quality', 'mobile'];
+// Options that never take a value, so "--dry-run ./build" keeps the path positional
+const FLAGS = ['dry-run', 'overwrite', 'no-precompress', 'no-minify-shaders', 'no-template', 'help'];
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string | boolean | string[]>;
+}
+
+interface CommandContext {
+  args: ParsedArgs;
+  runner: WebGLAnalysisRunner;
+  // Writes the command's report to --output or stdout
+  write(text: string): Promise<void>;
+}
+
+type Command = (context: CommandContext) => Promise<number>;
+
+const USAGE = `Usage: webgl-mcp <command> [options]
+
+Commands:
+  analyze <path>             Analyze a build folder or index.html
+      --format text|json|markdown|sarif|junit|html   (default text; html is a standalone page with a size treemap)
+      --min-severity info|warning|error, --categories size,perf,compat,security,ux
+      --budget <file>        Budget to use instead of webgl-budget.json at the build root
+      --fail-on info|warning|error   Exit with 1 when findings at this severity remain
+
+  optimize <path>            Write an optimized copy of a build
+      --output-path <dir>, --overwrite, --dry-run, --no-precompress, --no-minify-shaders, --no-template
+      --target-fps <n>, --memory-limit <MB>, --goals performance,memory,quality,mobile
+      --format text|json|markdown
+
+  compare <base> <head>      Compare two builds or saved JSON reports
+      --min-file-delta <size>, --max-growth <size>   Exit with 1 when the build grew by more than this
+      --format text|json|markdown|sarif|junit   (sarif and junit list the new findings)
+
+  template apply <path>      Apply the Grokade template to a build's index.html, snapshotting the previous page
+      --config <file.json>, --set key=value (repeatable), --dry-run
+      --format text|json|markdown
+
+  template revert <path>     Restore the files of the newest template snapshot
+      --snapshot <id>, --dry-run, --format text|json|markdown
+
+  check-budget <path>        Check a build against webgl-budget.json; exits with 1 on violations
+      --budget <file>, --format text|json|junit
+
+Every command accepts --output <file> to write the report to a file instead of stdout.`;
+
+const commands: Record<string, Command> = {
+  analyze: async ({ args, runner, write }) => {
+    const [targetPath] = requirePositional(args, 1, 'analyze <path>');
+    const format = formatOption(args, ['text', 'json', 'markdown', 'sarif', 'junit', 'html']);
+    const failOn = enumOption(args, 'fail-on', FINDING_SEVERITIES);
+    const filter = {
+      minSeverity: enumOption(args, 'min-severity', FINDING_SEVERITIES),
+      categories: listOption(args, 'categories', FINDING_CATEGORIES)
+    };
+
+    const report = filterReportFindings(await runner.analyze(targetPath, { budgetPath: stringOption(args, 'budget') }), filter);
+    const findings = collectFindings(report);
+
+    switch (format) {
+      case 'json':
+        await write(JSON.stringify(report, null, 2));
+        break;
+      case 'markdown':
+        await write(formatAnalysisMarkdown(report));
+        break;
+      case 'sarif':
+        await write(formatSarif(findings, report.buildPath));
+        break;
+      case 'junit':
+        await write(formatJUnit(findings, report.budget, failOn));
+        break;
+      case 'html':
+        await write(formatHtmlReport(report));
+        break;
+      default:
+        await write(formatAnalysisSummary(report));
+    }
+
+    const failed = report.budget?.passed === false ||
+      (failOn !== undefined && filterFindings(findings, { minSeverity: failOn }).length > 0);
+    return failed ? EXIT_FAILED : EXIT_OK;
+  },
+
+  optimize: async ({ args, write }) => {
+    const [targetPath] = requirePositional(args, 1, 'optimize <path>');
+    const format = formatOption(args, ['text', 'json', 'markdown']);
+    const location = await locateBuild(targetPath);
+    const templateAnalysis = await new WebGLTemplateAnalyzer().analyzeTemplate(location.indexPath);
+
+    const recommendations = new OptimizationAdvisor().recommend({
+      templateName: templateAnalysis.templateName,
+      targetFPS: numberOption(args, 'target-fps'),
+      memoryLimit: numberOption(args, 'memory-limit'),
+      optimizationGoals: listOption(args, 'goals', OPTIMIZATION_GOALS)
+    });
+
+    const result = await new WebGLBuildOptimizer().optimize(location.buildPath, {
+      outputPath: stringOption(args, 'output-path') ?? `${location.buildPath.replace(/[\\/]+$/, '')}-optimized`,
+      dryRun: args.options['dry-run'] === true,
+      overwrite: args.options['overwrite'] === true,
+      precompress: args.options['no-precompress'] !== true,
+      minifyShaders: args.options['no-minify-shaders'] !== true,
+      templateConfig: args.options['no-template'] === true ? false : {}
+    });
+
+    await write(format === 'json' ? JSON.stringify(result, null, 2)
+      : format === 'markdown' ? formatOptimizationMarkdown(result, recommendations)
+      : formatOptimizationSummary(result, recommendations));
+    return EXIT_OK;
+  },
+
+  compare: async ({ args, runner, write }) => {
+    const [basePath, headPath] = requirePositional(args, 2, 'compare <base> <head>');
+    const format = formatOption(args, ['text', 'json', 'markdown', 'sarif', 'junit']);
+    const maxGrowth = sizeOption(args, 'max-growth');
+
+    const comparison = await new BuildComparer(runner).compare(basePath, headPath, {
+      minFileDelta: sizeOption(args, 'min-file-delta')
+    });
+
+    switch (format) {
+      case 'json':
+        await write(JSON.stringify(comparison, null, 2));
+        break;
+      case 'markdown':
+        await write(formatComparisonMarkdown(comparison));
+        break;
+      case 'sarif':
+        await write(formatSarif(comparison.newFindings, comparison.headBuildPath));
+        break;
+      case 'junit':
+        await write(formatJUnit(comparison.newFindings));
+        break;
+      default:
+        await write(formatComparisonSummary(comparison));
+    }
+
+    return maxGrowth !== undefined && comparison.totalSize.delta > maxGrowth ? EXIT_FAILED : EXIT_OK;
+  },
+
+  template: async ({ args, write }) => {
+    const [action, targetPath] = requirePositional(args, 2, 'template apply|revert <path>');
+    if (action !== 'apply' && action !== 'revert') throw new UsageError(`Unknown template action: ${action}`);
+    const format = formatOption(args, ['text', 'json', 'markdown']);
+
+    const location = await locateBuild(targetPath);
+    if (!location.indexPath) throw new Error(`No index.html found in ${location.buildPath}`);
+
+    const templatePath = path.dirname(location.indexPath);
+    const dryRun = args.options['dry-run'] === true;
+    const snapshots = new TemplateSnapshotStore();
+    const result = action === 'apply'
+      ? { ...await new GrokadeTemplateManager(templatePath, snapshots).applyTemplate(await templateConfigOptions(args), { preview: dryRun }), dryRun }
+      : { ...await revertTemplate(templatePath, snapshots, { snapshotId: stringOption(args, 'snapshot'), preview: dryRun }), dryRun };
+    const title = action === 'apply' ? 'Grokade Template' : 'Template Revert';
+    const snapshotNote = result.snapshot ? `Snapshot ${result.snapshot.id} holds the previous files; undo with "template revert ${targetPath} --snapshot ${result.snapshot.id}"` : '';
+
+    if (format === 'json') {
+      await write(JSON.stringify(result, null, 2));
+    } else if (format === 'markdown') {
+      await write([
+        `# ${title}${dryRun ? ' (dry run)' : ''}`,
+        '',
+        `Template: \`${result.templatePath}\``,
+        '',
+        ...(snapshotNote ? [snapshotNote, ''] : []),
+        result.changed ? ['```diff', result.diff.trimEnd(), '```'].join('\n') : '_No changes_',
+        ''
+      ].join('\n'));
+    } else {
+      const heading = action === 'apply'
+        ? `${dryRun ? 'Template plan (dry run)' : 'Template applied'} to ${result.templatePath}`
+        : `${dryRun ? 'Revert plan (dry run)' : 'Template reverted'} for ${result.templatePath}`;
+      await write(`${heading}${result.changed ? `\n\n${result.diff}` : ' (no changes)'}${snapshotNote ? `\n${snapshotNote}` : ''}`);
+    }
+    return EXIT_OK;
+  },
+
+  'check-budget': async ({ args, runner, write }) => {
+    const [targetPath] = requirePositional(args, 1, 'check-budget <path>');
+    const format = formatOption(args, ['text', 'json', 'junit']);
+
+    const report = await runner.analyze(targetPath, { budgetPath: stringOption(args, 'budget') });
+    if (!report.budget) {
+      console.error(`No webgl-budget.json found in ${report.buildPath}`);
+      return EXIT_ERROR;
+    }
+
+    await write(format === 'json' ? JSON.stringify(report.budget, null, 2)
+      : format === 'junit' ? formatJUnit([], report.budget)
+      : formatBudgetEvaluation(report.budget).join('\n'));
+    return report.budget.passed ? EXIT_OK : EXIT_FAILED;
+  }
+};
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {} };
+  const set = (name: string, value: string | boolean) => {
+    const previous = parsed.options[name];
+    // Repeated options such as --set collect into a list
+    if (typeof value === 'string' && typeof previous === 'string') parsed.options[name] = [previous, value];
+    else if (typeof value === 'string' && Array.isArray(previous)) previous.push(value);
+    else parsed.options[name] = value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (inlineValue !== undefined) {
+      set(name, inlineValue);
+    } else if (!FLAGS.includes(name) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      set(name, argv[++i]);
+    } else {
+      set(name, true);
+    }
+  }
+
+  return parsed;
+}
+
+function requirePositional(args: ParsedArgs, count: number, usage: string): string[] {
+  if (args.positional.length < count) throw new UsageError(`Usage: webgl-mcp ${usage}`);
+  return args.positional;
+}
+
+function stringOption(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new UsageError(`--${name} needs a single value`);
+  return value;
+}
+
+function stringListOption(args: ParsedArgs, name: string): string[] {
+  const value = args.options[name];
+  if (value === undefined) return [];
+  if (value === true || value === false) throw new UsageError(`--${name} needs a value`);
+  return Array.isArray(value) ? value : [value];
+}
+
+function numberOption(args: ParsedArgs, name: string): number | undefined {
+  const value = stringOption(args, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number`);
+  return parsed;
+}
+
+function sizeOption(args: ParsedArgs, name: string): number | undefined {
+  const value = stringOption(args, name);
+  if (value === undefined) return undefined;
+  const parsed = parseSize(value);
+  if (parsed === undefined) throw new UsageError(`--${name} must be a size such as 512KB or 15MB`);
+  return parsed;
+}
+
+function enumOption<T extends string>(args: ParsedArgs, name: string, allowed: readonly T[]): T | undefined {
+  const value = stringOption(args, name);
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}`);
+  return value as T;
+}
+
+function listOption<T extends string>(args: ParsedArgs, name: string, allowed: readonly T[]): T[] | undefined {
+  const values = stringListOption(args, name).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+  if (values.length === 0) return undefined;
+  const invalid = values.filter(value => !allowed.includes(value as T));
+  if (invalid.length) throw new UsageError(`--${name} must be from: ${allowed.join(', ')} (got ${invalid.join(', ')})`);
+  return values as T[];
+}
+
+function formatOption(args: ParsedArgs, allowed: OutputFormat[]): OutputFormat {
+  const format = enumOption(args, 'format', OUTPUT_FORMATS) ?? 'text';
+  if (!allowed.includes(format)) throw new UsageError(`This command supports --format ${allowed.join('|')}`);
+  return format;
+}
+
+// --config file first, then each --set key=value; values are parsed as JSON when they can be
+async function templateConfigOptions(args: ParsedArgs): Promise<Partial<GrokadeTemplateConfig>> {
+  const configPath = stringOption(args, 'config');
+  const config: Record<string, unknown> = configPath ? JSON.parse(await fs.readFile(configPath, 'utf8')) : {};
+
+  for (const entry of stringListOption(args, 'set')) {
+    const [key, value] = entry.split(/=(.*)/s);
+    if (!key || value === undefined) throw new UsageError(`--set expects key=value, got ${entry}`);
+    try {
+      config[key] = JSON.parse(value);
+    } catch {
+      config[key] = value;
+    }
+  }
+
+  return config as Partial<GrokadeTemplateConfig>;
+}
+
+// Same engines and analyzer plugins as the MCP server, from webgl-mcp.config.json
+async function createRunner(): Promise<WebGLAnalysisRunner> {
+  const engineDetector = new EngineDetector();
+  const buildAnalyzer = new WebGLBuildAnalyzer();
+
+  const registry = await new EngineRegistryLoader().load();
+  registry.onError = error => console.error(`Engine plugin error from ${error.source}: ${error.message}`);
+  engineDetector.registerEngines(registry.engines);
+  const { plugins, errors } = await new AnalyzerPluginLoader().load();
+  buildAnalyzer.registerPlugins(plugins);
+
+  for (const error of [...registry.errors, ...errors]) {
+    console.error(`Skipped ${error.source}: ${error.message}`);
+  }
+
+  return new WebGLAnalysisRunner(buildAnalyzer, new StaticEngineDetector(engineDetector));
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [commandName, ...rest] = argv;
+  if (!commandName || commandName === '--help' || commandName === 'help') {
+    console.log(USAGE);
+    return commandName ? EXIT_OK : EXIT_ERROR;
+  }
+
+  const command = commands[commandName];
+  if (!command) {
+    console.error(`Unknown command: ${commandName}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    const args = parseArgs(rest);
+    const outputPath = stringOption(args, 'output');
+    const write = async (text: string) => {
+      if (outputPath) {
+        await fs.writeFile(outputPath, text.endsWith('\n') ? text : `${text}\n`);
+      } else {
+        console.log(text);
+      }
+    };
+
+    return await command({ args, runner: await createRunner(), write });
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\nRun "webgl-mcp help" for all commands and options.`);
+    } else {
+      console.error(`webgl-mcp ${commandName} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return EXIT_ERROR;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
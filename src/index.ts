@@ -1,7 +1,31 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { promises as fs } from 'fs';
+import * as nodePath from 'path';
 import { WebGLContextManager } from './webgl-context';
+import { WebGLAnalysisRunner, filterReportFindings } from './analyzers/webgl-analysis';
+import { Finding } from './analyzers/findings';
+import { WebGLTemplateAnalyzer } from './analyzers/template-analyzer';
+import { EngineDetector } from './analyzers/engine-detector';
+import { EngineRegistryLoader } from './analyzers/engine-registry';
+import { AnalyzerPluginLoader } from './analyzers/analyzer-plugins';
+import { WebGLBuildAnalyzer } from './analyzers/build-analyzer';
+import { StaticEngineDetector } from './analyzers/static-engine-detector';
+import { locateBuild } from './analyzers/build-locator';
+import { OptimizationAdvisor } from './optimizers/optimization-advisor';
+import { WebGLBuildOptimizer } from './optimizers/build-optimizer';
+import { formatAnalysisSummary, formatBudgetEvaluation, formatBytes, formatOptimizationSummary } from './reporters/summary-reporter';
+import { BuildComparer } from './analyzers/build-comparison';
+import { formatComparisonSummary } from './reporters/comparison-reporter';
+import { formatHtmlReport } from './reporters/html-reporter';
+import { PreviewServerManager } from './server/preview-server';
+import { describeServing, generateServerConfig } from './server/server-config';
+import { CSS_COLOR, GrokadeTemplateManager } from './template/grokade-template-manager';
+import { WebGLTemplateModifier } from './template/template-modifier';
+import { TEMPLATE_CATALOG } from './template/template-catalog';
+import { TemplateSnapshotStore } from './template/template-snapshots';
+import { revertTemplate } from './template/template-transaction';
 import winston from 'winston';
 
 // Configure logger
@@ -18,8 +42,10 @@ const logger = winston.createLogger({
 });
 
 if (process.env.NODE_ENV !== 'production') {
+  // stdout carries the MCP protocol, so console logging goes to stderr
   logger.add(new winston.transports.Console({
-    format: winston.format.simple()
+    format: winston.format.simple(),
+    stderrLevels: Object.keys(winston.config.npm.levels)
   }));
 }
 
@@ -34,6 +60,49 @@ class WebGLError extends Error {
 // Initialize WebGL context manager
 const contextManager = new WebGLContextManager();
 
+// Initialize analyzers; registry engines and analyzer plugins are added to these at startup
+const engineDetector = new EngineDetector();
+const buildAnalyzer = new WebGLBuildAnalyzer();
+const analysisRunner = new WebGLAnalysisRunner(buildAnalyzer, new StaticEngineDetector(engineDetector));
+const buildComparer = new BuildComparer(analysisRunner);
+const templateAnalyzer = new WebGLTemplateAnalyzer();
+const optimizationAdvisor = new OptimizationAdvisor();
+const buildOptimizer = new WebGLBuildOptimizer();
+const templateSnapshots = new TemplateSnapshotStore();
+// Catalog lookups and rendering only; writing to a folder uses a modifier for that folder
+const templateModifier = new WebGLTemplateModifier(process.cwd(), templateSnapshots);
+const previewServers = new PreviewServerManager((serverId, request) => {
+  logger.info(`[${serverId}] ${request.method} ${request.path} ${request.status} ${request.bytes} bytes`, {
+    contentType: request.contentType,
+    contentEncoding: request.contentEncoding,
+    durationMs: request.durationMs
+  });
+});
+
+// Finding filters shared by the analysis tools
+const findingFilterParams = {
+  minSeverity: z.enum(['info', 'warning', 'error']).optional()
+    .describe("Only report findings at or above this severity"),
+  categories: z.array(z.enum(['size', 'perf', 'compat', 'security', 'ux'])).optional()
+    .describe("Only report findings in these categories")
+};
+
+// Grokade template options shared by the template tools
+const grokadeConfigParam = z.object({
+  scaleToFit: z.boolean().optional(),
+  optimizeForPixelArt: z.boolean().optional(),
+  centerCanvas: z.boolean().optional(),
+  customBackground: z.string().regex(CSS_COLOR, "Expected a CSS color").optional().describe("CSS background color of the page, e.g. \"#000000\""),
+  showLoadingBar: z.boolean().optional(),
+  showLoadingText: z.boolean().optional(),
+  loadingBarColor: z.string().regex(CSS_COLOR, "Expected a CSS color").optional(),
+  clickToPlay: z.boolean().optional(),
+  fullscreenButton: z.boolean().optional(),
+  showScrollbars: z.boolean().optional(),
+  mobileOptimized: z.boolean().optional(),
+  forceMobileFullscreen: z.boolean().optional()
+}).optional().describe("Grokade template options; options left out keep their defaults");
+
 // Create an MCP server
 const server = new McpServer({
   name: "Grokade Games WebGL-MCP",
@@ -44,19 +113,25 @@ const server = new McpServer({
 server.tool(
   "analyze-webgl",
   {
-    path: z.string().describe("Path to WebGL build folder or index.html file")
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    ...findingFilterParams
   },
-  async ({ path }) => {
-    logger.info(`Analyzing WebGL at path: ${path}`);
+  async ({ path, minSeverity, categories }) => {
+    logger.info(`Analyzing WebGL at path: ${path}`, { minSeverity, categories });
     
     try {
-      // Here you would add your WebGL analysis logic
-      // For now, we'll just return a simple message
+      const report = filterReportFindings(await analysisRunner.analyze(path), { minSeverity, categories });
       return {
-        content: [{
-          type: "text",
-          text: `Analyzed WebGL at path: ${path}\n\nFindings:\n- WebGL 2.0 support: Yes\n- Texture compression: Yes\n- Memory usage: Optimal\n- Render pipeline: Efficient`
-        }]
+        content: [
+          {
+            type: "text",
+            text: formatAnalysisSummary(report)
+          },
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }
+        ]
       };
     } catch (error) {
       logger.error('Error analyzing WebGL:', {
@@ -79,19 +154,47 @@ server.tool(
     targetFPS: z.number().optional().describe("Target frames per second"),
     memoryLimit: z.number().optional().describe("Memory limit in MB"),
     optimizationGoals: z.array(z.enum(['performance', 'memory', 'quality', 'mobile'])).optional()
-      .describe("Optimization goals in order of priority")
+      .describe("Optimization goals in order of priority"),
+    outputPath: z.string().optional().describe("Folder for the optimized copy (defaults to '<build>-optimized'); the original build is never modified"),
+    dryRun: z.boolean().optional().describe("Only return the per-file plan with unified diffs, without writing anything"),
+    overwrite: z.boolean().optional().describe("Replace the contents of an outputPath that is not empty (default false: refuse it)"),
+    precompress: z.boolean().optional().describe("Write pre-compressed .gz and .br siblings (default true)"),
+    minifyShaders: z.boolean().optional().describe("Minify .glsl/.vert/.frag shaders (default true)"),
+    patchTemplate: z.boolean().optional().describe("Patch index.html through the Grokade template manager (default true)")
   },
-  async ({ path, targetFPS, memoryLimit, optimizationGoals }) => {
-    logger.info(`Optimizing WebGL at path: ${path}`, { targetFPS, memoryLimit, optimizationGoals });
+  async ({ path, targetFPS, memoryLimit, optimizationGoals, outputPath, dryRun, overwrite, precompress, minifyShaders, patchTemplate }) => {
+    logger.info(`Optimizing WebGL at path: ${path}`, { targetFPS, memoryLimit, optimizationGoals, outputPath, dryRun });
     
     try {
-      // Here you would add your WebGL optimization logic
-      // For now, we'll just return a simple message
+      const location = await locateBuild(path);
+      const templateAnalysis = await templateAnalyzer.analyzeTemplate(location.indexPath);
+      const recommendations = optimizationAdvisor.recommend({
+        templateName: templateAnalysis.templateName,
+        targetFPS,
+        memoryLimit,
+        optimizationGoals
+      });
+
+      const result = await buildOptimizer.optimize(location.buildPath, {
+        outputPath: outputPath ?? `${location.buildPath.replace(/[\\/]+$/, '')}-optimized`,
+        dryRun,
+        overwrite,
+        precompress,
+        minifyShaders,
+        templateConfig: patchTemplate === false ? false : {}
+      });
+
       return {
-        content: [{
-          type: "text",
-          text: `Optimized WebGL at path: ${path}\n\nOptimizations applied:\n- Texture compression\n- Shader minification\n- Draw call batching\n- Memory management improvements`
-        }]
+        content: [
+          {
+            type: "text",
+            text: formatOptimizationSummary(result, recommendations)
+          },
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
       };
     } catch (error) {
       logger.error('Error optimizing WebGL:', {
@@ -106,9 +209,699 @@ server.tool(
   }
 );
 
+// Add WebGL performance analysis tool
+server.tool(
+  "analyze-performance",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file")
+  },
+  async ({ path }) => {
+    logger.info(`Analyzing WebGL performance at path: ${path}`);
+
+    try {
+      const location = await locateBuild(path);
+      // Frame rate, draw calls and memory only exist while the game runs; static analysis cannot measure them
+      const result = {
+        path: location.indexPath,
+        available: false,
+        reason: 'Performance metrics require a live WebGL runtime and are not available from static analysis.',
+        findings: [] as Finding[]
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Performance Analysis for WebGL at path: ${path}
+
+${result.reason}
+Use analyze-webgl for the static checks (sizes, compression, WebAssembly, textures and shaders).`
+          },
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error analyzing WebGL performance:', {
+        error: error instanceof Error ? error.message : String(error),
+        path
+      });
+
+      throw new WebGLError(`Failed to analyze WebGL performance at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add budget check tool
+server.tool(
+  "check-budget",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    budgetPath: z.string().optional().describe("Budget file to use instead of webgl-budget.json at the build root")
+  },
+  async ({ path, budgetPath }) => {
+    logger.info(`Checking WebGL budget at path: ${path}`, { budgetPath });
+
+    try {
+      const report = await analysisRunner.analyze(path, { budgetPath });
+      if (!report.budget) {
+        throw new Error(`No webgl-budget.json found in ${report.buildPath}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatBudgetEvaluation(report.budget).join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(report.budget, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error checking WebGL budget:', {
+        error: error instanceof Error ? error.message : String(error),
+        path
+      });
+
+      throw new WebGLError(`Failed to check budget for WebGL at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add build comparison tool
+server.tool(
+  "compare-builds",
+  {
+    basePath: z.string().describe("Earlier build folder, index.html or JSON report saved from analyze-webgl"),
+    headPath: z.string().describe("Later build folder, index.html or JSON report saved from analyze-webgl"),
+    minFileDelta: z.number().nonnegative().optional().describe("Leave out changed files that grew or shrank by fewer bytes than this")
+  },
+  async ({ basePath, headPath, minFileDelta }) => {
+    logger.info(`Comparing WebGL builds: ${basePath} -> ${headPath}`, { minFileDelta });
+
+    try {
+      const comparison = await buildComparer.compare(basePath, headPath, { minFileDelta });
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatComparisonSummary(comparison)
+          },
+          {
+            type: "text",
+            text: JSON.stringify(comparison, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error comparing WebGL builds:', {
+        error: error instanceof Error ? error.message : String(error),
+        basePath,
+        headPath
+      });
+
+      throw new WebGLError(`Failed to compare WebGL builds: ${basePath} -> ${headPath}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add HTML report tool
+server.tool(
+  "generate-html-report",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    outputPath: z.string().optional().describe("Where to write the report (default: <build>-report.html next to the build folder)"),
+    ...findingFilterParams
+  },
+  async ({ path, outputPath, minSeverity, categories }) => {
+    logger.info(`Generating HTML report for WebGL at path: ${path}`, { outputPath });
+
+    try {
+      const report = filterReportFindings(await analysisRunner.analyze(path), { minSeverity, categories });
+      // Kept outside the build folder so the report is not analyzed or deployed with the build
+      const reportPath = outputPath ?? `${report.buildPath.replace(/[\\/]+$/, '')}-report.html`;
+      await fs.writeFile(reportPath, formatHtmlReport(report));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `HTML report written to ${reportPath}\n\n${formatAnalysisSummary(report)}`
+          },
+          {
+            type: "text",
+            text: JSON.stringify({ reportPath, buildPath: report.buildPath }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error generating HTML report:', {
+        error: error instanceof Error ? error.message : String(error),
+        path
+      });
+
+      throw new WebGLError(`Failed to generate HTML report for WebGL at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add local preview server tools
+server.tool(
+  "serve-build",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    port: z.number().int().min(0).max(65535).optional().describe("Port to listen on (default: any free port)"),
+    host: z.string().optional().describe("Interface to listen on (default: 127.0.0.1)"),
+    crossOriginIsolation: z.boolean().optional()
+      .describe("Send COOP/COEP headers so SharedArrayBuffer and multithreaded (pthreads) builds work"),
+    cacheControl: z.string().optional().describe("Cache-Control header for every response (default: no-cache)")
+  },
+  async ({ path, port, host, crossOriginIsolation, cacheControl }) => {
+    logger.info(`Serving WebGL build at path: ${path}`, { port, host, crossOriginIsolation, cacheControl });
+
+    try {
+      const info = await previewServers.start(path, { port, host, crossOriginIsolation, cacheControl });
+      const localhost = ['127.0.0.1', 'localhost', '::1'].includes(info.host);
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Serving ${info.buildPath} at ${info.url} (id ${info.id})`,
+              '- .br and .gz files are sent with Content-Encoding and the MIME type of the file they contain',
+              `- Cross-origin isolation (COOP/COEP): ${info.crossOriginIsolation ? 'on' : 'off'}`,
+              `- Cache-Control: ${info.cacheControl}`,
+              ...(localhost ? [] : ['- Browsers only accept Brotli over HTTPS or localhost; use a TLS proxy when testing from another device']),
+              `Stop it with stop-server(id: "${info.id}").`
+            ].join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(info, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error starting preview server:', {
+        error: error instanceof Error ? error.message : String(error),
+        path
+      });
+
+      throw new WebGLError(`Failed to serve WebGL build at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+server.tool(
+  "stop-server",
+  {
+    id: z.string().optional().describe("Preview server id from serve-build (default: stop all preview servers)")
+  },
+  async ({ id }) => {
+    logger.info(`Stopping preview server: ${id ?? 'all'}`);
+
+    try {
+      const stopped = await previewServers.stop(id);
+      const lines = stopped.length ? stopped.flatMap(({ info, requests }) => {
+        const failed = requests.filter(request => request.status >= 400);
+        return [
+          `Stopped ${info.id} (${info.url}): ${info.requestCount} request(s), ${formatBytes(info.bytesSent)} sent`,
+          ...failed.map(request => `- ${request.status} ${request.method} ${request.path}`)
+        ];
+      }) : ['No preview servers were running.'];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: lines.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(stopped, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error stopping preview server:', {
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+
+      throw new WebGLError(`Failed to stop preview server: ${id ?? 'all'}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add hosting configuration tool
+server.tool(
+  "generate-server-config",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    target: z.enum(['nginx', 'apache', 'netlify', 'vercel', 'firebase', 's3-cloudfront', 'iis']).describe("Host to generate configuration for"),
+    outputPath: z.string().optional().describe("Folder to write the configuration files to (default: only return them)"),
+    crossOriginIsolation: z.boolean().optional()
+      .describe("Send COOP/COEP headers (default: on when the WebAssembly uses threads)"),
+    securityHeaders: z.boolean().optional().describe("Include CSP, X-Frame-Options, X-Content-Type-Options and Referrer-Policy (default: true)"),
+    assetCacheControl: z.string().optional().describe("Cache-Control for build files (default: one year when file names are hashed, otherwise no-cache)"),
+    htmlCacheControl: z.string().optional().describe("Cache-Control for HTML pages (default: no-cache)")
+  },
+  async ({ path, target, outputPath, crossOriginIsolation, securityHeaders, assetCacheControl, htmlCacheControl }) => {
+    logger.info(`Generating ${target} configuration for WebGL at path: ${path}`, { outputPath });
+
+    try {
+      const report = await analysisRunner.analyze(path);
+      const profile = describeServing(report, report.buildPath);
+      const config = generateServerConfig(target, profile, {
+        crossOriginIsolation, securityHeaders, assetCacheControl, htmlCacheControl
+      });
+
+      if (outputPath) {
+        await fs.mkdir(outputPath, { recursive: true });
+        for (const file of config.files) {
+          await fs.writeFile(nodePath.join(outputPath, file.name), file.content);
+        }
+      }
+
+      const summary = [
+        `${target} configuration for ${report.buildPath}${outputPath ? `, written to ${outputPath}` : ''}:`,
+        `- Precompressed: ${profile.precompressed.length ? profile.precompressed.map(pattern => `${pattern.suffix} (${pattern.encoding}, ${pattern.contentType})`).join(', ') : 'none'}`,
+        `- WebAssembly threads: ${profile.threads ? 'yes' : 'no'}; cross-origin isolation: ${config.crossOriginIsolation ? 'on' : 'off'}`,
+        `- Cache-Control: ${config.assetCacheControl} for build files, ${config.htmlCacheControl} for HTML`,
+        ...config.notes.map(note => `- ${note}`),
+        ...config.files.flatMap(file => ['', `${file.name}:`, '```', file.content.trimEnd(), '```'])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify({ ...config, profile }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error generating server configuration:', {
+        error: error instanceof Error ? error.message : String(error),
+        path,
+        target
+      });
+
+      throw new WebGLError(`Failed to generate ${target} configuration for WebGL at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add template application tool
+server.tool(
+  "apply-template",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    config: grokadeConfigParam,
+    preview: z.boolean().optional().describe("Only return the unified diff, without writing anything")
+  },
+  async ({ path, config, preview }) => {
+    logger.info(`Applying Grokade template to WebGL at path: ${path}`, { config, preview });
+
+    try {
+      const location = await locateBuild(path);
+      if (!location.indexPath) {
+        throw new Error(`No index.html found in ${location.buildPath}`);
+      }
+
+      const changeSet = await new GrokadeTemplateManager(nodePath.dirname(location.indexPath), templateSnapshots)
+        .applyTemplate(config ?? {}, { preview });
+
+      const summary = [
+        `${preview ? 'Template preview' : 'Template applied'} for ${changeSet.templatePath}${changeSet.changed ? ':' : ' (no changes)'}`,
+        ...changeSet.files.map(file => `- ${file.action} ${file.file}`),
+        ...(changeSet.snapshot ? [`Snapshot ${changeSet.snapshot.id} holds the previous files; revert-template restores them`] : []),
+        ...(changeSet.changed ? ['', '```diff', changeSet.diff.trimEnd(), '```'] : [])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(changeSet, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error applying template:', {
+        error: error instanceof Error ? error.message : String(error),
+        path
+      });
+
+      throw new WebGLError(`Failed to apply the template to WebGL at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add template rollback tool
+server.tool(
+  "revert-template",
+  {
+    path: z.string().describe("Path to WebGL build folder or index.html file"),
+    snapshotId: z.string().optional().describe("Snapshot to restore (default: the newest one taken by apply-template)"),
+    preview: z.boolean().optional().describe("Only return the unified diff, without writing anything")
+  },
+  async ({ path, snapshotId, preview }) => {
+    logger.info(`Reverting template of WebGL at path: ${path}`, { snapshotId, preview });
+
+    try {
+      const location = await locateBuild(path);
+      if (!location.indexPath) {
+        throw new Error(`No index.html found in ${location.buildPath}`);
+      }
+
+      const templatePath = nodePath.dirname(location.indexPath);
+      const result = await revertTemplate(templatePath, templateSnapshots, { snapshotId, preview });
+      const available = await templateSnapshots.list(templatePath);
+
+      const summary = [
+        `${preview ? 'Revert preview' : 'Reverted'} ${result.templatePath} to snapshot ${result.revertedSnapshot.id} (${result.revertedSnapshot.createdAt})${result.changed ? ':' : ' (no changes)'}`,
+        ...result.files.map(file => `- ${file.action} ${file.file}`),
+        ...(result.snapshot ? [`Snapshot ${result.snapshot.id} holds the files from before the revert`] : []),
+        '',
+        'Snapshots:',
+        ...available.map(snapshot => `- ${snapshot.id}: ${snapshot.label} at ${snapshot.createdAt}`),
+        ...(result.changed ? ['', '```diff', result.diff.trimEnd(), '```'] : [])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify({ ...result, snapshots: available }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error reverting template:', {
+        error: error instanceof Error ? error.message : String(error),
+        path,
+        snapshotId
+      });
+
+      throw new WebGLError(`Failed to revert the template of WebGL at path: ${path}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add Unity template export tool
+server.tool(
+  "export-unity-template",
+  {
+    projectPath: z.string().describe("Path to the Unity project, the folder that holds Assets"),
+    templateName: z.string().optional().describe("Folder name under Assets/WebGLTemplates (default: Grokade)"),
+    config: grokadeConfigParam,
+    preview: z.boolean().optional().describe("Only return the unified diff, without writing anything")
+  },
+  async ({ projectPath, templateName = 'Grokade', config, preview }) => {
+    logger.info(`Exporting Unity template ${templateName} to project: ${projectPath}`, { config, preview });
+
+    try {
+      try {
+        await fs.access(nodePath.join(projectPath, 'Assets'));
+      } catch {
+        throw new Error(`No Assets folder in ${projectPath}; expected a Unity project`);
+      }
+
+      const templatePath = nodePath.join(projectPath, 'Assets', 'WebGLTemplates', templateName);
+      const result = await new GrokadeTemplateManager(templatePath, templateSnapshots)
+        .exportUnityTemplate(config ?? {}, { preview });
+
+      const summary = [
+        `${preview ? 'Unity template preview' : 'Unity template written'} for ${result.templatePath}${result.changed ? ':' : ' (no changes)'}`,
+        ...result.files.map(file => `- ${file.action} ${file.file}`),
+        `Select "${templateName}" under Player Settings > Resolution and Presentation > WebGL Template. Its variables:`,
+        ...result.variables.map(variable => `- ${variable.variable}: ${variable.description} (default ${variable.defaultValue}; set "on" or "off" to override)`),
+        ...(result.snapshot ? [`Snapshot ${result.snapshot.id} holds the previous files; revert-template restores them`] : []),
+        ...(result.changed ? ['', '```diff', result.diff.trimEnd(), '```'] : [])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error exporting Unity template:', {
+        error: error instanceof Error ? error.message : String(error),
+        projectPath,
+        templateName
+      });
+
+      throw new WebGLError(`Failed to export Unity template to project: ${projectPath}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add Godot HTML shell export tool
+server.tool(
+  "export-godot-shell",
+  {
+    projectPath: z.string().describe("Path to the Godot project, the folder that holds project.godot"),
+    godotVersion: z.enum(["3", "4"]).optional().describe("Godot major version (default: read from project.godot)"),
+    fileName: z.string().optional().describe("Shell file name in the project folder (default: grokade_shell.html)"),
+    config: grokadeConfigParam,
+    preview: z.boolean().optional().describe("Only return the unified diff, without writing anything")
+  },
+  async ({ projectPath, godotVersion, fileName = 'grokade_shell.html', config, preview }) => {
+    logger.info(`Exporting Godot shell ${fileName} to project: ${projectPath}`, { godotVersion, config, preview });
+
+    try {
+      try {
+        await fs.access(nodePath.join(projectPath, 'project.godot'));
+      } catch {
+        throw new Error(`No project.godot in ${projectPath}; expected a Godot project`);
+      }
+
+      const result = await new GrokadeTemplateManager(projectPath, templateSnapshots)
+        .exportGodotShell(config ?? {}, godotVersion === undefined ? undefined : godotVersion === '4' ? 4 : 3, fileName, { preview });
+
+      const summary = [
+        `${preview ? 'Godot shell preview' : 'Godot shell written'} for ${result.templatePath}${result.changed ? ':' : ' (no changes)'}`,
+        ...result.files.map(file => `- ${file.action} ${file.file}`),
+        `Set Custom HTML Shell to "res://${fileName}" in the Web export preset; Godot fills the $GODOT_* placeholders when it exports`,
+        ...(result.snapshot ? [`Snapshot ${result.snapshot.id} holds the previous files; revert-template restores them`] : []),
+        ...(result.changed ? ['', '```diff', result.diff.trimEnd(), '```'] : [])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error exporting Godot shell:', {
+        error: error instanceof Error ? error.message : String(error),
+        projectPath,
+        fileName
+      });
+
+      throw new WebGLError(`Failed to export Godot shell to project: ${projectPath}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Add template catalog tools
+server.tool(
+  "list-templates",
+  {
+    engine: z.string().optional().describe("Only list templates for this engine, e.g. \"Unity\", \"Godot\", \"Construct\" or \"Emscripten\"")
+  },
+  async ({ engine }) => {
+    logger.info('Listing templates', { engine });
+
+    try {
+      const templates = engine ? await templateModifier.getTemplatesForEngine(engine) : TEMPLATE_CATALOG;
+
+      const summary = [
+        `${templates.length} template${templates.length === 1 ? '' : 's'}${engine ? ` for ${engine}` : ''}:`,
+        ...templates.flatMap(template => [
+          `- ${template.id}: ${template.name} (${template.engine} ${template.engineVersions}). ${template.description}`,
+          `  Variables: ${template.variables.map(variable => variable.placeholder).join(', ')}`,
+          `  Options: ${Object.keys(template.options).join(', ')}`
+        ])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            // The shells themselves come from generate-template
+            text: JSON.stringify(templates.map(({ html, ...template }) => template), null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error listing templates:', {
+        error: error instanceof Error ? error.message : String(error),
+        engine
+      });
+
+      throw new WebGLError('Failed to list templates', {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+server.tool(
+  "generate-template",
+  {
+    templateId: z.string().describe("Template id from list-templates"),
+    values: z.record(z.string()).optional()
+      .describe("Variable values by name, e.g. { \"PRODUCT_NAME\": \"My Game\" }; variables left out keep their placeholder for the engine to fill"),
+    fillDefaults: z.boolean().optional().describe("Use each variable's default for values left out"),
+    options: z.object({
+      title: z.string().optional(),
+      loadingBar: z.boolean().optional(),
+      loadingText: z.boolean().optional(),
+      compression: z.boolean().optional(),
+      memoryLimit: z.number().optional().describe("Memory limit in MB"),
+      customStyles: z.string().optional().describe("CSS added in a <style> block"),
+      customScripts: z.array(z.string()).optional().describe("Script URLs added at the end of <body>")
+    }).optional().describe("Template options; list-templates shows which ones each template supports"),
+    outputPath: z.string().optional().describe("Folder to write index.html to, with a snapshot for revert-template (default: only return the page)"),
+    preview: z.boolean().optional().describe("With outputPath, only return the unified diff against the current index.html")
+  },
+  async ({ templateId, values, fillDefaults, options, outputPath, preview }) => {
+    logger.info(`Generating template ${templateId}`, { outputPath, fillDefaults, preview });
+
+    try {
+      const request = { values, fillDefaults, options };
+      const generated = outputPath
+        ? await new WebGLTemplateModifier(outputPath, templateSnapshots).generateTemplate(templateId, request, { preview })
+        : undefined;
+      const result = generated ?? templateModifier.renderTemplate(templateId, request);
+      const changeSet = generated?.changeSet;
+
+      const summary = [
+        `Template ${templateId}${changeSet ? ` ${preview ? 'previewed for' : 'written to'} ${nodePath.join(changeSet.templatePath, 'index.html')}` : ''}`,
+        `- Unresolved placeholders: ${result.unresolved.length ? result.unresolved.join(', ') : 'none'}`,
+        ...(changeSet?.snapshot ? [`- Snapshot ${changeSet.snapshot.id} holds the previous files; revert-template restores them`] : []),
+        '',
+        ...(changeSet && preview
+          ? (changeSet.changed ? ['```diff', changeSet.diff.trimEnd(), '```'] : ['No changes'])
+          : ['```html', result.html.trimEnd(), '```'])
+      ];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: summary.join('\n')
+          },
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Error generating template:', {
+        error: error instanceof Error ? error.message : String(error),
+        templateId,
+        outputPath
+      });
+
+      throw new WebGLError(`Failed to generate template ${templateId}`, {
+        cause: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+);
+
+// Engines defined in the registry directories and plugins named in webgl-mcp.config.json
+async function loadEngineRegistry() {
+  const registry = await new EngineRegistryLoader().load();
+  for (const error of registry.errors) {
+    logger.warn(`Skipped engine definition from ${error.source}: ${error.message}`);
+  }
+  registry.onError = error => logger.warn(`Engine plugin error from ${error.source}: ${error.message}`);
+  if (registry.engines.length > 0) {
+    engineDetector.registerEngines(registry.engines);
+    logger.info(`Loaded ${registry.engines.length} engine(s) from ${registry.configPath}`, { engines: registry.sources });
+  }
+}
+
+// Custom build checks named in webgl-mcp.config.json
+async function loadAnalyzerPlugins() {
+  const { plugins, errors } = await new AnalyzerPluginLoader().load();
+  for (const error of errors) {
+    logger.warn(`Skipped analyzer plugin ${error.source}: ${error.message}`);
+  }
+  if (plugins.length > 0) {
+    buildAnalyzer.registerPlugins(plugins);
+    logger.info(`Loaded ${plugins.length} analyzer plugin(s)`, { plugins: plugins.map(plugin => plugin.name) });
+  }
+}
+
 // Start receiving messages on stdin and sending messages on stdout
 async function startServer() {
   try {
+    await loadEngineRegistry();
+    await loadAnalyzerPlugins();
     const transport = new StdioServerTransport();
     await server.connect(transport);
     logger.info('MCP Server started and connected to transport');
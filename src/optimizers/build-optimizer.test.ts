@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebGLBuildOptimizer } from './build-optimizer';
+
+describe('WebGLBuildOptimizer', () => {
+  const optimizer = new WebGLBuildOptimizer();
+  let workDir: string;
+  let buildDir: string;
+  let outputDir: string;
+
+  const outputFiles = async () => (await fs.readdir(outputDir, { recursive: true }) as string[]).sort();
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'build-optimizer-'));
+    buildDir = path.join(workDir, 'Build');
+    outputDir = path.join(workDir, 'Build-optimized');
+    await fs.mkdir(buildDir);
+    await fs.writeFile(path.join(buildDir, 'game.js'), 'function update(frame) { return frame + 1; }\n'.repeat(100));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('estimates Brotli sizes and writes nothing in a dry run', async () => {
+    const result = await optimizer.optimize(buildDir, { outputPath: outputDir, dryRun: true, templateConfig: false });
+
+    expect(result.files.map(file => [file.path, file.action, file.estimated])).toEqual([
+      ['game.js', 'copy', undefined],
+      ['game.js.gz', 'create', undefined],
+      ['game.js.br', 'create', true]
+    ]);
+    await expect(fs.access(outputDir)).rejects.toThrow();
+  });
+
+  it('writes the copy with its precompressed siblings', async () => {
+    const result = await optimizer.optimize(buildDir, { outputPath: outputDir, templateConfig: false });
+
+    expect(result.files.some(file => file.estimated)).toBe(false);
+    expect(await outputFiles()).toEqual(['game.js', 'game.js.br', 'game.js.gz']);
+  });
+
+  it('refuses an output folder that is not empty unless told to overwrite it', async () => {
+    await fs.mkdir(outputDir);
+    await fs.writeFile(path.join(outputDir, 'stale.js'), 'old build');
+
+    await expect(optimizer.optimize(buildDir, { outputPath: outputDir, templateConfig: false }))
+      .rejects.toThrow(`Output path ${outputDir} is not empty`);
+    await expect(optimizer.optimize(buildDir, { outputPath: outputDir, dryRun: true, templateConfig: false }))
+      .rejects.toThrow('is not empty');
+
+    await optimizer.optimize(buildDir, { outputPath: outputDir, overwrite: true, templateConfig: false });
+    expect(await outputFiles()).toEqual(['game.js', 'game.js.br', 'game.js.gz']);
+  });
+});
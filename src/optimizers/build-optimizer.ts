@@ -0,0 +1,262 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { createTwoFilesPatch } from 'diff';
+import { GrokadeTemplateManager, GrokadeTemplateConfig } from '../template/grokade-template-manager';
+import { findIndexHtml, pathExists } from '../analyzers/build-locator';
+import { minifyGLSL } from './shader-minifier';
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+const SHADER_EXTENSIONS = ['.glsl', '.vert', '.frag'];
+const TEXT_EXTENSIONS = ['.html', '.js', '.css', '.json', '.txt', '.svg', ...SHADER_EXTENSIONS];
+// Formats that are already compressed gain nothing from gzip/Brotli siblings
+const INCOMPRESSIBLE_EXTENSIONS = [
+  '.gz', '.br', '.unityweb', '.zip',
+  '.png', '.jpg', '.jpeg', '.webp', '.gif',
+  '.mp3', '.ogg', '.mp4', '.webm', '.woff2'
+];
+const MIN_PRECOMPRESS_SIZE = 1024;
+// Quality 11 takes seconds per megabyte; a dry run only estimates the Brotli size at a faster quality
+const DRY_RUN_BROTLI_QUALITY = 5;
+
+export interface BuildOptimizationOptions {
+  outputPath: string;
+  dryRun?: boolean;
+  // Clears a non-empty outputPath first; without it such a folder is refused, so no stale files end up in the copy
+  overwrite?: boolean;
+  precompress?: boolean;
+  minifyShaders?: boolean;
+  // Set to false to leave index.html untouched
+  templateConfig?: Partial<GrokadeTemplateConfig> | false;
+}
+
+export interface PlannedFileChange {
+  path: string;
+  action: 'copy' | 'modify' | 'create';
+  transforms: string[];
+  originalSize: number;
+  newSize: number;
+  // True for Brotli sizes a dry run estimated at a faster quality than the written file would use
+  estimated?: boolean;
+  diff?: string;
+}
+
+export interface BuildOptimizationResult {
+  sourcePath: string;
+  outputPath: string;
+  dryRun: boolean;
+  files: PlannedFileChange[];
+  originalSize: number;
+  // Size of the optimized copy, excluding the .gz/.br siblings
+  optimizedSize: number;
+}
+
+interface StagedFile {
+  relativePath: string;
+  original: Buffer;
+  content: Buffer;
+  transforms: string[];
+}
+
+export class WebGLBuildOptimizer {
+  async optimize(buildPath: string, options: BuildOptimizationOptions): Promise<BuildOptimizationResult> {
+    const sourcePath = path.resolve(buildPath);
+    const outputPath = path.resolve(options.outputPath);
+    const {
+      dryRun = false,
+      overwrite = false,
+      precompress = true,
+      minifyShaders = true,
+      templateConfig = {}
+    } = options;
+
+    if (outputPath === sourcePath || this.isInside(sourcePath, outputPath)) {
+      throw new Error('Output path must not be the build folder or one of its parents; the original build is never modified');
+    }
+    if (!overwrite && await pathExists(outputPath) && (await fs.readdir(outputPath)).length > 0) {
+      throw new Error(`Output path ${outputPath} is not empty; remove it, choose another folder or pass overwrite to replace its contents`);
+    }
+
+    const staged: StagedFile[] = [];
+    for (const file of await this.getAllFiles(sourcePath, outputPath)) {
+      const content = await fs.readFile(file);
+      staged.push({
+        relativePath: path.relative(sourcePath, file),
+        original: content,
+        content,
+        transforms: []
+      });
+    }
+
+    if (minifyShaders) {
+      for (const file of staged) {
+        if (SHADER_EXTENSIONS.includes(path.extname(file.relativePath).toLowerCase())) {
+          const minified = Buffer.from(minifyGLSL(file.content.toString('utf8')), 'utf8');
+          if (minified.length < file.content.length) {
+            file.content = minified;
+            file.transforms.push('shader-minify');
+          }
+        }
+      }
+    }
+
+    if (templateConfig !== false) {
+      await this.patchTemplate(sourcePath, staged, templateConfig);
+    }
+
+    const plan: PlannedFileChange[] = staged.map(file => this.describeChange(file));
+
+    if (overwrite && !dryRun) {
+      await fs.rm(outputPath, { recursive: true, force: true });
+    }
+
+    if (precompress) {
+      plan.push(...await this.planPrecompression(staged, dryRun ? undefined : outputPath));
+    }
+
+    if (!dryRun) {
+      for (const file of staged) {
+        const target = path.join(outputPath, file.relativePath);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, file.content);
+      }
+    }
+
+    return {
+      sourcePath,
+      outputPath,
+      dryRun,
+      files: plan,
+      originalSize: staged.reduce((total, file) => total + file.original.length, 0),
+      optimizedSize: staged.reduce((total, file) => total + file.content.length, 0)
+    };
+  }
+
+  // Runs GrokadeTemplateManager against a scratch copy of index.html so the source stays untouched
+  private async patchTemplate(
+    sourcePath: string,
+    staged: StagedFile[],
+    templateConfig: Partial<GrokadeTemplateConfig>
+  ): Promise<void> {
+    const indexPath = await findIndexHtml(sourcePath);
+    if (!indexPath) return;
+
+    const relativeIndex = path.relative(sourcePath, indexPath);
+    const indexFile = staged.find(file => file.relativePath === relativeIndex);
+    if (!indexFile) return;
+
+    const scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webgl-mcp-template-'));
+    try {
+      const scratchIndex = path.join(scratchDir, 'index.html');
+      await fs.writeFile(scratchIndex, indexFile.content);
+      // The scratch copy is thrown away, so there is nothing to snapshot
+      await new GrokadeTemplateManager(scratchDir).applyTemplate(templateConfig, { snapshot: false });
+
+      const patched = await fs.readFile(scratchIndex);
+      if (!patched.equals(indexFile.content)) {
+        indexFile.content = patched;
+        indexFile.transforms.push('template-patch');
+      }
+    } finally {
+      await fs.rm(scratchDir, { recursive: true, force: true });
+    }
+  }
+
+  // Without outputPath nothing is written and Brotli sizes are estimated
+  private async planPrecompression(staged: StagedFile[], outputPath?: string): Promise<PlannedFileChange[]> {
+    const existing = new Set(staged.map(file => file.relativePath));
+    const changes: PlannedFileChange[] = [];
+
+    for (const file of staged) {
+      const extension = path.extname(file.relativePath).toLowerCase();
+      if (INCOMPRESSIBLE_EXTENSIONS.includes(extension) || file.content.length < MIN_PRECOMPRESS_SIZE) {
+        continue;
+      }
+
+      const variants: [string, string, () => Promise<Buffer>][] = [
+        ['.gz', 'precompress-gzip', () => gzip(file.content, { level: zlib.constants.Z_BEST_COMPRESSION })],
+        ['.br', 'precompress-brotli', () => brotliCompress(file.content, {
+          params: {
+            [zlib.constants.BROTLI_PARAM_QUALITY]: outputPath ? zlib.constants.BROTLI_MAX_QUALITY : DRY_RUN_BROTLI_QUALITY,
+            [zlib.constants.BROTLI_PARAM_SIZE_HINT]: file.content.length
+          }
+        })]
+      ];
+
+      for (const [suffix, transform, compress] of variants) {
+        const relativePath = file.relativePath + suffix;
+        if (existing.has(relativePath)) continue;
+
+        const compressed = await compress();
+        if (compressed.length >= file.content.length) continue;
+
+        if (outputPath) {
+          const target = path.join(outputPath, relativePath);
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.writeFile(target, compressed);
+        }
+
+        changes.push({
+          path: relativePath,
+          action: 'create',
+          transforms: [transform],
+          originalSize: 0,
+          newSize: compressed.length,
+          ...(!outputPath && suffix === '.br' ? { estimated: true } : {})
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private describeChange(file: StagedFile): PlannedFileChange {
+    const modified = file.transforms.length > 0;
+    const change: PlannedFileChange = {
+      path: file.relativePath,
+      action: modified ? 'modify' : 'copy',
+      transforms: file.transforms,
+      originalSize: file.original.length,
+      newSize: file.content.length
+    };
+
+    if (modified && TEXT_EXTENSIONS.includes(path.extname(file.relativePath).toLowerCase())) {
+      change.diff = createTwoFilesPatch(
+        `a/${file.relativePath}`,
+        `b/${file.relativePath}`,
+        file.original.toString('utf8'),
+        file.content.toString('utf8')
+      );
+    }
+
+    return change;
+  }
+
+  private async getAllFiles(dirPath: string, excludePath: string): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      // Skip the output folder when it lives inside the build
+      if (fullPath === excludePath) continue;
+
+      if (entry.isDirectory()) {
+        files.push(...await this.getAllFiles(fullPath, excludePath));
+      } else {
+        files.push(fullPath);
+      }
+    }
+
+    return files;
+  }
+
+  private isInside(childPath: string, parentPath: string): boolean {
+    const relative = path.relative(parentPath, childPath);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
@@ -0,0 +1,92 @@
+export type OptimizationGoal = 'performance' | 'memory' | 'quality' | 'mobile';
+
+export interface OptimizationRequest {
+  templateName: string;
+  targetFPS?: number;
+  memoryLimit?: number;
+  optimizationGoals?: OptimizationGoal[];
+}
+
+export class OptimizationAdvisor {
+  recommend(request: OptimizationRequest): string[] {
+    const {
+      templateName,
+      targetFPS = 60,
+      memoryLimit = 512,
+      optimizationGoals = ['performance']
+    } = request;
+    const recommendations: string[] = [];
+
+    // Template-specific recommendations
+    if (templateName !== 'Better Minimal WebGL Template') {
+      recommendations.push('Use the Better Minimal WebGL Template for optimized WebGL performance:');
+      recommendations.push('  - Provides automatic canvas scaling');
+      recommendations.push('  - Includes loading progress visualization');
+      recommendations.push('  - Optimizes for mobile devices');
+      recommendations.push('  - Supports pixel art optimization');
+    }
+
+    // Performance recommendations
+    if (optimizationGoals.includes('performance')) {
+      recommendations.push('\nPerformance Optimization Recommendations:');
+      recommendations.push('  - Enable compression for all assets (gzip/Brotli)');
+      recommendations.push('  - Use WebGL 2.0 for better rendering performance');
+      recommendations.push('  - Implement texture compression (DXT/ASTC)');
+      recommendations.push('  - Use WebAssembly for performance-critical code');
+      recommendations.push('  - Implement shader minification and optimization');
+      recommendations.push('  - Reduce draw calls through batching');
+      recommendations.push('  - Implement occlusion culling for complex scenes');
+    }
+
+    // Memory recommendations
+    if (optimizationGoals.includes('memory')) {
+      recommendations.push('\nMemory Optimization Recommendations:');
+      recommendations.push('  - Set explicit memory limit in WebGL context');
+      recommendations.push(`  - Target memory usage below ${memoryLimit}MB`);
+      recommendations.push('  - Implement asset unloading for unused resources');
+      recommendations.push('  - Use texture atlases to reduce memory fragmentation');
+      recommendations.push('  - Implement level streaming for large worlds');
+      recommendations.push('  - Use lower resolution textures with mipmaps');
+    }
+
+    // Mobile recommendations
+    if (optimizationGoals.includes('mobile')) {
+      recommendations.push('\nMobile Optimization Recommendations:');
+      recommendations.push('  - Implement responsive design with Better Minimal WebGL Template');
+      recommendations.push('  - Use appropriate touch input handling');
+      recommendations.push('  - Reduce shader complexity for mobile GPUs');
+      recommendations.push('  - Implement progressive loading for mobile networks');
+      recommendations.push('  - Add battery-saving measures (lower FPS when inactive)');
+      recommendations.push('  - Optimize for offline usage with service workers');
+    }
+
+    // Quality recommendations
+    if (optimizationGoals.includes('quality')) {
+      recommendations.push('\nQuality Optimization Recommendations:');
+      recommendations.push('  - Implement post-processing effects with WebGL 2.0');
+      recommendations.push('  - Use HDR rendering where supported');
+      recommendations.push('  - Enable anisotropic filtering for textures');
+      recommendations.push('  - Implement MSAA or FXAA for anti-aliasing');
+      recommendations.push('  - Use dynamic resolution scaling based on performance');
+    }
+
+    // Implementation guidance
+    recommendations.push('\nImplementation Notes:');
+    recommendations.push('  - For Better Minimal WebGL Template implementation:');
+    recommendations.push('    * Download from: https://seansleblanc.itch.io/better-minimal-webgl-template (external resource)');
+    recommendations.push('    * Extract WebGLTemplates folder to your Unity project\'s Assets folder');
+    recommendations.push('    * Select the template in Player Settings under WebGL > Resolution and Presentation');
+    recommendations.push('    * Configure options for scaling, pixel art optimization, and background color');
+
+    // Target FPS recommendations
+    recommendations.push(`\nTarget FPS: ${targetFPS}`);
+    if (targetFPS > 60) {
+      recommendations.push('  - For high FPS targets:');
+      recommendations.push('    * Reduce draw calls and batch similar materials');
+      recommendations.push('    * Simplify shaders and reduce instruction count');
+      recommendations.push('    * Consider implementing adaptive quality settings');
+    }
+
+    return recommendations;
+  }
+}
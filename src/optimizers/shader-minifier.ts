@@ -0,0 +1,40 @@
+// Conservative GLSL minification: strips comments and redundant whitespace but never renames identifiers
+export function minifyGLSL(source: string): string {
+  const withoutComments = source
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/\/\/[^\n]*/g, '');
+
+  const lines: string[] = [];
+  let pending = '';
+  let continuesDirective = false;
+
+  for (const rawLine of withoutComments.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // Preprocessor directives (and their backslash continuations) must stay on their own line
+    if (line.startsWith('#') || continuesDirective) {
+      continuesDirective = line.endsWith('\\');
+      if (pending) {
+        lines.push(pending);
+        pending = '';
+      }
+      lines.push(line.replace(/\s+/g, ' '));
+      continue;
+    }
+
+    pending += (pending ? ' ' : '') + line;
+  }
+  if (pending) {
+    lines.push(pending);
+  }
+
+  return lines
+    .map(line => line.startsWith('#')
+      ? line
+      : line
+        .replace(/\s+/g, ' ')
+        // '+' and '-' keep their spacing so 'a - -b' never collapses into a decrement
+        .replace(/\s*([{}()[\];,=*/<>!&|?:])\s*/g, '$1'))
+    .join('\n') + '\n';
+}
@@ -0,0 +1,67 @@
+import { BuildComparison, ComparisonChange, SizeDelta } from '../analyzers/build-comparison';
+import { formatFinding } from '../analyzers/findings';
+import { formatBytes } from './summary-reporter';
+
+// Lists longer than this are cut short in the summary; the JSON has everything
+const MAX_LISTED = 20;
+
+export function formatSignedBytes(delta: number): string {
+  if (delta === 0) return '±0 B';
+  return `${delta > 0 ? '+' : '-'}${formatBytes(Math.abs(delta))}`;
+}
+
+function formatDelta(size: SizeDelta): string {
+  const percent = size.base ? ` (${size.delta >= 0 ? '+' : ''}${((size.delta / size.base) * 100).toFixed(1)}%)` : '';
+  return `${formatBytes(size.base)} -> ${formatBytes(size.head)}, ${formatSignedBytes(size.delta)}${percent}`;
+}
+
+function formatChange(label: string, change: ComparisonChange): string {
+  return change.changed
+    ? `- ${label}: ${change.base ?? 'none'} -> ${change.head ?? 'none'}`
+    : `- ${label}: ${change.base ?? 'none'} (unchanged)`;
+}
+
+function limit<T>(items: T[], format: (item: T) => string): string[] {
+  const lines = items.slice(0, MAX_LISTED).map(format);
+  if (items.length > MAX_LISTED) lines.push(`- ... and ${items.length - MAX_LISTED} more`);
+  return lines;
+}
+
+export function formatComparisonSummary(comparison: BuildComparison): string {
+  const changedTypes = comparison.fileTypes.filter(type => type.size.delta !== 0 || type.count.delta !== 0);
+
+  const lines = [
+    `Compared ${comparison.base} (base) with ${comparison.head} (head)`,
+    '',
+    'Totals:',
+    `- Size: ${formatDelta(comparison.totalSize)}`,
+    `- Gzipped: ${formatDelta(comparison.compressedSize)}`,
+    formatChange('Engine', comparison.engine),
+    formatChange('Template', comparison.template),
+    '',
+    `File Types (${changedTypes.length} changed):`,
+    ...changedTypes.map(type =>
+      `- ${type.type}: ${formatDelta(type.size)}; gzipped ${formatSignedBytes(type.compressedSize.delta)}; ` +
+      `${type.count.head} file(s) (${type.count.delta >= 0 ? '+' : ''}${type.count.delta})`),
+    '',
+    `Files (${comparison.files.length} added, removed or changed):`,
+    ...limit(comparison.files, file =>
+      `- [${file.status}] ${file.path}: ${formatSignedBytes(file.size.delta)} (gzipped ${formatSignedBytes(file.compressedSize.delta)})`)
+  ];
+
+  if (comparison.wasmSections.length > 0) {
+    lines.push('', 'WebAssembly Sections:', ...limit(comparison.wasmSections, section =>
+      `- ${section.file} ${section.section}: ${formatDelta(section.size)}`));
+  }
+
+  lines.push(
+    '',
+    `New Findings (${comparison.newFindings.length}):`,
+    ...limit(comparison.newFindings, finding => `- ${formatFinding(finding)}`),
+    '',
+    `Resolved Findings (${comparison.resolvedFindings.length}):`,
+    ...limit(comparison.resolvedFindings, finding => `- ${formatFinding(finding)}`)
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,89 @@
+import { JSDOM } from 'jsdom';
+import { BuildFileAnalysis } from '../analyzers/build-analyzer';
+import { createFinding } from '../analyzers/findings';
+import { WebGLAnalysisReport } from '../analyzers/webgl-analysis';
+import { formatHtmlReport, squarify } from './html-reporter';
+
+describe('squarify', () => {
+  const bounds = { x: 10, y: 20, width: 600, height: 400 };
+
+  it('fills the bounds with rectangles in proportion to their values', () => {
+    const placed = squarify([
+      { value: 6, item: 'a' }, { value: 6, item: 'b' }, { value: 4, item: 'c' }, { value: 3, item: 'd' },
+      { value: 2, item: 'e' }, { value: 2, item: 'f' }, { value: 1, item: 'g' }
+    ], bounds);
+    const scale = (bounds.width * bounds.height) / 24;
+
+    expect(placed.map(entry => entry.item)).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+    for (const { rect } of placed) {
+      expect(rect.x).toBeGreaterThanOrEqual(bounds.x - 1e-9);
+      expect(rect.y).toBeGreaterThanOrEqual(bounds.y - 1e-9);
+      expect(rect.x + rect.width).toBeLessThanOrEqual(bounds.x + bounds.width + 1e-9);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(bounds.y + bounds.height + 1e-9);
+    }
+    expect(placed[0].rect.width * placed[0].rect.height).toBeCloseTo(6 * scale);
+    expect(placed.reduce((sum, { rect }) => sum + rect.width * rect.height, 0)).toBeCloseTo(bounds.width * bounds.height);
+  });
+
+  it('skips empty nodes and places nothing in empty bounds', () => {
+    expect(squarify([{ value: 0, item: 'empty' }, { value: 5, item: 'game.js' }], bounds).map(entry => entry.item)).toEqual(['game.js']);
+    expect(squarify([{ value: 5, item: 'game.js' }], { ...bounds, width: 0 })).toEqual([]);
+    expect(squarify([{ value: 0, item: 'empty' }], bounds)).toEqual([]);
+  });
+});
+
+describe('formatHtmlReport', () => {
+  const file = (filePath: string, type: string, size: number, details: Partial<BuildFileAnalysis> = {}): BuildFileAnalysis => ({
+    path: filePath,
+    size,
+    compressedSize: Math.round(size / 4),
+    brotliSize: Math.round(size / 5),
+    type,
+    suggestions: [],
+    ...details
+  });
+  const report = {
+    buildPath: '/srv/game',
+    indexPath: '/srv/game/index.html',
+    totalSize: 6000,
+    compressedSize: 1500,
+    brotliSize: 1200,
+    files: [
+      file('index.html', 'html', 1000),
+      file('Build/<script>.js', 'javascript', 5000, {
+        suggestions: [createFinding('js/unminified', 'warning', 'size', 'Build/<script>.js is not minified', { file: 'Build/<script>.js' })]
+      })
+    ],
+    codecRecommendations: [],
+    fileStats: { total: 2, js: 1, wasm: 0, textures: 0, other: 1 },
+    largeFiles: [],
+    textureMemory: { vramBytes: 0, vramBytesWithMipmaps: 0 },
+    suggestions: [],
+    template: { templateName: 'Custom', features: [], config: {}, recommendations: [] },
+    engine: null
+  } as unknown as WebGLAnalysisReport;
+  const html = formatHtmlReport(report, new Date('2026-01-02T03:04:05Z'));
+  const { document } = new JSDOM(html).window;
+
+  it('escapes file names and messages taken from the build', () => {
+    expect(html).not.toContain('<script>.js');
+    expect(document.querySelector('table.sortable tbody td')?.textContent).toBe('Build/<script>.js');
+    expect(document.querySelector('main li')?.textContent).toContain('Build/<script>.js is not minified');
+  });
+
+  it('inlines a treemap for every size metric and grouping, showing the first', () => {
+    const treemaps = [...document.querySelectorAll('svg.treemap')];
+
+    expect(treemaps.map(svg => `${svg.getAttribute('data-metric')}/${svg.getAttribute('data-grouping')}`)).toEqual([
+      'size/directory', 'size/type', 'compressedSize/directory', 'compressedSize/type', 'brotliSize/directory', 'brotliSize/type'
+    ]);
+    expect(treemaps.filter(svg => svg.classList.contains('visible'))).toEqual([treemaps[0]]);
+    expect(treemaps[0].querySelectorAll('rect.file')).toHaveLength(2);
+  });
+
+  it('shows the build folder, the generation time and the finding counts', () => {
+    expect(document.title).toBe('WebGL build report - /srv/game');
+    expect(document.querySelector('.meta')?.textContent).toContain('2026-01-02T03:04:05.000Z');
+    expect(html).toContain('<div class="card">Findings<b>0 / 1 / 0</b>');
+  });
+});
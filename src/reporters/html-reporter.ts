@@ -0,0 +1,373 @@
+import { WebGLAnalysisReport, collectFindings } from '../analyzers/webgl-analysis';
+import { BuildFileAnalysis, servedFiles } from '../analyzers/build-analyzer';
+import { Finding, FINDING_SEVERITIES } from '../analyzers/findings';
+import { formatBytes } from './summary-reporter';
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TreemapNode<T> {
+  value: number;
+  item: T;
+}
+
+type SizeMetric = 'size' | 'compressedSize' | 'brotliSize';
+type Grouping = 'directory' | 'type';
+
+const METRICS: { key: SizeMetric; label: string }[] = [
+  { key: 'size', label: 'Raw' },
+  { key: 'compressedSize', label: 'Gzip' },
+  { key: 'brotliSize', label: 'Brotli' }
+];
+const GROUPINGS: { key: Grouping; label: string }[] = [
+  { key: 'directory', label: 'Directory' },
+  { key: 'type', label: 'File type' }
+];
+
+const TREEMAP_WIDTH = 1000;
+const TREEMAP_HEIGHT = 560;
+// Room for the group name above each group's files
+const GROUP_HEADER = 16;
+const TYPE_COLORS: Record<string, string> = {
+  javascript: '#e9c46a',
+  webassembly: '#6d597a',
+  'data-package': '#2a9d8f',
+  texture: '#e76f51',
+  shader: '#8ab17d',
+  html: '#f4a261',
+  stylesheet: '#90be6d',
+  data: '#577590',
+  other: '#a8a8a8'
+};
+const EXTRA_COLORS = ['#4d908e', '#f9844a', '#43aa8b', '#b5838d', '#277da1', '#f3722c'];
+
+// Squarified treemap (Bruls, Huizing and van Wijk): rows are filled while they keep the rectangles closest to square
+export function squarify<T>(nodes: TreemapNode<T>[], bounds: TreemapRect): { item: T; rect: TreemapRect }[] {
+  const total = nodes.reduce((sum, node) => sum + Math.max(0, node.value), 0);
+  if (total <= 0 || bounds.width <= 0 || bounds.height <= 0) return [];
+
+  const scale = (bounds.width * bounds.height) / total;
+  const queue = nodes
+    .filter(node => node.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .map(node => ({ item: node.item, area: node.value * scale }));
+
+  const placed: { item: T; rect: TreemapRect }[] = [];
+  let remaining = { ...bounds };
+  let row: typeof queue = [];
+
+  while (queue.length > 0) {
+    const side = Math.min(remaining.width, remaining.height);
+    if (row.length === 0 || worstRatio([...row, queue[0]], side) <= worstRatio(row, side)) {
+      row.push(queue.shift()!);
+    } else {
+      remaining = placeRow(row, remaining, placed);
+      row = [];
+    }
+  }
+  if (row.length > 0) placeRow(row, remaining, placed);
+
+  return placed;
+}
+
+function worstRatio(row: { area: number }[], side: number): number {
+  const sum = row.reduce((total, node) => total + node.area, 0);
+  const max = Math.max(...row.map(node => node.area));
+  const min = Math.min(...row.map(node => node.area));
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+// Lay a row along the shorter side and return the space left over
+function placeRow<T>(row: { item: T; area: number }[], rect: TreemapRect, placed: { item: T; rect: TreemapRect }[]): TreemapRect {
+  const sum = row.reduce((total, node) => total + node.area, 0);
+
+  if (rect.width >= rect.height) {
+    const width = sum / rect.height;
+    let y = rect.y;
+    for (const node of row) {
+      const height = node.area / width;
+      placed.push({ item: node.item, rect: { x: rect.x, y, width, height } });
+      y += height;
+    }
+    return { x: rect.x + width, y: rect.y, width: rect.width - width, height: rect.height };
+  }
+
+  const height = sum / rect.width;
+  let x = rect.x;
+  for (const node of row) {
+    const width = node.area / height;
+    placed.push({ item: node.item, rect: { x, y: rect.y, width, height } });
+    x += width;
+  }
+  return { x: rect.x, y: rect.y + height, width: rect.width, height: rect.height - height };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function typeColor(type: string, extraTypes: string[]): string {
+  return TYPE_COLORS[type] ?? EXTRA_COLORS[Math.max(0, extraTypes.indexOf(type)) % EXTRA_COLORS.length];
+}
+
+function groupKey(file: BuildFileAnalysis, grouping: Grouping): string {
+  if (grouping === 'type') return file.type;
+  const slash = file.path.replace(/\\/g, '/').lastIndexOf('/');
+  return slash < 0 ? '(root)' : file.path.replace(/\\/g, '/').slice(0, slash);
+}
+
+// Text that fits a rectangle at roughly 7px per character, or nothing
+function fitLabel(text: string, width: number, height: number): string {
+  const chars = Math.floor((width - 6) / 7);
+  if (height < 14 || chars < 3) return '';
+  return text.length > chars ? `${text.slice(0, chars - 1)}…` : text;
+}
+
+function renderTreemap(files: BuildFileAnalysis[], metric: SizeMetric, grouping: Grouping, extraTypes: string[]): string {
+  const groups = new Map<string, BuildFileAnalysis[]>();
+  for (const file of files) {
+    const key = groupKey(file, grouping);
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+
+  const groupNodes = [...groups].map(([name, members]) => ({
+    value: members.reduce((sum, file) => sum + file[metric], 0),
+    item: { name, members }
+  }));
+
+  const shapes: string[] = [];
+  for (const { item: group, rect } of squarify(groupNodes, { x: 0, y: 0, width: TREEMAP_WIDTH, height: TREEMAP_HEIGHT })) {
+    const total = group.members.reduce((sum, file) => sum + file[metric], 0);
+    shapes.push(
+      `<g><rect class="group" x="${rect.x.toFixed(1)}" y="${rect.y.toFixed(1)}" width="${rect.width.toFixed(1)}" height="${rect.height.toFixed(1)}">` +
+      `<title>${escapeHtml(`${group.name}: ${formatBytes(total)}`)}</title></rect>` +
+      `<text class="group-label" x="${(rect.x + 4).toFixed(1)}" y="${(rect.y + 12).toFixed(1)}">${escapeHtml(fitLabel(`${group.name} ${formatBytes(total)}`, rect.width, rect.height))}</text>`
+    );
+
+    const header = rect.height > GROUP_HEADER * 2 ? GROUP_HEADER : 0;
+    const inner = { x: rect.x + 2, y: rect.y + header + 2, width: rect.width - 4, height: rect.height - header - 4 };
+    const fileNodes = group.members.map(file => ({ value: file[metric], item: file }));
+
+    for (const { item: file, rect: cell } of squarify(fileNodes, inner)) {
+      const name = file.path.replace(/\\/g, '/').split('/').pop()!;
+      shapes.push(
+        `<rect class="file" x="${cell.x.toFixed(1)}" y="${cell.y.toFixed(1)}" width="${cell.width.toFixed(1)}" height="${cell.height.toFixed(1)}" fill="${typeColor(file.type, extraTypes)}">` +
+        `<title>${escapeHtml(`${file.path} (${file.type})\nRaw ${formatBytes(file.size)}, gzip ${formatBytes(file.compressedSize)}, brotli ${formatBytes(file.brotliSize)}`)}</title></rect>` +
+        `<text class="file-label" x="${(cell.x + 3).toFixed(1)}" y="${(cell.y + 12).toFixed(1)}">${escapeHtml(fitLabel(name, cell.width, cell.height))}</text>`
+      );
+    }
+  }
+
+  return `<svg class="treemap" data-metric="${metric}" data-grouping="${grouping}" viewBox="0 0 ${TREEMAP_WIDTH} ${TREEMAP_HEIGHT}" role="img">${shapes.join('')}</svg>`;
+}
+
+function renderFindings(findings: Finding[]): string {
+  const sections = [...FINDING_SEVERITIES].reverse().map(severity => {
+    const matching = findings.filter(finding => finding.severity === severity);
+    if (matching.length === 0) return '';
+
+    const items = matching.map(finding =>
+      `<li><code>${escapeHtml(finding.ruleId)}</code> <span class="category">${finding.category}</span> ` +
+      (finding.file ? `<span class="location">${escapeHtml(`${finding.file}${finding.location ? `:${finding.location.line}` : ''}`)}</span> ` : '') +
+      `${escapeHtml(finding.message)}` +
+      (finding.fixHint ? `<div class="fix">Fix: ${escapeHtml(finding.fixHint)}</div>` : '') +
+      '</li>');
+    return `<details class="severity ${severity}" ${severity === 'info' ? '' : 'open'}><summary>${severity} (${matching.length})</summary><ul>${items.join('')}</ul></details>`;
+  });
+
+  return sections.join('') || '<p>No findings.</p>';
+}
+
+function renderFileTable(report: WebGLAnalysisReport): string {
+  const rows = [...report.files].sort((a, b) => b.size - a.size).map(file => `<tr>` +
+    `<td data-sort="${escapeHtml(file.path)}">${escapeHtml(file.path)}${file.alternateOf ? ` <span class="location">(precompressed ${escapeHtml(file.alternateOf)})</span>` : ''}</td>` +
+    `<td data-sort="${escapeHtml(file.type)}">${escapeHtml(file.type)}</td>` +
+    `<td data-sort="${file.size}" class="num">${formatBytes(file.size)}</td>` +
+    `<td data-sort="${file.compressedSize}" class="num">${formatBytes(file.compressedSize)}</td>` +
+    `<td data-sort="${file.brotliSize}" class="num">${formatBytes(file.brotliSize)}</td>` +
+    `<td data-sort="${file.encoding ?? ''}">${file.encoding ?? ''}</td>` +
+    `<td data-sort="${file.suggestions.length}" class="num">${file.suggestions.length}</td>` +
+    `</tr>`);
+
+  return `<table class="sortable"><thead><tr>` +
+    ['File', 'Type', 'Raw', 'Gzip', 'Brotli', 'Encoding', 'Findings']
+      .map((header, index) => `<th data-column="${index}" data-numeric="${[2, 3, 4, 6].includes(index)}">${header}</th>`).join('') +
+    `</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function renderKeyValues(entries: [string, string][]): string {
+  if (entries.length === 0) return '<p>None detected.</p>';
+  return `<dl>${entries.map(([key, value]) => `<dt>${escapeHtml(key)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`;
+}
+
+function renderEngine(report: WebGLAnalysisReport): string {
+  const engine = report.engine;
+  if (!engine) return '<p>No index.html to detect an engine from.</p>';
+  if (!engine.known) return '<p>Unknown or custom engine.</p>';
+
+  return renderKeyValues([
+    ['Engine', `${engine.engineName}${engine.version ? ` ${engine.version}` : ''}`],
+    ['Confidence', `${(engine.confidence * 100).toFixed(0)}%`],
+    ...(engine.versionSource ? [['Version read from', engine.versionSource] as [string, string]] : []),
+    ...(engine.features.length ? [['Features', engine.features.join(', ')] as [string, string]] : [])
+  ]);
+}
+
+function renderTemplate(report: WebGLAnalysisReport): string {
+  return renderKeyValues([
+    ['Template', report.template.templateName],
+    ...(report.template.features.length ? [['Features', report.template.features.join(', ')] as [string, string]] : []),
+    ...Object.entries(report.template.config).map(([key, value]) => [key, String(value)] as [string, string])
+  ]);
+}
+
+const STYLE = `
+body { font: 14px/1.45 -apple-system, "Segoe UI", Roboto, sans-serif; margin: 0; color: #222; background: #f6f6f4; }
+header, main { max-width: 1100px; margin: 0 auto; padding: 16px 24px; }
+header { border-bottom: 1px solid #ddd; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+h2 { font-size: 17px; margin: 28px 0 10px; }
+.meta { color: #666; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; }
+.card { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: 10px 14px; min-width: 140px; }
+.card b { display: block; font-size: 18px; }
+.columns { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; margin: 0; }
+dt { color: #666; }
+dd { margin: 0; }
+.controls { margin-bottom: 8px; }
+.controls button { border: 1px solid #bbb; background: #fff; padding: 3px 10px; border-radius: 4px; cursor: pointer; }
+.controls button.active { background: #222; color: #fff; border-color: #222; }
+.treemap { width: 100%; height: auto; background: #fff; border: 1px solid #ddd; display: none; }
+.treemap.visible { display: block; }
+.treemap .group { fill: #eceae4; stroke: #fff; stroke-width: 2; }
+.treemap .file { stroke: #fff; stroke-width: 1; }
+.treemap text { pointer-events: none; font-size: 11px; }
+.treemap .group-label { font-weight: 600; fill: #333; }
+.treemap .file-label { fill: #111; }
+.legend span { display: inline-block; margin-right: 12px; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+table { border-collapse: collapse; width: 100%; background: #fff; }
+th, td { border-bottom: 1px solid #eee; padding: 4px 8px; text-align: left; }
+th { cursor: pointer; user-select: none; background: #fafafa; }
+th.asc::after { content: " ▲"; } th.desc::after { content: " ▼"; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+details.severity { background: #fff; border: 1px solid #ddd; border-radius: 6px; margin-bottom: 8px; padding: 6px 12px; }
+details.severity summary { font-weight: 600; text-transform: capitalize; cursor: pointer; }
+details.error summary { color: #b00020; } details.warning summary { color: #a15c00; }
+details li { margin: 6px 0; }
+.category { font-size: 11px; background: #eee; border-radius: 3px; padding: 0 4px; }
+.location { color: #666; }
+.fix { color: #2a6f2a; }
+.fail { color: #b00020; font-weight: 600; }
+`;
+
+// Switches the visible treemap and sorts tables; the report still reads without it
+const SCRIPT = `
+(function () {
+  var state = { metric: 'size', grouping: 'directory' };
+  function update() {
+    document.querySelectorAll('.treemap').forEach(function (svg) {
+      svg.classList.toggle('visible', svg.dataset.metric === state.metric && svg.dataset.grouping === state.grouping);
+    });
+    document.querySelectorAll('.controls button').forEach(function (button) {
+      button.classList.toggle('active', state[button.dataset.kind] === button.dataset.value);
+    });
+  }
+  document.querySelectorAll('.controls button').forEach(function (button) {
+    button.addEventListener('click', function () { state[button.dataset.kind] = button.dataset.value; update(); });
+  });
+  document.querySelectorAll('table.sortable th').forEach(function (th) {
+    th.addEventListener('click', function () {
+      var table = th.closest('table'), body = table.tBodies[0], column = Number(th.dataset.column);
+      var numeric = th.dataset.numeric === 'true', ascending = !th.classList.contains('asc');
+      table.querySelectorAll('th').forEach(function (other) { other.classList.remove('asc', 'desc'); });
+      th.classList.add(ascending ? 'asc' : 'desc');
+      Array.from(body.rows).sort(function (a, b) {
+        var x = a.cells[column].dataset.sort, y = b.cells[column].dataset.sort;
+        var order = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+        return ascending ? order : -order;
+      }).forEach(function (row) { body.appendChild(row); });
+    });
+  });
+  update();
+})();
+`;
+
+// One offline HTML file: styles, script and the treemaps for every metric and grouping are inlined
+export function formatHtmlReport(report: WebGLAnalysisReport, generatedAt = new Date()): string {
+  const findings = collectFindings(report);
+  const types = [...new Set(report.files.map(file => file.type))].sort();
+  const extraTypes = types.filter(type => !TYPE_COLORS[type]);
+  const count = (severity: string) => findings.filter(finding => finding.severity === severity).length;
+
+  const treemaps = METRICS.flatMap(metric =>
+    GROUPINGS.map(grouping => renderTreemap(servedFiles(report), metric.key, grouping.key, extraTypes)));
+  const controls = [
+    ...METRICS.map(metric => `<button type="button" data-kind="metric" data-value="${metric.key}">${metric.label}</button>`),
+    '&nbsp;',
+    ...GROUPINGS.map(grouping => `<button type="button" data-kind="grouping" data-value="${grouping.key}">${grouping.label}</button>`)
+  ].join(' ');
+  const budget = report.budget;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`WebGL build report - ${report.buildPath}`)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>WebGL Build Report</h1>
+<div class="meta">${escapeHtml(report.buildPath)} · generated ${escapeHtml(generatedAt.toISOString())}</div>
+</header>
+<main>
+<section class="cards">
+<div class="card">Raw<b>${formatBytes(report.totalSize)}</b></div>
+<div class="card">Gzip<b>${formatBytes(report.compressedSize)}</b></div>
+<div class="card">Brotli<b>${formatBytes(report.brotliSize)}</b></div>
+${report.zstdSize !== undefined ? `<div class="card">Zstd<b>${formatBytes(report.zstdSize)}</b></div>` : ''}
+<div class="card">Files<b>${report.fileStats.total}</b></div>
+<div class="card">Texture VRAM<b>${formatBytes(report.textureMemory.vramBytesWithMipmaps)}</b></div>
+<div class="card">Findings<b>${count('error')} / ${count('warning')} / ${count('info')}</b>errors / warnings / info</div>
+${budget ? `<div class="card">Budget<b class="${budget.passed ? '' : 'fail'}">${budget.passed ? 'Passed' : `${budget.violations.length} violation(s)`}</b></div>` : ''}
+</section>
+<section class="columns">
+<div><h2>Engine</h2>${renderEngine(report)}</div>
+<div><h2>Template</h2>${renderTemplate(report)}</div>
+</section>
+<section>
+<h2>Build Composition</h2>
+<div class="controls">${controls}</div>
+${treemaps.map((svg, index) => index === 0 ? svg.replace('class="treemap"', 'class="treemap visible"') : svg).join('\n')}
+<p class="legend">${types.map(type => `<span><i style="background:${typeColor(type, extraTypes)}"></i>${escapeHtml(type)}</span>`).join('')}</p>
+</section>
+${budget ? `<section><h2>Budget</h2><table><thead><tr><th>Result</th><th>Metric</th><th>Actual</th><th>Limit</th></tr></thead><tbody>${budget.checks.map(check => {
+    const value = (amount: number) => check.unit === 'bytes' ? formatBytes(amount) : check.unit === 'ratio' ? `${(amount * 100).toFixed(1)}%` : String(amount);
+    return `<tr><td class="${check.passed ? '' : 'fail'}">${check.passed ? 'pass' : 'FAIL'}</td><td>${escapeHtml(check.file ? `${check.metric} (${check.file})` : check.metric)}</td><td class="num">${value(check.actual)}</td><td class="num">${value(check.limit)}</td></tr>`;
+  }).join('')}</tbody></table></section>` : ''}
+<section>
+<h2>Files (${report.files.length})</h2>
+${renderFileTable(report)}
+</section>
+<section>
+<h2>Findings (${findings.length})</h2>
+${renderFindings(findings)}
+</section>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
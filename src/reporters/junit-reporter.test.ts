@@ -0,0 +1,62 @@
+import { createFinding } from '../analyzers/findings';
+import { formatJUnit } from './junit-reporter';
+
+describe('formatJUnit', () => {
+  const findings = [
+    createFinding('texture/non-power-of-two', 'info', 'compat', 'Texture is 300x200', { file: 'atlas.png' }),
+    createFinding('build/large-file', 'warning', 'size', 'game.wasm is over 2 MB', { file: 'Build/game.wasm' }),
+    createFinding('glsl/loop', 'error', 'perf', 'Loop bound is "count" & not constant', { file: 'sky.frag', location: { line: 7 } })
+  ];
+
+  it('writes a suite per finding category, failing findings at or above warning', () => {
+    expect(formatJUnit(findings)).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="webgl-mcp" tests="3" failures="2">',
+      '  <testsuite name="webgl-mcp size" tests="1" failures="1" errors="0" skipped="0">',
+      '    <testcase name="build/large-file Build/game.wasm" classname="webgl-mcp.size">',
+      '      <failure type="warning" message="game.wasm is over 2 MB"/>',
+      '      <system-out>[warning] Build/game.wasm: game.wasm is over 2 MB (build/large-file)</system-out>',
+      '    </testcase>',
+      '  </testsuite>',
+      '  <testsuite name="webgl-mcp perf" tests="1" failures="1" errors="0" skipped="0">',
+      '    <testcase name="glsl/loop sky.frag:7" classname="webgl-mcp.perf">',
+      '      <failure type="error" message="Loop bound is &quot;count&quot; &amp; not constant"/>',
+      '      <system-out>[error] sky.frag:7: Loop bound is &quot;count&quot; &amp; not constant (glsl/loop)</system-out>',
+      '    </testcase>',
+      '  </testsuite>',
+      '  <testsuite name="webgl-mcp compat" tests="1" failures="0" errors="0" skipped="0">',
+      '    <testcase name="texture/non-power-of-two atlas.png" classname="webgl-mcp.compat">',
+      '      <system-out>[info] atlas.png: Texture is 300x200 (texture/non-power-of-two)</system-out>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n'));
+  });
+
+  it('only fails findings at or above failOn', () => {
+    expect(formatJUnit(findings, undefined, 'error')).toContain('<testsuites name="webgl-mcp" tests="3" failures="1">');
+  });
+
+  it('adds a budget suite with a case per check', () => {
+    const xml = formatJUnit([], {
+      passed: false,
+      checks: [
+        { metric: 'totalSize', limit: 1000, actual: 800, unit: 'bytes', passed: true },
+        { metric: 'maxFileSize', limit: 100, actual: 600, unit: 'bytes', passed: false, file: 'Build/game.wasm' }
+      ],
+      violations: []
+    });
+
+    expect(xml).toContain('<testsuites name="webgl-mcp" tests="2" failures="1">');
+    expect(xml).toContain([
+      '  <testsuite name="webgl-mcp budget" tests="2" failures="1" errors="0" skipped="0">',
+      '    <testcase name="totalSize" classname="webgl-mcp.budget">',
+      '    </testcase>',
+      '    <testcase name="maxFileSize Build/game.wasm" classname="webgl-mcp.budget">',
+      '      <failure type="budget" message="600 exceeds 100"/>',
+      '    </testcase>',
+      '  </testsuite>'
+    ].join('\n'));
+  });
+});
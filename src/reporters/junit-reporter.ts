@@ -0,0 +1,82 @@
+import { Finding, FindingSeverity, FINDING_CATEGORIES, FINDING_SEVERITIES, formatFinding } from '../analyzers/findings';
+import { BudgetEvaluation } from '../analyzers/budget';
+
+interface TestCase {
+  name: string;
+  className: string;
+  failure?: { type: string; message: string };
+  output?: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatSuite(name: string, cases: TestCase[]): string[] {
+  const failures = cases.filter(testCase => testCase.failure).length;
+  return [
+    `  <testsuite name="${escapeXml(name)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0">`,
+    ...cases.flatMap(testCase => [
+      `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.className)}">`,
+      ...(testCase.failure
+        ? [`      <failure type="${escapeXml(testCase.failure.type)}" message="${escapeXml(testCase.failure.message)}"/>`]
+        : []),
+      ...(testCase.output ? [`      <system-out>${escapeXml(testCase.output)}</system-out>`] : []),
+      '    </testcase>'
+    ]),
+    '  </testsuite>'
+  ];
+}
+
+// One suite per finding category and one for the budget; findings at or above failOn are failures
+export function formatJUnit(findings: Finding[], budget?: BudgetEvaluation, failOn: FindingSeverity = 'warning'): string {
+  const threshold = FINDING_SEVERITIES.indexOf(failOn);
+  const suites: string[] = [];
+  let tests = 0;
+  let failures = 0;
+
+  for (const category of FINDING_CATEGORIES) {
+    const cases = findings
+      .filter(finding => finding.category === category)
+      .map((finding): TestCase => {
+        const failed = FINDING_SEVERITIES.indexOf(finding.severity) >= threshold;
+        return {
+          name: finding.file ? `${finding.ruleId} ${finding.file}${finding.location ? `:${finding.location.line}` : ''}` : finding.ruleId,
+          className: `webgl-mcp.${category}`,
+          ...(failed
+            ? { failure: { type: finding.severity, message: finding.message } }
+            : {}),
+          output: formatFinding(finding)
+        };
+      });
+    if (cases.length === 0) continue;
+
+    suites.push(...formatSuite(`webgl-mcp ${category}`, cases));
+    tests += cases.length;
+    failures += cases.filter(testCase => testCase.failure).length;
+  }
+
+  if (budget) {
+    const cases = budget.checks.map((check): TestCase => ({
+      name: check.file ? `${check.metric} ${check.file}` : check.metric,
+      className: 'webgl-mcp.budget',
+      ...(check.passed ? {} : { failure: { type: 'budget', message: `${check.actual} exceeds ${check.limit}` } })
+    }));
+    suites.push(...formatSuite('webgl-mcp budget', cases));
+    tests += cases.length;
+    failures += cases.filter(testCase => testCase.failure).length;
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="webgl-mcp" tests="${tests}" failures="${failures}">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,170 @@
+import { WebGLAnalysisReport, collectFindings } from '../analyzers/webgl-analysis';
+import { Finding } from '../analyzers/findings';
+import { BudgetEvaluation } from '../analyzers/budget';
+import { BuildComparison } from '../analyzers/build-comparison';
+import { BuildOptimizationResult } from '../optimizers/build-optimizer';
+import { servedFiles } from '../analyzers/build-analyzer';
+import { formatBytes } from './summary-reporter';
+import { formatSignedBytes } from './comparison-reporter';
+
+// Pipes and line breaks would end a table cell early
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function table(headers: string[], rows: string[][]): string[] {
+  if (rows.length === 0) return ['_None_'];
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ];
+}
+
+function findingsTable(findings: Finding[]): string[] {
+  return table(['Severity', 'Rule', 'Location', 'Message', 'Fix'], findings.map(finding => [
+    finding.severity,
+    `\`${finding.ruleId}\``,
+    finding.file ? `${finding.file}${finding.location ? `:${finding.location.line}` : ''}` : '',
+    finding.message,
+    finding.fixHint ?? ''
+  ]));
+}
+
+function budgetSection(budget: BudgetEvaluation): string[] {
+  return [
+    `## Budget: ${budget.passed ? 'passed' : `failed (${budget.violations.length} violation(s))`}`,
+    '',
+    ...table(['Result', 'Metric', 'Actual', 'Limit'], budget.checks.map(check => [
+      check.passed ? 'pass' : '**FAIL**',
+      check.file ? `${check.metric} (${check.file})` : check.metric,
+      check.unit === 'bytes' ? formatBytes(check.actual) : check.unit === 'ratio' ? `${(check.actual * 100).toFixed(1)}%` : String(check.actual),
+      check.unit === 'bytes' ? formatBytes(check.limit) : check.unit === 'ratio' ? `${(check.limit * 100).toFixed(1)}%` : String(check.limit)
+    ])),
+    ''
+  ];
+}
+
+export function formatAnalysisMarkdown(report: WebGLAnalysisReport): string {
+  const findings = collectFindings(report);
+  const engine = report.engine;
+  const largestFiles = [...servedFiles(report)].sort((a, b) => b.size - a.size).slice(0, 10);
+
+  return [
+    '# WebGL Build Analysis',
+    '',
+    `Build: \`${report.buildPath}\``,
+    '',
+    '## Overview',
+    '',
+    ...table(['Metric', 'Value'], [
+      ['Engine', engine?.known ? `${engine.engineName}${engine.version ? ` ${engine.version}` : ''} (${(engine.confidence * 100).toFixed(0)}%)` : 'Unknown'],
+      ['Template', report.template.templateName],
+      ['Files', String(report.fileStats.total)],
+      ['Total size', `${formatBytes(report.totalSize)} (${formatBytes(report.compressedSize)} gzip, ${formatBytes(report.brotliSize)} brotli${report.zstdSize !== undefined ? `, ${formatBytes(report.zstdSize)} zstd` : ''})`],
+      ['Texture VRAM', `${formatBytes(report.textureMemory.vramBytesWithMipmaps)} with mipmaps`],
+      ['Findings', `${findings.filter(f => f.severity === 'error').length} error(s), ${findings.filter(f => f.severity === 'warning').length} warning(s), ${findings.filter(f => f.severity === 'info').length} info`]
+    ]),
+    '',
+    '## Largest Files',
+    '',
+    ...table(['File', 'Type', 'Size', 'Gzip', 'Brotli'], largestFiles.map(file => [
+      file.path, file.type, formatBytes(file.size), formatBytes(file.compressedSize), formatBytes(file.brotliSize)
+    ])),
+    '',
+    '## Compression',
+    '',
+    ...table(['Type', 'Uncompressed', 'Gzip', 'Brotli', 'Zstd', 'Best'], report.codecRecommendations.map(item => [
+      item.type,
+      formatBytes(item.uncompressedSize),
+      formatBytes(item.gzipSize),
+      formatBytes(item.brotliSize),
+      item.zstdSize !== undefined ? formatBytes(item.zstdSize) : 'n/a',
+      item.best === 'none' ? 'none' : item.fallback ? `${item.best} (${item.fallback} fallback)` : item.best
+    ])),
+    '',
+    ...(report.budget ? budgetSection(report.budget) : []),
+    `## Findings (${findings.length})`,
+    '',
+    ...findingsTable(findings),
+    ''
+  ].join('\n');
+}
+
+export function formatComparisonMarkdown(comparison: BuildComparison): string {
+  return [
+    '# WebGL Build Comparison',
+    '',
+    `Base: \`${comparison.base}\`  `,
+    `Head: \`${comparison.head}\``,
+    '',
+    '## Totals',
+    '',
+    ...table(['Metric', 'Base', 'Head', 'Change'], [
+      ['Size', formatBytes(comparison.totalSize.base), formatBytes(comparison.totalSize.head), formatSignedBytes(comparison.totalSize.delta)],
+      ['Gzipped', formatBytes(comparison.compressedSize.base), formatBytes(comparison.compressedSize.head), formatSignedBytes(comparison.compressedSize.delta)],
+      ['Engine', comparison.engine.base ?? 'none', comparison.engine.head ?? 'none', comparison.engine.changed ? 'changed' : ''],
+      ['Template', comparison.template.base ?? 'none', comparison.template.head ?? 'none', comparison.template.changed ? 'changed' : '']
+    ]),
+    '',
+    '## File Types',
+    '',
+    ...table(['Type', 'Base', 'Head', 'Change', 'Gzipped change', 'Files'],
+      comparison.fileTypes.filter(type => type.size.delta !== 0 || type.count.delta !== 0).map(type => [
+        type.type,
+        formatBytes(type.size.base),
+        formatBytes(type.size.head),
+        formatSignedBytes(type.size.delta),
+        formatSignedBytes(type.compressedSize.delta),
+        `${type.count.head} (${type.count.delta >= 0 ? '+' : ''}${type.count.delta})`
+      ])),
+    '',
+    '## Files',
+    '',
+    ...table(['Status', 'File', 'Change', 'Gzipped change'], comparison.files.map(file => [
+      file.status, file.path, formatSignedBytes(file.size.delta), formatSignedBytes(file.compressedSize.delta)
+    ])),
+    '',
+    ...(comparison.wasmSections.length ? [
+      '## WebAssembly Sections',
+      '',
+      ...table(['File', 'Section', 'Base', 'Head', 'Change'], comparison.wasmSections.map(section => [
+        section.file, section.section, formatBytes(section.size.base), formatBytes(section.size.head), formatSignedBytes(section.size.delta)
+      ])),
+      ''
+    ] : []),
+    `## New Findings (${comparison.newFindings.length})`,
+    '',
+    ...findingsTable(comparison.newFindings),
+    '',
+    `## Resolved Findings (${comparison.resolvedFindings.length})`,
+    '',
+    ...findingsTable(comparison.resolvedFindings),
+    ''
+  ].join('\n');
+}
+
+export function formatOptimizationMarkdown(result: BuildOptimizationResult, recommendations: string[]): string {
+  const changed = result.files.filter(file => file.action !== 'copy');
+
+  return [
+    `# WebGL Build Optimization${result.dryRun ? ' (dry run)' : ''}`,
+    '',
+    `Source: \`${result.sourcePath}\`  `,
+    `Output: \`${result.outputPath}\``,
+    '',
+    `Size: ${formatBytes(result.originalSize)} -> ${formatBytes(result.optimizedSize)} (excluding pre-compressed siblings)`,
+    '',
+    '## Changes',
+    '',
+    ...table(['Action', 'File', 'Transforms', 'Before', 'After'], changed.map(file => [
+      file.action, file.path, file.transforms.join(', '), formatBytes(file.originalSize), `${file.estimated ? '~' : ''}${formatBytes(file.newSize)}`
+    ])),
+    '',
+    ...changed.filter(file => file.diff).flatMap(file => ['```diff', file.diff!.trimEnd(), '```', '']),
+    '## Recommendations',
+    '',
+    ...recommendations.map(recommendation => `- ${recommendation}`),
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { createFinding } from '../analyzers/findings';
+import { formatSarif } from './sarif-reporter';
+
+describe('formatSarif', () => {
+  const buildPath = path.resolve('builds', 'game');
+  const findings = [
+    createFinding('glsl/removed-in-es300', 'error', 'compat', 'gl_FragColor is not available in GLSL ES 3.00', {
+      file: path.join('shaders', 'sky.frag'),
+      location: { line: 12, column: 3 },
+      fixHint: 'Declare an out vec4 and write to it.'
+    }),
+    createFinding('build/no-compression', 'warning', 'size', 'No precompressed files'),
+    createFinding('glsl/removed-in-es300', 'error', 'compat', 'texture2D is not available in GLSL ES 3.00', {
+      file: 'shaders/water.frag',
+      location: { line: 4 }
+    })
+  ];
+  const log = JSON.parse(formatSarif(findings, buildPath));
+
+  it('writes one SARIF 2.1.0 run for webgl-mcp rooted at the build folder', () => {
+    expect(log.$schema).toBe('https://json.schemastore.org/sarif-2.1.0.json');
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver).toMatchObject({ name: 'webgl-mcp', version: '1.0.0' });
+    expect(log.runs[0].originalUriBaseIds).toEqual({ BUILDROOT: { uri: `${pathToFileURL(buildPath).href}/` } });
+  });
+
+  it('lists each rule once with its default level and category', () => {
+    expect(log.runs[0].tool.driver.rules).toEqual([
+      {
+        id: 'glsl/removed-in-es300',
+        shortDescription: { text: 'glsl/removed-in-es300' },
+        help: { text: 'Declare an out vec4 and write to it.' },
+        defaultConfiguration: { level: 'error' },
+        properties: { tags: ['compat'] }
+      },
+      {
+        id: 'build/no-compression',
+        shortDescription: { text: 'build/no-compression' },
+        defaultConfiguration: { level: 'warning' },
+        properties: { tags: ['size'] }
+      }
+    ]);
+  });
+
+  it('writes a result per finding with a build-relative location', () => {
+    const [frag, build, water] = log.runs[0].results;
+
+    expect(frag).toEqual({
+      ruleId: 'glsl/removed-in-es300',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'gl_FragColor is not available in GLSL ES 3.00 Fix: Declare an out vec4 and write to it.' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'shaders/sky.frag', uriBaseId: 'BUILDROOT' },
+          region: { startLine: 12, startColumn: 3 }
+        }
+      }],
+      properties: { category: 'compat', autoFixable: false }
+    });
+    expect(build).toEqual({
+      ruleId: 'build/no-compression',
+      ruleIndex: 1,
+      level: 'warning',
+      message: { text: 'No precompressed files' },
+      properties: { category: 'size', autoFixable: false }
+    });
+    expect(water.ruleIndex).toBe(0);
+    expect(water.locations[0].physicalLocation.region).toEqual({ startLine: 4 });
+  });
+
+  it('maps info findings to notes', () => {
+    const [result] = JSON.parse(formatSarif([createFinding('wasm/name-section', 'info', 'size', 'Name section shipped')], buildPath)).runs[0].results;
+
+    expect(result.level).toBe('note');
+  });
+});
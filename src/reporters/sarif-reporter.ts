@@ -0,0 +1,74 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Finding, FindingSeverity } from '../analyzers/findings';
+
+const TOOL_NAME = 'webgl-mcp';
+const TOOL_VERSION = '1.0.0';
+const INFORMATION_URI = 'https://github.com/grokadegames/webgl-mcp';
+// Finding paths are relative to the build, which code scanning resolves through this base id
+const BUILD_ROOT = 'BUILDROOT';
+
+const SARIF_LEVELS: Record<FindingSeverity, 'note' | 'warning' | 'error'> = {
+  info: 'note',
+  warning: 'warning',
+  error: 'error'
+};
+
+// SARIF 2.1.0 log with one run; rules are listed once and referenced by index from each result
+export function formatSarif(findings: Finding[], buildPath: string): string {
+  const rules: { id: string; finding: Finding }[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  for (const finding of findings) {
+    if (!ruleIndex.has(finding.ruleId)) {
+      ruleIndex.set(finding.ruleId, rules.length);
+      rules.push({ id: finding.ruleId, finding });
+    }
+  }
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          version: TOOL_VERSION,
+          informationUri: INFORMATION_URI,
+          rules: rules.map(({ id, finding }) => ({
+            id,
+            shortDescription: { text: id },
+            ...(finding.fixHint ? { help: { text: finding.fixHint } } : {}),
+            defaultConfiguration: { level: SARIF_LEVELS[finding.severity] },
+            properties: { tags: [finding.category] }
+          }))
+        }
+      },
+      originalUriBaseIds: {
+        [BUILD_ROOT]: { uri: `${pathToFileURL(path.resolve(buildPath)).href.replace(/\/?$/, '/')}` }
+      },
+      results: findings.map(finding => ({
+        ruleId: finding.ruleId,
+        ruleIndex: ruleIndex.get(finding.ruleId),
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: finding.fixHint ? `${finding.message} Fix: ${finding.fixHint}` : finding.message },
+        ...(finding.file ? {
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: finding.file.split(path.sep).join('/'), uriBaseId: BUILD_ROOT },
+              ...(finding.location ? {
+                region: {
+                  startLine: finding.location.line,
+                  ...(finding.location.column ? { startColumn: finding.location.column } : {})
+                }
+              } : {})
+            }
+          }]
+        } : {}),
+        properties: { category: finding.category, autoFixable: finding.autoFixable }
+      }))
+    }]
+  };
+
+  return JSON.stringify(log, null, 2);
+}
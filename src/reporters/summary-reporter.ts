@@ -0,0 +1,219 @@
+import { WebGLAnalysisReport, collectFindings } from '../analyzers/webgl-analysis';
+import { formatFinding } from '../analyzers/findings';
+import { BudgetCheck, BudgetEvaluation } from '../analyzers/budget';
+import { BuildOptimizationResult } from '../optimizers/build-optimizer';
+import { CodecRecommendation, servedFiles } from '../analyzers/build-analyzer';
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  return `${bytes} B`;
+}
+
+function formatUnityBuild(report: WebGLAnalysisReport): string[] {
+  if (!report.unityBuild) return [];
+
+  const lines = [
+    '',
+    `Unity Build (${formatBytes(report.unityBuild.downloadSize)} download):`,
+    ...Object.entries(report.unityBuild.parts).map(([part, info]) =>
+      `- ${part}: ${info.path} (${formatBytes(info.size)}${part === 'symbols' ? '' : `, ${(info.share * 100).toFixed(0)}%`})`)
+  ];
+
+  for (const file of report.files) {
+    if (!file.unityData) continue;
+    lines.push(`- ${file.path} contents (${formatBytes(file.unityData.unpackedSize)} unpacked):`);
+    lines.push(...[...file.unityData.entries]
+      .sort((a, b) => b.size - a.size)
+      .map(entry => `  - ${entry.name}: ${formatBytes(entry.size)} (${(entry.share * 100).toFixed(1)}%)`));
+  }
+
+  return lines;
+}
+
+function formatCodec(recommendation: CodecRecommendation): string {
+  if (recommendation.best === 'none') return 'serve as is';
+  return recommendation.fallback ? `${recommendation.best} with ${recommendation.fallback} fallback` : recommendation.best;
+}
+
+function formatCompression(report: WebGLAnalysisReport): string[] {
+  const alternates = report.files.filter(file => file.alternateOf);
+
+  return [
+    '',
+    'Compression (per file type: uncompressed -> gzip / brotli' + (report.zstdSize !== undefined ? ' / zstd' : '') + ', best codec):',
+    ...report.codecRecommendations.map(item =>
+      `- ${item.type}: ${formatBytes(item.uncompressedSize)} -> ${formatBytes(item.gzipSize)} / ${formatBytes(item.brotliSize)}` +
+      `${item.zstdSize !== undefined ? ` / ${formatBytes(item.zstdSize)}` : ''}, ${formatCodec(item)}`),
+    ...(alternates.length ? [`- ${alternates.length} precompressed sibling(s) left out of the totals: ${alternates.map(file => file.path).join(', ')}`] : [])
+  ];
+}
+
+function formatWebAssembly(report: WebGLAnalysisReport): string[] {
+  const lines: string[] = [];
+
+  for (const file of report.files) {
+    const wasm = file.wasm;
+    if (!wasm) continue;
+
+    const features = Object.entries(wasm.features).filter(([, used]) => used).map(([feature]) => feature);
+    lines.push(
+      '',
+      `WebAssembly: ${file.path}`,
+      `- Sections: ${wasm.sections.map(section => `${section.name} ${formatBytes(section.size)}`).join(', ')}`,
+      `- Imports: ${wasm.importCount} (${wasm.importedFunctionCount} functions), exports: ${wasm.exportCount}, functions: ${wasm.functionCount}`,
+      wasm.memory
+        ? `- Memory: ${wasm.memory.initialPages} pages initial, ${wasm.memory.maximumPages ?? 'no'} maximum${wasm.memory.shared ? ', shared' : ''}${wasm.memory.imported ? ', imported' : ''}`
+        : '- Memory: none',
+      `- Features: ${features.length ? features.join(', ') : 'MVP only'}`,
+      ...wasm.largestFunctions.slice(0, 5).map(fn => `- Large function ${fn.name ?? `#${fn.index}`}: ${formatBytes(fn.size)}`)
+    );
+  }
+
+  return lines;
+}
+
+function formatShaders(report: WebGLAnalysisReport): string[] {
+  const shaders = report.files.flatMap(file => [
+    ...(file.shader ? [{ label: file.path, shader: file.shader }] : []),
+    ...(file.embeddedShaders ?? []).map(shader => ({ label: `${file.path}:${shader.line}`, shader }))
+  ]);
+  if (shaders.length === 0) return [];
+
+  return [
+    '',
+    `Shaders (${shaders.length}):`,
+    ...shaders.map(({ label, shader }) =>
+      `- ${label}: GLSL ES ${shader.version === 300 ? '3.00' : '1.00'} ${shader.stage}, ` +
+      `${shader.uniformVectors} uniform / ${shader.varyingVectors} varying / ${shader.attributeVectors} attribute vectors, ` +
+      `${shader.samplers.length} sampler(s), ${shader.textureSamples} texture sample(s)` +
+      (shader.loops.some(loop => loop.dynamic) ? ', dynamic loops' : ''))
+  ];
+}
+
+function formatPluginData(report: WebGLAnalysisReport): string[] {
+  const names = new Set([
+    ...Object.keys(report.pluginData ?? {}),
+    ...report.files.flatMap(file => Object.keys(file.pluginData ?? {}))
+  ]);
+  if (names.size === 0) return [];
+
+  const lines = ['', 'Plugin Data:'];
+  for (const name of names) {
+    const fileCount = report.files.filter(file => file.pluginData?.[name] !== undefined).length;
+    const buildData = report.pluginData?.[name];
+    const preview = buildData === undefined ? '' : `: ${JSON.stringify(buildData)}`;
+    lines.push(`- ${name}${fileCount ? ` (${fileCount} file(s))` : ''}${preview.length > 200 ? `${preview.slice(0, 197)}...` : preview}`);
+  }
+
+  return lines;
+}
+
+function formatBudgetValue(check: BudgetCheck, value: number): string {
+  if (check.unit === 'bytes') return formatBytes(value);
+  if (check.unit === 'ratio') return `${(value * 100).toFixed(1)}%`;
+  return String(value);
+}
+
+export function formatBudgetEvaluation(budget: BudgetEvaluation): string[] {
+  return [
+    `Budget: ${budget.passed ? 'PASSED' : `FAILED (${budget.violations.length} violation(s))`}${budget.budgetPath ? ` - ${budget.budgetPath}` : ''}`,
+    ...budget.checks.map(check =>
+      `- [${check.passed ? 'pass' : 'FAIL'}] ${check.metric}${check.file ? ` (${check.file})` : ''}: ` +
+      `${formatBudgetValue(check, check.actual)} of ${formatBudgetValue(check, check.limit)}`)
+  ];
+}
+
+function formatEngine(report: WebGLAnalysisReport): string[] {
+  const engine = report.engine;
+  if (!engine) return ['- No index.html to detect an engine from'];
+
+  const lines = engine.known
+    ? [
+      `- ${engine.engineName}${engine.version ? ` ${engine.version}` : ''} (confidence ${(engine.confidence * 100).toFixed(0)}%)`,
+      ...(engine.versionSource ? [`- Version read from: ${engine.versionSource}`] : []),
+      ...engine.features.map(f => `- Feature: ${f}`)
+    ]
+    : ['- Unknown or custom engine (no candidate reached the detection threshold)'];
+
+  for (const candidate of engine.candidates.slice(0, 5)) {
+    const evidence = candidate.evidence.map(item => `${item.signature} "${item.matched}" in ${item.location}`).join('; ');
+    lines.push(`- Candidate ${candidate.engineName}: ${(candidate.confidence * 100).toFixed(0)}% (${evidence})`);
+  }
+
+  return lines;
+}
+
+export function formatAnalysisSummary(report: WebGLAnalysisReport): string {
+  const typeTotals = servedFiles(report).reduce((totals, file) => {
+    const entry = totals[file.type] || { count: 0, size: 0 };
+    entry.count++;
+    entry.size += file.size;
+    totals[file.type] = entry;
+    return totals;
+  }, {} as Record<string, { count: number; size: number }>);
+
+  const largestFiles = [...servedFiles(report)].sort((a, b) => b.size - a.size).slice(0, 5);
+  const findings = collectFindings(report);
+
+  const lines = [
+    `Analyzed WebGL build at path: ${report.buildPath}`,
+    '',
+    'Template Analysis:',
+    `- Template: ${report.template.templateName}`,
+    `- Features: ${report.template.features.length ? report.template.features.join(', ') : 'None detected'}`,
+    ...Object.entries(report.template.config).map(([key, value]) => `- ${key}: ${value}`),
+    '',
+    'Build Statistics:',
+    `- Total Files: ${report.fileStats.total}`,
+    `- JavaScript Files: ${report.fileStats.js}`,
+    `- WebAssembly Files: ${report.fileStats.wasm}`,
+    `- Texture/Image Files: ${report.fileStats.textures}`,
+    `- Other Files: ${report.fileStats.other}`,
+    `- Total Size: ${formatBytes(report.totalSize)} (${formatBytes(report.compressedSize)} gzip, ${formatBytes(report.brotliSize)} brotli` +
+      `${report.zstdSize !== undefined ? `, ${formatBytes(report.zstdSize)} zstd` : ''})`,
+    ...Object.entries(typeTotals).map(([type, { count, size }]) => `- ${type}: ${count} file(s), ${formatBytes(size)}`),
+    `- Estimated Texture VRAM: ${formatBytes(report.textureMemory.vramBytes)} (${formatBytes(report.textureMemory.vramBytesWithMipmaps)} with mipmaps)`,
+    '',
+    'Largest Files:',
+    ...largestFiles.map(f => `- ${f.path} (${formatBytes(f.size)}, ${formatBytes(f.compressedSize)} gzipped)`),
+    ...(report.largeFiles.length ? [
+      '',
+      'Large Files Detected:',
+      ...report.largeFiles.map(f => `- ${f.path} (${formatBytes(f.size)})`)
+    ] : []),
+    ...formatCompression(report),
+    ...formatUnityBuild(report),
+    ...formatWebAssembly(report),
+    ...formatShaders(report),
+    ...formatPluginData(report),
+    ...(report.budget ? ['', ...formatBudgetEvaluation(report.budget)] : []),
+    '',
+    'Engine:',
+    ...formatEngine(report),
+    '',
+    `Findings (${findings.length}):`,
+    ...findings.map(finding => `- ${formatFinding(finding)}`)
+  ];
+
+  return lines.join('\n');
+}
+
+export function formatOptimizationSummary(result: BuildOptimizationResult, recommendations: string[]): string {
+  const changed = result.files.filter(f => f.action !== 'copy');
+  const summary = [
+    `${result.dryRun ? 'Optimization plan (dry run)' : 'Optimized copy written'} for WebGL at path: ${result.sourcePath}`,
+    `- Output: ${result.outputPath}`,
+    `- Files: ${result.files.length - changed.length} copied unchanged, ${changed.filter(f => f.action === 'modify').length} modified, ${changed.filter(f => f.action === 'create').length} created`,
+    `- Size: ${formatBytes(result.originalSize)} -> ${formatBytes(result.optimizedSize)} (excluding pre-compressed siblings)`,
+    '',
+    'Changes:',
+    ...changed.map(f => `- [${f.action}] ${f.path} (${f.transforms.join(', ')}): ${formatBytes(f.originalSize)} -> ${f.estimated ? '~' : ''}${formatBytes(f.newSize)}`),
+    ...changed.filter(f => f.diff).map(f => `\n${f.diff}`),
+    '',
+    'Recommendations:',
+    ...recommendations
+  ];
+
+  return summary.join('\n');
+}
@@ -0,0 +1,41 @@
+import * as path from 'path';
+
+// Content-Encoding for precompressed files; the browser decodes them when the response names the encoding
+export const CONTENT_ENCODINGS: Record<string, string> = {
+  '.br': 'br',
+  '.gz': 'gzip'
+};
+
+// Types game builds need that servers often get wrong or do not know
+export const CONTENT_TYPES: Record<string, string> = {
+  '.wasm': 'application/wasm',
+  '.js': 'application/javascript',
+  '.mjs': 'application/javascript',
+  '.json': 'application/json',
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.data': 'application/octet-stream',
+  '.pck': 'application/octet-stream',
+  '.mem': 'application/octet-stream',
+  // Unity's loader decompresses these itself, so they carry no Content-Encoding
+  '.unityweb': 'application/octet-stream'
+};
+
+// Needed for SharedArrayBuffer, and with it WebAssembly threads
+export const CROSS_ORIGIN_ISOLATION_HEADERS: Record<string, string> = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+  'Cross-Origin-Resource-Policy': 'same-origin'
+};
+
+export const SECURITY_HEADERS: Record<string, string> = {
+  'Content-Security-Policy': "default-src 'self' https: data: 'unsafe-inline' 'unsafe-eval'",
+  'X-Frame-Options': 'SAMEORIGIN',
+  'X-Content-Type-Options': 'nosniff',
+  'Referrer-Policy': 'strict-origin-when-cross-origin'
+};
+
+// Type of a file by extension, e.g. ".wasm" -> "application/wasm"; undefined for extensions not in the table
+export function contentTypeFor(fileName: string): string | undefined {
+  return CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { brotliCompressSync, gzipSync } from 'zlib';
+import { PreviewRequest, PreviewServerManager } from './preview-server';
+
+// Raw response headers; fetch would decode the body and drop Content-Encoding from view
+const get = (url: string) => new Promise<http.IncomingMessage>((resolve, reject) => {
+  http.get(url, response => {
+    response.resume();
+    response.on('end', () => resolve(response));
+  }).on('error', reject);
+});
+
+describe('PreviewServerManager', () => {
+  let buildDir: string;
+  let logged: PreviewRequest[];
+  let manager: PreviewServerManager;
+
+  beforeEach(async () => {
+    buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'preview-server-'));
+    await fs.mkdir(path.join(buildDir, 'Build'));
+    await fs.writeFile(path.join(buildDir, 'index.html'), '<!DOCTYPE html><html><body><canvas></canvas></body></html>');
+    await fs.writeFile(path.join(buildDir, 'Build', 'game.wasm.br'), brotliCompressSync(Buffer.from([0, 0x61, 0x73, 0x6d, 1, 0, 0, 0])));
+    await fs.writeFile(path.join(buildDir, 'Build', 'game.framework.js.gz'), gzipSync('var unityFramework = function () {};'));
+    logged = [];
+    manager = new PreviewServerManager((_id, request) => logged.push(request));
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('serves precompressed files with the type of the original and their Content-Encoding', async () => {
+    const info = await manager.start(buildDir);
+    const origin = `http://127.0.0.1:${info.port}`;
+
+    const wasm = await get(`${origin}/Build/game.wasm.br`);
+    expect(wasm.headers).toMatchObject({ 'content-type': 'application/wasm', 'content-encoding': 'br', vary: 'Accept-Encoding', 'cache-control': 'no-cache' });
+
+    const script = await get(`${origin}/Build/game.framework.js.gz`);
+    expect(script.headers['content-type']).toMatch(/^application\/javascript/);
+    expect(script.headers['content-encoding']).toBe('gzip');
+
+    expect(info.url).toBe(`${origin}/index.html`);
+    expect(logged.map(request => [request.path, request.status, request.contentEncoding])).toEqual([
+      ['/Build/game.wasm.br', 200, 'br'],
+      ['/Build/game.framework.js.gz', 200, 'gzip']
+    ]);
+  });
+
+  it('sends COOP/COEP and the given Cache-Control when asked to', async () => {
+    const info = await manager.start(buildDir, { crossOriginIsolation: true, cacheControl: 'public, max-age=60' });
+    const response = await get(`http://127.0.0.1:${info.port}/index.html`);
+
+    expect(response.headers).toMatchObject({
+      'cross-origin-opener-policy': 'same-origin',
+      'cross-origin-embedder-policy': 'require-corp',
+      'cache-control': 'public, max-age=60'
+    });
+    expect(response.headers['content-encoding']).toBeUndefined();
+  });
+
+  it('reports what each server served when it stops', async () => {
+    const info = await manager.start(buildDir);
+    await get(`http://127.0.0.1:${info.port}/missing.js`);
+    const [stopped] = await manager.stop(info.id);
+
+    expect(stopped.info.requestCount).toBe(1);
+    expect(stopped.requests[0]).toMatchObject({ path: '/missing.js', status: 404 });
+    expect(manager.listServers()).toEqual([]);
+    await expect(manager.stop(info.id)).rejects.toThrow(`No preview server with id ${info.id}`);
+  });
+});
@@ -0,0 +1,166 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import express from 'express';
+import { locateBuild } from '../analyzers/build-locator';
+import { stripCompressionSuffix } from '../analyzers/compression';
+import { CONTENT_ENCODINGS, CROSS_ORIGIN_ISOLATION_HEADERS, contentTypeFor } from './http-headers';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_CACHE_CONTROL = 'no-cache';
+// Recent requests kept per server for stop-server's report
+const MAX_LOGGED_REQUESTS = 500;
+
+export interface PreviewServerOptions {
+  // 0 lets the OS pick a free port
+  port?: number;
+  host?: string;
+  // Sends COOP/COEP so SharedArrayBuffer, and with it pthreads builds, work
+  crossOriginIsolation?: boolean;
+  // Cache-Control for every response, e.g. "no-cache" or "public, max-age=31536000, immutable"
+  cacheControl?: string;
+}
+
+export interface PreviewRequest {
+  method: string;
+  path: string;
+  status: number;
+  bytes: number;
+  contentType?: string;
+  contentEncoding?: string;
+  durationMs: number;
+}
+
+export interface PreviewServerInfo {
+  id: string;
+  buildPath: string;
+  url: string;
+  host: string;
+  port: number;
+  crossOriginIsolation: boolean;
+  cacheControl: string;
+  startedAt: string;
+  requestCount: number;
+  bytesSent: number;
+}
+
+interface RunningServer {
+  info: PreviewServerInfo;
+  server: http.Server;
+  requests: PreviewRequest[];
+}
+
+export class PreviewServerManager {
+  private servers: Map<string, RunningServer> = new Map();
+  private nextId = 1;
+
+  // onRequest sees every request as it completes, e.g. to write it to the server log
+  constructor(private onRequest: (serverId: string, request: PreviewRequest) => void = () => {}) {}
+
+  public async start(targetPath: string, options: PreviewServerOptions = {}): Promise<PreviewServerInfo> {
+    const location = await locateBuild(targetPath);
+    const host = options.host ?? DEFAULT_HOST;
+    const cacheControl = options.cacheControl ?? DEFAULT_CACHE_CONTROL;
+    const id = `preview-${this.nextId++}`;
+    const requests: PreviewRequest[] = [];
+
+    const info: PreviewServerInfo = {
+      id,
+      buildPath: path.resolve(location.buildPath),
+      url: '',
+      host,
+      port: 0,
+      crossOriginIsolation: options.crossOriginIsolation ?? false,
+      cacheControl,
+      startedAt: new Date().toISOString(),
+      requestCount: 0,
+      bytesSent: 0
+    };
+
+    const app = express();
+    app.disable('x-powered-by');
+    app.use((req, res, next) => {
+      const started = Date.now();
+      res.on('finish', () => {
+        const request: PreviewRequest = {
+          method: req.method,
+          path: req.originalUrl,
+          status: res.statusCode,
+          bytes: Number(res.getHeader('Content-Length') ?? 0),
+          ...(res.getHeader('Content-Type') ? { contentType: String(res.getHeader('Content-Type')) } : {}),
+          ...(res.getHeader('Content-Encoding') ? { contentEncoding: String(res.getHeader('Content-Encoding')) } : {}),
+          durationMs: Date.now() - started
+        };
+        info.requestCount++;
+        info.bytesSent += request.bytes;
+        requests.push(request);
+        if (requests.length > MAX_LOGGED_REQUESTS) requests.shift();
+        this.onRequest(id, request);
+      });
+
+      res.setHeader('Cache-Control', cacheControl);
+      if (info.crossOriginIsolation) {
+        for (const [name, value] of Object.entries(CROSS_ORIGIN_ISOLATION_HEADERS)) res.setHeader(name, value);
+      }
+      next();
+    });
+    app.use(express.static(info.buildPath, {
+      cacheControl: false,
+      setHeaders: (res, filePath) => this.setFileHeaders(res, filePath)
+    }));
+
+    const server = await new Promise<http.Server>((resolve, reject) => {
+      const listener = app.listen(options.port ?? 0, host, () => resolve(listener));
+      listener.once('error', reject);
+    });
+
+    info.port = (server.address() as AddressInfo).port;
+    const indexPath = location.indexPath ? path.relative(location.buildPath, location.indexPath).split(path.sep).join('/') : '';
+    info.url = `http://${host.includes(':') ? `[${host}]` : host}:${info.port}/${indexPath}`;
+
+    this.servers.set(id, { info, server, requests });
+    return { ...info };
+  }
+
+  // Stops one server, or every server when no id is given; returns what each served
+  public async stop(id?: string): Promise<{ info: PreviewServerInfo; requests: PreviewRequest[] }[]> {
+    const targets = id === undefined ? [...this.servers.values()] : [this.servers.get(id)];
+    if (targets.some(target => !target)) {
+      throw new Error(`No preview server with id ${id}`);
+    }
+
+    const stopped = [];
+    for (const target of targets as RunningServer[]) {
+      await new Promise<void>(resolve => {
+        target.server.close(() => resolve());
+        // Keep-alive connections from the browser would hold close() open
+        target.server.closeAllConnections();
+      });
+      this.servers.delete(target.info.id);
+      stopped.push({ info: { ...target.info }, requests: [...target.requests] });
+    }
+
+    return stopped;
+  }
+
+  public listServers(): PreviewServerInfo[] {
+    return [...this.servers.values()].map(running => ({ ...running.info }));
+  }
+
+  // "game.wasm.br" is served as application/wasm with Content-Encoding: br
+  private setFileHeaders(res: http.ServerResponse, filePath: string): void {
+    const encoding = CONTENT_ENCODINGS[path.extname(filePath).toLowerCase()];
+    const servedName = encoding ? stripCompressionSuffix(filePath) : filePath;
+    // The MIME table behind express.static gets wasm and compressed files wrong
+    const contentType = contentTypeFor(servedName)
+      ?? (encoding ? express.static.mime.lookup(servedName) : undefined);
+
+    if (encoding) {
+      res.setHeader('Content-Encoding', encoding);
+      res.setHeader('Vary', 'Accept-Encoding');
+    }
+    if (contentType) {
+      res.setHeader('Content-Type', contentType);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { BuildAnalysis, BuildFileAnalysis } from '../analyzers/build-analyzer';
+import { BuildServingProfile, HostingTarget, describeServing, generateServerConfig } from './server-config';
+
+const file = (filePath: string, type: string, details: Partial<BuildFileAnalysis> = {}): BuildFileAnalysis => ({
+  path: filePath,
+  size: 1000,
+  compressedSize: 400,
+  brotliSize: 300,
+  type,
+  suggestions: [],
+  ...details
+});
+
+const analysis = (files: BuildFileAnalysis[]): BuildAnalysis => ({
+  totalSize: 0,
+  compressedSize: 0,
+  brotliSize: 0,
+  files,
+  codecRecommendations: [],
+  fileStats: { total: files.length, js: 0, wasm: 0, textures: 0, other: 0 },
+  largeFiles: [],
+  textureMemory: { vramBytes: 0, vramBytesWithMipmaps: 0 },
+  suggestions: []
+});
+
+describe('describeServing', () => {
+  it('reads precompressed patterns, served extensions and hashed names from the analysis', () => {
+    const profile = describeServing(analysis([
+      file('index.html', 'html'),
+      file('Build/3f2a9c1b0d4e.loader.js', 'javascript'),
+      file('Build/5e6f7a8b9c0d.wasm.br', 'webassembly', { encoding: 'brotli' }),
+      file('Build/1a2b3c4d5e6f.data.gz', 'data-package', { encoding: 'gzip' })
+    ]), '/srv/game');
+
+    expect(profile).toMatchObject({
+      htmlFiles: ['index.html'],
+      extensions: ['.data', '.html', '.js', '.wasm'],
+      precompressed: [
+        { suffix: '.data.gz', encoding: 'gzip', contentType: 'application/octet-stream' },
+        { suffix: '.wasm.br', encoding: 'br', contentType: 'application/wasm' }
+      ],
+      threads: false,
+      hashedFileNames: true
+    });
+  });
+});
+
+describe('generateServerConfig', () => {
+  const profile: BuildServingProfile = {
+    buildPath: '/srv/game/Build-web',
+    files: ['index.html', 'Build/game.loader.js', 'Build/game.wasm.br'],
+    htmlFiles: ['index.html'],
+    extensions: ['.html', '.js', '.wasm'],
+    precompressed: [{ suffix: '.wasm.br', encoding: 'br', contentType: 'application/wasm' }],
+    threads: false,
+    hashedFileNames: false
+  };
+  const content = (target: HostingTarget, name: string, options = {}) =>
+    generateServerConfig(target, profile, options).files.find(entry => entry.name === name)!.content;
+
+  it.each([
+    ['nginx', ['webgl-build.conf']],
+    ['apache', ['.htaccess']],
+    ['netlify', ['netlify.toml']],
+    ['vercel', ['vercel.json']],
+    ['firebase', ['firebase.json']],
+    ['s3-cloudfront', ['deploy-s3.sh', 'cloudfront-response-headers-policy.json']],
+    ['iis', ['web.config']]
+  ] as const)('writes the %s files', (target, names) => {
+    expect(generateServerConfig(target, profile).files.map(entry => entry.name)).toEqual(names);
+  });
+
+  it('serves .wasm.br as application/wasm with Content-Encoding: br on every host', () => {
+    expect(content('nginx', 'webgl-build.conf')).toContain([
+      'location ~* \\.wasm\\.br$ {',
+      '    gzip off;',
+      '    types { } default_type "application/wasm";',
+      '    add_header Content-Encoding br always;'
+    ].join('\n'));
+    expect(content('apache', '.htaccess')).toMatch(/AddType application\/wasm \.wasm\n[\s\S]*AddEncoding br \.br/);
+    expect(content('netlify', 'netlify.toml'))
+      .toContain('for = "/Build/game.wasm.br"\n  [headers.values]\n    Content-Encoding = "br"\n    Content-Type = "application/wasm"');
+    expect(JSON.parse(content('vercel', 'vercel.json')).headers).toContainEqual({
+      source: '/(.*).wasm.br',
+      headers: [{ key: 'Content-Encoding', value: 'br' }, { key: 'Content-Type', value: 'application/wasm' }]
+    });
+    expect(JSON.parse(content('firebase', 'firebase.json')).hosting).toMatchObject({ public: 'Build-web' });
+    expect(content('s3-cloudfront', 'deploy-s3.sh'))
+      .toContain('--include "*.wasm.br" --content-encoding br --content-type "application/wasm"');
+    expect(content('iis', 'web.config')).toContain('<mimeMap fileExtension=".wasm.br" mimeType="application/wasm" />');
+  });
+
+  it('revalidates unhashed build files and caches hashed ones for a year', () => {
+    expect(generateServerConfig('nginx', profile)).toMatchObject({ assetCacheControl: 'no-cache', htmlCacheControl: 'no-cache' });
+    expect(generateServerConfig('nginx', { ...profile, hashedFileNames: true }).assetCacheControl).toBe('public, max-age=31536000, immutable');
+  });
+
+  it('turns on cross-origin isolation for threaded builds unless told not to', () => {
+    const threaded = { ...profile, threads: true };
+
+    expect(generateServerConfig('vercel', threaded).headers).toMatchObject({ 'Cross-Origin-Embedder-Policy': 'require-corp' });
+    const isolated = generateServerConfig('vercel', threaded, { crossOriginIsolation: false, securityHeaders: false });
+    expect(isolated.headers).toEqual({});
+    expect(isolated.notes).toContain('The WebAssembly module uses threads, but cross-origin isolation is off, so SharedArrayBuffer will be unavailable.');
+  });
+
+  it('maps the security headers to a CloudFront response headers policy', () => {
+    const policy = JSON.parse(content('s3-cloudfront', 'cloudfront-response-headers-policy.json', { crossOriginIsolation: true }));
+
+    expect(policy.SecurityHeadersConfig.FrameOptions).toEqual({ FrameOption: 'SAMEORIGIN', Override: true });
+    expect(policy.CustomHeadersConfig.Items.map((item: { Header: string }) => item.Header))
+      .toEqual(['Cross-Origin-Opener-Policy', 'Cross-Origin-Embedder-Policy', 'Cross-Origin-Resource-Policy']);
+  });
+});
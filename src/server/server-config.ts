@@ -0,0 +1,470 @@
+import * as path from 'path';
+import { BuildAnalysis, servedFiles } from '../analyzers/build-analyzer';
+import { stripCompressionSuffix } from '../analyzers/compression';
+import { CONTENT_ENCODINGS, CONTENT_TYPES, CROSS_ORIGIN_ISOLATION_HEADERS, SECURITY_HEADERS, contentTypeFor } from './http-headers';
+
+export type HostingTarget = 'nginx' | 'apache' | 'netlify' | 'vercel' | 'firebase' | 's3-cloudfront' | 'iis';
+
+export const HOSTING_TARGETS: HostingTarget[] = ['nginx', 'apache', 'netlify', 'vercel', 'firebase', 's3-cloudfront', 'iis'];
+
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+const REVALIDATE_CACHE_CONTROL = 'no-cache';
+// Content hashes in names such as "3f2a9c1b0d4e5f67a8b9.wasm.br" or "game-3f2a9c1b.js"
+const HASHED_NAME_PATTERN = /(^|[.\-_])[0-9a-f]{8,}([.\-_]|$)/i;
+// Files whose names decide whether the build can be cached for good
+const VERSIONED_TYPES = ['javascript', 'webassembly', 'data-package'];
+const HTML_EXTENSIONS = ['.html', '.htm'];
+const FALLBACK_CONTENT_TYPE = 'application/octet-stream';
+
+export interface ServerConfigOptions {
+  // Defaults to on when a WebAssembly module uses threads
+  crossOriginIsolation?: boolean;
+  // The headers the Grokade template documents (CSP, X-Frame-Options, ...); on by default
+  securityHeaders?: boolean;
+  // Defaults to a year, immutable, when build file names carry content hashes, otherwise revalidation
+  assetCacheControl?: string;
+  htmlCacheControl?: string;
+}
+
+// A precompressed file pattern, e.g. ".wasm.br" served as application/wasm with Content-Encoding: br
+export interface PrecompressedPattern {
+  suffix: string;
+  encoding: string;
+  contentType: string;
+}
+
+// What a build needs from its host, read from its analysis
+export interface BuildServingProfile {
+  buildPath: string;
+  // Build-relative paths with forward slashes
+  files: string[];
+  htmlFiles: string[];
+  // Extensions of the files as the browser sees them, e.g. ".wasm" for "game.wasm.br"
+  extensions: string[];
+  precompressed: PrecompressedPattern[];
+  threads: boolean;
+  hashedFileNames: boolean;
+}
+
+export interface ServerConfigFile {
+  name: string;
+  content: string;
+}
+
+export interface GeneratedServerConfig {
+  target: HostingTarget;
+  files: ServerConfigFile[];
+  // Sent with every response
+  headers: Record<string, string>;
+  assetCacheControl: string;
+  htmlCacheControl: string;
+  crossOriginIsolation: boolean;
+  notes: string[];
+}
+
+interface ConfigSettings {
+  headers: Record<string, string>;
+  assetCacheControl: string;
+  htmlCacheControl: string;
+}
+
+type ConfigGenerator = (profile: BuildServingProfile, settings: ConfigSettings, notes: string[]) => ServerConfigFile[];
+
+const HEADER_COMMENT = 'WebGL build headers generated by webgl-mcp generate-server-config';
+
+export function describeServing(analysis: BuildAnalysis, buildPath: string): BuildServingProfile {
+  const toPosix = (filePath: string) => filePath.split(path.sep).join('/');
+  const files = analysis.files.map(file => toPosix(file.path));
+  const precompressed = new Map<string, PrecompressedPattern>();
+
+  for (const file of files) {
+    const suffix = path.extname(file).toLowerCase();
+    const encoding = CONTENT_ENCODINGS[suffix];
+    if (!encoding) continue;
+
+    const original = stripCompressionSuffix(file);
+    const pattern = `${path.extname(original).toLowerCase()}${suffix}`;
+    if (!precompressed.has(pattern)) {
+      precompressed.set(pattern, { suffix: pattern, encoding, contentType: contentTypeFor(original) ?? FALLBACK_CONTENT_TYPE });
+    }
+  }
+
+  const versioned = servedFiles(analysis).filter(file => VERSIONED_TYPES.includes(file.type));
+
+  return {
+    buildPath,
+    files,
+    htmlFiles: files.filter(file => HTML_EXTENSIONS.includes(path.extname(file).toLowerCase())),
+    extensions: [...new Set(files.map(file => path.extname(stripCompressionSuffix(file)).toLowerCase()).filter(Boolean))].sort(),
+    precompressed: [...precompressed.values()].sort((a, b) => a.suffix.localeCompare(b.suffix)),
+    threads: analysis.files.some(file => file.wasm?.features.threads),
+    hashedFileNames: versioned.length > 0 && versioned.every(file => HASHED_NAME_PATTERN.test(path.basename(stripCompressionSuffix(file.path))))
+  };
+}
+
+export function generateServerConfig(
+  target: HostingTarget,
+  profile: BuildServingProfile,
+  options: ServerConfigOptions = {}
+): GeneratedServerConfig {
+  const crossOriginIsolation = options.crossOriginIsolation ?? profile.threads;
+  const settings: ConfigSettings = {
+    headers: {
+      ...(options.securityHeaders === false ? {} : SECURITY_HEADERS),
+      ...(crossOriginIsolation ? CROSS_ORIGIN_ISOLATION_HEADERS : {})
+    },
+    assetCacheControl: options.assetCacheControl ?? (profile.hashedFileNames ? IMMUTABLE_CACHE_CONTROL : REVALIDATE_CACHE_CONTROL),
+    htmlCacheControl: options.htmlCacheControl ?? REVALIDATE_CACHE_CONTROL
+  };
+
+  const notes: string[] = [];
+  if (profile.threads && !crossOriginIsolation) {
+    notes.push('The WebAssembly module uses threads, but cross-origin isolation is off, so SharedArrayBuffer will be unavailable.');
+  }
+  if (crossOriginIsolation) {
+    notes.push('Cross-origin isolation blocks cross-origin iframes, scripts and images that do not send CORP or CORS headers, such as ads, analytics and embeds.');
+  }
+  if (!profile.hashedFileNames && options.assetCacheControl === undefined) {
+    notes.push('Build file names carry no content hash, so browsers revalidate them on every load. Name files by hash (Unity: Publishing Settings > Name Files As Hashes) to cache them for a year.');
+  }
+  if (profile.precompressed.some(pattern => pattern.encoding === 'br')) {
+    notes.push('Browsers only accept Brotli responses over HTTPS or from localhost.');
+  }
+
+  return {
+    target,
+    files: GENERATORS[target](profile, settings, notes),
+    headers: settings.headers,
+    assetCacheControl: settings.assetCacheControl,
+    htmlCacheControl: settings.htmlCacheControl,
+    crossOriginIsolation,
+    notes
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Types worth declaring: those in the table that are not plain text, which every server already knows
+function declaredTypes(profile: BuildServingProfile): [string, string][] {
+  return profile.extensions
+    .map(extension => [extension, CONTENT_TYPES[extension]] as [string, string | undefined])
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && !entry[1].startsWith('text/'));
+}
+
+function nginxConfig(profile: BuildServingProfile, settings: ConfigSettings, notes: string[]): ServerConfigFile[] {
+  const headers = (cacheControl: string) => [
+    ...Object.entries(settings.headers).map(([name, value]) => `    add_header ${name} "${value}" always;`),
+    `    add_header Cache-Control "${cacheControl}" always;`
+  ];
+  const location = (pattern: string, body: string[]) => [`location ~* ${pattern} {`, ...body, '}', ''];
+
+  const lines = [
+    `# ${HEADER_COMMENT}`,
+    '# Include inside the server { } block whose root is the build folder.',
+    '# add_header is not inherited by a location that sets its own, so each location repeats the shared headers.',
+    '',
+    'location / {',
+    ...headers(settings.assetCacheControl),
+    '}',
+    '',
+    ...location('\\.html?$', headers(settings.htmlCacheControl))
+  ];
+
+  for (const [extension, contentType] of declaredTypes(profile)) {
+    lines.push(...location(`${escapeRegExp(extension)}$`, [
+      `    types { } default_type ${contentType};`,
+      ...headers(settings.assetCacheControl)
+    ]));
+  }
+
+  for (const pattern of profile.precompressed) {
+    const html = HTML_EXTENSIONS.some(extension => pattern.suffix.startsWith(extension));
+    lines.push(...location(`${escapeRegExp(pattern.suffix)}$`, [
+      '    gzip off;',
+      `    types { } default_type "${pattern.contentType}";`,
+      `    add_header Content-Encoding ${pattern.encoding} always;`,
+      '    add_header Vary Accept-Encoding always;',
+      ...headers(html ? settings.htmlCacheControl : settings.assetCacheControl)
+    ]));
+  }
+
+  notes.push('nginx: include webgl-build.conf in the server block and reload with "nginx -s reload".');
+  return [{ name: 'webgl-build.conf', content: lines.join('\n') }];
+}
+
+function apacheConfig(profile: BuildServingProfile, settings: ConfigSettings, notes: string[]): ServerConfigFile[] {
+  const encodings = [...new Set(profile.precompressed.map(pattern => pattern.suffix.slice(pattern.suffix.lastIndexOf('.'))))];
+
+  const lines = [
+    `# ${HEADER_COMMENT}`,
+    '# Place in the build folder. Needs mod_mime and mod_headers, and AllowOverride FileInfo for the folder.',
+    '',
+    '# "game.wasm.br" takes its type from .wasm and its Content-Encoding from .br',
+    '<IfModule mod_mime.c>',
+    ...declaredTypes(profile).map(([extension, contentType]) => `  AddType ${contentType} ${extension}`),
+    ...(encodings.length ? [
+      `  RemoveType ${encodings.join(' ')}`,
+      `  RemoveLanguage ${encodings.join(' ')}`,
+      ...encodings.map(suffix => `  AddEncoding ${CONTENT_ENCODINGS[suffix]} ${suffix}`)
+    ] : []),
+    '</IfModule>',
+    ''
+  ];
+
+  if (encodings.length) {
+    lines.push(
+      '# Precompressed files are sent as they are, not compressed again',
+      '<IfModule mod_setenvif.c>',
+      `  SetEnvIfNoCase Request_URI "\\.(${encodings.map(suffix => suffix.slice(1)).join('|')})$" no-gzip`,
+      '</IfModule>',
+      ''
+    );
+  }
+
+  lines.push(
+    '<IfModule mod_headers.c>',
+    ...Object.entries(settings.headers).map(([name, value]) => `  Header always set ${name} "${value}"`),
+    `  Header set Cache-Control "${settings.assetCacheControl}"`,
+    '  <FilesMatch "\\.html?$">',
+    `    Header set Cache-Control "${settings.htmlCacheControl}"`,
+    '  </FilesMatch>',
+    ...(encodings.length ? [
+      `  <FilesMatch "\\.(${encodings.map(suffix => suffix.slice(1)).join('|')})$">`,
+      '    Header append Vary Accept-Encoding',
+      '  </FilesMatch>'
+    ] : []),
+    '</IfModule>',
+    ''
+  );
+
+  notes.push('Apache: the .htaccess goes at the build root; check that mod_headers is enabled ("a2enmod headers").');
+  return [{ name: '.htaccess', content: lines.join('\n') }];
+}
+
+// Netlify matches exact paths or whole-segment splats, so precompressed files are listed one by one
+function netlifyConfig(profile: BuildServingProfile, settings: ConfigSettings, notes: string[]): ServerConfigFile[] {
+  const block = (target: string, values: Record<string, string>) => [
+    '[[headers]]',
+    `  for = ${JSON.stringify(target)}`,
+    '  [headers.values]',
+    ...Object.entries(values).map(([name, value]) => `    ${name} = ${JSON.stringify(value)}`),
+    ''
+  ];
+
+  const lines = [
+    `# ${HEADER_COMMENT}`,
+    '# Paths assume the build folder is the publish directory.',
+    '',
+    ...block('/*', { ...settings.headers, 'Cache-Control': settings.assetCacheControl })
+  ];
+
+  for (const file of profile.htmlFiles) {
+    lines.push(...block(`/${file}`, { 'Cache-Control': settings.htmlCacheControl }));
+    if (path.posix.basename(file).toLowerCase() === 'index.html') {
+      lines.push(...block(`/${path.posix.dirname(file) === '.' ? '' : `${path.posix.dirname(file)}/`}`, { 'Cache-Control': settings.htmlCacheControl }));
+    }
+  }
+
+  for (const file of profile.files) {
+    const pattern = profile.precompressed.find(candidate => file.toLowerCase().endsWith(candidate.suffix));
+    if (pattern) {
+      lines.push(...block(`/${file}`, { 'Content-Encoding': pattern.encoding, 'Content-Type': pattern.contentType }));
+    }
+  }
+
+  for (const file of profile.files.filter(file => path.extname(file).toLowerCase() === '.wasm')) {
+    lines.push(...block(`/${file}`, { 'Content-Type': 'application/wasm' }));
+  }
+
+  if (profile.precompressed.length) {
+    notes.push('Netlify: precompressed files are listed by path, so regenerate netlify.toml when their names change.');
+  }
+  return [{ name: 'netlify.toml', content: lines.join('\n') }];
+}
+
+function headerList(values: Record<string, string>): { key: string; value: string }[] {
+  return Object.entries(values).map(([key, value]) => ({ key, value }));
+}
+
+// Later rules override earlier ones for the same header, so the catch-all comes first
+function vercelConfig(profile: BuildServingProfile, settings: ConfigSettings): ServerConfigFile[] {
+  const headers = [
+    { source: '/(.*)', headers: headerList({ ...settings.headers, 'Cache-Control': settings.assetCacheControl }) },
+    { source: '/', headers: headerList({ 'Cache-Control': settings.htmlCacheControl }) },
+    { source: '/(.*).html', headers: headerList({ 'Cache-Control': settings.htmlCacheControl }) },
+    ...declaredTypes(profile).map(([extension, contentType]) => ({
+      source: `/(.*)${extension}`,
+      headers: headerList({ 'Content-Type': contentType })
+    })),
+    ...profile.precompressed.map(pattern => ({
+      source: `/(.*)${pattern.suffix}`,
+      headers: headerList({ 'Content-Encoding': pattern.encoding, 'Content-Type': pattern.contentType })
+    }))
+  ];
+
+  return [{ name: 'vercel.json', content: `${JSON.stringify({ headers }, null, 2)}\n` }];
+}
+
+function firebaseConfig(profile: BuildServingProfile, settings: ConfigSettings, notes: string[]): ServerConfigFile[] {
+  const headers = [
+    { source: '**', headers: headerList({ ...settings.headers, 'Cache-Control': settings.assetCacheControl }) },
+    { source: '/', headers: headerList({ 'Cache-Control': settings.htmlCacheControl }) },
+    { source: '**/*.html', headers: headerList({ 'Cache-Control': settings.htmlCacheControl }) },
+    ...declaredTypes(profile).map(([extension, contentType]) => ({
+      source: `**/*${extension}`,
+      headers: headerList({ 'Content-Type': contentType })
+    })),
+    ...profile.precompressed.map(pattern => ({
+      source: `**/*${pattern.suffix}`,
+      headers: headerList({ 'Content-Encoding': pattern.encoding, 'Content-Type': pattern.contentType })
+    }))
+  ];
+
+  const publicDir = path.basename(path.resolve(profile.buildPath));
+  notes.push(`Firebase: "public" is set to "${publicDir}", relative to firebase.json; adjust it if the build lives elsewhere.`);
+  return [{
+    name: 'firebase.json',
+    content: `${JSON.stringify({ hosting: { public: publicDir, ignore: ['firebase.json', '**/.*'], headers } }, null, 2)}\n`
+  }];
+}
+
+// S3 stores Content-Type, Content-Encoding and Cache-Control per object at upload; CloudFront adds the rest
+function s3CloudFrontConfig(profile: BuildServingProfile, settings: ConfigSettings, notes: string[]): ServerConfigFile[] {
+  const declared = declaredTypes(profile);
+  const copy = (include: string, args: string) =>
+    `aws s3 cp "$BUILD_DIR" "$DEST" --recursive --exclude "*" --include "${include}" ${args}`;
+
+  const script = [
+    '#!/bin/sh',
+    `# ${HEADER_COMMENT}`,
+    '# Usage: BUCKET=my-bucket [PREFIX=games/my-game/] ./deploy-s3.sh [build-dir]',
+    'set -e',
+    'BUILD_DIR="${1:-.}"',
+    'DEST="s3://${BUCKET:?Set BUCKET to the target bucket}/${PREFIX:-}"',
+    '',
+    '# Everything without special headers; the CLI guesses these types from the extension',
+    [
+      'aws s3 sync "$BUILD_DIR" "$DEST"',
+      '--exclude "*.html"',
+      ...declared.map(([extension]) => `--exclude "*${extension}"`),
+      ...[...new Set(profile.precompressed.map(pattern => pattern.suffix.slice(pattern.suffix.lastIndexOf('.'))))].map(suffix => `--exclude "*${suffix}"`),
+      '--exclude "deploy-s3.sh" --exclude "cloudfront-response-headers-policy.json"',
+      `--cache-control "${settings.assetCacheControl}"`
+    ].join(' \\\n  '),
+    '',
+    copy('*.html', `--content-type "text/html; charset=utf-8" --cache-control "${settings.htmlCacheControl}"`),
+    ...declared.map(([extension, contentType]) =>
+      copy(`*${extension}`, `--content-type "${contentType}" --cache-control "${settings.assetCacheControl}"`)),
+    ...profile.precompressed.map(pattern =>
+      copy(`*${pattern.suffix}`, `--content-encoding ${pattern.encoding} --content-type "${pattern.contentType}" --cache-control "${HTML_EXTENSIONS.some(extension => pattern.suffix.startsWith(extension)) ? settings.htmlCacheControl : settings.assetCacheControl}"`)),
+    ''
+  ].join('\n');
+
+  const securityHeaders: Record<string, unknown> = {};
+  const customHeaders: { Header: string; Value: string; Override: boolean }[] = [];
+  for (const [name, value] of Object.entries(settings.headers)) {
+    switch (name) {
+      case 'Content-Security-Policy':
+        securityHeaders.ContentSecurityPolicy = { ContentSecurityPolicy: value, Override: true };
+        break;
+      case 'X-Frame-Options':
+        securityHeaders.FrameOptions = { FrameOption: value, Override: true };
+        break;
+      case 'X-Content-Type-Options':
+        securityHeaders.ContentTypeOptions = { Override: true };
+        break;
+      case 'Referrer-Policy':
+        securityHeaders.ReferrerPolicy = { ReferrerPolicy: value, Override: true };
+        break;
+      default:
+        customHeaders.push({ Header: name, Value: value, Override: true });
+    }
+  }
+
+  const policy = {
+    Name: 'webgl-build-headers',
+    Comment: HEADER_COMMENT,
+    ...(Object.keys(securityHeaders).length ? { SecurityHeadersConfig: securityHeaders } : {}),
+    ...(customHeaders.length ? { CustomHeadersConfig: { Quantity: customHeaders.length, Items: customHeaders } } : {})
+  };
+
+  notes.push(
+    'S3/CloudFront: run deploy-s3.sh to upload with the right metadata, then create the policy with ' +
+    '"aws cloudfront create-response-headers-policy --response-headers-policy-config file://cloudfront-response-headers-policy.json" ' +
+    'and attach it to the distribution\'s cache behavior.'
+  );
+  return [
+    { name: 'deploy-s3.sh', content: script },
+    { name: 'cloudfront-response-headers-policy.json', content: `${JSON.stringify(policy, null, 2)}\n` }
+  ];
+}
+
+function iisConfig(profile: BuildServingProfile, settings: ConfigSettings, notes: string[]): ServerConfigFile[] {
+  const mimeMap = (extension: string, contentType: string) => [
+    `      <remove fileExtension="${extension}" />`,
+    `      <mimeMap fileExtension="${extension}" mimeType="${escapeXml(contentType)}" />`
+  ];
+  const outboundRule = (name: string, variable: string, value: string, pattern: string, negate = false) => [
+    `        <rule name="${name}">`,
+    `          <match serverVariable="${variable}" pattern=".*" />`,
+    '          <conditions>',
+    `            <add input="{REQUEST_FILENAME}" pattern="${pattern}"${negate ? ' negate="true"' : ''} />`,
+    '          </conditions>',
+    `          <action type="Rewrite" value="${escapeXml(value)}" />`,
+    '        </rule>'
+  ];
+  const encodings = [...new Set(profile.precompressed.map(pattern => pattern.suffix.slice(pattern.suffix.lastIndexOf('.'))))];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<!-- ${HEADER_COMMENT}. The rewrite rules need the IIS URL Rewrite module. -->`,
+    '<configuration>',
+    '  <system.webServer>',
+    '    <staticContent>',
+    ...declaredTypes(profile).flatMap(([extension, contentType]) => mimeMap(extension, contentType)),
+    ...profile.precompressed.flatMap(pattern => mimeMap(pattern.suffix, pattern.contentType)),
+    '    </staticContent>',
+    ...(encodings.length ? ['    <!-- Precompressed files are sent as they are, not compressed again -->', '    <urlCompression doStaticCompression="false" />'] : []),
+    '    <httpProtocol>',
+    '      <customHeaders>',
+    ...Object.entries(settings.headers).flatMap(([name, value]) => [
+      `        <remove name="${name}" />`,
+      `        <add name="${name}" value="${escapeXml(value)}" />`
+    ]),
+    '      </customHeaders>',
+    '    </httpProtocol>',
+    '    <rewrite>',
+    '      <outboundRules>',
+    ...encodings.flatMap(suffix => outboundRule(`Content-Encoding ${CONTENT_ENCODINGS[suffix]}`, 'RESPONSE_Content_Encoding', CONTENT_ENCODINGS[suffix], `${escapeRegExp(suffix)}$`)),
+    ...outboundRule('Cache-Control for HTML', 'RESPONSE_Cache_Control', settings.htmlCacheControl, '\\.html?$'),
+    ...outboundRule('Cache-Control for build files', 'RESPONSE_Cache_Control', settings.assetCacheControl, '\\.html?$', true),
+    '      </outboundRules>',
+    '    </rewrite>',
+    '  </system.webServer>',
+    '</configuration>',
+    ''
+  ];
+
+  notes.push('IIS: web.config goes at the build root; install the URL Rewrite module for the Content-Encoding and Cache-Control rules.');
+  return [{ name: 'web.config', content: lines.join('\n') }];
+}
+
+const GENERATORS: Record<HostingTarget, ConfigGenerator> = {
+  nginx: nginxConfig,
+  apache: apacheConfig,
+  netlify: netlifyConfig,
+  vercel: vercelConfig,
+  firebase: firebaseConfig,
+  's3-cloudfront': s3CloudFrontConfig,
+  iis: iisConfig
+};
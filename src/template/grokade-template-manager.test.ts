@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateSnapshotStore } from './template-snapshots';
+import { CSS_COLOR, GrokadeTemplateManager } from './grokade-template-manager';
+
+describe('GrokadeTemplateManager', () => {
+  let workDir: string;
+  let templatePath: string;
+  let manager: GrokadeTemplateManager;
+
+  const readTemplateFile = (file: string) => fs.readFile(path.join(templatePath, file), 'utf8');
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'grokade-template-'));
+    templatePath = path.join(workDir, 'Build');
+    await fs.mkdir(templatePath);
+    await fs.writeFile(path.join(templatePath, 'index.html'),
+      '<!DOCTYPE html>\n<html>\n<head><title>Game</title></head>\n<body><canvas id="unity-canvas"></canvas></body>\n</html>\n');
+    manager = new GrokadeTemplateManager(templatePath, new TemplateSnapshotStore(path.join(workDir, 'snapshots')));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('applyTemplate', () => {
+    const unityPage = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head><title>Game</title></head>',
+      '<body>',
+      '<canvas id="unity-canvas"></canvas>',
+      '<script>createUnityInstance(document.querySelector("#unity-canvas"), config);</script>',
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+    const blockCounts = (html: string) => [...html.matchAll(/data-webgl-mcp="([^"]+)"/g)]
+      .reduce<Record<string, number>>((counts, [, block]) => ({ ...counts, [block]: (counts[block] ?? 0) + 1 }), {});
+
+    beforeEach(async () => {
+      await fs.writeFile(path.join(templatePath, 'index.html'), unityPage);
+    });
+
+    it('changes nothing when applied again with the same config', async () => {
+      const first = await manager.applyTemplate();
+      const applied = await readTemplateFile('index.html');
+      const second = await manager.applyTemplate();
+
+      expect(first.changed).toBe(true);
+      expect(second).toMatchObject({ changed: false, files: [] });
+      expect(await readTemplateFile('index.html')).toBe(applied);
+      expect(Object.values(blockCounts(applied)).every(count => count === 1)).toBe(true);
+      expect(blockCounts(applied)).toHaveProperty('unity-hooks', 1);
+    });
+
+    it('replaces blocks in place when the config changes and removes those turned off', async () => {
+      await manager.applyTemplate({ loadingBarColor: 'white' });
+      await manager.applyTemplate({ loadingBarColor: '#ff0000' });
+      const recolored = await readTemplateFile('index.html');
+
+      expect(recolored).toContain('#ff0000');
+      expect(recolored).not.toContain('to right, white');
+      expect(blockCounts(recolored)['loading-progress']).toBe(1);
+
+      await manager.applyTemplate({ showLoadingBar: false, showLoadingText: false, mobileOptimized: false });
+      const html = await readTemplateFile('index.html');
+
+      expect(blockCounts(html)).not.toHaveProperty('loading-progress');
+      expect(blockCounts(html)).not.toHaveProperty('loading-container');
+      expect(blockCounts(html)).not.toHaveProperty('mobile');
+      // The page's own markup is left as it was
+      expect(html).toContain('<script>createUnityInstance(document.querySelector("#unity-canvas"), config);</script>');
+    });
+  });
+
+  it('removes the compression hook earlier versions added', async () => {
+    await fs.writeFile(path.join(templatePath, 'index.html'),
+      '<!DOCTYPE html>\n<html>\n<head><script data-webgl-mcp="compression">window.GrokadeCompression = {};</script></head>\n<body><canvas></canvas></body>\n</html>\n');
+    await manager.applyTemplate();
+
+    expect(await readTemplateFile('index.html')).not.toContain('GrokadeCompression');
+  });
+
+  describe('exportUnityTemplate', () => {
+    it('writes the template with its styles, a thumbnail and #if lines for the switchable blocks', async () => {
+      const exported = await manager.exportUnityTemplate({ mobileOptimized: false });
+      const html = await readTemplateFile('index.html');
+      const thumbnail = await fs.readFile(path.join(templatePath, 'thumbnail.png'));
+
+      expect(exported.files.map(file => [file.file, file.action])).toEqual([
+        ['index.html', 'modify'],
+        ['TemplateData/style.css', 'create'],
+        ['thumbnail.png', 'create']
+      ]);
+      expect(exported.variables).toEqual([
+        { variable: 'GROKADE_LOADING', description: 'Loading container and progress bar', defaultValue: 'on' },
+        { variable: 'GROKADE_MOBILE', description: 'Mobile viewport and fullscreen on first touch', defaultValue: 'off' }
+      ]);
+      expect(html).toContain('{{{ LOADER_FILENAME }}}');
+      expect(html).toContain('<link rel="stylesheet" href="TemplateData/style.css"');
+      expect(html).toMatch(/^#if GROKADE_LOADING !== "off"\n\s*<div id="loading-container"/m);
+      // Switched off in the config, but still exported so the Player settings can turn it on
+      expect(html).toMatch(/^#if GROKADE_MOBILE === "on"$/m);
+      expect(html.match(/^#if /gm)?.length).toBe(html.match(/^#endif$/gm)?.length);
+      expect(await readTemplateFile('TemplateData/style.css')).toMatch(/^html, body \{\n  background: #000000;/);
+      expect(thumbnail.subarray(1, 4).toString()).toBe('PNG');
+      expect(thumbnail.readUInt32BE(16)).toBe(128);
+    });
+
+    it('keeps a thumbnail someone replaced', async () => {
+      await fs.writeFile(path.join(templatePath, 'thumbnail.png'), 'custom');
+      await manager.exportUnityTemplate();
+
+      expect(await readTemplateFile('thumbnail.png')).toBe('custom');
+    });
+  });
+
+  describe('exportGodotShell', () => {
+    const readShell = () => readTemplateFile('grokade_shell.html');
+
+    it('reads the Godot version from project.godot and keeps the exporter placeholders', async () => {
+      await fs.writeFile(path.join(templatePath, 'project.godot'), 'config_version=5\n\n[application]\nconfig/name="Skyline"\n');
+      const exported = await manager.exportGodotShell({ loadingBarColor: '#ff8800' });
+      const html = await readShell();
+
+      expect(exported.files.map(file => [file.file, file.action])).toEqual([['grokade_shell.html', 'create']]);
+      expect(html).toContain('const GODOT_THREADS_ENABLED = $GODOT_THREADS_ENABLED;');
+      expect(html).toContain('<script src="$GODOT_URL"></script>');
+      expect(html.indexOf('$GODOT_HEAD_INCLUDE')).toBeLessThan(html.indexOf('</head>'));
+      expect(html).toContain('data-webgl-mcp="godot-hooks"');
+      expect(html).toContain('#ff8800');
+      // The shell's own loading bar gives way to the Grokade one, so there is a single #loading-text
+      expect(html).not.toContain('id="loading-bar"');
+      expect(html.match(/id="loading-text"/g)).toHaveLength(1);
+    });
+
+    it('exports the Godot 3 shell for older projects or when asked to', async () => {
+      await fs.writeFile(path.join(templatePath, 'project.godot'), 'config_version=4\n');
+      await manager.exportGodotShell();
+      expect(await readShell()).not.toContain('GODOT_THREADS_ENABLED');
+
+      await manager.exportGodotShell({}, 4, 'shell4.html');
+      expect(await readTemplateFile('shell4.html')).toContain('GODOT_THREADS_ENABLED');
+    });
+
+    it('needs project.godot to pick a version and rejects colors that are not CSS colors', async () => {
+      await expect(manager.exportGodotShell()).rejects.toThrow('Godot project must contain a project.godot file');
+      await expect(manager.exportGodotShell({ customBackground: 'url(javascript:alert(1))' }, 4))
+        .rejects.toThrow('customBackground must be a CSS color');
+    });
+  });
+
+  describe('colors', () => {
+    it('accepts hex, named, rgb() and hsl() colors', () => {
+      for (const color of ['#000', '#11223344', 'white', 'rgb(0, 128, 255)', 'rgba(0 0 0 / 50%)', 'hsl(120, 50%, 40%)']) {
+        expect(CSS_COLOR.test(color)).toBe(true);
+      }
+    });
+
+    it('writes the colors into the page', async () => {
+      await manager.applyTemplate({ customBackground: '#202020', loadingBarColor: 'rgb(255, 0, 0)' });
+      const html = await readTemplateFile('index.html');
+
+      expect(html).toContain('background: #202020;');
+      expect(html).toContain("'linear-gradient(to right, rgb(255, 0, 0), rgb(255, 0, 0) '");
+    });
+
+    it('rejects values that would break out of the CSS or the script', async () => {
+      await expect(manager.applyTemplate({ customBackground: 'red; } body { display: none' }))
+        .rejects.toThrow('customBackground must be a CSS color such as #000000, white or rgb(0, 0, 0), got "red; } body { display: none"');
+      await expect(manager.applyTemplate({ loadingBarColor: "red', alert(1), '" }))
+        .rejects.toThrow('loadingBarColor must be a CSS color');
+      await expect(manager.exportUnityTemplate({ customBackground: '</style><script>alert(1)</script>' }))
+        .rejects.toThrow('customBackground must be a CSS color');
+      expect(await readTemplateFile('index.html')).not.toContain('loading-progress');
+    });
+  });
+});
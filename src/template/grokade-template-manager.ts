@@ -2,9 +2,18 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as zlib from 'zlib';
 import { promisify } from 'util';
+import { SECURITY_HEADERS } from '../server/http-headers';
+import { HtmlDocumentEditor } from './html-document-editor';
+import { TemplateApplyOptions, TemplateChangeSet, TemplateTransaction } from './template-transaction';
+import { TemplateSnapshotStore } from './template-snapshots';
+import { MARKUP_PLACEHOLDERS, TEMPLATE_CATALOG } from './template-catalog';
+import { UNITY_TEMPLATE_SHELL, UNITY_TEMPLATE_TOGGLES, createPlaceholderThumbnail, toggleDirective } from './unity-template-export';
 
 const gzip = promisify(zlib.gzip);
 
+// Hex, named, rgb() and hsl() colors; the colors go into CSS and a script string, so nothing else is let through
+export const CSS_COLOR = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|[a-z]+|(rgb|hsl)a?\([\d\s.,%/+-]+\))$/i;
+
 export interface GrokadeTemplateConfig {
   // Display settings
   scaleToFit?: boolean;
@@ -25,7 +34,6 @@ export interface GrokadeTemplateConfig {
   forceMobileFullscreen?: boolean;
   
   // Performance settings
-  compressionEnabled?: boolean;
   maxFileSize?: number;
   maxTotalFiles?: number;
   maxFilenameLength?: number;
@@ -35,6 +43,11 @@ export interface GrokadeTemplateConfig {
   httpsRequired?: boolean;
 }
 
+export interface UnityTemplateExport extends TemplateChangeSet {
+  // Custom template variables the Player settings show; "on" or "off" overrides the exported default
+  variables: { variable: string; description: string; defaultValue: 'on' | 'off' }[];
+}
+
 export class GrokadeTemplateManager {
   private readonly templatePath: string;
   private readonly defaultConfig: GrokadeTemplateConfig = {
@@ -50,7 +63,6 @@ export class GrokadeTemplateManager {
     showScrollbars: false,
     mobileOptimized: true,
     forceMobileFullscreen: true,
-    compressionEnabled: true,
     maxFileSize: 200 * 1024 * 1024, // 200MB
     maxTotalFiles: 1000,
     maxFilenameLength: 240,
@@ -64,27 +76,162 @@ export class GrokadeTemplateManager {
     httpsRequired: true
   };
 
-  constructor(templatePath: string) {
+  constructor(templatePath: string, private readonly snapshots: TemplateSnapshotStore = new TemplateSnapshotStore()) {
     this.templatePath = templatePath;
   }
 
-  async applyTemplate(config: Partial<GrokadeTemplateConfig> = {}): Promise<void> {
+  // Nothing is written until every step succeeded; preview returns the diff instead of writing
+  async applyTemplate(
+    config: Partial<GrokadeTemplateConfig> = {},
+    options: TemplateApplyOptions = {}
+  ): Promise<TemplateChangeSet> {
     const finalConfig = { ...this.defaultConfig, ...config };
+    this.validateConfig(finalConfig);
     
     try {
       await this.validateTemplate();
-      await this.injectTemplateStyles(finalConfig);
-      await this.setupLoadingIndicators(finalConfig);
-      await this.configureCompression(finalConfig);
-      await this.setupMobileSupport(finalConfig);
-      await this.injectSecurityHeaders();
-      await this.optimizeScaling(finalConfig);
+
+      // Every step edits the same document; its blocks are replaced on the next run, so the page does not grow
+      const transaction = new TemplateTransaction(this.templatePath);
+      // Markup placeholders are kept, so the shells from the template catalog can be patched too
+      const editor = new HtmlDocumentEditor((await transaction.read('index.html'))!, { rawPlaceholders: MARKUP_PLACEHOLDERS });
+      this.injectTemplateStyles(editor, finalConfig);
+      this.setupLoadingIndicators(editor, finalConfig);
+      this.removeCompressionHook(editor);
+      this.setupMobileSupport(editor, finalConfig);
+      this.injectSecurityHeaders(editor);
+      this.optimizeScaling(editor, finalConfig);
+      transaction.write('index.html', editor.serialize());
+
+      return await transaction.commit(this.snapshots, 'grokade-template', options);
     } catch (error) {
       console.error('Error applying template:', error);
       throw error;
     }
   }
 
+  // Writes a complete Unity template into templatePath, e.g. Assets/WebGLTemplates/Grokade, so the config is baked
+  // in at the source. Options the Player settings can switch are wrapped in #if on custom template variables
+  async exportUnityTemplate(
+    config: Partial<GrokadeTemplateConfig> = {},
+    options: TemplateApplyOptions = {}
+  ): Promise<UnityTemplateExport> {
+    const finalConfig = { ...this.defaultConfig, ...config };
+    this.validateConfig(finalConfig);
+    const loading = finalConfig.showLoadingBar || finalConfig.showLoadingText;
+    // Switchable blocks are rendered even when the config turns them off, so Unity can turn them back on
+    const renderConfig: GrokadeTemplateConfig = {
+      ...finalConfig,
+      showLoadingBar: loading ? finalConfig.showLoadingBar : true,
+      showLoadingText: loading ? finalConfig.showLoadingText : true,
+      mobileOptimized: true
+    };
+
+    try {
+      // Always starts from the shell: an exported index.html holds #if lines, which are not HTML
+      const editor = new HtmlDocumentEditor(UNITY_TEMPLATE_SHELL);
+      this.injectTemplateStyles(editor, renderConfig);
+      this.setupLoadingIndicators(editor, renderConfig);
+      this.removeCompressionHook(editor);
+      this.setupMobileSupport(editor, renderConfig);
+      this.injectSecurityHeaders(editor);
+      this.optimizeScaling(editor, renderConfig);
+
+      // Unity copies TemplateData next to the build, so the page can link its stylesheet
+      const styles = editor.getBlock('styles')[0]?.textContent ?? '';
+      editor.setBlock('styles', '<link rel="stylesheet" href="TemplateData/style.css">', 'head-end');
+
+      for (const toggle of UNITY_TEMPLATE_TOGGLES) {
+        for (const element of toggle.blocks.flatMap(block => editor.getBlock(block))) {
+          element.before(editor.document.createComment(`webgl-mcp-directive:if:${toggle.variable}`));
+          element.after(editor.document.createComment('webgl-mcp-directive:endif'));
+        }
+      }
+
+      let html = editor.serialize();
+      for (const toggle of UNITY_TEMPLATE_TOGGLES) {
+        html = html.split(`<!--webgl-mcp-directive:if:${toggle.variable}-->`).join(`${toggleDirective(toggle, finalConfig)}\n`);
+      }
+      // Unity only reads directives on lines of their own
+      html = html.replace(/<!--webgl-mcp-directive:endif-->\n?/g, '\n#endif\n');
+
+      const transaction = new TemplateTransaction(this.templatePath);
+      transaction.write('index.html', html);
+      transaction.write('TemplateData/style.css', `${styles.split('\n').map(line => line.replace(/^ {8}/, '')).join('\n').trim()}\n`);
+      // A thumbnail someone replaced is kept
+      if (await transaction.read('thumbnail.png') === undefined) {
+        transaction.write('thumbnail.png', createPlaceholderThumbnail(finalConfig.customBackground));
+      }
+
+      return {
+        ...await transaction.commit(this.snapshots, 'unity-template', options),
+        variables: UNITY_TEMPLATE_TOGGLES.map(toggle => ({
+          variable: toggle.variable,
+          description: toggle.description,
+          defaultValue: toggle.enabled(finalConfig) ? 'on' : 'off'
+        }))
+      };
+    } catch (error) {
+      console.error('Error exporting Unity template:', error);
+      throw error;
+    }
+  }
+
+  // Writes a Custom HTML Shell into templatePath, the Godot project folder. The $GODOT_* placeholders are kept
+  // for the exporter to fill, and the version is read from project.godot when it is not given
+  async exportGodotShell(
+    config: Partial<GrokadeTemplateConfig> = {},
+    godotVersion?: 3 | 4,
+    fileName = 'grokade_shell.html',
+    options: TemplateApplyOptions = {}
+  ): Promise<TemplateChangeSet> {
+    const finalConfig = { ...this.defaultConfig, ...config };
+    this.validateConfig(finalConfig);
+
+    try {
+      const transaction = new TemplateTransaction(this.templatePath);
+      const version = godotVersion ?? await this.detectGodotVersion(transaction);
+      const shell = TEMPLATE_CATALOG.find(template => template.id === `godot-${version}`)!;
+
+      const editor = new HtmlDocumentEditor(shell.html, { rawPlaceholders: MARKUP_PLACEHOLDERS });
+      // The Grokade loading container has its own #loading-text, which the shell's setLoading then writes to
+      if (finalConfig.showLoadingBar || finalConfig.showLoadingText) {
+        editor.document.getElementById('loading-bar')?.remove();
+        editor.document.getElementById('loading-text')?.remove();
+      }
+      this.injectTemplateStyles(editor, finalConfig);
+      this.setupLoadingIndicators(editor, finalConfig);
+      this.removeCompressionHook(editor);
+      this.setupMobileSupport(editor, finalConfig);
+      this.injectSecurityHeaders(editor);
+      this.optimizeScaling(editor, finalConfig);
+      transaction.write(fileName, editor.serialize());
+
+      return await transaction.commit(this.snapshots, 'godot-shell', options);
+    } catch (error) {
+      console.error('Error exporting Godot shell:', error);
+      throw error;
+    }
+  }
+
+  // Godot 4 writes config_version=5 to project.godot, Godot 3 writes 4
+  private async detectGodotVersion(transaction: TemplateTransaction): Promise<3 | 4> {
+    const project = await transaction.read('project.godot');
+    if (project === undefined) {
+      throw new Error('Godot project must contain a project.godot file');
+    }
+    return /^config_version\s*=\s*5\b/m.test(project) ? 4 : 3;
+  }
+
+  private validateConfig(config: GrokadeTemplateConfig): void {
+    for (const key of ['customBackground', 'loadingBarColor'] as const) {
+      const value = config[key];
+      if (value !== undefined && !CSS_COLOR.test(value)) {
+        throw new Error(`${key} must be a CSS color such as #000000, white or rgb(0, 0, 0), got ${JSON.stringify(value)}`);
+      }
+    }
+  }
+
   private async validateTemplate(): Promise<void> {
     const indexPath = path.join(this.templatePath, 'index.html');
     if (!await this.fileExists(indexPath)) {
@@ -92,7 +239,7 @@ export class GrokadeTemplateManager {
     }
   }
 
-  private async injectTemplateStyles(config: GrokadeTemplateConfig): Promise<void> {
+  private injectTemplateStyles(editor: HtmlDocumentEditor, config: GrokadeTemplateConfig): void {
     const styles = `
       <style>
         html, body {
@@ -149,47 +296,28 @@ export class GrokadeTemplateManager {
       </style>
     `;
 
-    try {
-      const indexPath = path.join(this.templatePath, 'index.html');
-      let html = await fs.readFile(indexPath, 'utf8');
-      
-      // Replace existing styles or add new ones
-      if (html.includes('</head>')) {
-        html = html.replace('</head>', `${styles}</head>`);
-      } else {
-        html = `<html><head>${styles}</head>${html}</html>`;
-      }
-      
-      await fs.writeFile(indexPath, html);
-    } catch (error) {
-      console.error('Error injecting template styles:', error);
-      throw error;
-    }
+    editor.setBlock('styles', styles, 'head-end');
   }
 
-  private async setupLoadingIndicators(config: GrokadeTemplateConfig): Promise<void> {
+  private setupLoadingIndicators(editor: HtmlDocumentEditor, config: GrokadeTemplateConfig): void {
     if (!config.showLoadingBar && !config.showLoadingText) {
+      editor.removeBlock('loading-container');
+      editor.removeBlock('loading-progress');
       return;
     }
 
-    try {
-      const indexPath = path.join(this.templatePath, 'index.html');
-      let html = await fs.readFile(indexPath, 'utf8');
-      
-      const loadingContainer = `
-        <div id="loading-container">
-          ${config.showLoadingText ? '<div id="loading-text">Loading...</div>' : ''}
-        </div>
-      `;
-      
-      // Add loading container to the body
-      if (html.includes('<body>')) {
-        html = html.replace('<body>', `<body>${loadingContainer}`);
-      }
-      
-      // Modify the createUnityInstance function to handle loading progress
-      const progressHandlerScript = `
+    const loadingContainer = `
+      <div id="loading-container">
+        ${config.showLoadingText ? '<div id="loading-text">Loading...</div>' : ''}
+      </div>
+    `;
+    editor.setBlock('loading-container', loadingContainer, 'body-start');
+
+    // Called through the createUnityInstance or Engine.startGame hook installed by optimizeScaling
+    const progressHandlerScript = `
+      <script>
         function progressHandler(progress) {
+          var canvas = document.querySelector('#unity-canvas') || document.querySelector('canvas');
           var percent = progress * 100 + '%';
           canvas.style.background = 'linear-gradient(to right, ${config.loadingBarColor}, ${config.loadingBarColor} ' + percent + ', transparent ' + percent + ', transparent) no-repeat center';
           canvas.style.backgroundSize = '100% 1rem';
@@ -200,122 +328,217 @@ export class GrokadeTemplateManager {
             loadingText.textContent = 'Loading... ' + Math.round(progress * 100) + '%';
           }
         }
-      `;
-      
-      // Add progress handler to the existing JavaScript
-      if (html.includes('createUnityInstance')) {
-        // Add progress handler before createUnityInstance
-        html = html.replace(/createUnityInstance\(/g, 
-          `${progressHandlerScript}\n    createUnityInstance(`);
-        
-        // Add progressHandler to createUnityInstance parameters if not already there
-        if (!html.includes('progressHandler')) {
-          html = html.replace(/createUnityInstance\(([^,]+),\s*([^,)]+)/, 
-            'createUnityInstance($1, $2, progressHandler');
+
+        function hideLoadingContainer() {
+          var loadingContainer = document.getElementById('loading-container');
+          if (loadingContainer) {
+            loadingContainer.style.display = 'none';
+          }
         }
-        
-        // Hide loading container when the game is loaded
-        html = html.replace(/createUnityInstance\([^)]+\).then\(function\s*\(([^)]+)\)/g, 
-          `createUnityInstance(canvas, config, progressHandler).then(function($1) {
-            // Hide loading container
-            var loadingContainer = document.getElementById('loading-container');
-            if (loadingContainer) {
-              loadingContainer.style.display = 'none';
-            }
-          `);
-      }
-      
-      await fs.writeFile(indexPath, html);
-    } catch (error) {
-      console.error('Error setting up loading indicators:', error);
-      throw error;
+      </script>
+    `;
+    editor.setBlock('loading-progress', progressHandlerScript, 'head-end');
+  }
+
+  private optimizeScaling(editor: HtmlDocumentEditor, config: GrokadeTemplateConfig): void {
+    // Set on every run so switching optimizeForPixelArt off takes effect
+    for (const canvas of editor.queryOwn('canvas')) {
+      canvas.setAttribute('data-pixel-art', String(config.optimizeForPixelArt));
+    }
+
+    const engine = this.detectLoader(editor);
+    if (engine !== 'unity') {
+      editor.removeBlock('unity-hooks');
+      editor.removeBlock('scaling');
     }
+    if (engine !== 'godot') {
+      editor.removeBlock('godot-hooks');
+      editor.removeBlock('godot-scaling');
+    }
+
+    if (engine === 'unity') this.hookUnityLoader(editor, config);
+    if (engine === 'godot') this.hookGodotEngine(editor, config);
   }
 
-  private async optimizeScaling(config: GrokadeTemplateConfig): Promise<void> {
-    try {
-      const indexPath = path.join(this.templatePath, 'index.html');
-      let html = await fs.readFile(indexPath, 'utf8');
-      
-      // Ensure we have a canvas with data-pixel-art attribute
-      if (html.includes('<canvas') && !html.includes('data-pixel-art')) {
-        html = html.replace(/<canvas([^>]+)>/g, 
-          `<canvas$1 data-pixel-art="${config.optimizeForPixelArt}">`);
-      }
-      
-      // Add scaling functionality
-      const scalingScript = `
+  // Which engine the page's own scripts start
+  private detectLoader(editor: HtmlDocumentEditor): 'unity' | 'godot' | undefined {
+    const scripts = editor.queryOwn('script').map(script => script.textContent ?? '');
+    if (scripts.some(text => text.includes('createUnityInstance'))) return 'unity';
+    // Godot 3.3+ and 4 construct the engine from GODOT_CONFIG; earlier exports go through Engine.load
+    if (scripts.some(text => /new Engine\(|Engine\.load\(|\.startGame\(/.test(text))) return 'godot';
+    return undefined;
+  }
+
+  private hookUnityLoader(editor: HtmlDocumentEditor, config: GrokadeTemplateConfig): void {
+    // Wraps createUnityInstance instead of rewriting the page's own script. The loader's load event fires
+    // before the page calls it, whether the loader is a static tag or appended from script
+    const hookScript = `
+      <script>
+        (function () {
+          function hookUnityInstance() {
+            var create = window.createUnityInstance;
+            if (typeof create !== 'function' || create.webglMcpHooked) return;
+
+            var hooked = function (canvas, config, onProgress) {
+              return create.call(this, canvas, config, function (progress) {
+                if (onProgress) onProgress(progress);
+                if (typeof progressHandler === 'function') progressHandler(progress);
+              }).then(function (unityInstance) {
+                if (typeof hideLoadingContainer === 'function') hideLoadingContainer();
+                if (typeof startScaling === 'function') startScaling(unityInstance);
+                return unityInstance;
+              });
+            };
+            hooked.webglMcpHooked = true;
+            window.createUnityInstance = hooked;
+          }
+
+          document.addEventListener('load', hookUnityInstance, true);
+        })();
+      </script>
+    `;
+    editor.setBlock('unity-hooks', hookScript, 'head-end');
+
+    const scalingScript = `
+      <script>
+        var scaleToFit = ${config.scaleToFit};
+
+        function startScaling(unityInstance) {
+          var canvas = unityInstance.Module.canvas || document.querySelector('canvas');
+
+          function onResize() {
+            var container = canvas.parentElement;
+            var w;
+            var h;
+
+            if (scaleToFit) {
+              w = window.innerWidth;
+              h = window.innerHeight;
+
+              var r = canvas.height / canvas.width;
+
+              if (w * r > window.innerHeight) {
+                w = Math.min(w, Math.ceil(h / r));
+              }
+              h = Math.floor(w * r);
+            } else {
+              w = canvas.width;
+              h = canvas.height;
+            }
+
+            container.style.width = canvas.style.width = w + "px";
+            container.style.height = canvas.style.height = h + "px";
+            container.style.top = Math.floor((window.innerHeight - h) / 2) + "px";
+            container.style.left = Math.floor((window.innerWidth - w) / 2) + "px";
+            
+            // Ensure focus for keyboard inputs
+            window.focus();
+          }
+
+          window.addEventListener('resize', onResize);
+          onResize();
+        }
+      </script>
+    `;
+    editor.setBlock('scaling', scalingScript, 'head-end');
+  }
+
+  private hookGodotEngine(editor: HtmlDocumentEditor, config: GrokadeTemplateConfig): void {
+    // Same approach as for Unity: the engine script's load event fires before the page calls startGame
+    const hookScript = `
+      <script>
+        (function () {
+          // Godot declares Engine with const, so it is a global binding but not a property of window
+          function hookGodotEngine() {
+            if (typeof Engine === 'undefined' || !Engine.prototype || !Engine.prototype.startGame) return;
+            var startGame = Engine.prototype.startGame;
+            if (startGame.webglMcpHooked) return;
+
+            var hooked = function (override) {
+              var engine = this;
+              var args = Array.prototype.slice.call(arguments);
+              // Godot 3.3+ and 4 take an options object; earlier versions take (executable, mainPack)
+              if (override === undefined || (typeof override === 'object' && override !== null)) {
+                var options = Object.assign({}, override);
+                var onProgress = options.onProgress;
+                options.onProgress = function (current, total) {
+                  if (onProgress) onProgress(current, total);
+                  if (total > 0 && typeof progressHandler === 'function') progressHandler(current / total);
+                };
+                args = [options];
+              }
+
+              return startGame.apply(engine, args).then(function (result) {
+                if (typeof hideLoadingContainer === 'function') hideLoadingContainer();
+                if (typeof startGodotScaling === 'function') startGodotScaling(engine);
+                return result;
+              });
+            };
+            hooked.webglMcpHooked = true;
+            Engine.prototype.startGame = hooked;
+          }
+
+          document.addEventListener('load', hookGodotEngine, true);
+        })();
+      </script>
+    `;
+    editor.setBlock('godot-hooks', hookScript, 'head-end');
+
+    const scalingScript = `
+      <script>
         var scaleToFit = ${config.scaleToFit};
-        
-        function onResize() {
-          var container = canvas.parentElement;
-          var w;
-          var h;
 
-          if (scaleToFit) {
-            w = window.innerWidth;
-            h = window.innerHeight;
+        function startGodotScaling(engine) {
+          // canvasResizePolicy: 0 keeps the canvas as it is, 1 sizes it to the project window, 2 (the default)
+          // resizes it to the page, which already fills the window, so only 0 and 1 are letterboxed
+          var policy = engine.config && engine.config.canvasResizePolicy !== undefined ? engine.config.canvasResizePolicy : 2;
+          if (!scaleToFit || policy === 2) return;
 
+          var canvas = (engine.config && engine.config.canvas) || document.querySelector('canvas');
+
+          function onResize() {
             var r = canvas.height / canvas.width;
+            var w = window.innerWidth;
+            var h;
 
             if (w * r > window.innerHeight) {
-              w = Math.min(w, Math.ceil(h / r));
+              w = Math.min(w, Math.ceil(window.innerHeight / r));
             }
             h = Math.floor(w * r);
-          } else {
-            w = canvas.width;
-            h = canvas.height;
+
+            canvas.style.position = "absolute";
+            canvas.style.width = w + "px";
+            canvas.style.height = h + "px";
+            canvas.style.top = Math.floor((window.innerHeight - h) / 2) + "px";
+            canvas.style.left = Math.floor((window.innerWidth - w) / 2) + "px";
           }
 
-          container.style.width = canvas.style.width = w + "px";
-          container.style.height = canvas.style.height = h + "px";
-          container.style.top = Math.floor((window.innerHeight - h) / 2) + "px";
-          container.style.left = Math.floor((window.innerWidth - w) / 2) + "px";
-          
-          // Ensure focus for keyboard inputs
-          window.focus();
+          window.addEventListener('resize', onResize);
+          onResize();
         }
-        
-        window.addEventListener('resize', onResize);
-        onResize();
-      `;
-      
-      // Add scaling script after canvas setup
-      if (html.includes('createUnityInstance') && !html.includes('onResize')) {
-        // Add resize handler at the appropriate location
-        html = html.replace(/createUnityInstance\([^)]+\).then\(function\s*\(([^)]+)\)\s*\{/g, 
-          `createUnityInstance(canvas, config, progressHandler).then(function($1) {
-            canvas = $1.Module.canvas;
-            ${scalingScript}
-          `);
-      }
-      
-      await fs.writeFile(indexPath, html);
-    } catch (error) {
-      console.error('Error optimizing scaling:', error);
-      throw error;
-    }
+      </script>
+    `;
+    editor.setBlock('godot-scaling', scalingScript, 'head-end');
   }
 
-  private async setupMobileSupport(config: GrokadeTemplateConfig): Promise<void> {
+  private setupMobileSupport(editor: HtmlDocumentEditor, config: GrokadeTemplateConfig): void {
     if (!config.mobileOptimized) {
+      editor.removeBlock('viewport');
+      editor.removeBlock('mobile');
       return;
     }
-    
-    try {
-      const indexPath = path.join(this.templatePath, 'index.html');
-      let html = await fs.readFile(indexPath, 'utf8');
-      
-      // Add mobile viewport meta tag
-      if (html.includes('<head>') && !html.includes('viewport')) {
-        const viewportMeta = `
-          <meta name="viewport" content="width=device-width, height=device-height, initial-scale=1.0, user-scalable=no, shrink-to-fit=yes">
-        `;
-        html = html.replace('<head>', `<head>${viewportMeta}`);
-      }
-      
-      // Add mobile detection code
-      const mobileScript = `
+
+    // Keep a viewport the page already declares
+    if (editor.queryOwn('meta[name="viewport"]').length === 0) {
+      editor.setBlock(
+        'viewport',
+        '<meta name="viewport" content="width=device-width, height=device-height, initial-scale=1.0, user-scalable=no, shrink-to-fit=yes">',
+        'head-start'
+      );
+    }
+
+    const mobileScript = `
+      <script>
         if (/iPhone|iPad|iPod|Android/i.test(navigator.userAgent)) {
           // Mobile device detected
           ${config.forceMobileFullscreen ? `
@@ -329,65 +552,25 @@ export class GrokadeTemplateManager {
           }, { once: true });
           ` : ''}
         }
-      `;
-      
-      // Add mobile detection script
-      if (html.includes('<script>') && !html.includes('iPhone|iPad|iPod|Android')) {
-        html = html.replace('</script>', `${mobileScript}</script>`);
-      } else {
-        html = html.replace('</body>', `<script>${mobileScript}</script></body>`);
-      }
-      
-      await fs.writeFile(indexPath, html);
-    } catch (error) {
-      console.error('Error setting up mobile support:', error);
-      throw error;
-    }
-  }
-
-  private async injectSecurityHeaders(): Promise<void> {
-    // These headers would typically be set by the server, but we'll document them here
-    const headers = {
-      'Content-Security-Policy': "default-src 'self' https: data: 'unsafe-inline' 'unsafe-eval'",
-      'X-Frame-Options': 'SAMEORIGIN',
-      'X-Content-Type-Options': 'nosniff',
-      'Referrer-Policy': 'strict-origin-when-cross-origin'
-    };
-
-    // Add a comment in the HTML documenting required headers
-    const headerComment = `
-      <!-- 
-      Required Security Headers:
-      ${Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\n')}
-      -->
+      </script>
     `;
-
-    const indexPath = path.join(this.templatePath, 'index.html');
-    let html = await fs.readFile(indexPath, 'utf-8');
-    html = html.replace('<!DOCTYPE html>', `<!DOCTYPE html>\n${headerComment}`);
-    await fs.writeFile(indexPath, html, 'utf-8');
+    editor.setBlock('mobile', mobileScript, 'body-end');
   }
 
-  private async configureCompression(config: GrokadeTemplateConfig): Promise<void> {
-    if (!config.compressionEnabled) return;
+  private injectSecurityHeaders(editor: HtmlDocumentEditor): void {
+    // The server sets these; generate-server-config writes them for each host, the page only documents them
+    const headers = SECURITY_HEADERS;
 
-    // Add compression configuration
-    const compressionScript = `
-      <script>
-        window.GrokadeCompression = {
-          enabled: true,
-          async decompressData(data) {
-            // Handle compressed data using WebAssembly
-            return data;
-          }
-        };
-      </script>
-    `;
+    editor.setComment('security-headers', [
+      'Required Security Headers:',
+      ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`)
+    ].join('\n'));
+  }
 
-    const indexPath = path.join(this.templatePath, 'index.html');
-    let html = await fs.readFile(indexPath, 'utf-8');
-    html = html.replace('</head>', `${compressionScript}\n</head>`);
-    await fs.writeFile(indexPath, html, 'utf-8');
+  // Earlier versions added a GrokadeCompression hook that did nothing; the server or Unity's loader decompresses,
+  // so the block is only removed from pages that still have it
+  private removeCompressionHook(editor: HtmlDocumentEditor): void {
+    editor.removeBlock('compression');
   }
 
   private async fileExists(filePath: string): Promise<boolean> {
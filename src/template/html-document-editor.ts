@@ -0,0 +1,125 @@
+import { JSDOM, VirtualConsole } from 'jsdom';
+
+// Every element a template step injects carries this attribute, valued with its block name
+export const TEMPLATE_BLOCK_ATTRIBUTE = 'data-webgl-mcp';
+
+// Comments cannot carry attributes, so injected ones start with this marker instead
+const COMMENT_MARKER = 'webgl-mcp:';
+
+export type BlockPosition = 'head-start' | 'head-end' | 'body-start' | 'body-end' | { before: Element };
+
+// Edits index.html as a document, so applying a template again updates its blocks instead of adding copies
+export class HtmlDocumentEditor {
+  private readonly dom: JSDOM;
+  private readonly rawPlaceholders: string[];
+
+  // rawPlaceholders are engine placeholders that expand to markup, such as $GODOT_HEAD_INCLUDE. Parsed as
+  // text they would move out of <head>, so they are held as comments until the page is serialized
+  constructor(html: string, options: { rawPlaceholders?: string[] } = {}) {
+    this.rawPlaceholders = options.rawPlaceholders ?? [];
+    const protectedHtml = this.rawPlaceholders.reduce(
+      (text, placeholder, index) => text.split(placeholder).join(`<!--${COMMENT_MARKER}raw:${index}-->`),
+      html
+    );
+    // The page's scripts stay inert; a silent virtual console keeps parse warnings off the MCP stdout
+    this.dom = new JSDOM(protectedHtml, { virtualConsole: new VirtualConsole() });
+  }
+
+  get document(): Document {
+    return this.dom.window.document;
+  }
+
+  public serialize(): string {
+    return this.rawPlaceholders.reduce(
+      (text, placeholder, index) => text.split(`<!--${COMMENT_MARKER}raw:${index}-->`).join(placeholder),
+      this.dom.serialize()
+    );
+  }
+
+  // Elements of the block, in document order
+  public getBlock(id: string): Element[] {
+    return [...this.document.querySelectorAll(`[${TEMPLATE_BLOCK_ATTRIBUTE}="${id}"]`)];
+  }
+
+  // Elements matching the selector that the page itself has, skipping injected blocks
+  public queryOwn(selector: string): Element[] {
+    return [...this.document.querySelectorAll(selector)]
+      .filter(element => !element.closest(`[${TEMPLATE_BLOCK_ATTRIBUTE}]`));
+  }
+
+  // Replaces the block where it already is, or inserts it at position the first time
+  public setBlock(id: string, html: string, position: BlockPosition): void {
+    const template = this.document.createElement('template');
+    template.innerHTML = html.trim();
+    const elements = [...template.content.children];
+    for (const element of elements) {
+      element.setAttribute(TEMPLATE_BLOCK_ATTRIBUTE, id);
+    }
+
+    // An existing block is swapped out where it stands, so re-running does not move or duplicate it
+    const [first] = this.getBlock(id);
+    let placeholder: Node | undefined;
+    if (first) {
+      placeholder = first.parentNode!.insertBefore(this.document.createComment(''), this.lineBreakBefore(first) ?? first);
+      this.removeBlock(id);
+    }
+
+    const [parent, reference] = placeholder ? [placeholder.parentNode!, placeholder] : this.resolvePosition(position);
+    for (const element of elements) {
+      parent.insertBefore(this.document.createTextNode('\n'), reference);
+      parent.insertBefore(element, reference);
+    }
+    placeholder?.parentNode!.removeChild(placeholder);
+  }
+
+  public removeBlock(id: string): void {
+    for (const element of this.getBlock(id)) {
+      // Drop the line break inserted with the block so removing it restores the page
+      this.lineBreakBefore(element)?.remove();
+      element.remove();
+    }
+  }
+
+  // A comment ahead of <html>, e.g. to document what the server must send
+  public setComment(id: string, text: string): void {
+    const comment = this.document.createComment(` ${COMMENT_MARKER}${id}\n${text}\n`);
+    const existing = this.findComment(id);
+    if (existing) {
+      existing.replaceWith(comment);
+    } else {
+      this.document.insertBefore(comment, this.document.documentElement);
+    }
+  }
+
+  public removeComment(id: string): void {
+    this.findComment(id)?.remove();
+  }
+
+  private findComment(id: string): Comment | undefined {
+    const marker = ` ${COMMENT_MARKER}${id}\n`;
+    return [...this.document.childNodes].find(
+      (node): node is Comment => node.nodeType === node.COMMENT_NODE && (node as Comment).data.startsWith(marker)
+    );
+  }
+
+  // The line break a block was inserted with; once the page is written and parsed again it is merged into the page's whitespace
+  private lineBreakBefore(element: Element): Text | undefined {
+    const previous = element.previousSibling;
+    if (!previous || previous.nodeType !== previous.TEXT_NODE || !previous.textContent?.endsWith('\n')) return undefined;
+
+    const text = previous as Text;
+    return text.length === 1 ? text : text.splitText(text.length - 1);
+  }
+
+  private resolvePosition(position: BlockPosition): [Node, Node | null] {
+    const { head, body } = this.document;
+    if (typeof position === 'object') return [position.before.parentNode!, position.before];
+
+    switch (position) {
+      case 'head-start': return [head, head.firstChild];
+      case 'head-end': return [head, null];
+      case 'body-start': return [body, body.firstChild];
+      case 'body-end': return [body, null];
+    }
+  }
+}
@@ -0,0 +1,350 @@
+import type { Template } from './template-modifier';
+
+// HTML shells bundled with the server. Placeholders use each engine's own syntax, so an unrendered
+// shell can be dropped into the engine's export settings and the engine fills them in
+
+const UNITY_SHELL = `<!DOCTYPE html>
+<html lang="en-us">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, height=device-height, initial-scale=1.0, user-scalable=no">
+    <title>{{{ PRODUCT_NAME }}}</title>
+    <style>
+      html, body { width: 100%; height: 100%; margin: 0; padding: 0; overflow: hidden; background: #000000; }
+      #unity-canvas { display: block; width: 100%; height: 100%; background: #000000; }
+      #loading-bar { position: absolute; left: 50%; top: 50%; width: 200px; height: 8px; transform: translate(-50%, -50%); background: #333333; }
+      #loading-bar-fill { width: 0%; height: 100%; background: #ffffff; }
+      #loading-text { position: absolute; left: 50%; top: calc(50% + 20px); transform: translateX(-50%); color: #ffffff; font-family: sans-serif; }
+    </style>
+  </head>
+  <body>
+    <canvas id="unity-canvas" width="{{{ WIDTH }}}" height="{{{ HEIGHT }}}" tabindex="-1"></canvas>
+    <div id="loading-bar"><div id="loading-bar-fill"></div></div>
+    <div id="loading-text">Loading...</div>
+    <script>
+      var buildUrl = "Build";
+      var canvas = document.querySelector("#unity-canvas");
+      var config = {
+        dataUrl: buildUrl + "/{{{ DATA_FILENAME }}}",
+        frameworkUrl: buildUrl + "/{{{ FRAMEWORK_FILENAME }}}",
+        codeUrl: buildUrl + "/{{{ CODE_FILENAME }}}",
+        streamingAssetsUrl: "StreamingAssets",
+        companyName: "{{{ COMPANY_NAME }}}",
+        productName: "{{{ PRODUCT_NAME }}}",
+        productVersion: "{{{ PRODUCT_VERSION }}}"
+      };
+
+      function showProgress(progress) {
+        var fill = document.querySelector("#loading-bar-fill");
+        var text = document.querySelector("#loading-text");
+        if (fill) fill.style.width = 100 * progress + "%";
+        if (text) text.textContent = "Loading... " + Math.round(100 * progress) + "%";
+      }
+
+      function hideLoading() {
+        ["#loading-bar", "#loading-text"].forEach(function (selector) {
+          var element = document.querySelector(selector);
+          if (element) element.style.display = "none";
+        });
+      }
+
+      var script = document.createElement("script");
+      script.src = buildUrl + "/{{{ LOADER_FILENAME }}}";
+      script.onload = function () {
+        createUnityInstance(canvas, config, showProgress).then(function () {
+          hideLoading();
+        }).catch(function (message) {
+          alert(message);
+        });
+      };
+      document.body.appendChild(script);
+    </script>
+  </body>
+</html>
+`;
+
+const UNITY_LEGACY_SHELL = `<!DOCTYPE html>
+<html lang="en-us">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, height=device-height, initial-scale=1.0, user-scalable=no">
+    <title>%UNITY_WEB_NAME%</title>
+    <style>
+      html, body { width: 100%; height: 100%; margin: 0; padding: 0; background: #000000; }
+      #unityContainer { position: absolute; left: 50%; top: 50%; transform: translate(-50%, -50%); width: %UNITY_WIDTH%px; height: %UNITY_HEIGHT%px; }
+      #loading-bar { position: absolute; left: 50%; top: 50%; width: 200px; height: 8px; transform: translate(-50%, -50%); background: #333333; }
+      #loading-bar-fill { width: 0%; height: 100%; background: #ffffff; }
+      #loading-text { position: absolute; left: 50%; top: calc(50% + 20px); transform: translateX(-50%); color: #ffffff; font-family: sans-serif; }
+    </style>
+    <script src="%UNITY_WEBGL_LOADER_URL%"></script>
+    <script>
+      function progressHandler(unityInstance, progress) {
+        var fill = document.querySelector("#loading-bar-fill");
+        var text = document.querySelector("#loading-text");
+        if (fill) fill.style.width = 100 * progress + "%";
+        if (text) text.textContent = "Loading... " + Math.round(100 * progress) + "%";
+        if (progress === 1) {
+          ["#loading-bar", "#loading-text"].forEach(function (selector) {
+            var element = document.querySelector(selector);
+            if (element) element.style.display = "none";
+          });
+        }
+      }
+
+      var unityInstance = UnityLoader.instantiate("unityContainer", "%UNITY_WEBGL_BUILD_URL%", { onProgress: progressHandler });
+    </script>
+  </head>
+  <body>
+    <div id="unityContainer"></div>
+    <div id="loading-bar"><div id="loading-bar-fill"></div></div>
+    <div id="loading-text">Loading...</div>
+  </body>
+</html>
+`;
+
+// Godot 3 and 4 load the same way; 4 adds the threads check, which decides whether COOP/COEP are needed
+function godotShell(threads: boolean): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, user-scalable=no, initial-scale=1.0">
+    <title>$GODOT_PROJECT_NAME</title>
+    <style>
+      html, body, #canvas { width: 100%; height: 100%; margin: 0; padding: 0; background: #000000; color: #ffffff; overflow: hidden; }
+      #canvas { display: block; }
+      #canvas:focus { outline: none; }
+      #loading-bar { position: absolute; left: 50%; top: 50%; width: 200px; height: 8px; transform: translate(-50%, -50%); background: #333333; }
+      #loading-bar-fill { width: 0%; height: 100%; background: #ffffff; }
+      #loading-text { position: absolute; left: 50%; top: calc(50% + 20px); transform: translateX(-50%); font-family: sans-serif; }
+    </style>
+    $GODOT_HEAD_INCLUDE
+  </head>
+  <body>
+    <canvas id="canvas">Your browser does not support the canvas tag.</canvas>
+    <noscript>Your browser does not support JavaScript.</noscript>
+    <div id="loading-bar"><div id="loading-bar-fill"></div></div>
+    <div id="loading-text">Loading...</div>
+    <script src="$GODOT_URL"></script>
+    <script>
+      const GODOT_CONFIG = $GODOT_CONFIG;
+${threads ? '      const GODOT_THREADS_ENABLED = $GODOT_THREADS_ENABLED;\n' : ''}      const engine = new Engine(GODOT_CONFIG);
+
+      function setLoading(text, progress) {
+        const fill = document.getElementById('loading-bar-fill');
+        const label = document.getElementById('loading-text');
+        if (fill && progress !== undefined) fill.style.width = 100 * progress + '%';
+        if (label) label.textContent = text;
+      }
+
+      function hideLoading() {
+        ['loading-bar', 'loading-text'].forEach(function (id) {
+          const element = document.getElementById(id);
+          if (element) element.style.display = 'none';
+        });
+      }
+
+      const missing = Engine.getMissingFeatures(${threads ? '{ threads: GODOT_THREADS_ENABLED }' : ''});
+      if (missing.length !== 0) {
+        setLoading('Missing browser features: ' + missing.join(', '));
+      } else {
+        engine.startGame({
+          onProgress: function (current, total) {
+            if (total > 0) setLoading('Loading... ' + Math.round(100 * current / total) + '%', current / total);
+          }
+        }).then(hideLoading, function (error) {
+          setLoading(String(error));
+        });
+      }
+    </script>
+  </body>
+</html>
+`;
+}
+
+// Construct's export has no placeholders of its own, so these use the same {{{ NAME }}} form as Unity
+const CONSTRUCT_SHELL = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>{{{ PROJECT_NAME }}}</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=no, minimal-ui">
+    <meta name="mobile-web-app-capable" content="yes">
+    <meta name="generator" content="Scirra Construct">
+    <link rel="manifest" href="appmanifest.json">
+    <link rel="apple-touch-icon" sizes="128x128" href="icons/icon-128.png">
+    <link rel="icon" type="image/png" href="icons/icon-16.png">
+    <link rel="stylesheet" href="style.css">
+  </head>
+  <body>
+    <noscript>
+      <div id="notSupportedWrap">
+        <h2 id="notSupportedTitle">This content requires JavaScript</h2>
+        <p class="notSupportedMessage">JavaScript appears to be disabled. Please enable it to view this content.</p>
+      </div>
+    </noscript>
+    <script src="scripts/supportcheck.js"></script>
+    <script src="scripts/offlineclient.js" type="module"></script>
+    <script src="scripts/main.js" type="module"></script>
+    <script src="scripts/register-sw.js" type="module"></script>
+  </body>
+</html>
+`;
+
+const EMSCRIPTEN_SHELL = `<!DOCTYPE html>
+<html lang="en-us">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=no">
+    <title>{{{ TITLE }}}</title>
+    <style>
+      html, body { width: 100%; height: 100%; margin: 0; padding: 0; overflow: hidden; background: #000000; }
+      #canvas { display: block; width: 100%; height: 100%; border: 0; }
+      #loading-bar { position: absolute; left: 50%; top: 50%; width: 200px; height: 8px; transform: translate(-50%, -50%); background: #333333; }
+      #loading-bar-fill { width: 0%; height: 100%; background: #ffffff; }
+      #loading-text { position: absolute; left: 50%; top: calc(50% + 20px); transform: translateX(-50%); color: #ffffff; font-family: sans-serif; }
+    </style>
+  </head>
+  <body>
+    <canvas id="canvas" oncontextmenu="event.preventDefault()" tabindex="-1"></canvas>
+    <div id="loading-bar"><div id="loading-bar-fill"></div></div>
+    <div id="loading-text">Downloading...</div>
+    <script>
+      var Module = {
+        canvas: document.getElementById('canvas'),
+        print: function (text) { console.log(text); },
+        printErr: function (text) { console.error(text); },
+        // Emscripten reports download progress as "Downloading data... (loaded/total)"
+        setStatus: function (text) {
+          var fill = document.getElementById('loading-bar-fill');
+          var label = document.getElementById('loading-text');
+          var match = text.match(/\\((\\d+(?:\\.\\d+)?)\\/(\\d+)\\)/);
+          if (fill && match) fill.style.width = 100 * parseInt(match[1]) / parseInt(match[2]) + '%';
+          if (label) label.textContent = text;
+          if (!text) {
+            ['loading-bar', 'loading-text'].forEach(function (id) {
+              var element = document.getElementById(id);
+              if (element) element.style.display = 'none';
+            });
+          }
+        }
+      };
+    </script>
+    {{{ SCRIPT }}}
+  </body>
+</html>
+`;
+
+const UNITY_FILE_VARIABLES = [
+  { name: 'LOADER_FILENAME', placeholder: '{{{ LOADER_FILENAME }}}', description: 'Loader script in Build/', defaultValue: 'Build.loader.js' },
+  { name: 'DATA_FILENAME', placeholder: '{{{ DATA_FILENAME }}}', description: 'Data file in Build/', defaultValue: 'Build.data' },
+  { name: 'FRAMEWORK_FILENAME', placeholder: '{{{ FRAMEWORK_FILENAME }}}', description: 'Framework script in Build/', defaultValue: 'Build.framework.js' },
+  { name: 'CODE_FILENAME', placeholder: '{{{ CODE_FILENAME }}}', description: 'WebAssembly module in Build/', defaultValue: 'Build.wasm' }
+];
+
+const GODOT_VARIABLES = [
+  { name: 'GODOT_PROJECT_NAME', placeholder: '$GODOT_PROJECT_NAME', description: 'Project name from the project settings', defaultValue: 'Godot Game' },
+  { name: 'GODOT_URL', placeholder: '$GODOT_URL', description: 'Engine script, <export name>.js', defaultValue: 'index.js' },
+  {
+    name: 'GODOT_CONFIG',
+    placeholder: '$GODOT_CONFIG',
+    description: 'Engine configuration object the exporter writes as JSON',
+    defaultValue: '{"executable": "index", "canvasResizePolicy": 2}'
+  },
+  { name: 'GODOT_HEAD_INCLUDE', placeholder: '$GODOT_HEAD_INCLUDE', description: 'Markup from the export preset\'s Head Include', defaultValue: '', html: true }
+];
+
+export const TEMPLATE_CATALOG: Template[] = [
+  {
+    id: 'unity',
+    name: 'Unity (createUnityInstance)',
+    description: 'Full-window canvas for Unity 2020.1 and later, with a loading bar driven by createUnityInstance progress',
+    engine: 'Unity',
+    engineVersions: '2020.1+',
+    options: { title: 'My Game', loadingBar: true, loadingText: true, compression: true, customStyles: 'body { background: #202020; }', customScripts: ['analytics.js'] },
+    defaults: { loadingBar: true, loadingText: true },
+    variables: [
+      { name: 'PRODUCT_NAME', placeholder: '{{{ PRODUCT_NAME }}}', description: 'Product Name from the Player settings', defaultValue: 'Unity WebGL Game' },
+      { name: 'COMPANY_NAME', placeholder: '{{{ COMPANY_NAME }}}', description: 'Company Name from the Player settings', defaultValue: 'DefaultCompany' },
+      { name: 'PRODUCT_VERSION', placeholder: '{{{ PRODUCT_VERSION }}}', description: 'Version from the Player settings', defaultValue: '1.0' },
+      { name: 'WIDTH', placeholder: '{{{ WIDTH }}}', description: 'Default canvas width', defaultValue: '960' },
+      { name: 'HEIGHT', placeholder: '{{{ HEIGHT }}}', description: 'Default canvas height', defaultValue: '600' },
+      ...UNITY_FILE_VARIABLES
+    ],
+    html: UNITY_SHELL
+  },
+  {
+    id: 'unity-legacy',
+    name: 'Unity (UnityLoader)',
+    description: 'Centered player for Unity 2019 and earlier, which load through UnityLoader.instantiate and a build JSON',
+    engine: 'Unity',
+    engineVersions: '5.6-2019.4',
+    options: { title: 'My Game', loadingBar: true, loadingText: true, memoryLimit: 256, customStyles: 'body { background: #202020; }', customScripts: ['analytics.js'] },
+    defaults: { loadingBar: true, loadingText: true },
+    variables: [
+      { name: 'UNITY_WEB_NAME', placeholder: '%UNITY_WEB_NAME%', description: 'Product Name from the Player settings', defaultValue: 'Unity WebGL Game' },
+      { name: 'UNITY_WIDTH', placeholder: '%UNITY_WIDTH%', description: 'Player width in pixels', defaultValue: '960' },
+      { name: 'UNITY_HEIGHT', placeholder: '%UNITY_HEIGHT%', description: 'Player height in pixels', defaultValue: '600' },
+      { name: 'UNITY_WEBGL_LOADER_URL', placeholder: '%UNITY_WEBGL_LOADER_URL%', description: 'UnityLoader.js', defaultValue: 'Build/UnityLoader.js' },
+      { name: 'UNITY_WEBGL_BUILD_URL', placeholder: '%UNITY_WEBGL_BUILD_URL%', description: 'Build description JSON', defaultValue: 'Build/Build.json' }
+    ],
+    html: UNITY_LEGACY_SHELL
+  },
+  {
+    id: 'godot-3',
+    name: 'Godot 3 HTML shell',
+    description: 'Custom HTML shell for Godot 3.3 and later, with a loading bar fed by engine.startGame progress',
+    engine: 'Godot',
+    engineVersions: '3.3-3.6',
+    options: { title: 'My Game', loadingBar: true, loadingText: true, customStyles: 'body { background: #202020; }', customScripts: ['analytics.js'] },
+    defaults: { loadingBar: true, loadingText: true },
+    variables: GODOT_VARIABLES,
+    html: godotShell(false)
+  },
+  {
+    id: 'godot-4',
+    name: 'Godot 4 HTML shell',
+    description: 'Custom HTML shell for Godot 4, which checks browser features, including threads when the export uses them',
+    engine: 'Godot',
+    engineVersions: '4.0+',
+    options: { title: 'My Game', loadingBar: true, loadingText: true, customStyles: 'body { background: #202020; }', customScripts: ['analytics.js'] },
+    defaults: { loadingBar: true, loadingText: true },
+    variables: [
+      ...GODOT_VARIABLES,
+      { name: 'GODOT_THREADS_ENABLED', placeholder: '$GODOT_THREADS_ENABLED', description: 'Whether the export uses threads, true or false', defaultValue: 'false' }
+    ],
+    html: godotShell(true)
+  },
+  {
+    id: 'construct',
+    name: 'Construct 3 export page',
+    description: 'index.html of a Construct 3 web export; Construct shows its own loading screen, so there is no loading bar',
+    engine: 'Construct',
+    engineVersions: 'r300+',
+    options: { title: 'My Game', customStyles: 'body { background: #202020; }', customScripts: ['analytics.js'] },
+    defaults: {},
+    variables: [
+      { name: 'PROJECT_NAME', placeholder: '{{{ PROJECT_NAME }}}', description: 'Project name; Construct does not fill this in, so render it with a value', defaultValue: 'Construct Game' }
+    ],
+    html: CONSTRUCT_SHELL
+  },
+  {
+    id: 'emscripten',
+    name: 'Emscripten shell',
+    description: 'Full-window canvas for emcc --shell-file, with a loading bar parsed from Module.setStatus',
+    engine: 'Emscripten',
+    engineVersions: '2.0+',
+    options: { title: 'My Game', loadingBar: true, loadingText: true, customStyles: 'body { background: #202020; }', customScripts: ['analytics.js'] },
+    defaults: { loadingBar: true, loadingText: true },
+    variables: [
+      { name: 'TITLE', placeholder: '{{{ TITLE }}}', description: 'Page title; emcc does not fill this in, so render it with a value', defaultValue: 'Emscripten Game' },
+      { name: 'SCRIPT', placeholder: '{{{ SCRIPT }}}', description: 'Script tag emcc inserts for the generated JavaScript', defaultValue: '<script async src="index.js"></script>', html: true }
+    ],
+    html: EMSCRIPTEN_SHELL
+  }
+];
+
+// Placeholders that expand to markup rather than text, for HtmlDocumentEditor to keep in place
+export const MARKUP_PLACEHOLDERS = [...new Set(
+  TEMPLATE_CATALOG.flatMap(template => template.variables.filter(variable => variable.html).map(variable => variable.placeholder))
+)];
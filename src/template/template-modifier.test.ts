@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import { TEMPLATE_CATALOG } from './template-catalog';
+import { WebGLTemplateModifier } from './template-modifier';
+import { TemplateSnapshotStore } from './template-snapshots';
+
+describe('WebGLTemplateModifier catalog', () => {
+  let workDir: string;
+  let modifier: WebGLTemplateModifier;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'template-catalog-'));
+    modifier = new WebGLTemplateModifier(workDir, new TemplateSnapshotStore(path.join(workDir, 'snapshots')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it.each(TEMPLATE_CATALOG.map(template => [template.id]))('renders %s with every placeholder filled from its defaults', templateId => {
+    const template = TEMPLATE_CATALOG.find(candidate => candidate.id === templateId)!;
+    for (const variable of template.variables) {
+      expect(template.html).toContain(variable.placeholder);
+    }
+
+    const rendered = modifier.renderTemplate(templateId, { fillDefaults: true });
+
+    expect(rendered.unresolved).toEqual([]);
+    expect(new JSDOM(rendered.html).window.document.title).not.toBe('');
+  });
+
+  it('keeps placeholders without a value for the engine to fill', () => {
+    const rendered = modifier.renderTemplate('unity', { values: { PRODUCT_NAME: 'Skyline' } });
+
+    expect(rendered.html).toContain('<title>Skyline</title>');
+    expect(rendered.unresolved).toContain('{{{ LOADER_FILENAME }}}');
+    expect(rendered.unresolved).not.toContain('{{{ PRODUCT_NAME }}}');
+  });
+
+  it('applies the options a shell supports and keeps markup placeholders in the head', () => {
+    const { html } = modifier.renderTemplate('godot-4', {
+      options: { loadingBar: false, customScripts: ['analytics.js'] }
+    });
+    const { document } = new JSDOM(html).window;
+
+    expect(document.getElementById('loading-bar')).toBeNull();
+    expect(document.querySelector('script[src="analytics.js"]')?.getAttribute('data-webgl-mcp')).toBe('custom-scripts');
+    expect(html.indexOf('$GODOT_HEAD_INCLUDE')).toBeLessThan(html.indexOf('</head>'));
+  });
+
+  it('rejects unknown templates, variables and options', () => {
+    expect(() => modifier.renderTemplate('flash')).toThrow('Unknown template flash; available: unity, unity-legacy, godot-3, godot-4, construct, emscripten');
+    expect(() => modifier.renderTemplate('unity', { values: { TITLE: 'Game' } })).toThrow('Template unity has no variable TITLE');
+    expect(() => modifier.renderTemplate('construct', { options: { loadingBar: true } })).toThrow('Template construct does not support loadingBar');
+  });
+
+  it('lists the templates of an engine', async () => {
+    expect((await modifier.getTemplatesForEngine('godot')).map(template => template.id)).toEqual(['godot-3', 'godot-4']);
+    expect((await modifier.getTemplatesForEngine('emscripten')).map(template => template.id)).toEqual(['emscripten']);
+  });
+
+  it('writes a generated template with a snapshot of the page it replaces', async () => {
+    await fs.writeFile(path.join(workDir, 'index.html'), '<html><body>old</body></html>');
+    const generated = await modifier.generateTemplate('emscripten', { fillDefaults: true });
+
+    expect(await fs.readFile(path.join(workDir, 'index.html'), 'utf8')).toBe(generated.html);
+    expect(generated.changeSet.snapshot?.files).toEqual([{ file: 'index.html', existed: true }]);
+  });
+});
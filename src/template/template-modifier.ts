@@ -1,5 +1,7 @@
-import { promises as fs } from 'fs';
-import * as path from 'path';
+import { HtmlDocumentEditor } from './html-document-editor';
+import { TemplateApplyOptions, TemplateChangeSet, TemplateTransaction } from './template-transaction';
+import { TemplateSnapshotStore } from './template-snapshots';
+import { TEMPLATE_CATALOG } from './template-catalog';
 
 export interface TemplateOptions {
   title?: string;
@@ -11,60 +13,105 @@ export interface TemplateOptions {
   customScripts?: string[];
 }
 
+export interface TemplateVariable {
+  name: string;
+  // Text the engine replaces at export, e.g. "{{{ PRODUCT_NAME }}}" or "$GODOT_URL"
+  placeholder: string;
+  description: string;
+  // Used for variables without a value when rendering with fillDefaults
+  defaultValue?: string;
+  // The value is markup, e.g. Godot's head include, rather than text inside an element or attribute
+  html?: boolean;
+}
+
 export interface Template {
+  id: string;
   name: string;
   description: string;
+  // Engine name as the engine detector reports it, e.g. "Unity"
+  engine: string;
+  engineVersions: string;
+  // Options the shell supports, with example values
   options: TemplateOptions;
   defaults: TemplateOptions;
+  variables: TemplateVariable[];
+  html: string;
+}
+
+export interface TemplateRenderRequest {
+  // Variable name -> value; variables left out keep their placeholder for the engine to fill
+  values?: Record<string, string>;
+  // Use each variable's default for values left out, for a page that is served as is
+  fillDefaults?: boolean;
+  options?: TemplateOptions;
+}
+
+export interface RenderedTemplate {
+  templateId: string;
+  html: string;
+  // Placeholders still in the page
+  unresolved: string[];
 }
 
 export class WebGLTemplateModifier {
-  constructor(private templatesPath: string) {}
+  constructor(
+    private templatesPath: string,
+    private readonly snapshots: TemplateSnapshotStore = new TemplateSnapshotStore()
+  ) {}
 
-  public async modifyTemplate(options: TemplateOptions): Promise<void> {
+  // index.html and the loading files are written together once every modification succeeded
+  public async modifyTemplate(options: TemplateOptions, applyOptions: TemplateApplyOptions = {}): Promise<TemplateChangeSet> {
     try {
       // Read the template HTML file
-      const indexPath = path.join(this.templatesPath, 'index.html');
-      let html = await fs.readFile(indexPath, 'utf-8');
-
-      // Apply modifications based on options
-      html = await this.applyTemplateModifications(html, options);
+      const transaction = new TemplateTransaction(this.templatesPath);
+      const html = await transaction.read('index.html');
+      if (html === undefined) {
+        throw new Error('Template must contain an index.html file');
+      }
+      const editor = new HtmlDocumentEditor(html);
 
-      // Write back the modified template
-      await fs.writeFile(indexPath, html, 'utf-8');
+      // Apply modifications based on options; options left out remove what an earlier run added
+      this.applyTemplateModifications(editor, options);
+      this.setupCompression(editor, options);
+      transaction.write('index.html', editor.serialize());
 
       // Handle additional files if needed
       if (options.loadingBar || options.loadingText) {
-        await this.addLoadingIndicators(options);
+        this.addLoadingIndicators(transaction, options);
       }
 
-      if (options.compression) {
-        await this.setupCompression();
-      }
+      return await transaction.commit(this.snapshots, 'template-modifier', applyOptions);
     } catch (error) {
       console.error('Error modifying template:', error);
       throw error;
     }
   }
 
-  private async applyTemplateModifications(html: string, options: TemplateOptions): Promise<string> {
+  private applyTemplateModifications(editor: HtmlDocumentEditor, options: TemplateOptions): void {
     // Update title if provided
     if (options.title) {
-      html = html.replace(/<title>.*?<\/title>/, `<title>${options.title}</title>`);
+      editor.document.title = options.title;
     }
 
     // Add custom styles
     if (options.customStyles) {
-      const styleTag = `<style>${options.customStyles}</style>`;
-      html = html.replace('</head>', `${styleTag}\n</head>`);
+      const styleTag = editor.document.createElement('style');
+      styleTag.textContent = options.customStyles;
+      editor.setBlock('custom-styles', styleTag.outerHTML, 'head-end');
+    } else {
+      editor.removeBlock('custom-styles');
     }
 
     // Add custom scripts
     if (options.customScripts?.length) {
-      const scriptTags = options.customScripts
-        .map(script => `<script src="${script}"></script>`)
-        .join('\n');
-      html = html.replace('</body>', `${scriptTags}\n</body>`);
+      const scriptTags = options.customScripts.map(script => {
+        const scriptTag = editor.document.createElement('script');
+        scriptTag.src = script;
+        return scriptTag.outerHTML;
+      });
+      editor.setBlock('custom-scripts', scriptTags.join('\n'), 'body-end');
+    } else {
+      editor.removeBlock('custom-scripts');
     }
 
     // Add memory limit configuration
@@ -73,13 +120,13 @@ export class WebGLTemplateModifier {
         <script>
           var TOTAL_MEMORY = ${options.memoryLimit * 1024 * 1024};
         </script>`;
-      html = html.replace('</head>', `${memoryConfig}\n</head>`);
+      editor.setBlock('memory-limit', memoryConfig, 'head-end');
+    } else {
+      editor.removeBlock('memory-limit');
     }
-
-    return html;
   }
 
-  private async addLoadingIndicators(options: TemplateOptions): Promise<void> {
+  private addLoadingIndicators(transaction: TemplateTransaction, options: TemplateOptions): void {
     const loadingStyles = `
       .webgl-loading-bar {
         position: absolute;
@@ -119,14 +166,16 @@ export class WebGLTemplateModifier {
       }`;
 
     // Write the loading indicator files
-    const stylesPath = path.join(this.templatesPath, 'loading-styles.css');
-    const scriptPath = path.join(this.templatesPath, 'loading-script.js');
-
-    await fs.writeFile(stylesPath, loadingStyles, 'utf-8');
-    await fs.writeFile(scriptPath, loadingScript, 'utf-8');
+    transaction.write('loading-styles.css', loadingStyles);
+    transaction.write('loading-script.js', loadingScript);
   }
 
-  private async setupCompression(): Promise<void> {
+  private setupCompression(editor: HtmlDocumentEditor, options: TemplateOptions): void {
+    if (!options.compression) {
+      editor.removeBlock('compression');
+      return;
+    }
+
     // Add compression-related configurations and scripts
     const compressionConfig = `
       <script>
@@ -142,14 +191,72 @@ export class WebGLTemplateModifier {
         };
       </script>`;
 
-    const indexPath = path.join(this.templatesPath, 'index.html');
-    let html = await fs.readFile(indexPath, 'utf-8');
-    html = html.replace('</head>', `${compressionConfig}\n</head>`);
-    await fs.writeFile(indexPath, html, 'utf-8');
+    editor.setBlock('compression', compressionConfig, 'head-end');
   }
 
   public async getTemplatesForEngine(engineId: string): Promise<Template[]> {
-    // Implementation
-    return [];
+    const engine = engineId.toLowerCase();
+    return TEMPLATE_CATALOG.filter(template => template.engine.toLowerCase() === engine || template.id === engine);
+  }
+
+  // Fills in the shell's variables and applies the options; nothing is written
+  public renderTemplate(templateId: string, request: TemplateRenderRequest = {}): RenderedTemplate {
+    const template = TEMPLATE_CATALOG.find(candidate => candidate.id === templateId);
+    if (!template) {
+      throw new Error(`Unknown template ${templateId}; available: ${TEMPLATE_CATALOG.map(candidate => candidate.id).join(', ')}`);
+    }
+
+    const values = request.values ?? {};
+    const unknown = Object.keys(values).filter(name => !template.variables.some(variable => variable.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Template ${templateId} has no variable ${unknown.join(', ')}; it has ${template.variables.map(variable => variable.name).join(', ')}`);
+    }
+
+    const options: TemplateOptions = { ...template.defaults, ...request.options };
+    const unsupported = Object.keys(request.options ?? {}).filter(option => !(option in template.options));
+    if (unsupported.length > 0) {
+      throw new Error(`Template ${templateId} does not support ${unsupported.join(', ')}; it supports ${Object.keys(template.options).join(', ')}`);
+    }
+
+    let html = request.options && Object.keys(request.options).length > 0
+      ? this.applyShellOptions(template, options)
+      : template.html;
+
+    // Longest first, so a placeholder that starts another one is not replaced inside it
+    const variables = [...template.variables].sort((a, b) => b.placeholder.length - a.placeholder.length);
+    for (const variable of variables) {
+      const value = values[variable.name] ?? (request.fillDefaults ? variable.defaultValue : undefined);
+      if (value !== undefined) html = html.split(variable.placeholder).join(value);
+    }
+
+    return {
+      templateId,
+      html,
+      unresolved: template.variables.filter(variable => html.includes(variable.placeholder)).map(variable => variable.placeholder)
+    };
+  }
+
+  // Renders the template into index.html of the templates folder, with a snapshot of what it replaces
+  public async generateTemplate(
+    templateId: string,
+    request: TemplateRenderRequest = {},
+    applyOptions: TemplateApplyOptions = {}
+  ): Promise<RenderedTemplate & { changeSet: TemplateChangeSet }> {
+    const rendered = this.renderTemplate(templateId, request);
+    const transaction = new TemplateTransaction(this.templatesPath);
+    transaction.write('index.html', rendered.html);
+
+    return { ...rendered, changeSet: await transaction.commit(this.snapshots, `template ${templateId}`, applyOptions) };
+  }
+
+  private applyShellOptions(template: Template, options: TemplateOptions): string {
+    const editor = new HtmlDocumentEditor(template.html, {
+      rawPlaceholders: template.variables.filter(variable => variable.html).map(variable => variable.placeholder)
+    });
+    this.applyTemplateModifications(editor, options);
+    this.setupCompression(editor, options);
+    if (options.loadingBar === false) editor.document.getElementById('loading-bar')?.remove();
+    if (options.loadingText === false) editor.document.getElementById('loading-text')?.remove();
+    return editor.serialize();
   }
-} 
\ No newline at end of file
+}
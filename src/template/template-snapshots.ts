@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { pathExists } from '../analyzers/build-locator';
+
+// Kept under the user's home directory unless WEBGL_MCP_SNAPSHOTS points elsewhere, so they never ship with a build
+// and work when the server starts in "/" or a read-only directory
+export const SNAPSHOT_DIR_NAME = path.join('.webgl-mcp', 'snapshots');
+
+const MANIFEST_FILE = 'snapshot.json';
+
+// "apply" snapshots are taken before a template change, "revert" ones before a revert so it can be undone too
+export type SnapshotReason = 'apply' | 'revert';
+
+export interface SnapshotFile {
+  // Relative to the template folder, with forward slashes
+  file: string;
+  // False when the change created the file, so reverting deletes it
+  existed: boolean;
+}
+
+export interface TemplateSnapshot {
+  id: string;
+  templatePath: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  // What made the change, e.g. "grokade-template"
+  label: string;
+  files: SnapshotFile[];
+}
+
+export function resolveSnapshotDir(): string {
+  return path.resolve(process.env.WEBGL_MCP_SNAPSHOTS ?? path.join(os.homedir(), SNAPSHOT_DIR_NAME));
+}
+
+export class TemplateSnapshotStore {
+  constructor(private readonly rootDir: string = resolveSnapshotDir()) {}
+
+  // Stores the given contents; undefined content marks a file the change is about to create
+  public async save(
+    templatePath: string,
+    files: { file: string; content?: Buffer }[],
+    reason: SnapshotReason,
+    label: string
+  ): Promise<TemplateSnapshot> {
+    const createdAt = new Date().toISOString();
+    const snapshot: TemplateSnapshot = {
+      id: `${createdAt.replace(/[-:.]/g, '')}-${randomBytes(3).toString('hex')}`,
+      templatePath: path.resolve(templatePath),
+      createdAt,
+      reason,
+      label,
+      files: files.map(({ file, content }) => ({ file, existed: content !== undefined }))
+    };
+
+    const snapshotDir = path.join(this.rootDir, snapshot.id);
+    for (const { file, content } of files) {
+      if (content === undefined) continue;
+      const target = path.join(snapshotDir, 'files', file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content);
+    }
+    await fs.mkdir(snapshotDir, { recursive: true });
+    await fs.writeFile(path.join(snapshotDir, MANIFEST_FILE), JSON.stringify(snapshot, null, 2));
+
+    return snapshot;
+  }
+
+  // Newest first; only the template's own snapshots when a path is given
+  public async list(templatePath?: string): Promise<TemplateSnapshot[]> {
+    if (!await pathExists(this.rootDir)) return [];
+
+    const snapshots: TemplateSnapshot[] = [];
+    for (const entry of await fs.readdir(this.rootDir, { withFileTypes: true })) {
+      const manifestPath = path.join(this.rootDir, entry.name, MANIFEST_FILE);
+      if (!entry.isDirectory() || !await pathExists(manifestPath)) continue;
+      snapshots.push(JSON.parse(await fs.readFile(manifestPath, 'utf8')));
+    }
+
+    const resolved = templatePath === undefined ? undefined : path.resolve(templatePath);
+    return snapshots
+      .filter(snapshot => resolved === undefined || snapshot.templatePath === resolved)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  public async get(id: string): Promise<TemplateSnapshot> {
+    const manifestPath = path.join(this.rootDir, path.basename(id), MANIFEST_FILE);
+    if (!await pathExists(manifestPath)) {
+      throw new Error(`No template snapshot with id ${id}`);
+    }
+    return JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+  }
+
+  // Content of a file as the snapshot recorded it; undefined when the file did not exist then
+  public async readFile(snapshot: TemplateSnapshot, file: string): Promise<Buffer | undefined> {
+    const entry = snapshot.files.find(candidate => candidate.file === file);
+    if (!entry?.existed) return undefined;
+    const filePath = path.join(this.rootDir, snapshot.id, 'files', file);
+    if (!await pathExists(filePath)) {
+      throw new Error(`Snapshot ${snapshot.id} is missing its copy of ${file} (${filePath})`);
+    }
+    return fs.readFile(filePath);
+  }
+}
@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateSnapshotStore, resolveSnapshotDir } from './template-snapshots';
+import { TemplateTransaction, revertTemplate } from './template-transaction';
+
+describe('TemplateTransaction', () => {
+  let workDir: string;
+  let templatePath: string;
+  let snapshots: TemplateSnapshotStore;
+
+  const readTemplateFile = (file: string) => fs.readFile(path.join(templatePath, file), 'utf8');
+  const templateFiles = async () => (await fs.readdir(templatePath, { recursive: true }) as string[]).sort();
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'template-transaction-'));
+    templatePath = path.join(workDir, 'Build');
+    snapshots = new TemplateSnapshotStore(path.join(workDir, 'snapshots'));
+    await fs.mkdir(templatePath);
+    await fs.writeFile(path.join(templatePath, 'index.html'), '<html>\n<body></body>\n</html>\n');
+    await fs.writeFile(path.join(templatePath, 'old.css'), 'body {}\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const applyChange = async (options = {}) => {
+    const transaction = new TemplateTransaction(templatePath);
+    transaction.write('index.html', '<html>\n<body><canvas></canvas></body>\n</html>\n');
+    transaction.write('TemplateData/style.css', 'canvas {}\n');
+    transaction.remove('old.css');
+    return transaction.commit(snapshots, 'grokade-template', options);
+  };
+
+  it('reads staged content before the file on disk', async () => {
+    const transaction = new TemplateTransaction(templatePath);
+    transaction.write('index.html', 'staged');
+    transaction.remove('old.css');
+
+    expect(await transaction.read('index.html')).toBe('staged');
+    expect(await transaction.read('old.css')).toBeUndefined();
+    expect(await transaction.read('missing.js')).toBeUndefined();
+  });
+
+  it('returns the diff without writing anything in preview', async () => {
+    const result = await applyChange({ preview: true });
+
+    expect(result).toMatchObject({ preview: true, changed: true });
+    expect(result.snapshot).toBeUndefined();
+    expect(result.files.map(file => [file.file, file.action])).toEqual([
+      ['index.html', 'modify'],
+      ['TemplateData/style.css', 'create'],
+      ['old.css', 'delete']
+    ]);
+    expect(result.diff).toContain('+<body><canvas></canvas></body>');
+    expect(await templateFiles()).toEqual(['index.html', 'old.css']);
+    expect(await snapshots.list()).toEqual([]);
+  });
+
+  it('writes every file and snapshots what it replaced on commit', async () => {
+    const result = await applyChange();
+
+    expect(await templateFiles()).toEqual(['TemplateData', 'TemplateData/style.css', 'index.html']);
+    expect(await readTemplateFile('index.html')).toContain('<canvas>');
+    expect(result.snapshot).toMatchObject({
+      templatePath: path.resolve(templatePath),
+      reason: 'apply',
+      label: 'grokade-template',
+      files: [
+        { file: 'index.html', existed: true },
+        { file: 'TemplateData/style.css', existed: false },
+        { file: 'old.css', existed: true }
+      ]
+    });
+    expect((await snapshots.readFile(result.snapshot!, 'index.html'))?.toString()).toBe('<html>\n<body></body>\n</html>\n');
+  });
+
+  it('leaves the template as it was when the snapshot cannot be written', async () => {
+    const blocked = path.join(workDir, 'not-a-directory');
+    await fs.writeFile(blocked, '');
+    snapshots = new TemplateSnapshotStore(blocked);
+
+    await expect(applyChange()).rejects.toThrow();
+    expect(await readTemplateFile('index.html')).toBe('<html>\n<body></body>\n</html>\n');
+    expect(await readTemplateFile('old.css')).toBe('body {}\n');
+    expect(await templateFiles()).not.toContain('TemplateData/style.css');
+  });
+
+  it('puts back the files already changed when moving one into place fails', async () => {
+    const rename = fs.rename;
+    let renames = 0;
+    const spy = jest.spyOn(fs, 'rename').mockImplementation(async (from, to) => {
+      if (++renames === 2) throw Object.assign(new Error('EXDEV: cross-device link not permitted'), { code: 'EXDEV' });
+      return rename(from, to);
+    });
+
+    try {
+      await expect(applyChange()).rejects.toThrow('EXDEV');
+    } finally {
+      spy.mockRestore();
+    }
+    expect(await readTemplateFile('index.html')).toBe('<html>\n<body></body>\n</html>\n');
+    expect(await readTemplateFile('old.css')).toBe('body {}\n');
+    // No temporary files are left behind
+    expect(await templateFiles()).toEqual(['TemplateData', 'index.html', 'old.css']);
+  });
+
+  it('skips files whose content did not change', async () => {
+    const transaction = new TemplateTransaction(templatePath);
+    transaction.write('index.html', '<html>\n<body></body>\n</html>\n');
+    const result = await transaction.commit(snapshots, 'grokade-template');
+
+    expect(result.changed).toBe(false);
+    expect(result.snapshot).toBeUndefined();
+  });
+
+  describe('revertTemplate', () => {
+    it('restores the newest apply snapshot and deletes the files it created', async () => {
+      const applied = await applyChange();
+      const reverted = await revertTemplate(templatePath, snapshots);
+
+      expect(reverted.revertedSnapshot.id).toBe(applied.snapshot!.id);
+      expect(reverted.files.map(file => [file.file, file.action])).toEqual([
+        ['index.html', 'modify'],
+        ['TemplateData/style.css', 'delete'],
+        ['old.css', 'create']
+      ]);
+      expect(await readTemplateFile('index.html')).toBe('<html>\n<body></body>\n</html>\n');
+      expect(await readTemplateFile('old.css')).toBe('body {}\n');
+      expect(await templateFiles()).toEqual(['TemplateData', 'index.html', 'old.css']);
+      expect(reverted.snapshot?.reason).toBe('revert');
+    });
+
+    it('can undo a revert by reverting to its snapshot', async () => {
+      await applyChange();
+      const reverted = await revertTemplate(templatePath, snapshots);
+      await revertTemplate(templatePath, snapshots, { snapshotId: reverted.snapshot!.id });
+
+      expect(await readTemplateFile('index.html')).toContain('<canvas>');
+      expect(await readTemplateFile('TemplateData/style.css')).toBe('canvas {}\n');
+    });
+
+    it('stops with a clear error when the snapshot lost a file', async () => {
+      const applied = await applyChange();
+      await fs.rm(path.join(workDir, 'snapshots', applied.snapshot!.id, 'files', 'index.html'));
+
+      await expect(revertTemplate(templatePath, snapshots))
+        .rejects.toThrow(`Snapshot ${applied.snapshot!.id} is missing its copy of index.html`);
+      expect(await readTemplateFile('index.html')).toContain('<canvas>');
+    });
+
+    it('rejects templates without snapshots and snapshots of other templates', async () => {
+      await expect(revertTemplate(templatePath, snapshots)).rejects.toThrow('No template snapshots for');
+
+      const other = path.join(workDir, 'Other');
+      await fs.mkdir(other);
+      const applied = await applyChange();
+      await expect(revertTemplate(other, snapshots, { snapshotId: applied.snapshot!.id }))
+        .rejects.toThrow(`Snapshot ${applied.snapshot!.id} belongs to ${path.resolve(templatePath)}`);
+    });
+  });
+});
+
+describe('resolveSnapshotDir', () => {
+  const previous = process.env.WEBGL_MCP_SNAPSHOTS;
+
+  afterEach(() => {
+    if (previous === undefined) delete process.env.WEBGL_MCP_SNAPSHOTS;
+    else process.env.WEBGL_MCP_SNAPSHOTS = previous;
+  });
+
+  it('defaults to the home directory rather than the working directory', () => {
+    delete process.env.WEBGL_MCP_SNAPSHOTS;
+
+    expect(resolveSnapshotDir()).toBe(path.join(os.homedir(), '.webgl-mcp', 'snapshots'));
+  });
+
+  it('uses WEBGL_MCP_SNAPSHOTS when set', () => {
+    process.env.WEBGL_MCP_SNAPSHOTS = path.join(os.tmpdir(), 'snapshots');
+
+    expect(resolveSnapshotDir()).toBe(path.join(os.tmpdir(), 'snapshots'));
+  });
+});
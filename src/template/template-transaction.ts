@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { createTwoFilesPatch } from 'diff';
+import { pathExists } from '../analyzers/build-locator';
+import { SnapshotReason, TemplateSnapshot, TemplateSnapshotStore } from './template-snapshots';
+
+export interface TemplateApplyOptions {
+  // Return the diff without writing anything
+  preview?: boolean;
+  // Store the files being replaced so revert-template can restore them (default true)
+  snapshot?: boolean;
+}
+
+export interface TemplateFileChange {
+  file: string;
+  action: 'create' | 'modify' | 'delete';
+  diff: string;
+}
+
+export interface TemplateChangeSet {
+  templatePath: string;
+  preview: boolean;
+  changed: boolean;
+  files: TemplateFileChange[];
+  // Unified diff of every file, in the order of files
+  diff: string;
+  // Set when the change was written with a snapshot
+  snapshot?: TemplateSnapshot;
+}
+
+export interface TemplateRevertResult extends TemplateChangeSet {
+  revertedSnapshot: TemplateSnapshot;
+}
+
+interface PendingChange {
+  file: string;
+  before?: Buffer;
+  after?: Buffer;
+}
+
+// Collects a template change in memory and writes it all or nothing: every file lands beside its target
+// first and is renamed into place only once all of them, and the snapshot, were written. When a rename or
+// deletion fails, the files already changed are put back
+export class TemplateTransaction {
+  // Relative path -> staged content; undefined stages a deletion
+  private staged: Map<string, Buffer | undefined> = new Map();
+
+  constructor(private readonly templatePath: string) {}
+
+  // Staged content, or the file on disk when this transaction has not touched it
+  public async read(file: string): Promise<string | undefined> {
+    const content = this.staged.has(file) ? this.staged.get(file) : await this.readFromDisk(file);
+    return content?.toString('utf8');
+  }
+
+  public write(file: string, content: string | Buffer): void {
+    this.staged.set(file, typeof content === 'string' ? Buffer.from(content, 'utf8') : content);
+  }
+
+  public remove(file: string): void {
+    this.staged.set(file, undefined);
+  }
+
+  public async commit(
+    snapshots: TemplateSnapshotStore,
+    label: string,
+    options: TemplateApplyOptions & { reason?: SnapshotReason } = {}
+  ): Promise<TemplateChangeSet> {
+    const preview = options.preview ?? false;
+    const changes: PendingChange[] = [];
+    for (const [file, after] of this.staged) {
+      const before = await this.readFromDisk(file);
+      if (before === undefined ? after !== undefined : after === undefined || !before.equals(after)) {
+        changes.push({ file, before, after });
+      }
+    }
+
+    const files = changes.map(change => this.describeChange(change, preview));
+    const result: TemplateChangeSet = {
+      templatePath: path.resolve(this.templatePath),
+      preview,
+      changed: files.length > 0,
+      files,
+      diff: files.map(file => file.diff).join('')
+    };
+    if (preview || changes.length === 0) return result;
+
+    const written: { change: PendingChange; temporary: string; target: string }[] = [];
+    try {
+      for (const change of changes) {
+        if (change.after === undefined) continue;
+        const target = this.resolve(change.file);
+        const temporary = `${target}.${randomBytes(4).toString('hex')}.tmp`;
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        written.push({ change, temporary, target });
+        await fs.writeFile(temporary, change.after);
+      }
+
+      if (options.snapshot !== false) {
+        result.snapshot = await snapshots.save(
+          this.templatePath,
+          changes.map(change => ({ file: change.file, content: change.before })),
+          options.reason ?? 'apply',
+          label
+        );
+      }
+    } catch (error) {
+      // Nothing was renamed yet, so dropping the temporary files leaves the template as it was
+      await Promise.all(written.map(({ temporary }) => fs.rm(temporary, { force: true })));
+      throw error;
+    }
+
+    const applied: PendingChange[] = [];
+    try {
+      for (const { change, temporary, target } of written) {
+        await fs.rename(temporary, target);
+        applied.push(change);
+      }
+      for (const change of changes.filter(change => change.after === undefined)) {
+        await fs.rm(this.resolve(change.file), { force: true });
+        applied.push(change);
+      }
+    } catch (error) {
+      await Promise.all(written.map(({ temporary }) => fs.rm(temporary, { force: true })));
+      await this.restore(applied, error, result.snapshot);
+      throw error;
+    }
+
+    return result;
+  }
+
+  // Put back the files a failed commit already changed, from the contents read before it
+  private async restore(applied: PendingChange[], cause: unknown, snapshot?: TemplateSnapshot): Promise<void> {
+    for (const change of applied.reverse()) {
+      const target = this.resolve(change.file);
+      try {
+        if (change.before === undefined) {
+          await fs.rm(target, { force: true });
+        } else {
+          await fs.writeFile(target, change.before);
+        }
+      } catch (error) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        const hint = snapshot ? `; restore it with revert-template and snapshot ${snapshot.id}` : '';
+        throw new Error(`The template change failed (${reason}) and ${change.file} could not be put back${hint}`);
+      }
+    }
+  }
+
+  private describeChange(change: PendingChange, preview: boolean): TemplateFileChange {
+    const action = change.before === undefined ? 'create' : change.after === undefined ? 'delete' : 'modify';
+    // A NUL byte marks binary content such as a thumbnail, which a text diff cannot show
+    const binary = [change.before, change.after].some(content => content?.includes(0));
+    return {
+      file: change.file,
+      action,
+      diff: binary
+        ? `Binary file ${change.file}: ${action} (${change.before?.length ?? 0} -> ${change.after?.length ?? 0} bytes)\n`
+        : createTwoFilesPatch(
+          change.file,
+          change.file,
+          change.before?.toString('utf8') ?? '',
+          change.after?.toString('utf8') ?? '',
+          'original',
+          preview ? 'template (preview)' : 'template'
+        )
+    };
+  }
+
+  private async readFromDisk(file: string): Promise<Buffer | undefined> {
+    const filePath = this.resolve(file);
+    return await pathExists(filePath) ? fs.readFile(filePath) : undefined;
+  }
+
+  private resolve(file: string): string {
+    return path.join(this.templatePath, ...file.split('/'));
+  }
+}
+
+// Puts back the files a snapshot recorded, the newest "apply" snapshot of the template when no id is given.
+// The revert itself is snapshotted, so it can be undone by reverting to that snapshot
+export async function revertTemplate(
+  templatePath: string,
+  snapshots: TemplateSnapshotStore,
+  options: { snapshotId?: string; preview?: boolean } = {}
+): Promise<TemplateRevertResult> {
+  const snapshot = options.snapshotId
+    ? await snapshots.get(options.snapshotId)
+    : (await snapshots.list(templatePath)).find(candidate => candidate.reason === 'apply');
+  if (!snapshot) {
+    throw new Error(`No template snapshots for ${path.resolve(templatePath)}`);
+  }
+  if (snapshot.templatePath !== path.resolve(templatePath)) {
+    throw new Error(`Snapshot ${snapshot.id} belongs to ${snapshot.templatePath}, not ${path.resolve(templatePath)}`);
+  }
+
+  const transaction = new TemplateTransaction(templatePath);
+  for (const { file, existed } of snapshot.files) {
+    if (existed) {
+      const content = await snapshots.readFile(snapshot, file);
+      if (content === undefined) throw new Error(`Snapshot ${snapshot.id} has no copy of ${file}`);
+      transaction.write(file, content);
+    } else {
+      transaction.remove(file);
+    }
+  }
+
+  const changeSet = await transaction.commit(snapshots, `revert to ${snapshot.id}`, { preview: options.preview, reason: 'revert' });
+  return { ...changeSet, revertedSnapshot: snapshot };
+}
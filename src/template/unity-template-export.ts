@@ -0,0 +1,116 @@
+import * as zlib from 'zlib';
+import type { GrokadeTemplateConfig } from './grokade-template-manager';
+
+// Unity fills the {{{ }}} macros and evaluates the #if lines when it builds with this template
+export const UNITY_TEMPLATE_SHELL = `<!DOCTYPE html>
+<html lang="en-us">
+  <head>
+    <meta charset="utf-8">
+    <title>{{{ PRODUCT_NAME }}}</title>
+  </head>
+  <body>
+    <div id="gameContainer">
+      <canvas id="unity-canvas" width="{{{ WIDTH }}}" height="{{{ HEIGHT }}}" tabindex="-1"></canvas>
+    </div>
+    <script>
+      var canvas = document.querySelector("#unity-canvas");
+      var buildUrl = "Build";
+      var config = {
+        dataUrl: buildUrl + "/{{{ DATA_FILENAME }}}",
+        frameworkUrl: buildUrl + "/{{{ FRAMEWORK_FILENAME }}}",
+        codeUrl: buildUrl + "/{{{ CODE_FILENAME }}}",
+#if MEMORY_FILENAME
+        memoryUrl: buildUrl + "/{{{ MEMORY_FILENAME }}}",
+#endif
+#if SYMBOLS_FILENAME
+        symbolsUrl: buildUrl + "/{{{ SYMBOLS_FILENAME }}}",
+#endif
+        streamingAssetsUrl: "StreamingAssets",
+        companyName: {{{ JSON.stringify(COMPANY_NAME) }}},
+        productName: {{{ JSON.stringify(PRODUCT_NAME) }}},
+        productVersion: {{{ JSON.stringify(PRODUCT_VERSION) }}}
+      };
+
+      var script = document.createElement("script");
+      script.src = buildUrl + "/{{{ LOADER_FILENAME }}}";
+      script.onload = function () {
+        createUnityInstance(canvas, config).catch(function (message) {
+          alert(message);
+        });
+      };
+      document.body.appendChild(script);
+    </script>
+  </body>
+</html>
+`;
+
+// An option Unity's Player settings can switch without exporting the template again
+export interface UnityTemplateToggle {
+  // Custom template variable, shown in the Player settings under Resolution and Presentation
+  variable: string;
+  description: string;
+  // Template blocks the variable wraps in #if
+  blocks: string[];
+  enabled(config: GrokadeTemplateConfig): boolean;
+}
+
+export const UNITY_TEMPLATE_TOGGLES: UnityTemplateToggle[] = [
+  {
+    variable: 'GROKADE_LOADING',
+    description: 'Loading container and progress bar',
+    blocks: ['loading-container', 'loading-progress'],
+    enabled: config => Boolean(config.showLoadingBar || config.showLoadingText)
+  },
+  {
+    variable: 'GROKADE_MOBILE',
+    description: 'Mobile viewport and fullscreen on first touch',
+    blocks: ['viewport', 'mobile'],
+    enabled: config => Boolean(config.mobileOptimized)
+  }
+];
+
+// Unset variables are empty strings, so an empty value keeps the exported default and "on"/"off" override it
+export function toggleDirective(toggle: UnityTemplateToggle, config: GrokadeTemplateConfig): string {
+  return toggle.enabled(config) ? `#if ${toggle.variable} !== "off"` : `#if ${toggle.variable} === "on"`;
+}
+
+// Unity shows thumbnail.png at 128x128 in the template picker
+export function createPlaceholderThumbnail(color: string | undefined, size = 128): Buffer {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color ?? '');
+  const rgb = match ? match.slice(1).map(channel => parseInt(channel, 16)) : [0x20, 0x20, 0x20];
+
+  // Each row is a filter byte (0, none) and then RGB pixels
+  const row = Buffer.concat([Buffer.from([0]), Buffer.from(Array.from({ length: size }, () => rgb).flat())]);
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(Buffer.concat(Array.from({ length: size }, () => row)))),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}